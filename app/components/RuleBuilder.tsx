@@ -0,0 +1,962 @@
+/**
+ * RuleBuilder.tsx
+ *
+ * The rule form shared by the "new rule" gallery (app.rules.new.tsx) and the edit page
+ * (app.rules.$id.edit.tsx): name, nested AND / OR conditions, tag (or tag template),
+ * target, expiry, exclusive group, schedule, exclusions and marketing sync. Conditions can also be edited as
+ * text on the "Advanced" tab (RuleDslEditor, see rule-dsl.ts).
+ *
+ *   const builder = useRuleBuilder(initialValues);
+ *   <RuleBuilderFields builder={builder} groupedRules={…} … />
+ *   submit(builder.toFormData(), { method: "post" });
+ *
+ * Route actions read the submitted form back with parseRuleForm().
+ */
+import { useState } from "react";
+import { isConditionGroup, flattenConditions, mapConditionLeaves, isRelativeDateOperator } from "../services/condition-tree";
+import { isTagTemplate, getTemplateFields, renderTagTemplate, validateTagTemplate } from "../services/tag-template";
+import { WEEKDAY_LABELS, isScheduleDate, parseScheduleDays, hasSchedule, describeSchedule } from "../services/rule-schedule";
+import { parseExclusionList, normalizeCustomerId, hasExclusions } from "../services/rule-exclusions";
+import RuleDslEditor from "./RuleDslEditor";
+import {
+    FormLayout, TextField, Select, Button, ButtonGroup, BlockStack, Text, InlineStack, Box, Checkbox, Tooltip, Tabs
+} from "@shopify/polaris";
+import { PlusIcon, DeleteIcon } from "@shopify/polaris-icons";
+
+// ─── Config ───────────────────────────────────────────────────────────────────
+
+const DATE_OPERATORS = [
+    { label: "More than N days ago", value: "moreThanDaysAgo" },
+    { label: "Within the last N days", value: "withinLastDays" },
+    { label: "Between N and M days ago", value: "betweenDaysAgo" },
+    { label: "Before (fixed date)", value: "isBefore" },
+    { label: "After (fixed date)", value: "isAfter" },
+];
+
+const CUSTOMER_FIELDS = [
+    { label: "Total Spent ($)", value: "totalSpent", type: "number", placeholder: "1000" },
+    { label: "Number of Orders", value: "orderCount", type: "number", placeholder: "5" },
+    { label: "Average Order Value ($)", value: "averageOrderValue", type: "number", placeholder: "75" },
+    { label: "Last Order Date", value: "lastOrderDate", type: "date" },
+    { label: "First Order Date", value: "firstOrderDate", type: "date" },
+    { label: "Customer Created Date", value: "shopifyCreatedAt", type: "date" },
+    { label: "Email Domain (gmail.com…)", value: "emailDomain", type: "string", placeholder: "gmail.com", hint: "Domain only, without @. E.g.: gmail.com, acme.com" },
+    { label: "Country (US, UK, BD…)", value: "country", type: "string", placeholder: "US", hint: "2-letter ISO code of the default address. E.g.: US, UK, BD" },
+    { label: "Province / State", value: "province", type: "string", placeholder: "CA", hint: "Province or state code of the default address. E.g.: CA, NY, ON" },
+    { label: "Accepts Email Marketing (true / false)", value: "acceptsMarketing", type: "boolean", placeholder: "true", hint: "Enter: true — subscribed to email marketing, false — not subscribed" },
+    { label: "Language / Locale", value: "locale", type: "string", placeholder: "en", hint: "E.g.: en, fr, de-CH" },
+    { label: "Customer Tags", value: "tags", type: "tags", placeholder: "Wholesale", hint: "A single existing customer tag (not case-sensitive)" },
+];
+
+const getCustomerFieldType = (field: string) => CUSTOMER_FIELDS.find(f => f.value === field)?.type || "number";
+
+const getMetricOps = (field: string) => {
+    const type = getCustomerFieldType(field);
+    if (type === "date") return DATE_OPERATORS;
+    if (type === "tags") return [{ label: "Has tag", value: "hasTag" }, { label: "Does not have tag", value: "doesNotHaveTag" }];
+    if (type === "boolean") return [{ label: "Equals (=)", value: "equals" }];
+    if (type === "string") return [{ label: "Exactly equals", value: "equals" }, { label: "Does not equal", value: "notEquals" }, { label: "Contains", value: "contains" }];
+    return [{ label: "Greater than (>)", value: "greaterThan" }, { label: "Less than (<)", value: "lessThan" }, { label: "Equals (=)", value: "equals" }];
+};
+
+const ORDER_FIELDS = [
+    { label: "Traffic Source (facebook, tiktok, google…)", value: "order_source" },
+    { label: "Payment Method (paypal, stripe, cod…)", value: "payment_method" },
+    { label: "Shipping City", value: "shipping_city" },
+    { label: "Shipping Country (US, UK, BD…)", value: "shipping_country" },
+    { label: "Total Item Quantity", value: "order_item_count" },
+    { label: "Order Subtotal ($)", value: "order_subtotal" },
+    { label: "Discount Code Used? (true / false)", value: "discount_code_used" },
+    { label: "Specific Discount Code", value: "discount_code_value" },
+    { label: "Discount Percentage Applied (%)", value: "discount_percentage" },
+    { label: "Pre-Order Customer (true / false)", value: "is_preorder" },
+    { label: "Product ID", value: "product_id" },
+    { label: "Variant SKU", value: "product_sku" },
+    { label: "Product Vendor", value: "product_vendor" },
+    { label: "Product Type", value: "product_type" },
+    { label: "Product Tag", value: "product_tag" },
+    { label: "Product Collection (ID, handle or title)", value: "product_collection" },
+];
+
+// Example data for the tag template preview (see tag-template.ts)
+const TEMPLATE_PREVIEW_VALUES: Record<string, unknown> = {
+    totalSpent: 640, orderCount: 4, averageOrderValue: 160,
+    lastOrderDate: "2026-09-14", firstOrderDate: "2025-03-02", shopifyCreatedAt: "2025-02-27",
+    emailDomain: "gmail.com", country: "US", province: "CA", acceptsMarketing: true, locale: "en",
+    order_source: "facebook", payment_method: "shopify_payments", shipping_city: "Austin", shipping_country: "US",
+    order_item_count: 3, order_subtotal: 120, discount_code_used: true, discount_code_value: "WELCOME10", discount_percentage: 10, is_preorder: false,
+};
+
+// Order fields evaluated per line item (see LINE_ITEM_FIELDS in order-rules.server.ts)
+const LINE_ITEM_FIELD_VALUES = ["product_id", "product_sku", "product_vendor", "product_type", "product_tag", "product_collection"];
+
+const getOps = (field: string) => {
+    if (["order_item_count", "order_subtotal", "discount_percentage"].includes(field))
+        return [{ label: "Greater than (>)", value: "greaterThan" }, { label: "Less than (<)", value: "lessThan" }, { label: "Equals (=)", value: "equals" }];
+    if (["discount_code_used", "is_preorder"].includes(field))
+        return [{ label: "Equals (=)", value: "equals" }];
+    if (LINE_ITEM_FIELD_VALUES.includes(field))
+        return [{ label: "Exactly equals", value: "equals" }, { label: "Contains", value: "contains" }, { label: "Does not equal", value: "notEquals" }];
+    return [{ label: "Contains", value: "contains" }, { label: "Exactly equals", value: "equals" }];
+};
+
+// Purchase-history aggregates (see purchase-history.server.ts)
+const HISTORY_AGGREGATE_OPTIONS = [
+    { label: "Number of orders", value: "count" },
+    { label: "Sum over orders", value: "sum" },
+    { label: "Number of different months", value: "distinctMonths" },
+    { label: "Share of all orders (%)", value: "ratio" },
+];
+
+const HISTORY_SUM_OPTIONS = [
+    { label: "Order subtotal ($)", value: "order_subtotal" },
+    { label: "Item quantity", value: "order_item_count" },
+];
+
+const HISTORY_OPERATORS = [
+    { label: "At least (≥)", value: "atLeast" },
+    { label: "At most (≤)", value: "atMost" },
+    { label: "Greater than (>)", value: "greaterThan" },
+    { label: "Less than (<)", value: "lessThan" },
+    { label: "Equals (=)", value: "equals" },
+];
+
+export const DEFAULT_METRIC_CONDITION = { ruleCategory: "metric", field: "totalSpent", operator: "greaterThan", value: "" };
+const DEFAULT_ORDER_CONDITION = { ruleCategory: "order", field: "order_source", operator: "contains", value: "" };
+
+// Path of indexes from the root condition list down to a node, e.g. [1, 0] = first child of the second root entry
+type NodePath = number[];
+
+// Immutably replace (or remove, when update returns null) the node at `path`
+const updateNodeAtPath = (nodes: any[], path: NodePath, update: (node: any) => any | null): any[] => {
+    const [head, ...rest] = path;
+    return nodes.flatMap((node, i) => {
+        if (i !== head) return [node];
+        if (rest.length === 0) {
+            const next = update(node);
+            return next ? [next] : [];
+        }
+        return [{ ...node, conditions: updateNodeAtPath(node.conditions, rest, update) }];
+    });
+};
+
+// Normalize AI output (which may contain nested groups) into the builder's shape
+export const normalizeConditionNodes = (nodes: any[]): any[] => nodes.map((c: any) => isConditionGroup(c)
+    ? { type: "group", matchType: c.matchType === "ANY" ? "ANY" : "ALL", conditions: normalizeConditionNodes(c.conditions) }
+    : {
+        ruleCategory: c.ruleCategory || "metric",
+        field: c.field || "totalSpent",
+        operator: c.operator || "greaterThan",
+        value: String(c.value || ""),
+        ...(c.itemMatch === "all" ? { itemMatch: "all" } : {}),
+        ...(c.ruleCategory === "history" && c.sumField ? { sumField: c.sumField } : {}),
+        ...(c.ruleCategory === "history" && c.filter?.field ? {
+            filter: {
+                field: c.filter.field,
+                operator: c.filter.operator || "equals",
+                value: String(c.filter.value || ""),
+                ...(c.filter.itemMatch === "all" ? { itemMatch: "all" } : {})
+            }
+        } : {})
+    });
+
+const getHint = (field: string) => ({
+    order_source: "Use lowercase. E.g.: facebook, tiktok, instagram, google",
+    payment_method: "Shopify gateway name. E.g.: paypal, cash_on_delivery, stripe",
+    shipping_country: "2-letter ISO code. E.g.: US, UK, BD, AU, CA",
+    discount_code_used: "Enter: true — to match orders WITH a code, false — without",
+    is_preorder: "Enter: true — to match pre-order orders",
+    discount_code_value: "Partial match supported. E.g.: SAVE15 or SUMMER",
+    product_id: "Numeric product ID from the product URL. E.g.: 8123456789",
+    product_sku: "Variant SKU. Use Contains for a SKU prefix, e.g. BUNDLE-",
+    product_tag: "A single product tag. Not case-sensitive",
+    product_collection: "Collection ID, handle (e.g. summer-sale) or exact title",
+} as any)[field] || "";
+
+// ─── Form State ───────────────────────────────────────────────────────────────
+
+export type RuleBuilderValues = {
+    name: string;
+    targetTag: string;
+    targetEntity: string;
+    matchType: string;
+    exclusiveGroup: string;
+    groupPriority: string;
+    expireAfterDays: string;
+    // Schedule window (see rule-schedule.ts); hours as "" or "0"–"24", days as "5,6"
+    scheduleStartDate: string;
+    scheduleEndDate: string;
+    scheduleDays: string;
+    scheduleStartHour: string;
+    scheduleEndHour: string;
+    // Exclusion lists (see rule-exclusions.ts), comma-separated
+    excludeCustomerIds: string;
+    excludeEmailPatterns: string;
+    excludeTags: string;
+    syncToKlaviyo: boolean;
+    syncToMailchimp: boolean;
+    conditions: any[];
+};
+
+export const EMPTY_RULE_VALUES: RuleBuilderValues = {
+    name: "",
+    targetTag: "",
+    targetEntity: "customer",
+    matchType: "ALL",
+    exclusiveGroup: "",
+    groupPriority: "0",
+    expireAfterDays: "",
+    scheduleStartDate: "",
+    scheduleEndDate: "",
+    scheduleDays: "",
+    scheduleStartHour: "",
+    scheduleEndHour: "",
+    excludeCustomerIds: "",
+    excludeEmailPatterns: "",
+    excludeTags: "",
+    syncToKlaviyo: false,
+    syncToMailchimp: false,
+    conditions: [{ ...DEFAULT_METRIC_CONDITION }]
+};
+
+// Form values of a saved rule (edit page)
+export function ruleToBuilderValues(rule: {
+    name: string; targetTag: string; targetEntity: string; matchType: string; conditions: string;
+    exclusiveGroup: string | null; groupPriority: number; expireAfterDays: number | null;
+    scheduleStartDate: string | null; scheduleEndDate: string | null; scheduleDays: string | null;
+    scheduleStartHour: number | null; scheduleEndHour: number | null;
+    excludeCustomerIds: string | null; excludeEmailPatterns: string | null; excludeTags: string | null;
+    syncToKlaviyo: boolean; syncToMailchimp: boolean;
+}): RuleBuilderValues {
+    let conditions: any[] = [];
+    try { conditions = normalizeConditionNodes(JSON.parse(rule.conditions)); } catch { /* fall back to an empty condition */ }
+    return {
+        name: rule.name,
+        targetTag: rule.targetTag,
+        targetEntity: rule.targetEntity,
+        matchType: rule.matchType,
+        exclusiveGroup: rule.exclusiveGroup || "",
+        groupPriority: String(rule.groupPriority),
+        expireAfterDays: rule.expireAfterDays ? String(rule.expireAfterDays) : "",
+        scheduleStartDate: rule.scheduleStartDate || "",
+        scheduleEndDate: rule.scheduleEndDate || "",
+        scheduleDays: rule.scheduleDays || "",
+        scheduleStartHour: rule.scheduleStartHour === null ? "" : String(rule.scheduleStartHour),
+        scheduleEndHour: rule.scheduleEndHour === null ? "" : String(rule.scheduleEndHour),
+        excludeCustomerIds: rule.excludeCustomerIds || "",
+        excludeEmailPatterns: rule.excludeEmailPatterns || "",
+        excludeTags: rule.excludeTags || "",
+        syncToKlaviyo: rule.syncToKlaviyo,
+        syncToMailchimp: rule.syncToMailchimp,
+        conditions: conditions.length > 0 ? conditions : [{ ...DEFAULT_METRIC_CONDITION }]
+    };
+}
+
+export function useRuleBuilder(initial: RuleBuilderValues = EMPTY_RULE_VALUES) {
+    const [values, setValues] = useState<RuleBuilderValues>(initial);
+    const update = (patch: Partial<RuleBuilderValues>) => setValues(current => ({ ...current, ...patch }));
+    const hasOrderLeaves = flattenConditions(values.conditions).some((c: any) => c.ruleCategory === "order");
+
+    const toFormData = () => {
+        const fd = new FormData();
+        fd.append("name", values.name);
+        fd.append("targetTag", values.targetTag.trim());
+        fd.append("targetEntity", values.targetEntity);
+        fd.append("matchType", values.matchType);
+        fd.append("conditionsJson", JSON.stringify(values.conditions));
+        fd.append("syncToKlaviyo", values.syncToKlaviyo.toString());
+        fd.append("syncToMailchimp", values.syncToMailchimp.toString());
+        fd.append("exclusiveGroup", values.exclusiveGroup.trim());
+        fd.append("groupPriority", values.groupPriority);
+        // Only order rules expire (see tag-expiry.server.ts)
+        if (hasOrderLeaves) fd.append("expireAfterDays", values.expireAfterDays);
+        fd.append("scheduleStartDate", values.scheduleStartDate);
+        fd.append("scheduleEndDate", values.scheduleEndDate);
+        fd.append("scheduleDays", values.scheduleDays);
+        fd.append("scheduleStartHour", values.scheduleStartHour);
+        fd.append("scheduleEndHour", values.scheduleEndHour);
+        fd.append("excludeCustomerIds", values.excludeCustomerIds);
+        fd.append("excludeEmailPatterns", values.excludeEmailPatterns);
+        fd.append("excludeTags", values.excludeTags);
+        return fd;
+    };
+
+    return { values, update, reset: setValues, hasOrderLeaves, toFormData };
+}
+
+export type RuleBuilder = ReturnType<typeof useRuleBuilder>;
+
+export type ParsedRuleForm = {
+    name: string;
+    description: string;
+    conditions: string;
+    matchType: string;
+    targetTag: string;
+    targetEntity: string;
+    exclusiveGroup: string | null;
+    groupPriority: number;
+    expireAfterDays: number | null;
+    scheduleStartDate: string | null;
+    scheduleEndDate: string | null;
+    scheduleDays: string | null;
+    scheduleStartHour: number | null;
+    scheduleEndHour: number | null;
+    excludeCustomerIds: string | null;
+    excludeEmailPatterns: string | null;
+    excludeTags: string | null;
+    syncToKlaviyo: boolean;
+    syncToMailchimp: boolean;
+};
+
+// Schedule fields of a submitted form; empty fields mean "no limit"
+function parseScheduleForm(fd: FormData): { data: Pick<ParsedRuleForm, "scheduleStartDate" | "scheduleEndDate" | "scheduleDays" | "scheduleStartHour" | "scheduleEndHour"> } | { error: string } {
+    const startDate = ((fd.get("scheduleStartDate") as string) || "").trim();
+    const endDate = ((fd.get("scheduleEndDate") as string) || "").trim();
+    const days = parseScheduleDays(fd.get("scheduleDays") as string);
+    const hour = (key: string) => {
+        const value = ((fd.get(key) as string) || "").trim();
+        return value === "" ? null : parseInt(value, 10);
+    };
+    const startHour = hour("scheduleStartHour");
+    const endHour = hour("scheduleEndHour");
+
+    if ((startDate && !isScheduleDate(startDate)) || (endDate && !isScheduleDate(endDate))) return { error: "Schedule dates must be valid dates (YYYY-MM-DD)." };
+    if (startDate && endDate && endDate < startDate) return { error: "The schedule's end date is before its start date." };
+    if ((startHour !== null && !(startHour >= 0 && startHour <= 23)) || (endHour !== null && !(endHour >= 1 && endHour <= 24))) {
+        return { error: "Schedule hours must be between 00:00 and 24:00." };
+    }
+
+    return {
+        data: {
+            scheduleStartDate: startDate || null,
+            scheduleEndDate: endDate || null,
+            // Every weekday is the same as no weekday limit
+            scheduleDays: days.length > 0 && days.length < 7 ? days.join(",") : null,
+            scheduleStartHour: startHour,
+            scheduleEndHour: endHour
+        }
+    };
+}
+
+// Exclusion lists of a submitted form, stored comma-separated; empty lists are null
+function parseExclusionsForm(fd: FormData): { data: Pick<ParsedRuleForm, "excludeCustomerIds" | "excludeEmailPatterns" | "excludeTags"> } | { error: string } {
+    const list = (key: string) => parseExclusionList(fd.get(key) as string);
+    const customerIds = list("excludeCustomerIds").map(normalizeCustomerId);
+    const emailPatterns = list("excludeEmailPatterns");
+    const tags = list("excludeTags");
+
+    if (customerIds.some(id => !/^\d+$/.test(id))) return { error: "Excluded customer IDs must be Shopify customer IDs, e.g. 6100000001." };
+    if (emailPatterns.some(p => p.includes(" "))) return { error: "Excluded email patterns can't contain spaces." };
+
+    const join = (values: string[]) => values.length > 0 ? values.join(",") : null;
+    return { data: { excludeCustomerIds: join(customerIds), excludeEmailPatterns: join(emailPatterns), excludeTags: join(tags) } };
+}
+
+/**
+ * Read a submitted builder form (see toFormData) into Rule fields.
+ */
+export function parseRuleForm(fd: FormData): { data: ParsedRuleForm } | { error: string } {
+    const name = fd.get("name") as string;
+    const targetTag = fd.get("targetTag") as string;
+    const targetEntity = (fd.get("targetEntity") as string) || "customer";
+    const matchType = (fd.get("matchType") as string) || "ALL";
+    const conditionsJson = fd.get("conditionsJson") as string;
+    const exclusiveGroup = (fd.get("exclusiveGroup") as string)?.trim() || null;
+    const groupPriority = parseInt(fd.get("groupPriority") as string) || 0;
+    const expireAfterDays = parseInt(fd.get("expireAfterDays") as string) > 0 ? parseInt(fd.get("expireAfterDays") as string) : null;
+
+    if (!name?.trim() || !targetTag?.trim()) return { error: "Rule name and tag are required." };
+    const templateError = validateTagTemplate(targetTag);
+    if (templateError) return { error: templateError };
+
+    const schedule = parseScheduleForm(fd);
+    if ("error" in schedule) return { error: schedule.error };
+    const exclusions = parseExclusionsForm(fd);
+    if ("error" in exclusions) return { error: exclusions.error };
+
+    let conditions: any[] = [];
+    try {
+        if (conditionsJson) {
+            conditions = JSON.parse(conditionsJson);
+            // Ensure numbers are converted if needed for metrics (inside nested groups too)
+            conditions = mapConditionLeaves(conditions, (c: any) => {
+                if (c.ruleCategory === "metric" && getCustomerFieldType(c.field) === "number") {
+                    return { ...c, value: Number(c.value) };
+                }
+                return c;
+            });
+        }
+    } catch (e) { return { error: "Invalid conditions structure" }; }
+
+    return {
+        data: {
+            name, targetTag, targetEntity, matchType,
+            description: `${flattenConditions(conditions).length} condition(s) specified.`,
+            conditions: JSON.stringify(conditions),
+            exclusiveGroup, groupPriority, expireAfterDays,
+            ...schedule.data,
+            ...exclusions.data,
+            syncToKlaviyo: fd.get("syncToKlaviyo") === "true",
+            syncToMailchimp: fd.get("syncToMailchimp") === "true"
+        }
+    };
+}
+
+// ─── Fields ───────────────────────────────────────────────────────────────────
+
+type RuleBuilderFieldsProps = {
+    builder: RuleBuilder;
+    // Existing exclusive group members, highest priority first
+    groupedRules: { exclusiveGroup: string | null; targetTag: string; groupPriority: number }[];
+    klaviyoConnected: boolean;
+    mailchimpConnected: boolean;
+    // Store.timezone, which schedules run in
+    timezone?: string | null;
+};
+
+const START_HOUR_OPTIONS = [{ label: "Any time", value: "" }, ...Array.from({ length: 24 }, (_, h) => ({ label: `${String(h).padStart(2, "0")}:00`, value: String(h) }))];
+const END_HOUR_OPTIONS = [{ label: "End of day", value: "" }, ...Array.from({ length: 24 }, (_, h) => ({ label: `${String(h + 1).padStart(2, "0")}:00`, value: String(h + 1) }))];
+
+// Builder values as a RuleSchedule (see rule-schedule.ts)
+const toSchedule = (values: RuleBuilderValues) => ({
+    scheduleStartDate: values.scheduleStartDate || null,
+    scheduleEndDate: values.scheduleEndDate || null,
+    scheduleDays: values.scheduleDays || null,
+    scheduleStartHour: values.scheduleStartHour === "" ? null : Number(values.scheduleStartHour),
+    scheduleEndHour: values.scheduleEndHour === "" ? null : Number(values.scheduleEndHour)
+});
+
+export default function RuleBuilderFields({ builder, groupedRules, klaviyoConnected, mailchimpConnected, timezone }: RuleBuilderFieldsProps) {
+    const { name, targetTag, targetEntity, matchType, exclusiveGroup, groupPriority, expireAfterDays, syncToKlaviyo, syncToMailchimp, conditions } = builder.values;
+    const { hasOrderLeaves } = builder;
+    const setName = (value: string) => builder.update({ name: value });
+    const setTargetTag = (value: string) => builder.update({ targetTag: value });
+    const setTargetEntity = (value: string) => builder.update({ targetEntity: value });
+    const setMatchType = (value: string) => builder.update({ matchType: value });
+    const setExclusiveGroup = (value: string) => builder.update({ exclusiveGroup: value });
+    const setGroupPriority = (value: string) => builder.update({ groupPriority: value });
+    const setExpireAfterDays = (value: string) => builder.update({ expireAfterDays: value });
+    const setSyncToKlaviyo = (value: boolean) => builder.update({ syncToKlaviyo: value });
+    const setSyncToMailchimp = (value: boolean) => builder.update({ syncToMailchimp: value });
+    const setConditions = (value: any[]) => builder.update({ conditions: value });
+    const [conditionsTab, setConditionsTab] = useState(0);
+    const schedule = toSchedule(builder.values);
+    const [showSchedule, setShowSchedule] = useState(false);
+    const scheduleOpen = showSchedule || hasSchedule(schedule);
+    const scheduleDays = parseScheduleDays(builder.values.scheduleDays);
+    const toggleSchedule = (checked: boolean) => {
+        setShowSchedule(checked);
+        if (!checked) builder.update({ scheduleStartDate: "", scheduleEndDate: "", scheduleDays: "", scheduleStartHour: "", scheduleEndHour: "" });
+    };
+    const toggleScheduleDay = (day: number) => builder.update({
+        scheduleDays: (scheduleDays.includes(day) ? scheduleDays.filter(d => d !== day) : [...scheduleDays, day]).sort().join(",")
+    });
+    const { excludeCustomerIds, excludeEmailPatterns, excludeTags } = builder.values;
+    const [showExclusions, setShowExclusions] = useState(false);
+    const exclusionsOpen = showExclusions || hasExclusions({ excludeCustomerIds, excludeEmailPatterns, excludeTags });
+    const toggleExclusions = (checked: boolean) => {
+        setShowExclusions(checked);
+        if (!checked) builder.update({ excludeCustomerIds: "", excludeEmailPatterns: "", excludeTags: "" });
+    };
+
+    // Append a node to the root list (empty path) or to the group at `groupPath`
+    const appendNode = (groupPath: NodePath, node: any) => {
+        if (groupPath.length === 0) {
+            setConditions([...conditions, node]);
+        } else {
+            setConditions(updateNodeAtPath(conditions, groupPath, group => ({ ...group, conditions: [...group.conditions, node] })));
+        }
+    };
+
+    const addCondition = (groupPath: NodePath = []) => appendNode(groupPath, { ...DEFAULT_ORDER_CONDITION });
+
+    const addGroup = (groupPath: NodePath = []) => appendNode(groupPath, {
+        type: "group",
+        matchType: "ALL",
+        conditions: [{ ...DEFAULT_METRIC_CONDITION }]
+    });
+
+    const updateCondition = (path: NodePath, key: string, val: string) => {
+        setConditions(updateNodeAtPath(conditions, path, cond => {
+            const next = { ...cond, [key]: val };
+            // Auto-fix operator on field switch
+            if (key === "field") {
+                if (!LINE_ITEM_FIELD_VALUES.includes(val)) delete next.itemMatch;
+                if (next.ruleCategory === "metric") {
+                    next.operator = getMetricOps(val)[0].value;
+                } else {
+                    next.operator = getOps(val)[0]?.value || "contains";
+                }
+            }
+            if (key === "ruleCategory") {
+                delete next.itemMatch;
+                delete next.filter;
+                delete next.sumField;
+                if (val === "metric") { next.field = "totalSpent"; next.operator = "greaterThan"; }
+                else if (val === "history") { next.field = "count"; next.operator = "atLeast"; }
+                else { next.field = "order_source"; next.operator = "contains"; }
+            }
+            return next;
+        }));
+    };
+
+    // Edit the "only count orders where …" filter of a purchase-history condition.
+    // Choosing no field removes the filter (aggregate over all orders).
+    const updateHistoryFilter = (path: NodePath, key: string, val: string) => {
+        setConditions(updateNodeAtPath(conditions, path, cond => {
+            if (key === "field" && !val) {
+                const rest = { ...cond };
+                delete rest.filter;
+                return rest;
+            }
+            const filter = { field: "", operator: "equals", value: "", ...cond.filter, [key]: val };
+            if (key === "field") {
+                filter.operator = getOps(val)[0]?.value || "contains";
+                if (!LINE_ITEM_FIELD_VALUES.includes(val)) delete filter.itemMatch;
+            }
+            return { ...cond, filter };
+        }));
+    };
+
+    const updateGroupMatchType = (path: NodePath, val: string) => {
+        setConditions(updateNodeAtPath(conditions, path, group => ({ ...group, matchType: val })));
+    };
+
+    const removeNode = (path: NodePath) => {
+        setConditions(updateNodeAtPath(conditions, path, () => null));
+    };
+
+    const metricFieldOptions = CUSTOMER_FIELDS.map(f => ({ label: f.label, value: f.value }));
+
+    // Tag templates: unknown placeholders never render, order fields only render for order rules
+    const isTemplate = isTagTemplate(targetTag);
+    const templateFields = isTemplate ? getTemplateFields(targetTag) : [];
+    const unknownTemplateFields = templateFields.filter(f =>
+        !CUSTOMER_FIELDS.some(c => c.value === f) && !(hasOrderLeaves && ORDER_FIELDS.some(o => o.value === f) && !LINE_ITEM_FIELD_VALUES.includes(f)));
+    const templatePreview = isTemplate ? renderTagTemplate(targetTag, TEMPLATE_PREVIEW_VALUES) : null;
+    const templateError = validateTagTemplate(targetTag);
+
+    // Members of the exclusive group typed in, highest priority first
+    const groupMembers = groupedRules.filter(r => r.exclusiveGroup?.toLowerCase() === exclusiveGroup.trim().toLowerCase());
+    const existingGroupNames = [...new Set(groupedRules.map(r => r.exclusiveGroup))];
+
+    const orderFieldOptions = ORDER_FIELDS.map(f => ({ label: f.label, value: f.value }));
+
+    // Recursively render a condition list. Groups get their own AND/OR selector and
+    // can hold further groups; `path` addresses each node for updates.
+    const renderConditionNodes = (nodes: any[], parentPath: NodePath) => nodes.map((cond, index) => {
+        const path = [...parentPath, index];
+        const canRemove = parentPath.length > 0 || nodes.length > 1;
+
+        if (isConditionGroup(cond)) {
+            return (
+                <div key={path.join("-")} style={{ padding: "12px", border: "1.5px dashed rgba(99,102,241,0.45)", borderRadius: "8px" }}>
+                    <BlockStack gap="300">
+                        <InlineStack align="space-between" blockAlign="center" wrap={false}>
+                            <Select
+                                label="Group"
+                                labelInline
+                                options={[
+                                    { label: "Match ALL in this group (AND)", value: "ALL" },
+                                    { label: "Match ANY in this group (OR)", value: "ANY" },
+                                ]}
+                                value={cond.matchType}
+                                onChange={v => updateGroupMatchType(path, v)}
+                            />
+                            {canRemove && (
+                                <Button size="micro" variant="tertiary" tone="critical" onClick={() => removeNode(path)} icon={DeleteIcon} accessibilityLabel="Remove group" />
+                            )}
+                        </InlineStack>
+                        {renderConditionNodes(cond.conditions, path)}
+                        <InlineStack gap="200">
+                            <Button size="slim" icon={PlusIcon} onClick={() => addCondition(path)}>
+                                {`Add ${cond.matchType === "ANY" ? "OR" : "AND"} Condition`}
+                            </Button>
+                            <Button size="slim" variant="tertiary" onClick={() => addGroup(path)}>Add Nested Group</Button>
+                        </InlineStack>
+                    </BlockStack>
+                </div>
+            );
+        }
+
+        const scopeSelect = (
+            <Select
+                label="Condition Scope"
+                options={[
+                    { label: "Customer Property", value: "metric" },
+                    { label: "Order Property", value: "order" },
+                    { label: "Purchase History (all orders)", value: "history" },
+                ]}
+                value={cond.ruleCategory}
+                onChange={v => updateCondition(path, "ruleCategory", v)}
+            />
+        );
+
+        if (cond.ruleCategory === "history") {
+            const filter = cond.filter || { field: "", operator: "equals", value: "" };
+            return (
+                <div key={path.join("-")} style={{ padding: "12px", background: "var(--p-color-bg-surface-secondary)", borderRadius: "8px", position: "relative" }}>
+                    {canRemove && (
+                        <div style={{ position: "absolute", top: "12px", right: "12px", zIndex: 2 }}>
+                            <Button size="micro" variant="tertiary" tone="critical" onClick={() => removeNode(path)} icon={DeleteIcon} />
+                        </div>
+                    )}
+                    <FormLayout>
+                        {scopeSelect}
+                        <FormLayout.Group>
+                            <Select
+                                label="Measure"
+                                options={HISTORY_AGGREGATE_OPTIONS}
+                                value={cond.field}
+                                onChange={v => updateCondition(path, "field", v)}
+                            />
+                            {cond.field === "sum" && (
+                                <Select
+                                    label="Sum of"
+                                    options={HISTORY_SUM_OPTIONS}
+                                    value={cond.sumField || "order_subtotal"}
+                                    onChange={v => updateCondition(path, "sumField", v)}
+                                />
+                            )}
+                            <Select
+                                label="Operator"
+                                options={HISTORY_OPERATORS}
+                                value={cond.operator}
+                                onChange={v => updateCondition(path, "operator", v)}
+                            />
+                            <TextField
+                                label="Value"
+                                value={cond.value}
+                                onChange={v => updateCondition(path, "value", v)}
+                                helpText={cond.field === "ratio" ? "Percentage of all the customer's orders, 0–100" : ""}
+                                placeholder={cond.field === "ratio" ? "50" : "3"}
+                                autoComplete="off"
+                            />
+                        </FormLayout.Group>
+                        <FormLayout.Group>
+                            <Select
+                                label="Only count orders where"
+                                options={[{ label: "Any order (no filter)", value: "" }, ...orderFieldOptions]}
+                                value={filter.field}
+                                onChange={v => updateHistoryFilter(path, "field", v)}
+                            />
+                            {filter.field && (
+                                <Select
+                                    label="Operator"
+                                    options={getOps(filter.field)}
+                                    value={filter.operator}
+                                    onChange={v => updateHistoryFilter(path, "operator", v)}
+                                />
+                            )}
+                            {filter.field && (
+                                <TextField
+                                    label="Value"
+                                    value={filter.value}
+                                    onChange={v => updateHistoryFilter(path, "value", v)}
+                                    helpText={getHint(filter.field)}
+                                    autoComplete="off"
+                                />
+                            )}
+                        </FormLayout.Group>
+                        {LINE_ITEM_FIELD_VALUES.includes(filter.field) && (
+                            <Select
+                                label="Line Items"
+                                options={[
+                                    { label: "Any line item matches", value: "any" },
+                                    { label: "All line items match", value: "all" },
+                                ]}
+                                value={filter.itemMatch || "any"}
+                                onChange={v => updateHistoryFilter(path, "itemMatch", v)}
+                            />
+                        )}
+                    </FormLayout>
+                </div>
+            );
+        }
+
+        const isMetric = cond.ruleCategory === "metric";
+        const customerField = isMetric ? CUSTOMER_FIELDS.find(f => f.value === cond.field) : undefined;
+        const isDateField = customerField?.type === "date";
+        const isRelative = isDateField && isRelativeDateOperator(cond.operator);
+        const ops = isMetric ? getMetricOps(cond.field) : getOps(cond.field);
+
+        return (
+            <div key={path.join("-")} style={{ padding: "12px", background: "var(--p-color-bg-surface-secondary)", borderRadius: "8px", position: "relative" }}>
+                {canRemove && (
+                    <div style={{ position: "absolute", top: "12px", right: "12px", zIndex: 2 }}>
+                        <Button size="micro" variant="tertiary" tone="critical" onClick={() => removeNode(path)} icon={DeleteIcon} />
+                    </div>
+                )}
+                <FormLayout>
+                    {scopeSelect}
+                    <FormLayout.Group>
+                        <Select
+                            label="Field"
+                            options={isMetric ? metricFieldOptions : orderFieldOptions}
+                            value={cond.field}
+                            onChange={v => updateCondition(path, "field", v)}
+                        />
+                        <Select
+                            label="Operator"
+                            options={ops}
+                            value={cond.operator}
+                            onChange={v => updateCondition(path, "operator", v)}
+                        />
+                        <TextField
+                            label={isDateField ? (isRelative ? "Days" : "Date (YYYY-MM-DD)") : "Value"}
+                            value={cond.value}
+                            onChange={v => updateCondition(path, "value", v)}
+                            helpText={!isMetric ? getHint(cond.field) : cond.operator === "betweenDaysAgo" ? "Two numbers, e.g. 30,90 — between 30 and 90 days ago" : isRelative ? "Re-calculated every time the rule runs" : customerField?.hint || ""}
+                            placeholder={isMetric ? (isDateField ? (cond.operator === "betweenDaysAgo" ? "30,90" : isRelative ? "90" : "2024-01-01") : customerField?.placeholder) : "e.g. facebook, true"}
+                            autoComplete="off"
+                        />
+                    </FormLayout.Group>
+                    {!isMetric && LINE_ITEM_FIELD_VALUES.includes(cond.field) && (
+                        <Select
+                            label="Line Items"
+                            options={[
+                                { label: "Any line item matches", value: "any" },
+                                { label: "All line items match", value: "all" },
+                            ]}
+                            value={cond.itemMatch || "any"}
+                            onChange={v => updateCondition(path, "itemMatch", v)}
+                        />
+                    )}
+                </FormLayout>
+            </div>
+        );
+    });
+
+
+    return (
+        <FormLayout>
+            <TextField
+                label="Rule Name"
+                value={name}
+                onChange={setName}
+                placeholder="e.g. High-value Customers"
+                autoComplete="off"
+            />
+            <Tabs
+                tabs={[
+                    { id: "conditions-builder", content: "Builder" },
+                    { id: "conditions-advanced", content: "Advanced" },
+                ]}
+                selected={conditionsTab}
+                onSelect={setConditionsTab}
+                fitted
+            />
+            {conditionsTab === 1 ? (
+                <RuleDslEditor builder={builder} />
+            ) : (
+                <>
+                    <Select
+                        label="Multiple Conditions Behavior"
+                        options={[
+                            { label: "Match ALL conditions (AND)", value: "ALL" },
+                            { label: "Match ANY condition (OR)", value: "ANY" },
+                        ]}
+                        value={matchType}
+                        onChange={setMatchType}
+                    />
+                    <Text variant="headingSm" as="h6">Conditions</Text>
+                    <BlockStack gap="300">
+                        {renderConditionNodes(conditions, [])}
+                    </BlockStack>
+                    <InlineStack gap="200">
+                        <Button size="slim" icon={PlusIcon} onClick={() => addCondition()}>
+                            {`Add ${matchType === "ANY" ? "OR" : "AND"} Condition`}
+                        </Button>
+                        <Button size="slim" variant="tertiary" onClick={() => addGroup()}>Add Condition Group</Button>
+                    </InlineStack>
+                </>
+            )}
+
+            <TextField
+                label="Tag to Apply"
+                value={targetTag}
+                onChange={setTargetTag}
+                placeholder="e.g. VIP, Loyal-Customer, City-{{shipping_city}}"
+                helpText={isTemplate
+                    ? `Template — example: "${templatePreview ?? "(not rendered)"}". When the value changes, the previous tag is replaced.`
+                    : `This tag will be added to the ${targetEntity === "order" ? "Order" : "Customer"} in Shopify. Use {{field}} placeholders for dynamic tags, e.g. Spend-{{totalSpent|bucket:100,500,1000}}.`}
+                error={templateError ?? (unknownTemplateFields.length > 0
+                    ? `Unknown placeholder${unknownTemplateFields.length > 1 ? "s" : ""}: ${unknownTemplateFields.join(", ")}. Order fields (e.g. shipping_city) need an order condition.`
+                    : undefined)}
+                autoComplete="off"
+            />
+            <Select
+                label="Tag Target"
+                options={[
+                    { label: "Shopify Customer Profile", value: "customer" },
+                    { label: "Shopify Order", value: "order" },
+                ]}
+                value={targetEntity}
+                onChange={setTargetEntity}
+                helpText={targetEntity === "order" ? "The tag will appear on the individual Shopify Order." : "The tag will appear on the Customer's profile in Shopify."}
+            />
+            {hasOrderLeaves && (
+                <TextField
+                    label="Expire tag after (days, optional)"
+                    type="number"
+                    min={1}
+                    value={expireAfterDays}
+                    onChange={setExpireAfterDays}
+                    placeholder="e.g. 90"
+                    helpText="Remove the tag automatically once the last qualifying order is this many days old. Leave empty to keep it."
+                    autoComplete="off"
+                />
+            )}
+            <InlineStack gap="300" wrap={false}>
+                <Box minWidth="60%">
+                    <TextField
+                        label="Exclusive Group (optional)"
+                        value={exclusiveGroup}
+                        onChange={setExclusiveGroup}
+                        placeholder="e.g. VIP Tier"
+                        helpText={existingGroupNames.length > 0
+                            ? `Only the highest-priority matching rule of a group keeps its tag. Existing groups: ${existingGroupNames.join(", ")}`
+                            : "Only the highest-priority matching rule of a group keeps its tag, e.g. Gold-VIP over Silver-VIP."}
+                        autoComplete="off"
+                    />
+                </Box>
+                {exclusiveGroup.trim() && (
+                    <TextField
+                        label="Priority"
+                        type="number"
+                        value={groupPriority}
+                        onChange={setGroupPriority}
+                        helpText={groupMembers.length > 0
+                            ? `Higher wins. Current: ${groupMembers.map(r => `${r.targetTag} (${r.groupPriority})`).join(", ")}`
+                            : "Higher wins."}
+                        autoComplete="off"
+                    />
+                )}
+            </InlineStack>
+
+            <BlockStack gap="200">
+                <Checkbox
+                    label="Run only during a schedule"
+                    checked={scheduleOpen}
+                    onChange={toggleSchedule}
+                    helpText="For campaigns: limit the rule to dates, weekdays or hours. Outside the window it neither adds nor removes tags."
+                />
+                {scheduleOpen && (
+                    <BlockStack gap="300">
+                        <InlineStack gap="300" wrap={false}>
+                            <TextField
+                                label="First day"
+                                type="date"
+                                value={builder.values.scheduleStartDate}
+                                onChange={v => builder.update({ scheduleStartDate: v })}
+                                autoComplete="off"
+                            />
+                            <TextField
+                                label="Last day"
+                                type="date"
+                                value={builder.values.scheduleEndDate}
+                                onChange={v => builder.update({ scheduleEndDate: v })}
+                                autoComplete="off"
+                            />
+                            <Select
+                                label="From"
+                                options={START_HOUR_OPTIONS}
+                                value={builder.values.scheduleStartHour}
+                                onChange={v => builder.update({ scheduleStartHour: v })}
+                            />
+                            <Select
+                                label="Until"
+                                options={END_HOUR_OPTIONS}
+                                value={builder.values.scheduleEndHour}
+                                onChange={v => builder.update({ scheduleEndHour: v })}
+                            />
+                        </InlineStack>
+                        <BlockStack gap="100">
+                            <Text as="span" variant="bodyMd">Weekdays (none selected = every day)</Text>
+                            <ButtonGroup variant="segmented">
+                                {WEEKDAY_LABELS.map((label, day) => (
+                                    <Button key={label} size="slim" pressed={scheduleDays.includes(day)} onClick={() => toggleScheduleDay(day)}>{label}</Button>
+                                ))}
+                            </ButtonGroup>
+                        </BlockStack>
+                        <Text as="p" variant="bodySm" tone="subdued">
+                            {`${describeSchedule(schedule)}, in the store's timezone (${timezone || "UTC until the store's timezone is loaded"}). Hours wrap past midnight, e.g. 22:00 until 02:00. Order rules use the time the order was placed.`}
+                        </Text>
+                    </BlockStack>
+                )}
+            </BlockStack>
+
+            <BlockStack gap="200">
+                <Checkbox
+                    label="Exclude customers"
+                    checked={exclusionsOpen}
+                    onChange={toggleExclusions}
+                    helpText="Keep staff, wholesale or test customers out of this rule, even when they match its conditions."
+                />
+                {exclusionsOpen && (
+                    <FormLayout>
+                        <TextField
+                            label="Customer IDs"
+                            value={excludeCustomerIds}
+                            onChange={v => builder.update({ excludeCustomerIds: v })}
+                            placeholder="6100000001, 6100000002"
+                            helpText="Shopify customer IDs, separated by commas."
+                            autoComplete="off"
+                        />
+                        <TextField
+                            label="Email patterns"
+                            value={excludeEmailPatterns}
+                            onChange={v => builder.update({ excludeEmailPatterns: v })}
+                            placeholder="@mystore.com, test+*@gmail.com"
+                            helpText="A full email, a domain starting with @, or a pattern where * matches any text."
+                            autoComplete="off"
+                        />
+                        <TextField
+                            label="Tags"
+                            value={excludeTags}
+                            onChange={v => builder.update({ excludeTags: v })}
+                            placeholder="staff, wholesale, test"
+                            helpText="Customers with any of these tags are skipped. For order conditions, tags on the order count too."
+                            autoComplete="off"
+                        />
+                        <Text as="p" variant="bodySm" tone="subdued">
+                            Excluded customers keep the tags they already have. Matches that an exclusion held back are listed on the customer&apos;s timeline.
+                        </Text>
+                    </FormLayout>
+                )}
+            </BlockStack>
+
+            {targetEntity === "customer" && (
+                <Box paddingBlockStart="200">
+                    <BlockStack gap="200">
+                        <Text variant="headingSm" as="h3">Marketing Integrations</Text>
+                        
+                        <Tooltip content={!klaviyoConnected ? "Connect Klaviyo on the Integrations page to enable." : "Push all matching customer profiles to Klaviyo."}>
+                            <Checkbox
+                                label="Sync segment to Klaviyo"
+                                checked={syncToKlaviyo}
+                                onChange={setSyncToKlaviyo}
+                                disabled={!klaviyoConnected}
+                            />
+                        </Tooltip>
+
+                        <Tooltip content={!mailchimpConnected ? "Connect Mailchimp on the Integrations page to enable." : "Push all matching customer profiles to Mailchimp."}>
+                            <Checkbox
+                                label="Sync segment to Mailchimp"
+                                checked={syncToMailchimp}
+                                onChange={setSyncToMailchimp}
+                                disabled={!mailchimpConnected}
+                            />
+                        </Tooltip>
+
+                        {(!klaviyoConnected || !mailchimpConnected) && (
+                            <Text as="p" variant="bodySm" tone="subdued">
+                                Visit the Integrations page to activate external syncing functionality.
+                            </Text>
+                        )}
+                    </BlockStack>
+                </Box>
+            )}
+        </FormLayout>
+    );
+}
@@ -0,0 +1,56 @@
+import { useMemo } from "react";
+import { Banner, BlockStack, List } from "@shopify/polaris";
+import { analyzeDraftRule } from "../services/rule-conflicts";
+import type { AnalyzedRule, RuleWarning } from "../services/rule-conflicts";
+import type { RuleBuilder } from "./RuleBuilder";
+
+type RuleConflictWarningsProps = {
+    builder: RuleBuilder;
+    // The store's saved rules (ANALYZED_RULE_SELECT)
+    rules: AnalyzedRule[];
+    // Editing an existing rule: its saved version is left out
+    ruleId?: string;
+};
+
+const BANNERS: { severity: RuleWarning["severity"]; tone: "critical" | "warning" | "info"; title: string }[] = [
+    { severity: "critical", tone: "critical", title: "This rule won't work as intended" },
+    { severity: "warning", tone: "warning", title: "Overlaps with other rules" },
+    { severity: "info", tone: "info", title: "Could be simpler" }
+];
+
+/**
+ * Static checks of the rule being built against the store's other rules (see
+ * rule-conflicts.ts): contradictions, redundant conditions, duplicates and tags that
+ * would flip between syncs. Updates as the rule is edited; never blocks saving.
+ */
+export default function RuleConflictWarnings({ builder, rules, ruleId }: RuleConflictWarningsProps) {
+    const { name, targetTag, targetEntity, matchType, conditions, exclusiveGroup } = builder.values;
+
+    const warnings = useMemo(() => analyzeDraftRule({
+        id: ruleId,
+        name: name.trim() || "This rule",
+        targetTag,
+        targetEntity,
+        matchType,
+        conditions,
+        exclusiveGroup: exclusiveGroup.trim() || null
+    }, rules), [ruleId, name, targetTag, targetEntity, matchType, conditions, exclusiveGroup, rules]);
+
+    if (warnings.length === 0) return null;
+
+    return (
+        <BlockStack gap="200">
+            {BANNERS.map(({ severity, tone, title }) => {
+                const messages = warnings.filter(w => w.severity === severity).map(w => w.message);
+                if (messages.length === 0) return null;
+                return (
+                    <Banner key={severity} tone={tone} title={title}>
+                        <List>
+                            {messages.map(message => <List.Item key={message}>{message}</List.Item>)}
+                        </List>
+                    </Banner>
+                );
+            })}
+        </BlockStack>
+    );
+}
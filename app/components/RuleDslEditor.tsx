@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { TextField, BlockStack, Text } from "@shopify/polaris";
+import { parseRuleDsl, printRuleDsl, formatRuleDslError } from "../services/rule-dsl";
+import type { RuleBuilder } from "./RuleBuilder";
+
+const SYNTAX_HELP =
+    "Customer fields are bare (totalSpent, tags), order fields take order. (order.product_tag[all]), history uses history.count(where order.field = \"x\"). " +
+    "Join with AND or OR — use parentheses to mix them. Quote text values.";
+
+/**
+ * "Advanced" text editor for a rule's conditions and match type (see rule-dsl.ts).
+ * Every edit that parses is written straight to the builder; while the text has an
+ * error the builder keeps the last valid conditions.
+ */
+export default function RuleDslEditor({ builder }: { builder: RuleBuilder }) {
+    const { conditions, matchType } = builder.values;
+    const current = JSON.stringify([matchType, conditions]);
+
+    const [text, setText] = useState(() => printRuleDsl(conditions, matchType));
+    const [syncedState, setSyncedState] = useState(current);
+    const [error, setError] = useState<string | null>(null);
+
+    // Conditions replaced from outside (template, AI, builder tab): re-print them
+    if (syncedState !== current) {
+        setSyncedState(current);
+        setText(printRuleDsl(conditions, matchType));
+        setError(null);
+    }
+
+    const handleChange = (value: string) => {
+        setText(value);
+        const parsed = parseRuleDsl(value);
+        if ("error" in parsed) {
+            setError(formatRuleDslError(parsed.error));
+            return;
+        }
+        setError(null);
+        setSyncedState(JSON.stringify([parsed.matchType, parsed.conditions]));
+        builder.update({ conditions: parsed.conditions, matchType: parsed.matchType });
+    };
+
+    return (
+        <BlockStack gap="200">
+            <TextField
+                label="Rule expression"
+                value={text}
+                onChange={handleChange}
+                multiline={6}
+                monospaced
+                autoComplete="off"
+                placeholder={"totalSpent > 500 AND (order.payment_method contains \"cod\" OR order.order_source contains \"tiktok\")"}
+                error={error ?? undefined}
+                helpText={SYNTAX_HELP}
+            />
+            {error && (
+                <Text as="p" variant="bodySm" tone="subdued">
+                    Saving uses the last valid expression until the error is fixed.
+                </Text>
+            )}
+        </BlockStack>
+    );
+}
@@ -0,0 +1,107 @@
+import { useEffect, useRef } from "react";
+import { useFetcher } from "react-router";
+import { BlockStack, InlineStack, Text, Button, Banner, Badge, Divider, ProgressBar } from "@shopify/polaris";
+import { PlayIcon } from "@shopify/polaris-icons";
+import type { action as simulateAction } from "../routes/app.rules.simulate";
+import type { RuleBuilder } from "./RuleBuilder";
+
+type RuleSimulationPanelProps = {
+    builder: RuleBuilder;
+    // Editing an existing rule (see app.rules.simulate.tsx)
+    ruleId?: string;
+    // Change to run the simulation right away, e.g. after the AI filled in the builder
+    runToken?: number;
+};
+
+/**
+ * Dry run of the rule being built: who it would tag, sample matches and the pass
+ * rate of every condition (see rule-simulation.server.ts). Nothing is saved or tagged.
+ */
+export default function RuleSimulationPanel({ builder, ruleId, runToken }: RuleSimulationPanelProps) {
+    const fetcher = useFetcher<typeof simulateAction>();
+    const isRunning = fetcher.state !== "idle";
+
+    const run = () => {
+        const fd = builder.toFormData();
+        if (ruleId) fd.append("ruleId", ruleId);
+        fetcher.submit(fd, { method: "post", action: "/app/rules/simulate" });
+    };
+
+    // The builder changes on every edit; only a new runToken starts a run, with the latest values
+    const runRef = useRef(run);
+    runRef.current = run;
+    useEffect(() => {
+        if (runToken) runRef.current();
+    }, [runToken]);
+
+    const simulation = fetcher.data && "simulation" in fetcher.data ? fetcher.data.simulation : null;
+    const error = fetcher.data && "error" in fetcher.data ? fetcher.data.error : null;
+    const noun = simulation?.entity === "order" ? "orders" : "customers";
+
+    return (
+        <BlockStack gap="300">
+            <InlineStack align="space-between" blockAlign="center">
+                <BlockStack gap="050">
+                    <Text as="h3" variant="headingSm">Dry run</Text>
+                    <Text as="p" variant="bodySm" tone="subdued">Simulate the rule on your store data. Nothing is tagged and no usage is counted.</Text>
+                </BlockStack>
+                <Button icon={PlayIcon} onClick={run} loading={isRunning}>Simulate</Button>
+            </InlineStack>
+
+            {error && <Banner tone="critical">{error}</Banner>}
+
+            {simulation && (
+                <BlockStack gap="300">
+                    {simulation.notes.map(note => <Banner key={note} tone="warning">{note}</Banner>)}
+
+                    <InlineStack gap="400">
+                        <Text as="p" variant="bodyMd">
+                            <Text as="span" fontWeight="bold">{simulation.matched.toLocaleString()}</Text>{` ${noun} match`}
+                        </Text>
+                        <Text as="p" variant="bodyMd">
+                            <Text as="span" fontWeight="bold" tone="success">{simulation.wouldTag.toLocaleString()}</Text>{" would be tagged now"}
+                        </Text>
+                        <Text as="p" variant="bodySm" tone="subdued">
+                            {`${simulation.customersEvaluated.toLocaleString()} customers · ${simulation.ordersEvaluated.toLocaleString()} orders evaluated`}
+                        </Text>
+                    </InlineStack>
+
+                    {simulation.conditions.length > 0 && (
+                        <BlockStack gap="200">
+                            <Divider />
+                            <Text as="h4" variant="headingXs">Condition pass rates</Text>
+                            {simulation.conditions.map((c, i) => {
+                                const rate = c.evaluated > 0 ? Math.round((c.passed / c.evaluated) * 100) : 0;
+                                return (
+                                    <BlockStack key={i} gap="100">
+                                        <InlineStack align="space-between" blockAlign="center" wrap={false}>
+                                            <Text as="span" variant="bodySm"><code>{c.condition}</code></Text>
+                                            <Text as="span" variant="bodySm" tone="subdued">
+                                                {c.evaluated > 0 ? `${rate}% (${c.passed.toLocaleString()} / ${c.evaluated.toLocaleString()} ${c.scope === "order" ? "orders" : "customers"})` : "not evaluated"}
+                                            </Text>
+                                        </InlineStack>
+                                        <ProgressBar progress={rate} size="small" tone={rate === 0 ? "critical" : "primary"} />
+                                    </BlockStack>
+                                );
+                            })}
+                        </BlockStack>
+                    )}
+
+                    {simulation.samples.length > 0 && (
+                        <BlockStack gap="200">
+                            <Divider />
+                            <Text as="h4" variant="headingXs">{`Sample of ${noun} that would be tagged`}</Text>
+                            {simulation.samples.map(sample => (
+                                <InlineStack key={`${sample.id}-${sample.tag}`} gap="200" blockAlign="center" wrap={false}>
+                                    <Badge tone="info">{sample.tag}</Badge>
+                                    <Text as="span" variant="bodySm" fontWeight="semibold">{sample.label}</Text>
+                                    <Text as="span" variant="bodySm" tone="subdued" truncate>{sample.reason}</Text>
+                                </InlineStack>
+                            ))}
+                        </BlockStack>
+                    )}
+                </BlockStack>
+            )}
+        </BlockStack>
+    );
+}
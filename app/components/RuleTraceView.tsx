@@ -0,0 +1,52 @@
+import { BlockStack, InlineStack, Text, Badge, Box } from "@shopify/polaris";
+import { isConditionTraceGroup } from "../services/condition-tree";
+import type { ConditionTraceNode, RuleTrace } from "../services/condition-tree";
+
+function TraceNodes({ nodes, matchType }: { nodes: ConditionTraceNode[]; matchType: string }) {
+    return (
+        <BlockStack gap="100">
+            {nodes.map((node, i) => (
+                <BlockStack key={i} gap="100">
+                    {i > 0 && <Text as="span" variant="bodyXs" tone="subdued">{matchType === "ANY" ? "OR" : "AND"}</Text>}
+                    {isConditionTraceGroup(node) ? (
+                        <Box paddingInlineStart="300" borderInlineStartWidth="025" borderColor={node.passed ? "border-success" : "border-critical"}>
+                            <BlockStack gap="100">
+                                <InlineStack gap="200" blockAlign="center">
+                                    <Badge tone={node.passed ? "success" : "critical"} size="small">{node.passed ? "Pass" : "Fail"}</Badge>
+                                    <Text as="span" variant="bodySm" tone="subdued">{node.matchType === "ANY" ? "Any of:" : "All of:"}</Text>
+                                </InlineStack>
+                                <TraceNodes nodes={node.conditions} matchType={node.matchType} />
+                            </BlockStack>
+                        </Box>
+                    ) : (
+                        <InlineStack gap="200" blockAlign="center" wrap>
+                            <Badge tone={node.passed ? "success" : "critical"} size="small">{node.passed ? "Pass" : "Fail"}</Badge>
+                            <Text as="span" variant="bodySm"><code>{`${node.subject} ${node.operator} ${node.expected}`}</code></Text>
+                            <Text as="span" variant="bodySm" tone="subdued">
+                                {node.actual === null ? "no value" : `actual: ${node.actual}`}
+                            </Text>
+                        </InlineStack>
+                    )}
+                </BlockStack>
+            ))}
+        </BlockStack>
+    );
+}
+
+/**
+ * Per-condition evaluation trace of a rule (see traceConditionNodes): each condition with
+ * the expected and actual value and whether it passed, nested groups indented.
+ */
+export default function RuleTraceView({ trace }: { trace: RuleTrace }) {
+    return (
+        <BlockStack gap="200">
+            <InlineStack gap="200" blockAlign="center">
+                <Badge tone={trace.matched ? "success" : "critical"}>{trace.matched ? "Rule matched" : "Rule did not match"}</Badge>
+                <Text as="span" variant="bodySm" tone="subdued">
+                    {trace.matchType === "ANY" ? "Any condition must pass" : "All conditions must pass"}
+                </Text>
+            </InlineStack>
+            <TraceNodes nodes={trace.conditions} matchType={trace.matchType} />
+        </BlockStack>
+    );
+}
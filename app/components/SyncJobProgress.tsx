@@ -0,0 +1,122 @@
+import { useState, useEffect } from "react";
+import { useFetcher } from "react-router";
+import { BlockStack, InlineStack, Text, Button, Banner, Badge, ProgressBar } from "@shopify/polaris";
+import type { loader as syncStatusLoader, action as syncStatusAction } from "../routes/app.sync-status";
+import { getPhasePercent, isSyncJobActive } from "../services/sync-progress";
+import type { PhaseProgress, SyncJobSummary } from "../services/sync-progress";
+
+type SyncJobProgressProps = {
+    // From the page loader (getSyncJobSummary); refreshed here while the job is active
+    syncJob: SyncJobSummary | null;
+};
+
+// How often an active job is polled
+const POLL_MS = 5000;
+
+const STATUS_BADGES: Record<SyncJobSummary["status"], { label: string; tone?: "success" | "info" | "attention" | "critical" }> = {
+    QUEUED: { label: "Queued", tone: "info" },
+    RUNNING: { label: "Running", tone: "attention" },
+    PAUSED: { label: "Paused" },
+    COMPLETED: { label: "Completed", tone: "success" },
+    FAILED: { label: "Failed", tone: "critical" },
+    CANCELLED: { label: "Cancelled" }
+};
+
+function PhaseRow({ title, phase, active }: { title: string; phase: PhaseProgress; active: boolean }) {
+    return (
+        <BlockStack gap="100">
+            <InlineStack align="space-between">
+                <Text as="span" variant="bodyMd" fontWeight={active ? "bold" : "regular"}>{title}</Text>
+                <Text as="span" variant="bodySm" tone="subdued">
+                    {phase.done.toLocaleString()} / {phase.total.toLocaleString()}
+                </Text>
+            </InlineStack>
+            <ProgressBar progress={getPhasePercent(phase)} size="small" tone={active ? "highlight" : "primary"} />
+            <Text as="p" variant="bodySm" tone="subdued">
+                {`${phase.tagged.toLocaleString()} tagged · ${phase.skipped.toLocaleString()} skipped · ${phase.failed.toLocaleString()} failed · ${phase.limitBlocked.toLocaleString()} blocked by plan limit`}
+            </Text>
+        </BlockStack>
+    );
+}
+
+/**
+ * Progress of the store's latest historical sync (see sync-progress.ts): the customer
+ * and order phases with their counts, and pause / resume / cancel controls. A pause or
+ * cancel of a running sync takes effect at its next checkpoint.
+ */
+export default function SyncJobProgress({ syncJob }: SyncJobProgressProps) {
+    const poller = useFetcher<typeof syncStatusLoader>();
+    const control = useFetcher<typeof syncStatusAction>();
+
+    // The newest of the page loader, a poll and a control response
+    const [job, setJob] = useState(syncJob);
+    useEffect(() => setJob(syncJob), [syncJob]);
+    useEffect(() => { if (poller.data) setJob(poller.data.syncJob); }, [poller.data]);
+    useEffect(() => { if (control.data) setJob(control.data.syncJob); }, [control.data]);
+    const active = isSyncJobActive(job);
+
+    // fetcher.load keeps its identity across renders, so only `active` starts / stops polling
+    const pollStatus = poller.load;
+    useEffect(() => {
+        if (!active) return;
+        const timer = setInterval(() => pollStatus("/app/sync-status"), POLL_MS);
+        return () => clearInterval(timer);
+    }, [active, pollStatus]);
+
+    if (!job) return null;
+
+    const send = (action: "pause_sync" | "resume_sync" | "cancel_sync") => {
+        if (action === "cancel_sync" && !confirm("Cancel this sync? Tags already applied stay in place.")) return;
+        control.submit({ action, jobId: job.id }, { method: "post", action: "/app/sync-status" });
+    };
+    const busy = control.state !== "idle";
+    const progress = job.progress;
+    const badge = STATUS_BADGES[job.status];
+
+    return (
+        <BlockStack gap="300">
+            <InlineStack align="space-between" blockAlign="center">
+                <InlineStack gap="200" blockAlign="center">
+                    <Text as="h3" variant="headingSm">Historical sync</Text>
+                    <Badge tone={badge.tone}>{job.stopping ? "Stopping…" : badge.label}</Badge>
+                </InlineStack>
+                <InlineStack gap="200">
+                    {active && !job.stopping && (
+                        <Button size="slim" onClick={() => send("pause_sync")} loading={busy}>Pause</Button>
+                    )}
+                    {(job.status === "PAUSED" || job.status === "FAILED") && (
+                        <Button size="slim" variant="primary" onClick={() => send("resume_sync")} loading={busy}>Resume</Button>
+                    )}
+                    {(active || job.status === "PAUSED") && !job.stopping && (
+                        <Button size="slim" tone="critical" onClick={() => send("cancel_sync")} loading={busy}>Cancel</Button>
+                    )}
+                </InlineStack>
+            </InlineStack>
+
+            {control.data?.error && control.state === "idle" && <Banner tone="warning">{control.data.error}</Banner>}
+            {job.status === "FAILED" && job.error && <Banner tone="critical">{`Sync failed: ${job.error}. Resume continues where it stopped.`}</Banner>}
+            {job.runAfter && (
+                <Text as="p" variant="bodySm" tone="subdued">{`Interrupted — retrying at ${new Date(job.runAfter).toLocaleTimeString()}.`}</Text>
+            )}
+
+            {progress ? (
+                <BlockStack gap="300">
+                    {progress.customers.passes > 0 && (
+                        <PhaseRow
+                            title={progress.customers.passes > 1
+                                ? `Customers (pass ${Math.max(progress.customers.pass, 1)} of ${progress.customers.passes})`
+                                : "Customers"}
+                            phase={progress.customers}
+                            active={active && progress.phase === "customers"}
+                        />
+                    )}
+                    {(progress.phase === "orders" || progress.orders.done > 0) && (
+                        <PhaseRow title="Orders" phase={progress.orders} active={active && progress.phase === "orders"} />
+                    )}
+                </BlockStack>
+            ) : (
+                <Text as="p" variant="bodySm" tone="subdued">Waiting for the first checkpoint…</Text>
+            )}
+        </BlockStack>
+    );
+}
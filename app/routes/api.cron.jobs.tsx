@@ -0,0 +1,40 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { runJobWorker } from "../services/jobs.server";
+
+// This endpoint is meant to be called by a Vercel Cron Job every few minutes
+// E.g. GET https://tagbot.ai/api/cron/jobs
+// Runs queued background jobs (syncs, marketing pushes) and picks up jobs whose worker died
+// mid-run, e.g. during a redeploy. See jobs.server.ts.
+
+// Secured with the same CRON_SECRET bearer header as /api/cron/emails.
+
+// After this long the worker takes no new job and requeues the running one at its next
+// checkpoint, so the function finishes within its time limit
+const MAX_RUNTIME_MS = 4 * 60 * 1000;
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+    // 1. Authenticate the Cron request
+    const authHeader = request.headers.get("authorization");
+    const vercelCronSecret = process.env.CRON_SECRET;
+
+    if (!vercelCronSecret) {
+         console.warn("[CRON ERROR] CRON_SECRET environment variable is missing.");
+         return Response.json({ error: "Configuration Error" }, { status: 500 });
+    }
+
+    if (authHeader !== `Bearer ${vercelCronSecret}`) {
+         console.warn("[CRON ERROR] Unauthorized attempt to trigger job worker cron job.");
+         return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // 2. Run jobs until none is due
+    const processed = await runJobWorker({ maxRuntimeMs: MAX_RUNTIME_MS });
+    console.log(`[CRON SUMMARY] Job worker ran ${processed} job(s).`);
+
+    return Response.json({ success: true, stats: { jobsProcessed: processed } });
+};
+
+export const action = async () => {
+     // Explicitly reject POST/PUT methods
+     return Response.json({ error: "Method not allowed. Use GET." }, { status: 405 });
+};
@@ -0,0 +1,58 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { runDueScheduledEvaluations, SCHEDULED_RUN_INTERVAL_HOURS } from "../services/rule-scheduler.server";
+import { expireDueTags } from "../services/tag-expiry.server";
+
+// This endpoint is meant to be called by a Vercel Cron Job every hour
+// E.g. GET https://tagbot.ai/api/cron/rules
+// Each store is re-evaluated at most once per SCHEDULED_RUN_INTERVAL_HOURS, so calling it more often is harmless.
+// Every call also removes expired tags of rules with "expire after N days".
+
+// Secured with the same CRON_SECRET bearer header as /api/cron/emails.
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+    // 1. Authenticate the Cron request
+    const authHeader = request.headers.get("authorization");
+    const vercelCronSecret = process.env.CRON_SECRET;
+
+    if (!vercelCronSecret) {
+         console.warn("[CRON ERROR] CRON_SECRET environment variable is missing.");
+         return Response.json({ error: "Configuration Error" }, { status: 500 });
+    }
+
+    if (authHeader !== `Bearer ${vercelCronSecret}`) {
+         console.warn("[CRON ERROR] Unauthorized attempt to trigger rule re-evaluation cron job.");
+         return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    console.log(`[CRON JOB ACTIVE] -> Re-evaluating time-based rules (every ${SCHEDULED_RUN_INTERVAL_HOURS}h per store)...`);
+
+    // 2. Run every store that is due
+    const summary = await runDueScheduledEvaluations();
+    const failures = summary.results.filter(r => r.status === "FAILED");
+
+    // 3. Remove tags whose expiry passed
+    const expiry = await expireDueTags();
+
+    console.log(`[CRON SUMMARY] Checked ${summary.storesChecked} stores, re-evaluated ${summary.storesRun}, ${failures.length} failed, ${expiry.tagsExpired} tags expired.`);
+
+    return Response.json({
+        success: true,
+        message: "Scheduled rule re-evaluation successful.",
+        stats: {
+             storesChecked: summary.storesChecked,
+             storesRun: summary.storesRun,
+             storesSkipped: summary.skipped,
+             customersEvaluated: summary.results.reduce((sum, r) => sum + r.customersEvaluated, 0),
+             tagsAdded: summary.results.reduce((sum, r) => sum + r.tagsAdded, 0),
+             tagsRemoved: summary.results.reduce((sum, r) => sum + r.tagsRemoved, 0),
+             tagsExpired: expiry.tagsExpired,
+             failures: failures.length
+        },
+        errors: failures.length > 0 ? failures.map(f => `${f.storeId}: ${f.error}`) : undefined
+    });
+};
+
+export const action = async () => {
+     // Explicitly reject POST/PUT methods
+     return Response.json({ error: "Method not allowed. Use GET." }, { status: 405 });
+};
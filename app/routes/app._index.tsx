@@ -7,7 +7,9 @@ import { boundary } from "@shopify/shopify-app-react-router/server";
 import db from "../db.server";
 import { sendWelcomeEmail } from "../services/email.server";
 import { getCachedStore } from "../services/cache.server";
-import { enqueueSyncJob } from "../services/queue.server";
+import { enqueueSyncJob, getSyncJobSummary } from "../services/queue.server";
+import { getActiveJobs } from "../services/jobs.server";
+import { hasOrderConditions } from "../services/condition-tree";
 import {
   Page, Layout, Card, Text, BlockStack, InlineStack, Badge, DataTable,
   Button, Banner, Icon, Box, Modal, Spinner, Divider, Grid,
@@ -17,6 +19,7 @@ import {
   HashtagIcon, PersonIcon, AlertCircleIcon, MagicIcon, RefreshIcon,
   PlusIcon, ViewIcon, OrderIcon, ExportIcon, DiscountIcon
 } from "@shopify/polaris-icons";
+import SyncJobProgress from "../components/SyncJobProgress";
 
 const DashboardChart = React.lazy(() => import("../components/DashboardChart"));
 const OnboardingTour = React.lazy(() => import("../components/OnboardingTour"));
@@ -109,10 +112,10 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         }
   }
 
-  // Reset stuck sync
+  // Reset a sync flag no job stands behind (e.g. left by a sync from before the job queue)
   if (store.isSyncing && store.updatedAt) {
     const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
-    if (store.updatedAt < tenMinutesAgo) {
+    if (store.updatedAt < tenMinutesAgo && (await getActiveJobs(store.id, "SYNC")).length === 0) {
       try {
         await db.store.update({ where: { id: store.id }, data: { isSyncing: false, syncMessage: null } });
         store.isSyncing = false;
@@ -173,10 +176,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         fetch(`https://${session.shop}/admin/api/2025-01/orders/count.json?status=any`, { headers: { "X-Shopify-Access-Token": session.accessToken || "" } }).then(res => res.json()).catch(() => null)
       ]);
 
-      const orderRules = allRules.filter((r: any) => {
-        try { return JSON.parse(r.conditions).some((c: any) => c.ruleCategory === "order"); }
-        catch { return false; }
-      });
+      const orderRules = allRules.filter((r: any) => hasOrderConditions(r.conditions));
       const orderTagNames = orderRules.map((r: any) => r.targetTag);
       let orderTagsFired = 0;
       const topOrderTagMap: Record<string, number> = {};
@@ -210,6 +210,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     currentPlanName: store.planName,
     monthlyTagCount: store.monthlyCustomerTagCount,
     hasSeenTour: store.hasSeenTour,
+    syncJob: await getSyncJobSummary(store.id),
     dashboardDataPromise: getDashboardData()
   };
 };
@@ -217,7 +218,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 // ─── Action ───────────────────────────────────────────────────────────────────
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { admin, session } = await authenticate.admin(request);
+  const { session } = await authenticate.admin(request);
   const shop = session.shop;
   const store = await getCachedStore(shop);
   if (!store) return { success: false, message: "Store not found" };
@@ -254,7 +255,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         select: { id: true, email: true, firstName: true, lastName: true, tags: true }
       });
       if (activeVips.length > 0) {
-        enqueueSyncJob({
+        await enqueueSyncJob({
           shop,
           storeId: store.id,
           customersToSync: activeVips.map(vip => ({
@@ -281,13 +282,9 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   if (actionType === "sync_customers") {
     try {
-      const isFree = store.planName === "Free" || store.planName === "";
-      const { fetchAllCustomers } = await import("../services/shopify-helpers.server");
-      const customersToSync = await fetchAllCustomers(admin, isFree);
-      if (customersToSync.length > 0) {
-        enqueueSyncJob({ shop, storeId: store.id, customersToSync });
-      }
-      return { success: true, message: `Queued ${customersToSync.length} customers for syncing.` };
+      // The job fetches the customers itself, so a retry or resume sees the current list
+      await enqueueSyncJob({ shop, storeId: store.id });
+      return { success: true, message: "Queued all customers for syncing." };
     } catch (e: any) {
       return { success: false, message: e.message || "Failed to sync customers" };
     }
@@ -322,7 +319,7 @@ function KpiCard({ label, value, icon, tone, bg }: {
 
 export default function Index() {
   const shopify = useAppBridge();
-  const { currentPlanName, monthlyTagCount, hasSeenTour, dashboardDataPromise } = useLoaderData<typeof loader>();
+  const { currentPlanName, monthlyTagCount, hasSeenTour, syncJob, dashboardDataPromise } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const navigate = useNavigate();
   const submit = useSubmit();
@@ -437,6 +434,14 @@ export default function Index() {
 
         {limitBanner}
 
+        {syncJob && (
+          <Layout.Section>
+            <Card>
+              <SyncJobProgress syncJob={syncJob} />
+            </Card>
+          </Layout.Section>
+        )}
+
         {/* ── Data section — Streamed asynchronously ── */}
         <Suspense fallback={<DashboardSkeleton />}>
           <Await resolve={dashboardDataPromise} errorElement={<DashboardSkeleton />}>
@@ -472,7 +477,9 @@ export default function Index() {
                 log.customer?.email || `ID: ${log.customerId}`,
                 log.action === "TAG_ADDED"
                   ? <Badge tone="success">{log.tagContext}</Badge>
-                  : <Badge tone="critical">{`${log.tagContext} ✕`}</Badge>,
+                  : log.action === "TAG_SUPPRESSED"
+                    ? <Badge tone="warning">{`${log.tagContext} (excluded)`}</Badge>
+                    : <Badge tone="critical">{`${log.tagContext} ✕`}</Badge>,
                 <Text as="span" variant="bodySm">{log.reason || (log.rule?.name || "Manual / Deleted Rule")}</Text>,
                 new Date(log.createdAt).toLocaleString()
               ]);
@@ -8,7 +8,10 @@ import { MagicIcon, DeleteIcon, ReplaceIcon, OrderIcon, HashtagIcon } from "@sho
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
 import { getCachedStore } from "../services/cache.server";
-import { incrementUsage, canPerformActions } from "../services/usage.server";
+import { canPerformActions, reserveUsage, refundUsage } from "../services/usage.server";
+import { shopifyGraphql, formatUserErrors } from "../services/shopify-graphql.server";
+import { applyTagMutations } from "../services/tag-mutations.server";
+import { fetchOrdersByTag } from "../services/shopify-helpers.server";
 import { useState } from "react";
 
 // ─── Loader ───────────────────────────────────────────────────────────────────
@@ -38,7 +41,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
     // 2. Discover ALL Order Tags natively from Shopify to capture pre-existing tags
     try {
-        const orderTagsRes = await admin.graphql(`
+        const orderTagsData: any = await shopifyGraphql(admin, `
             #graphql
             query FetchRecentOrderTags {
                 orders(first: 250, sortKey: CREATED_AT, reverse: true) {
@@ -50,8 +53,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
                 }
             }
         `);
-        const orderTagsData: any = await orderTagsRes.json();
-        const orderEdges = orderTagsData.data?.orders?.edges || [];
+        const orderEdges = orderTagsData?.orders?.edges || [];
         
         for (const edge of orderEdges) {
             const tags: string[] = edge.node.tags || [];
@@ -111,6 +113,9 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     return { sortedTags, planName: store.planName, storeId: store.id };
 };
 
+// Customers / orders per batch of tag mutations and usage reservation
+const CLEANUP_BATCH_SIZE = 250;
+
 // ─── Action (runs synchronously — processes all customers before returning) ────
 export const action = async ({ request }: ActionFunctionArgs) => {
     const { admin, session } = await authenticate.admin(request);
@@ -134,95 +139,77 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     if (type === "order") {
         // =============== PROCESS ORDERS (Directly from Shopify via GraphQL) ===============
-        const MAX_ORDERS = 5000;
-        let hasNextPage = true;
-        let cursor: string | null = null;
-        let allOrderGids: string[] = [];
-
         // 0. Pre-check usage capacity
         const affectedCount = parseInt(String(form.get("count") || "0")); // We'll pass the count from the UI or fetch first
         // For simplicity and to avoid over-counting, we'll fetch and then check below.
 
-        // 1. Fetch all orders with this tag
-        while (hasNextPage && allOrderGids.length < MAX_ORDERS) {
-            const query = `
-                query FetchOrdersByTag($query: String!, $cursor: String) {
-                    orders(first: 50, query: $query, after: $cursor) {
-                        pageInfo { hasNextPage, endCursor }
-                        edges { node { id } }
-                    }
-                }
-            `;
-            const variables = { query: `tag:'${targetTag}'`, cursor };
-            const response = await admin.graphql(query, { variables });
-            const data: any = await response.json();
-
-            if (!data.data?.orders) break;
-
-            const edges = data.data.orders.edges;
-            allOrderGids = allOrderGids.concat(edges.map((e: any) => e.node.id));
-
-            hasNextPage = data.data.orders.pageInfo.hasNextPage;
-            cursor = data.data.orders.pageInfo.endCursor;
-        }
+        // 1. Fetch all orders with this tag (a bulk operation for large stores, see fetchOrdersByTag)
+        const allOrderGids: string[] = (await fetchOrdersByTag(admin, targetTag, "id")).map(o => o.id);
 
         if (allOrderGids.length === 0) {
             return { success: true, message: `No orders found with the tag "${targetTag}".`, count: 0 };
         }
 
-        // 2. Perform the mutations
-        for (const orderGid of allOrderGids) {
-            try {
-                // First remove the old tag (Usage: removal)
-                const allowedRemove = await incrementUsage(store.shop, "removal", 1);
-                if (!allowedRemove) {
-                    return { success: false, message: `Action failed: Monthly removal limit reached. Please upgrade to a higher plan for more bulk actions.`, count: processedCount };
+        // 2. Perform the mutations, CLEANUP_BATCH_SIZE orders per batch (see applyTagMutations)
+        const merging = intent === "merge" && !!destinationTag;
+        let limitReached = false;
+        for (let i = 0; i < allOrderGids.length && !limitReached; i += CLEANUP_BATCH_SIZE) {
+            let batch = allOrderGids.slice(i, i + CLEANUP_BATCH_SIZE);
+
+            // Usage: one removal per order, then one order_tag per merged order; stop at the removal limit
+            const removals = await reserveUsage(store.shop, "removal", batch.length);
+            if (removals < batch.length) {
+                limitReached = true;
+                batch = batch.slice(0, removals);
+            }
+            if (batch.length === 0) break;
+            const additions = merging ? await reserveUsage(store.shop, "order_tag", batch.length) : 0;
+
+            const results = await applyTagMutations(admin, batch.map((orderGid, b) => ({
+                id: orderGid,
+                add: b < additions ? [destinationTag!] : [],
+                remove: [targetTag]
+            })));
+
+            const merged: string[] = [];
+            let rejectedAdds = 0;
+            for (const [b, result] of results.entries()) {
+                if (b < additions) {
+                    if (result.added) merged.push(result.id);
+                    else rejectedAdds++;
                 }
-
-                await admin.graphql(`
-                    #graphql
-                    mutation RemoveOrderTag($id: ID!, $tags: [String!]!) {
-                        tagsRemove(id: $id, tags: $tags) { userErrors { field message } }
-                    }
-                `, { variables: { id: orderGid, tags: [targetTag] } });
-
-                // If merging, add the new tag (Usage: order_tag)
-                if (intent === "merge" && destinationTag) {
-                    const allowedAdd = await incrementUsage(store.shop, "order_tag", 1);
-                    if (allowedAdd) {
-                        await admin.graphql(`
-                            #graphql
-                            mutation AddOrderTag($id: ID!, $tags: [String!]!) {
-                                tagsAdd(id: $id, tags: $tags) { userErrors { field message } }
-                            }
-                        `, { variables: { id: orderGid, tags: [destinationTag] } });
-                    }
+                if (!result.removed) {
+                    console.error(`[CLEANUP] Failed to process order tag for ${result.id}:`, formatUserErrors(result.userErrors));
+                    errorCount++;
+                    continue;
                 }
+                processedCount++;
+            }
+            await refundUsage(store.shop, "removal", batch.length - results.filter(r => r.removed).length);
+            await refundUsage(store.shop, "order_tag", rejectedAdds);
 
-                // Delete the ActivityLog cache proxy for this so the UI updates
-                await db.activityLog.deleteMany({
-                    where: { storeId: store.id, action: "TAG_ADDED", tagContext: targetTag }
-                });
+            // Delete the ActivityLog cache proxy for this so the UI updates
+            await db.activityLog.deleteMany({
+                where: { storeId: store.id, action: "TAG_ADDED", tagContext: targetTag }
+            });
 
-                if (intent === "merge" && destinationTag) {
-                     await db.activityLog.create({
-                        data: {
-                            storeId: store.id,
-                            customerId: "cleanup-merge", // Orders don't store strict customer refs in our proxy
-                            action: "TAG_ADDED",
-                            tagContext: destinationTag,
-                            reason: `Merged from "${targetTag}" via Tag Cleanup`
-                        }
-                    });
-                }
-
-                processedCount++;
-            } catch (err: any) {
-                console.error(`[CLEANUP] Failed to process order tag for ${orderGid}:`, err.message);
-                errorCount++;
+            if (merged.length > 0) {
+                await db.activityLog.createMany({
+                    data: merged.map(() => ({
+                        storeId: store.id,
+                        customerId: "cleanup-merge", // Orders don't store strict customer refs in our proxy
+                        action: "TAG_ADDED",
+                        tagContext: destinationTag!,
+                        reason: `Merged from "${targetTag}" via Tag Cleanup`
+                    }))
+                });
             }
         }
 
+        if (limitReached) {
+            return { success: false, message: `Action failed: Monthly removal limit reached. Please upgrade to a higher plan for more bulk actions.`, count: processedCount };
+        }
+
     } else {
         // =============== PROCESS CUSTOMERS (Proxy DB Cache Strategy) ===============
         const affected = await db.customer.findMany({
@@ -234,76 +221,79 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             return { success: true, message: `No customers found with the tag "${targetTag}".`, count: 0 };
         }
 
-        for (const customer of affected) {
-            try {
-                const gid = `gid://shopify/Customer/${customer.id}`;
-
-                // Fetch current tags from Shopify
-                const response = await admin.graphql(`
-                    #graphql
-                    query GetCustomerTags($id: ID!) {
-                        customer(id: $id) { tags }
-                    }
-                `, { variables: { id: gid } });
-                const resData = await response.json();
-                const currentTags: string[] = resData.data?.customer?.tags ?? [];
-
-                // Compute new tag list
-                let newTags = currentTags.filter((t: string) => t !== targetTag);
-                
-                // Track removal usage
-                const allowedRemove = await incrementUsage(store.shop, "removal", 1);
-                if (!allowedRemove) {
-                    return { success: false, message: `Action failed: Monthly removal limit reached. Please upgrade to a higher plan for more bulk actions.`, count: processedCount };
-                }
-
-                if (intent === "merge" && destinationTag && !newTags.includes(destinationTag)) {
-                    // Track addition usage
-                    const allowedAdd = await incrementUsage(store.shop, "customer_tag", 1);
-                    if (allowedAdd) {
-                        newTags.push(destinationTag);
-                    }
+        // CLEANUP_BATCH_SIZE customers per batch (see applyTagMutations)
+        const merging = intent === "merge" && !!destinationTag;
+        let limitReached = false;
+        for (let i = 0; i < affected.length && !limitReached; i += CLEANUP_BATCH_SIZE) {
+            let batch = affected.slice(i, i + CLEANUP_BATCH_SIZE);
+
+            // Track removal usage; stop where the monthly limit is reached
+            const removals = await reserveUsage(store.shop, "removal", batch.length);
+            if (removals < batch.length) {
+                limitReached = true;
+                batch = batch.slice(0, removals);
+            }
+            if (batch.length === 0) break;
+
+            // Track addition usage for customers that don't have the destination tag yet
+            const currentTags = batch.map(c => (c.tags || "").split(",").map(t => t.trim()).filter(Boolean));
+            const needsAdd = batch.map((_, b) => merging && !currentTags[b].includes(destinationTag!));
+            const additions = await reserveUsage(store.shop, "customer_tag", needsAdd.filter(Boolean).length);
+            let granted = 0;
+            const adds = needsAdd.map(needed => needed && granted++ < additions);
+
+            const results = await applyTagMutations(admin, batch.map((customer, b) => ({
+                id: `gid://shopify/Customer/${customer.id}`,
+                add: adds[b] ? [destinationTag!] : [],
+                remove: [targetTag]
+            })));
+
+            const cleaned: { id: string; tags: string }[] = [];
+            let rejectedAdds = 0;
+            for (const [b, result] of results.entries()) {
+                if (adds[b] && !result.added) rejectedAdds++;
+                if (!result.removed) {
+                    console.error(`[CLEANUP] Failed for customer ${batch[b].id}:`, formatUserErrors(result.userErrors));
+                    errorCount++;
+                    continue;
                 }
-
-                // Push to Shopify
-                await admin.graphql(`
-                    #graphql
-                    mutation UpdateTags($input: CustomerInput!) {
-                        customerUpdate(input: $input) {
-                            userErrors { field message }
-                        }
-                    }
-                `, { variables: { input: { id: gid, tags: newTags } } });
-
-                // Update our local DB
-                await db.customer.update({
-                    where: { id_storeId: { id: customer.id, storeId: store.id } },
-                    data: { tags: newTags.join(",") }
-                });
-
-                // Delete TAG_ADDED logs so "Times Fired" on rules page resets correctly
-                await db.activityLog.deleteMany({
-                    where: { storeId: store.id, action: "TAG_ADDED", tagContext: targetTag, customerId: customer.id }
-                });
-
-                // Log the removal
-                await db.activityLog.create({
-                    data: {
-                        storeId: store.id,
-                        customerId: customer.id,
-                        action: "TAG_REMOVED",
-                        tagContext: targetTag,
-                        reason: intent === "merge"
-                            ? `Merged into "${destinationTag}" via Tag Cleanup`
-                            : "Deleted via Tag Cleanup"
-                    }
-                });
-
-                processedCount++;
-            } catch (e: any) {
-                console.error(`[CLEANUP] Failed for customer ${customer.id}:`, e.message);
-                errorCount++;
+                const newTags = currentTags[b].filter(t => t !== targetTag);
+                if (adds[b] && result.added) newTags.push(destinationTag!);
+                cleaned.push({ id: batch[b].id, tags: newTags.join(",") });
             }
+            await refundUsage(store.shop, "removal", batch.length - cleaned.length);
+            await refundUsage(store.shop, "customer_tag", rejectedAdds);
+            if (cleaned.length === 0) continue;
+
+            // Update our local DB
+            await db.$transaction(cleaned.map(c => db.customer.update({
+                where: { id_storeId: { id: c.id, storeId: store.id } },
+                data: { tags: c.tags }
+            })));
+
+            // Delete TAG_ADDED logs so "Times Fired" on rules page resets correctly
+            await db.activityLog.deleteMany({
+                where: { storeId: store.id, action: "TAG_ADDED", tagContext: targetTag, customerId: { in: cleaned.map(c => c.id) } }
+            });
+
+            // Log the removal
+            await db.activityLog.createMany({
+                data: cleaned.map(c => ({
+                    storeId: store.id,
+                    customerId: c.id,
+                    action: "TAG_REMOVED",
+                    tagContext: targetTag,
+                    reason: intent === "merge"
+                        ? `Merged into "${destinationTag}" via Tag Cleanup`
+                        : "Deleted via Tag Cleanup"
+                }))
+            });
+
+            processedCount += cleaned.length;
+        }
+
+        if (limitReached) {
+            return { success: false, message: `Action failed: Monthly removal limit reached. Please upgrade to a higher plan for more bulk actions.`, count: processedCount };
         }
     }
 
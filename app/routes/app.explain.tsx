@@ -0,0 +1,183 @@
+import { useState } from "react";
+import type { LoaderFunctionArgs } from "react-router";
+import { useLoaderData, useNavigation, useNavigate, Form } from "react-router";
+import { authenticate } from "../shopify.server";
+import { getCachedStore } from "../services/cache.server";
+import { explainTagging } from "../services/tag-explainer.server";
+import type { RuleExplanationStatus } from "../services/tag-explainer.server";
+import RuleTraceView from "../components/RuleTraceView";
+import {
+    Page, Layout, Card, Text, BlockStack, InlineStack, Badge, Button, TextField, Banner, Box, Divider, ProgressBar
+} from "@shopify/polaris";
+
+// ─── Loader ───────────────────────────────────────────────────────────────────
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+    const { session, admin } = await authenticate.admin(request);
+    const store = await getCachedStore(session.shop);
+    if (!store) throw new Response("Store not found", { status: 404 });
+
+    const q = new URL(request.url).searchParams.get("q") || "";
+    if (!q.trim()) return { q, explanation: null, error: null };
+
+    const result = await explainTagging(admin, store, q);
+    return "error" in result
+        ? { q, explanation: null, error: result.error }
+        : { q, explanation: result, error: null };
+};
+
+// ─── Components ───────────────────────────────────────────────────────────────
+
+const STATUS_BADGES: Record<RuleExplanationStatus, { label: string; tone?: "success" | "critical" | "warning" | "attention" | "info" }> = {
+    would_tag: { label: "Would tag", tone: "success" },
+    would_remove: { label: "Would remove", tone: "critical" },
+    already_tagged: { label: "Already tagged", tone: "info" },
+    no_match: { label: "No match" },
+    group_loss: { label: "Lower group tier", tone: "attention" },
+    outside_expiry: { label: "Outside expiry window", tone: "attention" },
+    outside_schedule: { label: "Outside schedule", tone: "attention" },
+    excluded: { label: "Excluded", tone: "warning" },
+    limit_blocked: { label: "Plan limit reached", tone: "critical" },
+    not_evaluated: { label: "Not evaluated", tone: "warning" }
+};
+
+const USAGE_LABELS = { customer_tag: "Customer tags", order_tag: "Order tags", removal: "Tag removals" };
+
+function ValueList({ title, values }: { title: string; values: Record<string, string | null> }) {
+    return (
+        <BlockStack gap="200">
+            <Text as="h3" variant="headingSm">{title}</Text>
+            {Object.entries(values).map(([field, value]) => (
+                <InlineStack key={field} align="space-between" gap="200" wrap={false}>
+                    <Text as="span" variant="bodySm"><code>{field}</code></Text>
+                    <Text as="span" variant="bodySm" tone={value === null ? "subdued" : undefined} alignment="end" breakWord>
+                        {value ?? "—"}
+                    </Text>
+                </InlineStack>
+            ))}
+        </BlockStack>
+    );
+}
+
+export default function ExplainTagging() {
+    const { q, explanation, error } = useLoaderData<typeof loader>();
+    const navigation = useNavigation();
+    const navigate = useNavigate();
+    const [query, setQuery] = useState(q);
+    const isLoading = navigation.state === "loading" && navigation.location?.pathname === "/app/explain";
+
+    return (
+        <Page
+            title="Why wasn't this tagged?"
+            subtitle="Look up one order or customer and see what every active rule does with it."
+            backAction={{ content: "Sync Diagnostics", onAction: () => navigate("/app/sync-debug") }}
+        >
+            <Layout>
+                <Layout.Section>
+                    <Card>
+                        <Form method="get">
+                            <BlockStack gap="300">
+                                <TextField
+                                    label="Order name or customer email"
+                                    name="q"
+                                    value={query}
+                                    onChange={setQuery}
+                                    placeholder="#1001 or jane@example.com"
+                                    autoComplete="off"
+                                    connectedRight={<Button submit variant="primary" loading={isLoading}>Explain</Button>}
+                                />
+                                <Text as="p" variant="bodySm" tone="subdued">
+                                    Read-only. Uses the same evaluation as the webhooks and the historical sync.
+                                </Text>
+                            </BlockStack>
+                        </Form>
+                    </Card>
+                </Layout.Section>
+
+                {error && (
+                    <Layout.Section>
+                        <Banner tone="critical">{error}</Banner>
+                    </Layout.Section>
+                )}
+
+                {explanation && (
+                    <>
+                        <Layout.Section>
+                            <BlockStack gap="400">
+                                {explanation.notes.map(note => <Banner key={note} tone="info">{note}</Banner>)}
+                                <Text as="h2" variant="headingMd">
+                                    {`${explanation.kind === "order" ? "Order" : "Customer"} ${explanation.label}: ${explanation.rules.length} active rule(s)`}
+                                </Text>
+                                {explanation.rules.map(rule => {
+                                    const badge = STATUS_BADGES[rule.status];
+                                    return (
+                                        <Card key={rule.ruleId}>
+                                            <BlockStack gap="300">
+                                                <InlineStack align="space-between" blockAlign="center">
+                                                    <InlineStack gap="200" blockAlign="center">
+                                                        <Text as="h3" variant="headingSm">{rule.ruleName}</Text>
+                                                        <Badge tone="magic">{rule.targetTag}</Badge>
+                                                        <Text as="span" variant="bodySm" tone="subdued">{`${rule.targetEntity} tag`}</Text>
+                                                    </InlineStack>
+                                                    <Badge tone={badge.tone}>{badge.label}</Badge>
+                                                </InlineStack>
+                                                <Text as="p" variant="bodyMd">{rule.detail}</Text>
+                                                {rule.orderName && (
+                                                    <Text as="p" variant="bodySm" tone="subdued">{`Evaluated against order ${rule.orderName}`}</Text>
+                                                )}
+                                                {rule.heldTags.length > 0 && rule.status !== "already_tagged" && (
+                                                    <Text as="p" variant="bodySm" tone="subdued">{`Currently holds: ${rule.heldTags.join(", ")}`}</Text>
+                                                )}
+                                                {rule.trace && (
+                                                    <>
+                                                        <Divider />
+                                                        <RuleTraceView trace={rule.trace} />
+                                                    </>
+                                                )}
+                                            </BlockStack>
+                                        </Card>
+                                    );
+                                })}
+                            </BlockStack>
+                        </Layout.Section>
+
+                        <Layout.Section variant="oneThird">
+                            <BlockStack gap="400">
+                                <Card>
+                                    <BlockStack gap="300">
+                                        <Text as="h2" variant="headingMd">Plan usage this month</Text>
+                                        {explanation.usage.map(u => (
+                                            <BlockStack key={u.type} gap="100">
+                                                <InlineStack align="space-between">
+                                                    <Text as="span" variant="bodySm">{USAGE_LABELS[u.type]}</Text>
+                                                    <Text as="span" variant="bodySm" tone={u.blocked ? "critical" : "subdued"}>
+                                                        {`${u.used.toLocaleString()} / ${u.limit.toLocaleString()}${u.blocked ? " — blocked" : ""}`}
+                                                    </Text>
+                                                </InlineStack>
+                                                <ProgressBar progress={Math.min(100, (u.used / Math.max(u.limit, 1)) * 100)} size="small" tone={u.blocked ? "critical" : "primary"} />
+                                            </BlockStack>
+                                        ))}
+                                    </BlockStack>
+                                </Card>
+                                <Card>
+                                    <BlockStack gap="400">
+                                        {explanation.orderValues && <ValueList title="Order fields" values={explanation.orderValues} />}
+                                        {explanation.orderValues && explanation.customerValues && <Divider />}
+                                        {explanation.customerValues && <ValueList title="Customer fields" values={explanation.customerValues} />}
+                                        {explanation.customerId && (
+                                            <Box>
+                                                <Button variant="plain" onClick={() => navigate(`/app/timeline?customerId=${explanation.customerId}`)}>
+                                                    Open customer timeline
+                                                </Button>
+                                            </Box>
+                                        )}
+                                    </BlockStack>
+                                </Card>
+                            </BlockStack>
+                        </Layout.Section>
+                    </>
+                )}
+            </Layout>
+        </Page>
+    );
+}
@@ -2,6 +2,8 @@ import type { LoaderFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
 import { getCachedStore } from "../services/cache.server";
+import { hasLocalOrders, splitList } from "../services/order-store.server";
+import { fetchOrdersByTag } from "../services/shopify-helpers.server";
 
 /**
  * CSV Export Route
@@ -66,62 +68,55 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
     let csvContent = "";
 
-    if (targetEntity === "order") {
-        // =============== EXPORT ORDERS (Directly from Shopify via GraphQL) =============== 
-        // We do not store order history in our DB, so we must fetch it natively.
+    if (targetEntity === "order" && await hasLocalOrders(store.id)) {
+        // =============== EXPORT ORDERS (From the local Order table) ===============
+        // `contains` narrows the query; the exact tag match happens below (tags are comma separated)
+        const orders = (await db.order.findMany({
+            where: { storeId: store.id, tags: { contains: targetTag } },
+            orderBy: { processedAt: "desc" }
+        })).filter(o => splitList(o.tags).includes(targetTag!));
+
+        const customerIds = [...new Set(orders.map(o => o.customerId).filter((id): id is string => !!id))];
+        const customers = await db.customer.findMany({
+            where: { storeId: store.id, id: { in: customerIds } },
+            select: { id: true, firstName: true, lastName: true }
+        });
+        const customersById = new Map(customers.map(c => [c.id, c]));
+
+        const headers = ["Order ID", "Order Name", "Customer Name", "Email", "Date", "Subtotal ($)", "Fully Paid", "Tags"];
+        const rows = orders.map(o => {
+            const customer = o.customerId ? customersById.get(o.customerId) : undefined;
+            const customerName = customer ? `${customer.firstName || ""} ${customer.lastName || ""}` : "";
+            return [
+                o.id,
+                o.name || "",
+                customerName.trim(),
+                o.email || "",
+                o.processedAt.toLocaleString(),
+                o.subtotalPrice,
+                o.financialStatus === "paid" ? "Yes" : "No",
+                splitList(o.tags).join(", ")
+            ].map(escapeCSV).join(",");
+        });
+
+        const bom = "\uFEFF"; // UTF-8 BOM
+        csvContent = bom + [headers.join(","), ...rows].join("\n");
+
+    } else if (targetEntity === "order") {
+        // =============== EXPORT ORDERS (Directly from Shopify via GraphQL) ===============
+        // Fallback until the one-time order backfill (first historical sync) has finished.
+        // All of them: large stores are exported with a bulk operation (see fetchOrdersByTag)
         const { admin } = await authenticate.admin(request);
-        let hasNextPage = true;
-        let cursor: string | null = null;
-        let allOrders: any[] = [];
-
-        // Max out at 5000 records to prevent extreme API timeouts on exports
-        const MAX_ORDERS = 5000;
-
-        while (hasNextPage && allOrders.length < MAX_ORDERS) {
-            const query = `
-                query FetchOrdersByTag($query: String!, $cursor: String) {
-                    orders(first: 50, query: $query, after: $cursor) {
-                        pageInfo {
-                            hasNextPage
-                            endCursor
-                        }
-                        edges {
-                            node {
-                                id
-                                name
-                                email
-                                createdAt
-                                fullyPaid
-                                subtotalPriceSet { shopMoney { amount } }
-                                customer { firstName lastName }
-                                tags
-                            }
-                        }
-                    }
-                }
-            `;
-            
-            const variables = {
-                query: `tag:'${targetTag}'`,
-                cursor: cursor
-            };
-
-            const response = await admin.graphql(query, { variables });
-            const data: any = await response.json();
-
-            if (!data.data?.orders) {
-                break;
-            }
-
-            const orders = data.data.orders.edges.map((e: any) => e.node);
-            allOrders = allOrders.concat(orders);
-
-            hasNextPage = data.data.orders.pageInfo.hasNextPage;
-            cursor = data.data.orders.pageInfo.endCursor;
-            
-            // Artificial delay to play nice with Shopify's GraphQL cost limiter
-            if (hasNextPage) await new Promise(r => setTimeout(r, 500));
-        }
+        const allOrders = await fetchOrdersByTag(admin, targetTag, `
+            id
+            name
+            email
+            createdAt
+            fullyPaid
+            subtotalPriceSet { shopMoney { amount } }
+            customer { firstName lastName }
+            tags
+        `);
 
         const headers = ["Order ID", "Order Name", "Customer Name", "Email", "Date", "Subtotal ($)", "Fully Paid", "Tags"];
         const rows = allOrders.map(o => {
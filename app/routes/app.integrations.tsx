@@ -7,7 +7,7 @@ import { AppsIcon, CheckCircleIcon, XSmallIcon, SaveIcon, LinkIcon } from "@shop
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
 import { getCachedStore, invalidateStoreCache } from "../services/cache.server";
-import { enqueueMarketingBulkSyncJob } from "../services/queue.server";
+import { enqueueMarketingBulkSyncJob, cancelMarketingBulkSyncJobs } from "../services/queue.server";
 import { generatePKCE, getKlaviyoAuthUrl, klaviyoSessionStorage } from "../services/klaviyo.server";
 import { redirect } from "react-router";
 
@@ -106,21 +106,17 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     }
 
     if (actionType === "reset_sync_klaviyo") {
-        await db.store.update({
-            where: { shop },
-            data: { klaviyoSyncInProgress: false }
-        });
+        const store = await getCachedStore(shop);
+        const cancelled = store ? await cancelMarketingBulkSyncJobs(store.id, "klaviyo") : 0;
         await invalidateStoreCache(shop);
-        return { success: true, message: "Klaviyo sync status reset." };
+        return { success: true, message: cancelled > 0 ? "Klaviyo bulk sync cancelled." : "Klaviyo sync status reset." };
     }
 
     if (actionType === "reset_sync_mailchimp") {
-        await db.store.update({
-            where: { shop },
-            data: { mailchimpSyncInProgress: false }
-        });
+        const store = await getCachedStore(shop);
+        const cancelled = store ? await cancelMarketingBulkSyncJobs(store.id, "mailchimp") : 0;
         await invalidateStoreCache(shop);
-        return { success: true, message: "Mailchimp sync status reset." };
+        return { success: true, message: cancelled > 0 ? "Mailchimp bulk sync cancelled." : "Mailchimp sync status reset." };
     }
 
     if (actionType === "save_klaviyo") {
@@ -165,26 +161,14 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     if (actionType === "bulk_sync_klaviyo") {
         const storeId = formData.get("storeId") as string;
-        // Fix for infinite spinner: ensure we wrap in a try-catch and set flag to true
-        await db.store.update({ where: { shop }, data: { klaviyoSyncInProgress: true } });
-        try {
-            await enqueueMarketingBulkSyncJob({ shop, storeId, platform: "klaviyo" });
-        } catch (e) {
-            await db.store.update({ where: { shop }, data: { klaviyoSyncInProgress: false } });
-            throw e;
-        }
+        // Sets klaviyoSyncInProgress until the job finishes (see queue.server.ts)
+        await enqueueMarketingBulkSyncJob({ shop, storeId, platform: "klaviyo" });
         return { success: true, message: "Klaviyo Bulk Sync Started. This runs in the background." };
     }
 
     if (actionType === "bulk_sync_mailchimp") {
         const storeId = formData.get("storeId") as string;
-        await db.store.update({ where: { shop }, data: { mailchimpSyncInProgress: true } });
-        try {
-            await enqueueMarketingBulkSyncJob({ shop, storeId, platform: "mailchimp" });
-        } catch (e) {
-            await db.store.update({ where: { shop }, data: { mailchimpSyncInProgress: false } });
-            throw e;
-        }
+        await enqueueMarketingBulkSyncJob({ shop, storeId, platform: "mailchimp" });
         return { success: true, message: "Mailchimp Bulk Sync Started. This runs in the background." };
     }
 
@@ -6,6 +6,10 @@
  *  - Recharts bar chart (revenue by tag)
  *  - Recharts donut chart (revenue share %)
  *  - Sortable DataTable with all segment details
+ *
+ * Once the store's orders are backfilled, revenue and order counts come from the
+ * local Order table: each order counts toward its own tags and its customer's tags.
+ * Before that, the customers' lifetime totals are used.
  */
 import React from "react";
 import type { LoaderFunctionArgs } from "react-router";
@@ -18,6 +22,7 @@ import { MoneyIcon, ChartVerticalIcon, HashtagIcon, OrderIcon } from "@shopify/p
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
 import { getCachedStore } from "../services/cache.server";
+import { hasLocalOrders, splitList } from "../services/order-store.server";
 
 const DashboardChart = React.lazy(() => import("../components/DashboardChart"));
 
@@ -35,14 +40,40 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
     // Build tag → aggregated metrics
     const tagMetrics: Record<string, { revenue: number; customers: number; orders: number }> = {};
+    const metricsFor = (tag: string) => (tagMetrics[tag] ??= { revenue: 0, customers: 0, orders: 0 });
+
     for (const c of customers) {
-        if (!c.tags) continue;
-        const tags = [...new Set(c.tags.split(",").map(t => t.trim()).filter(Boolean))];
-        for (const tag of tags) {
-            if (!tagMetrics[tag]) tagMetrics[tag] = { revenue: 0, customers: 0, orders: 0 };
-            tagMetrics[tag].revenue += c.totalSpent;
-            tagMetrics[tag].customers += 1;
-            tagMetrics[tag].orders += c.orderCount;
+        for (const tag of new Set(splitList(c.tags))) metricsFor(tag).customers += 1;
+    }
+
+    const useLocalOrders = await hasLocalOrders(store.id);
+    let totalRevenue = 0;
+    let totalOrders = 0;
+
+    if (useLocalOrders) {
+        const customerTags = new Map(customers.map(c => [c.id, splitList(c.tags)]));
+        const orders = await db.order.findMany({
+            where: { storeId: store.id },
+            select: { customerId: true, totalPrice: true, tags: true }
+        });
+
+        for (const o of orders) {
+            totalRevenue += o.totalPrice;
+            totalOrders += 1;
+            const tags = new Set([...splitList(o.tags), ...(o.customerId ? customerTags.get(o.customerId) || [] : [])]);
+            for (const tag of tags) {
+                metricsFor(tag).revenue += o.totalPrice;
+                metricsFor(tag).orders += 1;
+            }
+        }
+    } else {
+        for (const c of customers) {
+            totalRevenue += c.totalSpent;
+            totalOrders += c.orderCount;
+            for (const tag of new Set(splitList(c.tags))) {
+                metricsFor(tag).revenue += c.totalSpent;
+                metricsFor(tag).orders += c.orderCount;
+            }
         }
     }
 
@@ -56,14 +87,12 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
             avgOrderValue: m.orders > 0 ? parseFloat((m.revenue / m.orders).toFixed(2)) : 0
         }));
 
-    const totalRevenue = customers.reduce((s, c) => s + c.totalSpent, 0);
-    const totalOrders = customers.reduce((s, c) => s + c.orderCount, 0);
-
     return {
         segments: sorted,
         totalRevenue: parseFloat(totalRevenue.toFixed(2)),
         totalCustomers: customers.length,
         totalOrders,
+        useLocalOrders,
         planName: store.planName
     };
 };
@@ -132,7 +161,7 @@ function KpiCard({ label, value, sub, icon, tone, bg, trend }: {
 // ─── Component ────────────────────────────────────────────────────────────────
 
 export default function ROIDashboard() {
-    const { segments, totalRevenue, totalCustomers, totalOrders, planName } = useLoaderData<typeof loader>();
+    const { segments, totalRevenue, totalCustomers, totalOrders, useLocalOrders, planName } = useLoaderData<typeof loader>();
     const navigate = useNavigate();
     const isFree = !planName || planName === "Free";
 
@@ -177,7 +206,9 @@ export default function ROIDashboard() {
     return (
         <Page
             title="Revenue ROI Dashboard"
-            subtitle="Deep dive into your customer segmentation revenue attribution."
+            subtitle={useLocalOrders
+                ? "Deep dive into your customer segmentation revenue attribution, order by order."
+                : "Deep dive into your customer segmentation revenue attribution. Order-level figures appear after your first historical sync."}
             backAction={{ content: "Dashboard", url: "/app" }}
         >
             <Layout>
@@ -0,0 +1,219 @@
+import { useState } from "react";
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
+import { useLoaderData, useActionData, useSubmit, useNavigation, useNavigate, useFetcher, redirect } from "react-router";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { getCachedStore } from "../services/cache.server";
+import { saveRuleVersion, saveOriginalRuleVersion, getRuleAuthor } from "../services/rule-versions.server";
+import { toDraftRule, previewRuleImpact } from "../services/rule-impact.server";
+import type { RuleImpact } from "../services/rule-impact.server";
+import { isTagTemplate } from "../services/tag-template";
+import RuleSimulationPanel from "../components/RuleSimulationPanel";
+import RuleConflictWarnings from "../components/RuleConflictWarnings";
+import { ANALYZED_RULE_SELECT } from "../services/rule-conflicts";
+import RuleBuilderFields, { useRuleBuilder, parseRuleForm, ruleToBuilderValues } from "../components/RuleBuilder";
+import {
+    Page, Layout, Card, Text, BlockStack, InlineStack, Button, Banner, Box, Checkbox, Divider, Badge
+} from "@shopify/polaris";
+
+// ─── Loader ───────────────────────────────────────────────────────────────────
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+    const { session } = await authenticate.admin(request);
+    const store = await getCachedStore(session.shop);
+    if (!store) throw new Response("Store not found", { status: 404 });
+
+    const rule = await db.rule.findFirst({ where: { id: params.id, storeId: store.id } });
+    if (!rule) throw new Response("Rule not found", { status: 404 });
+
+    // Other members of existing exclusive groups (see app.rules.new.tsx)
+    const groupedRules = await db.rule.findMany({
+        where: { storeId: store.id, exclusiveGroup: { not: null }, id: { not: rule.id } },
+        select: { exclusiveGroup: true, targetTag: true, groupPriority: true },
+        orderBy: { groupPriority: "desc" }
+    });
+
+    // Checked against the edited rule (see rule-conflicts.ts)
+    const existingRules = await db.rule.findMany({ where: { storeId: store.id }, select: ANALYZED_RULE_SELECT });
+
+    return {
+        rule,
+        groupedRules,
+        existingRules,
+        timezone: store.timezone,
+        klaviyoConnected: !!store.klaviyoApiKey,
+        mailchimpConnected: !!store.mailchimpApiKey
+    };
+};
+
+// Tags are only migrated between two plain tags: a template's values can't be mapped 1:1
+const canRenameTag = (oldTag: string, newTag: string) =>
+    !!newTag.trim() && oldTag !== newTag.trim() && !isTagTemplate(oldTag) && !isTagTemplate(newTag);
+
+// ─── Action ───────────────────────────────────────────────────────────────────
+
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+    const { session, admin } = await authenticate.admin(request);
+    const store = await getCachedStore(session.shop);
+    if (!store) return { error: "Store not found" };
+
+    const rule = await db.rule.findFirst({ where: { id: params.id, storeId: store.id } });
+    if (!rule) return { error: "Rule not found" };
+
+    const fd = await request.formData();
+    const parsed = parseRuleForm(fd);
+    if ("error" in parsed) return { error: parsed.error };
+
+    const renameFrom = fd.get("renameTags") === "true" && canRenameTag(rule.targetTag, parsed.data.targetTag) ? rule.targetTag : null;
+
+    // ── Impact Preview ───────────────────────────────────────────
+    if (fd.get("actionType") === "preview_impact") {
+        const impact = await previewRuleImpact(admin, store.id, toDraftRule(store.id, parsed.data, rule), renameFrom);
+        return { impact };
+    }
+
+    // ── Save Rule ────────────────────────────────────────────────
+    await saveOriginalRuleVersion(rule);
+    const updated = await db.rule.update({ where: { id: rule.id }, data: parsed.data });
+    await saveRuleVersion(updated, getRuleAuthor(session));
+
+    // Queued as background jobs (see jobs.server.ts). A rename queues the re-evaluation with
+    // the new definition itself once the tags are migrated
+    try {
+        const { enqueueTagRenameJob, enqueueSyncJob } = await import("../services/queue.server");
+        if (renameFrom) await enqueueTagRenameJob({ shop: session.shop, storeId: store.id, ruleId: rule.id, oldTag: renameFrom });
+        else await enqueueSyncJob({ shop: session.shop, storeId: store.id, syncType: "RULES" });
+    } catch (e) { console.error("[RULE_EDIT] Post-save re-evaluation failed:", e); }
+
+    return redirect("/app/rules");
+};
+
+// ─── Components ───────────────────────────────────────────────────────────────
+
+function ImpactSummary({ impact }: { impact: RuleImpact }) {
+    if (impact.unavailable) return <Banner tone="warning">{impact.unavailable}</Banner>;
+
+    const noun = impact.entity === "order" ? "orders" : "customers";
+    const rows: { label: string; value: number; tone?: "success" | "critical" | "attention" | "info" }[] = [
+        { label: `${noun} would gain the tag`, value: impact.wouldGain, tone: "success" },
+        { label: `${noun} would lose the tag`, value: impact.wouldLose, tone: "critical" },
+        { label: `${noun} no longer match but keep the tag (order rules never remove tags)`, value: impact.keptWithoutMatch, tone: "attention" },
+        { label: `${noun} get the renamed tag`, value: impact.renamed, tone: "info" },
+        { label: `${noun} unchanged`, value: impact.unchanged }
+    ];
+
+    return (
+        <BlockStack gap="200">
+            {rows.filter(r => r.value > 0 || r.tone === "success" || r.tone === "critical").map(r => (
+                <InlineStack key={r.label} gap="200" blockAlign="center" wrap={false}>
+                    <Badge tone={r.tone}>{r.value.toLocaleString()}</Badge>
+                    <Text as="span" variant="bodySm">{r.label}</Text>
+                </InlineStack>
+            ))}
+            <Text as="p" variant="bodySm" tone="subdued">
+                {`Based on ${impact.evaluated.toLocaleString()} ${noun} stored locally. Exclusive groups and tag expiry are not applied.`}
+            </Text>
+        </BlockStack>
+    );
+}
+
+export default function EditRule() {
+    const { rule, groupedRules, existingRules, timezone, klaviyoConnected, mailchimpConnected } = useLoaderData<typeof loader>();
+    const actionData = useActionData<typeof action>();
+    const submit = useSubmit();
+    const navigation = useNavigation();
+    const navigate = useNavigate();
+    const isSaving = navigation.state === "submitting";
+
+    const builder = useRuleBuilder(ruleToBuilderValues(rule));
+    const [renameTags, setRenameTags] = useState(true);
+
+    const previewFetcher = useFetcher<typeof action>();
+    const [previewedState, setPreviewedState] = useState("");
+    const impact = previewFetcher.data && "impact" in previewFetcher.data ? previewFetcher.data.impact : null;
+    const previewError = previewFetcher.data && "error" in previewFetcher.data ? previewFetcher.data.error : null;
+
+    const tagRenamed = canRenameTag(rule.targetTag, builder.values.targetTag);
+    const formState = JSON.stringify({ ...builder.values, renameTags: tagRenamed && renameTags });
+
+    const buildFormData = () => {
+        const fd = builder.toFormData();
+        fd.append("renameTags", String(tagRenamed && renameTags));
+        return fd;
+    };
+
+    const handlePreview = () => {
+        const fd = buildFormData();
+        fd.append("actionType", "preview_impact");
+        setPreviewedState(formState);
+        previewFetcher.submit(fd, { method: "post" });
+    };
+
+    const handleSave = () => submit(buildFormData(), { method: "post" });
+
+    return (
+        <Page
+            title={`Edit rule: ${rule.name}`}
+            backAction={{ content: "Rules", onAction: () => navigate("/app/rules") }}
+            primaryAction={{ content: isSaving ? "Saving…" : "Save Rule", onAction: handleSave, loading: isSaving }}
+            secondaryActions={[{ content: "Version history", onAction: () => navigate(`/app/rules/${rule.id}/history`) }]}
+        >
+            <Layout>
+                <Layout.Section>
+                    <Card>
+                        <BlockStack gap="400">
+                            {actionData?.error && <Banner tone="critical">{actionData.error}</Banner>}
+                            <RuleBuilderFields
+                                builder={builder}
+                                groupedRules={groupedRules}
+                                klaviyoConnected={klaviyoConnected}
+                                mailchimpConnected={mailchimpConnected}
+                                timezone={timezone}
+                            />
+                            <RuleConflictWarnings builder={builder} rules={existingRules} ruleId={rule.id} />
+                            {tagRenamed && (
+                                <Banner tone="info" title={`Tag renamed from "${rule.targetTag}" to "${builder.values.targetTag.trim()}"`}>
+                                    <Checkbox
+                                        label={`Migrate existing tags: replace "${rule.targetTag}" with the new tag on every ${rule.targetEntity === "order" ? "stored order" : "customer"} that has it`}
+                                        checked={renameTags}
+                                        onChange={setRenameTags}
+                                    />
+                                </Banner>
+                            )}
+                        </BlockStack>
+                    </Card>
+                </Layout.Section>
+
+                <Layout.Section variant="oneThird">
+                    <Card>
+                        <BlockStack gap="300">
+                            <Text as="h2" variant="headingMd">Impact preview</Text>
+                            <Text as="p" variant="bodySm" tone="subdued">
+                                See who would gain or lose the tag under the edited rule before saving.
+                            </Text>
+                            <Button onClick={handlePreview} loading={previewFetcher.state !== "idle"}>Preview impact</Button>
+                            {previewError && <Banner tone="critical">{previewError}</Banner>}
+                            {impact && (
+                                <>
+                                    <Divider />
+                                    <ImpactSummary impact={impact} />
+                                    {previewedState !== formState && (
+                                        <Box>
+                                            <Text as="p" variant="bodySm" tone="caution">The rule changed since this preview. Preview again to update it.</Text>
+                                        </Box>
+                                    )}
+                                </>
+                            )}
+                        </BlockStack>
+                    </Card>
+                </Layout.Section>
+
+                <Layout.Section>
+                    <Card>
+                        <RuleSimulationPanel builder={builder} ruleId={rule.id} />
+                    </Card>
+                </Layout.Section>
+            </Layout>
+        </Page>
+    );
+}
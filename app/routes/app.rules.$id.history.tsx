@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
+import { useLoaderData, useActionData, useSubmit, useNavigation, useNavigate } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { getCachedStore } from "../services/cache.server";
+import { getRuleVersions, diffRuleVersions, rollbackRule, getRuleAuthor } from "../services/rule-versions.server";
+import type { RuleVersionDiff } from "../services/rule-versions.server";
+import {
+    Page, Layout, Card, Text, BlockStack, InlineStack, Badge, Button, Select, Box, Divider, Banner, EmptyState
+} from "@shopify/polaris";
+
+// ─── Loader ───────────────────────────────────────────────────────────────────
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+    const { session } = await authenticate.admin(request);
+    const store = await getCachedStore(session.shop);
+    if (!store) throw new Response("Store not found", { status: 404 });
+
+    const rule = await db.rule.findFirst({ where: { id: params.id, storeId: store.id } });
+    if (!rule) throw new Response("Rule not found", { status: 404 });
+
+    const versions = await getRuleVersions(store.id, rule.id);
+
+    // How many tag changes each version produced
+    const logCounts = await db.activityLog.groupBy({
+        by: ["ruleVersionId"],
+        where: { storeId: store.id, ruleId: rule.id, ruleVersionId: { not: null }, action: { not: "TAG_SUPPRESSED" } },
+        _count: { _all: true }
+    });
+    const countByVersion = new Map(logCounts.map(c => [c.ruleVersionId, c._count._all]));
+
+    // versions are newest first: each one is compared with the one saved before it
+    const history = versions.map((version, i) => ({
+        ...version,
+        isCurrent: version.id === rule.currentVersionId,
+        activityCount: countByVersion.get(version.id) || 0,
+        changes: versions[i + 1] ? diffRuleVersions(versions[i + 1], version) : null
+    }));
+
+    // Free comparison between any two versions (?from=&to=)
+    const url = new URL(request.url);
+    const from = versions.find(v => v.id === url.searchParams.get("from"));
+    const to = versions.find(v => v.id === url.searchParams.get("to"));
+    const comparison = from && to ? diffRuleVersions(from, to) : null;
+
+    return {
+        rule: { id: rule.id, name: rule.name, targetTag: rule.targetTag },
+        history,
+        comparison,
+        fromId: from?.id || "",
+        toId: to?.id || ""
+    };
+};
+
+// ─── Action ───────────────────────────────────────────────────────────────────
+
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+    const { session } = await authenticate.admin(request);
+    const store = await getCachedStore(session.shop);
+    if (!store) return { error: "Store not found", message: null };
+
+    const fd = await request.formData();
+    const versionId = fd.get("versionId") as string;
+    if (fd.get("actionType") !== "rollback" || !versionId || !params.id) return null;
+
+    const version = await rollbackRule(session.shop, store.id, params.id, versionId, getRuleAuthor(session));
+    if (!version) return { error: "Version not found", message: null };
+
+    return { error: null, message: `Rolled back (saved as v${version.version}). Re-evaluating customers and orders in the background.` };
+};
+
+// ─── Components ───────────────────────────────────────────────────────────────
+
+function DiffView({ diff }: { diff: RuleVersionDiff }) {
+    if (diff.fields.length === 0) {
+        return <Text as="p" variant="bodySm" tone="subdued">No changes to the rule logic.</Text>;
+    }
+
+    return (
+        <BlockStack gap="200">
+            {diff.fields.filter(f => f.field !== "conditions").map(f => (
+                <InlineStack key={f.field} gap="200" blockAlign="center">
+                    <Text as="span" variant="bodySm" fontWeight="semibold">{f.label}:</Text>
+                    <Text as="span" variant="bodySm" tone="critical"><s>{f.before}</s></Text>
+                    <Text as="span" variant="bodySm">→</Text>
+                    <Text as="span" variant="bodySm" tone="success">{f.after}</Text>
+                </InlineStack>
+            ))}
+            {diff.conditionsRemoved.map((c, i) => (
+                <Text key={`removed-${i}`} as="p" variant="bodySm" tone="critical"><code>- {c}</code></Text>
+            ))}
+            {diff.conditionsAdded.map((c, i) => (
+                <Text key={`added-${i}`} as="p" variant="bodySm" tone="success"><code>+ {c}</code></Text>
+            ))}
+            {diff.fields.some(f => f.field === "conditions") && diff.conditionsAdded.length === 0 && diff.conditionsRemoved.length === 0 && (
+                <Text as="p" variant="bodySm" tone="subdued">Conditions regrouped (same conditions, different AND / OR structure).</Text>
+            )}
+        </BlockStack>
+    );
+}
+
+export default function RuleHistory() {
+    const { rule, history, comparison, fromId, toId } = useLoaderData<typeof loader>();
+    const actionData = useActionData<typeof action>();
+    const shopify = useAppBridge();
+    const submit = useSubmit();
+    const navigate = useNavigate();
+    const navigation = useNavigation();
+
+    const [compareFrom, setCompareFrom] = useState(fromId || history[1]?.id || "");
+    const [compareTo, setCompareTo] = useState(toId || history[0]?.id || "");
+
+    useEffect(() => {
+        if (actionData?.message) shopify.toast.show(actionData.message, { duration: 5000 });
+        if (actionData?.error) shopify.toast.show(actionData.error, { isError: true });
+    }, [actionData, shopify]);
+
+    const handleRollback = (versionId: string, version: number) => {
+        if (confirm(`Restore version ${version} of "${rule.name}"? The rule is saved as a new version and every customer and order is re-evaluated.`)) {
+            submit({ actionType: "rollback", versionId }, { method: "post" });
+        }
+    };
+
+    const handleCompare = () => {
+        const params = new URLSearchParams(window.location.search);
+        params.set("from", compareFrom);
+        params.set("to", compareTo);
+        navigate(`?${params.toString()}`);
+    };
+
+    const versionOptions = history.map(v => ({ label: `v${v.version} — ${new Date(v.createdAt).toLocaleString()}`, value: v.id }));
+
+    return (
+        <Page
+            title={`Version history: ${rule.name}`}
+            backAction={{ content: "Rules", onAction: () => navigate("/app/rules") }}
+        >
+            <Layout>
+                {history.length === 0 ? (
+                    <Layout.Section>
+                        <Card>
+                            <EmptyState heading="No versions yet" image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png">
+                                <p>This rule was created before version history existed. Its first version is recorded the next time it is saved.</p>
+                            </EmptyState>
+                        </Card>
+                    </Layout.Section>
+                ) : (
+                    <>
+                        {history.length > 1 && (
+                            <Layout.Section>
+                                <Card>
+                                    <BlockStack gap="300">
+                                        <Text as="h2" variant="headingMd">Compare versions</Text>
+                                        <InlineStack gap="300" blockAlign="end">
+                                            <Select label="From" options={versionOptions} value={compareFrom} onChange={setCompareFrom} />
+                                            <Select label="To" options={versionOptions} value={compareTo} onChange={setCompareTo} />
+                                            <Button onClick={handleCompare} disabled={!compareFrom || !compareTo || compareFrom === compareTo}>Compare</Button>
+                                        </InlineStack>
+                                        {comparison && <DiffView diff={comparison} />}
+                                    </BlockStack>
+                                </Card>
+                            </Layout.Section>
+                        )}
+
+                        <Layout.Section>
+                            <Card>
+                                <BlockStack gap="300">
+                                    <Text as="h2" variant="headingMd">Versions</Text>
+                                    {history.map((version, i) => (
+                                        <BlockStack key={version.id} gap="200">
+                                            {i > 0 && <Divider />}
+                                            <InlineStack align="space-between" blockAlign="center">
+                                                <InlineStack gap="200" blockAlign="center">
+                                                    <Text as="span" variant="headingSm">{`v${version.version}`}</Text>
+                                                    {version.isCurrent && <Badge tone="success">Current</Badge>}
+                                                    {version.note && <Badge tone="info">{version.note}</Badge>}
+                                                    <Text as="span" variant="bodySm" tone="subdued">
+                                                        {`${new Date(version.createdAt).toLocaleString()} by ${version.author || "unknown"} · ${version.activityCount.toLocaleString()} tag changes`}
+                                                    </Text>
+                                                </InlineStack>
+                                                {!version.isCurrent && (
+                                                    <Button
+                                                        size="slim"
+                                                        onClick={() => handleRollback(version.id, version.version)}
+                                                        loading={navigation.state === "submitting" && navigation.formData?.get("versionId") === version.id}
+                                                    >
+                                                        Roll back to this version
+                                                    </Button>
+                                                )}
+                                            </InlineStack>
+                                            <Box paddingInlineStart="400">
+                                                {version.changes ? (
+                                                    <DiffView diff={version.changes} />
+                                                ) : (
+                                                    <Text as="p" variant="bodySm" tone="subdued">
+                                                        {`First version: tag "${version.targetTag}" on ${version.targetEntity}s.`}
+                                                    </Text>
+                                                )}
+                                            </Box>
+                                        </BlockStack>
+                                    ))}
+                                </BlockStack>
+                            </Card>
+                        </Layout.Section>
+
+                        <Layout.Section>
+                            <Banner tone="info">
+                                Rolling back restores the rule&apos;s conditions, tag and settings and re-evaluates every customer and order.
+                            </Banner>
+                        </Layout.Section>
+                    </>
+                )}
+            </Layout>
+        </Page>
+    );
+}
@@ -4,10 +4,16 @@ import { authenticate } from "../shopify.server";
 import db from "../db.server";
 import { getCachedStore } from "../services/cache.server";
 import { Page, Layout, Card, Text, BlockStack, IndexTable, Badge, Button, EmptyState, InlineStack, Tooltip, Modal, Box, Banner, Divider } from "@shopify/polaris";
-import { DeleteIcon, AutomationIcon, ExportIcon, RefreshIcon, SearchIcon } from "@shopify/polaris-icons";
+import { DeleteIcon, AutomationIcon, ExportIcon, RefreshIcon, SearchIcon, ClockIcon, EditIcon } from "@shopify/polaris-icons";
 import { useAppBridge } from "@shopify/app-bridge-react";
 import { useState, useEffect } from "react";
-import { enqueueSyncJob } from "../services/queue.server";
+import { enqueueSyncJob, getSyncJobSummary } from "../services/queue.server";
+import { isTagTemplate, tagMatchesTemplate } from "../services/tag-template";
+import { getExclusiveGroupKey, compareGroupPriority } from "../services/exclusive-groups";
+import { analyzeRules } from "../services/rule-conflicts";
+import { getScheduleState, describeSchedule } from "../services/rule-schedule";
+import { getTimeBasedRules, getScheduledRunStatus, SCHEDULED_RUN_INTERVAL_HOURS } from "../services/rule-scheduler.server";
+import SyncJobProgress from "../components/SyncJobProgress";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
     const { session } = await authenticate.admin(request);
@@ -37,6 +43,20 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         logsMap.set(group.tagContext, (logsMap.get(group.tagContext) || 0) + 1);
     }
 
+    // Template rules render a different tag per customer, so their logs are counted by rule instead
+    const templateRuleIds = rules.filter(r => isTagTemplate(r.targetTag)).map(r => r.id);
+    const templateLogsMap = new Map<string, number>();
+    if (templateRuleIds.length > 0) {
+        const templateLogGroups = await db.activityLog.groupBy({
+            by: ['ruleId', 'customerId'],
+            where: { storeId: store.id, action: "TAG_ADDED", ruleId: { in: templateRuleIds } }
+        });
+        for (const group of templateLogGroups) {
+            if (!group.ruleId) continue;
+            templateLogsMap.set(group.ruleId, (templateLogsMap.get(group.ruleId) || 0) + 1);
+        }
+    }
+
     // 2. Customers are a bit tricky because they are comma-separated string `contains` checks, 
     //    so we just fetch all tagged customers once and tally them in JS (O(1) query)
     const allTaggedCustomers = await db.customer.findMany({
@@ -44,20 +64,41 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         select: { tags: true }
     });
 
+    // Static checks: contradictions, duplicates, same-tag conflicts (see rule-conflicts.ts)
+    const warnings = analyzeRules(rules);
+    const severityOrder = { critical: 0, warning: 1, info: 2 };
+
     const rulesWithMetrics = rules.map(rule => {
+        const isTemplate = isTagTemplate(rule.targetTag);
         let matchingCustomerCount = 0;
         if (rule.targetEntity === "customer") {
             for (const customer of allTaggedCustomers) {
-                if (customer.tags?.includes(rule.targetTag)) {
+                const matches = isTemplate
+                    ? (customer.tags || "").split(",").some(t => tagMatchesTemplate(rule.targetTag, t))
+                    : customer.tags?.includes(rule.targetTag);
+                if (matches) {
                     matchingCustomerCount++;
                 }
             }
         }
 
+        // Exclusive group position: #1 is the tag that wins when several members match
+        const groupKey = getExclusiveGroupKey(rule);
+        const groupMembers = groupKey
+            ? rules.filter(r => getExclusiveGroupKey(r) === groupKey).sort(compareGroupPriority)
+            : [];
+
         return {
             ...rule,
+            isTemplate,
+            groupRank: groupMembers.findIndex(r => r.id === rule.id) + 1,
+            groupOrder: groupMembers.map(r => r.targetTag),
+            warnings: warnings.filter(w => w.ruleId === rule.id).sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]),
+            // Campaign window in the store's timezone (see rule-schedule.ts)
+            scheduleState: getScheduleState(rule, store.timezone),
+            scheduleLabel: describeSchedule(rule),
             matchingCustomers: matchingCustomerCount,
-            timesFired: logsMap.get(rule.targetTag) || 0
+            timesFired: (isTemplate ? templateLogsMap.get(rule.id) : logsMap.get(rule.targetTag)) || 0
         };
     });
 
@@ -67,11 +108,18 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     const totalOrders = store.syncTarget || totalCustomers * 2.5; 
     let estimatedMinutes = 3 + Math.ceil((totalCustomers + totalOrders) / 500);
 
+    // 4. Scheduled re-evaluation status for rules with relative date conditions
+    const timeBasedRuleCount = getTimeBasedRules(rules.filter(r => r.isActive)).length;
+    const scheduledRun = timeBasedRuleCount > 0 ? await getScheduledRunStatus(store.id) : null;
+
     return {
         rules: rulesWithMetrics,
         currentPlanName: store.planName,
         estimatedSyncMinutes: estimatedMinutes,
         isSyncing: store.isSyncing,
+        syncJob: await getSyncJobSummary(store.id),
+        timeBasedRuleCount,
+        scheduledRun,
         klaviyoConnected: !!(store.klaviyoAccessToken || store.klaviyoApiKey),
         mailchimpConnected: !!(store.mailchimpApiKey && store.mailchimpServerPrefix && store.mailchimpListId)
     };
@@ -97,16 +145,6 @@ export const action = async ({ request }: ActionFunctionArgs) => {
                 storeId: store.id,
                 syncType: "RULES",
             });
-            // Also reset DB syncing flags locally so they don't block old UI
-            try {
-                await db.store.update({
-                    where: { id: store.id },
-                    data: { isSyncing: false, syncMessage: null }
-                });
-            } catch (err: any) {
-                if (!err.message?.includes("no such column")) throw err;
-                console.error("[SYNC_SAFE] Skipping isSyncing reset due to missing DB columns.");
-            }
         }
         return { success: true, message: "Started evaluating historical data. This runs in the background and may take a few minutes." };
     }
@@ -129,9 +167,16 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     return null;
 }
 
+const SCHEDULE_BADGES: Record<"scheduled" | "active" | "waiting" | "ended", { label: string; tone?: "success" | "info" | "attention" }> = {
+    scheduled: { label: "Scheduled", tone: "info" },
+    active: { label: "Active (scheduled)", tone: "success" },
+    waiting: { label: "Active — outside hours", tone: "attention" },
+    ended: { label: "Ended" }
+};
+
 export default function RulesManagement() {
     const shopify = useAppBridge();
-    const { rules, currentPlanName, estimatedSyncMinutes, isSyncing, klaviyoConnected, mailchimpConnected } = useLoaderData<typeof loader>();
+    const { rules, currentPlanName, estimatedSyncMinutes, isSyncing, syncJob, timeBasedRuleCount, scheduledRun, klaviyoConnected, mailchimpConnected } = useLoaderData<typeof loader>();
     const actionData = useActionData<typeof action>();
     const navigate = useNavigate();
     const submit = useSubmit();
@@ -146,6 +191,7 @@ export default function RulesManagement() {
     }, [actionData, shopify]);
 
     const [isUpgradeModalOpen, setIsUpgradeModalOpen] = useState(false);
+    const rulesWithIssues = rules.filter(r => r.warnings.some(w => w.severity !== "info"));
 
     const handleDelete = (id: string, name: string) => {
         if (confirm(`Are you sure you want to delete the rule "${name}"? This will stop future matching but will not remove tags already applied.`)) {
@@ -221,7 +267,8 @@ export default function RulesManagement() {
             let conditionPreview = "Complex Logic";
             try {
                 const parsed = JSON.parse(rule.conditions);
-                if (parsed.length > 0) {
+                // Rules starting with a nested AND/OR group keep the "Complex Logic" label
+                if (parsed.length > 0 && parsed[0].type !== "group") {
                     const opSymbol = parsed[0].operator === 'greaterThan' ? '>' :
                         parsed[0].operator === 'lessThan' ? '<' :
                             parsed[0].operator === 'equals' ? '=' :
@@ -229,6 +276,7 @@ export default function RulesManagement() {
                     conditionPreview = `${parsed[0].field} ${opSymbol} ${parsed[0].value}`;
                 }
             } catch (e) { }
+            const issueCount = rule.warnings.filter(w => w.severity !== "info").length;
 
             return (
                 <IndexTable.Row
@@ -251,6 +299,21 @@ export default function RulesManagement() {
                                     <Badge tone="info" size="small">M</Badge>
                                 </Tooltip>
                             )}
+                            {rule.expireAfterDays && (
+                                <Tooltip content={`Tag is removed ${rule.expireAfterDays} days after the last qualifying order`}>
+                                    <Badge tone="attention" size="small">{`${rule.expireAfterDays}d TTL`}</Badge>
+                                </Tooltip>
+                            )}
+                            {rule.warnings.length > 0 && (
+                                <Tooltip content={rule.warnings.map(w => w.message).join(" ")}>
+                                    <Badge
+                                        tone={rule.warnings[0].severity === "critical" ? "critical" : rule.warnings[0].severity === "warning" ? "warning" : "info"}
+                                        size="small"
+                                    >
+                                        {issueCount === 0 ? "Can be simplified" : `${issueCount} issue${issueCount === 1 ? '' : 's'}`}
+                                    </Badge>
+                                </Tooltip>
+                            )}
                         </InlineStack>
                     </IndexTable.Cell>
                     <IndexTable.Cell>
@@ -259,7 +322,20 @@ export default function RulesManagement() {
                         </Box>
                     </IndexTable.Cell>
                     <IndexTable.Cell>
-                        <Badge tone="info" progress="complete">{rule.targetTag}</Badge>
+                        {rule.isTemplate ? (
+                            <Tooltip content="Tag template — rendered per customer / order">
+                                <Badge tone="magic" progress="complete">{rule.targetTag}</Badge>
+                            </Tooltip>
+                        ) : (
+                            <Badge tone="info" progress="complete">{rule.targetTag}</Badge>
+                        )}
+                        {rule.exclusiveGroup && (
+                            <Box paddingBlockStart="100">
+                                <Tooltip content={`Exclusive group — only the first matching tag is kept: ${rule.groupOrder.join(" › ")}`}>
+                                    <Badge size="small">{`${rule.exclusiveGroup} · #${rule.groupRank} of ${rule.groupOrder.length}`}</Badge>
+                                </Tooltip>
+                            </Box>
+                        )}
                     </IndexTable.Cell>
                     <IndexTable.Cell>
                         <Text variant="bodyMd" fontWeight="semibold" as="span">
@@ -273,7 +349,13 @@ export default function RulesManagement() {
                     </IndexTable.Cell>
                     <IndexTable.Cell>
                         <BlockStack gap="100">
-                            {rule.isActive ? <Badge tone="success">Active</Badge> : <Badge tone="critical">Inactive</Badge>}
+                            {!rule.isActive ? <Badge tone="critical">Inactive</Badge>
+                                : rule.scheduleState === "always" ? <Badge tone="success">Active</Badge>
+                                : (
+                                    <Tooltip content={`Schedule: ${rule.scheduleLabel}`}>
+                                        <Badge tone={SCHEDULE_BADGES[rule.scheduleState].tone}>{SCHEDULE_BADGES[rule.scheduleState].label}</Badge>
+                                    </Tooltip>
+                                )}
                             {rule.lastSyncCompletedAt && !isSyncing ? (
                                 <Tooltip content={`Finished at ${new Date(rule.lastSyncCompletedAt).toLocaleString()}`}>
                                     <Badge tone="success" progress="complete">✓ Sync Done</Badge>
@@ -315,6 +397,20 @@ export default function RulesManagement() {
                                     />
                                 </Tooltip>
                             )}
+                            <Tooltip content="Edit rule">
+                                <Button
+                                    icon={EditIcon}
+                                    onClick={() => navigate(`/app/rules/${rule.id}/edit`)}
+                                    accessibilityLabel={`Edit ${rule.name}`}
+                                />
+                            </Tooltip>
+                            <Tooltip content="Version history, diff & rollback">
+                                <Button
+                                    icon={ClockIcon}
+                                    onClick={() => navigate(`/app/rules/${rule.id}/history`)}
+                                    accessibilityLabel={`Version history for ${rule.name}`}
+                                />
+                            </Tooltip>
                             <Tooltip content={`Export ${rule.targetEntity === 'order' ? 'Orders' : 'Customers'} CSV (Pro)`}>
                                 <Button
                                     icon={ExportIcon}
@@ -379,6 +475,22 @@ export default function RulesManagement() {
                 </Modal>
 
                 <Layout.Section>
+                    {rulesWithIssues.length > 0 && (
+                        <Box paddingBlockEnd="400">
+                            <Banner
+                                title={`${rulesWithIssues.length} rule${rulesWithIssues.length === 1 ? ' has' : 's have'} conflicts or can never match`}
+                                tone={rulesWithIssues.some(r => r.warnings.some(w => w.severity === "critical")) ? "critical" : "warning"}
+                            >
+                                <BlockStack gap="100">
+                                    {rulesWithIssues.map(r => (
+                                        <Text key={r.id} as="p" variant="bodySm">
+                                            <strong>{r.name}</strong>{`: ${r.warnings.filter(w => w.severity !== "info").map(w => w.message).join(" ")}`}
+                                        </Text>
+                                    ))}
+                                </BlockStack>
+                            </Banner>
+                        </Box>
+                    )}
                     <Box paddingBlockEnd="400">
                         <Banner title="Historical Sync" tone="info">
                             <p>
@@ -387,6 +499,13 @@ export default function RulesManagement() {
                             </p>
                         </Banner>
                     </Box>
+                    {syncJob && (
+                        <Box paddingBlockEnd="400">
+                            <Card>
+                                <SyncJobProgress syncJob={syncJob} />
+                            </Card>
+                        </Box>
+                    )}
                     <div className="premium-card">
                         <Box padding="400">
                             <BlockStack gap="200">
@@ -394,6 +513,17 @@ export default function RulesManagement() {
                                     <BlockStack gap="200">
                                         <Text variant="headingMd" as="h3">Active Smart Rules</Text>
                                         <Text as="p" tone="subdued">Rules are evaluated automatically whenever a new customer is created or an order is paid.</Text>
+                                        {scheduledRun ? (
+                                            <Text as="p" variant="bodySm" tone="subdued">
+                                                {timeBasedRuleCount} time-based rule{timeBasedRuleCount === 1 ? '' : 's'} re-evaluated every {SCHEDULED_RUN_INTERVAL_HOURS}h.{' '}
+                                                Last run: {scheduledRun.lastRun
+                                                    ? `${new Date(scheduledRun.lastRun.startedAt).toLocaleString()} (${scheduledRun.lastRun.status === "COMPLETED"
+                                                        ? `${scheduledRun.lastRun.customersEvaluated} customers, +${scheduledRun.lastRun.tagsAdded} / -${scheduledRun.lastRun.tagsRemoved} tags`
+                                                        : scheduledRun.lastRun.status.toLowerCase()})`
+                                                    : 'never'}
+                                                {' · '}Next run: {scheduledRun.nextRunAt ? new Date(scheduledRun.nextRunAt).toLocaleString() : 'within the hour'}
+                                            </Text>
+                                        ) : null}
                                     </BlockStack>
                                     
                                     {isSyncing ? (
@@ -5,13 +5,18 @@ import db from "../db.server";
 import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
 import { useLoaderData, useSubmit, useActionData, useNavigation, useNavigate, useFetcher, redirect } from "react-router";
 import { useAppBridge } from "@shopify/app-bridge-react";
+import RuleSimulationPanel from "../components/RuleSimulationPanel";
+import RuleConflictWarnings from "../components/RuleConflictWarnings";
+import { ANALYZED_RULE_SELECT } from "../services/rule-conflicts";
+import RuleBuilderFields, { useRuleBuilder, parseRuleForm, normalizeConditionNodes, DEFAULT_METRIC_CONDITION, EMPTY_RULE_VALUES } from "../components/RuleBuilder";
+import { saveRuleVersion, getRuleAuthor } from "../services/rule-versions.server";
 import {
-    Page, Layout, Card, FormLayout, TextField, Select, Button, Banner,
-    BlockStack, Text, InlineStack, Box, Icon, Badge, Modal, Spinner, Checkbox, Tooltip
+    Page, Layout, Card, TextField, Button, Banner,
+    BlockStack, Text, InlineStack, Box, Icon, Badge, Modal, Spinner
 } from "@shopify/polaris";
 import {
     CashDollarIcon, PersonIcon, ClockIcon, SearchIcon, MagicIcon,
-    OrderIcon, PaymentIcon, DiscountIcon, EditIcon, PlusIcon, LocationIcon, DeleteIcon
+    OrderIcon, PaymentIcon, DiscountIcon, EditIcon, PlusIcon, LocationIcon
 } from "@shopify/polaris-icons";
 
 // ─── Loader ───────────────────────────────────────────────────────────────────
@@ -19,9 +24,22 @@ import {
 export const loader = async ({ request }: LoaderFunctionArgs) => {
     const { session } = await authenticate.admin(request);
     const store = await getCachedStore(session.shop);
+
+    // Existing exclusive groups, so a new tier can join one with the right priority
+    const groupedRules = store ? await db.rule.findMany({
+        where: { storeId: store.id, exclusiveGroup: { not: null } },
+        select: { exclusiveGroup: true, targetTag: true, groupPriority: true },
+        orderBy: { groupPriority: "desc" }
+    }) : [];
+
+    // Checked against the rule being built (see rule-conflicts.ts)
+    const existingRules = store ? await db.rule.findMany({ where: { storeId: store.id }, select: ANALYZED_RULE_SELECT }) : [];
     
     return { 
         planName: store?.planName || "Free",
+        groupedRules,
+        existingRules,
+        timezone: store?.timezone ?? null,
         klaviyoConnected: !!store?.klaviyoApiKey,
         mailchimpConnected: !!store?.mailchimpApiKey
     };
@@ -30,7 +48,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 // ─── Action ───────────────────────────────────────────────────────────────────
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-    const { session, admin } = await authenticate.admin(request);
+    const { session } = await authenticate.admin(request);
     const store = await getCachedStore(session.shop);
     if (!store) return { error: "Store not found" };
 
@@ -52,54 +70,19 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     }
 
     // ── Save Rule ────────────────────────────────────────────────
-    const name = fd.get("name") as string;
-    const targetTag = fd.get("targetTag") as string;
-    const targetEntity = (fd.get("targetEntity") as string) || "customer";
-    const matchType = (fd.get("matchType") as string) || "ALL";
-    const conditionsJson = fd.get("conditionsJson") as string;
-
-    if (!name?.trim() || !targetTag?.trim()) return { error: "Rule name and tag are required." };
-
-    let conditions: any[] = [];
-    try {
-        if (conditionsJson) {
-            conditions = JSON.parse(conditionsJson);
-            // Ensure numbers are converted if needed for metrics
-            conditions = conditions.map((c: any) => {
-                if (c.ruleCategory === "metric" && c.field !== "lastOrderDate") {
-                    return { ...c, value: Number(c.value) };
-                }
-                return c;
-            });
-        }
-    } catch (e) { return { error: "Invalid conditions structure" }; }
-
-    const description = `${conditions.length} condition(s) specified.`;
+    const parsed = parseRuleForm(fd);
+    if ("error" in parsed) return { error: parsed.error };
 
-    const syncToKlaviyo = fd.get("syncToKlaviyo") === "true";
-    const syncToMailchimp = fd.get("syncToMailchimp") === "true";
-
-    await db.rule.create({
-        data: {
-            storeId: store.id, name, description,
-            conditions: JSON.stringify(conditions), targetTag, targetEntity,
-            matchType, isActive: true,
-            syncToKlaviyo, syncToMailchimp
-        }
+    const rule = await db.rule.create({
+        data: { storeId: store.id, ...parsed.data, isActive: true }
     });
+    await saveRuleVersion(rule, getRuleAuthor(session));
 
-    // Fire-and-forget: do NOT await this — redirect immediately
-    Promise.resolve().then(async () => {
-        try {
-            const isFree = store.planName === "Free" || store.planName === "";
-            const { fetchAllCustomers } = await import("../services/shopify-helpers.server");
-            const customersToSync = await fetchAllCustomers(admin, isFree);
-            if (customersToSync.length > 0) {
-                const { enqueueSyncJob } = await import("../services/queue.server");
-                enqueueSyncJob({ shop: session.shop, storeId: store.id, syncType: "RULES" });
-            }
-        } catch (e) { console.error("Auto-sync failed:", e); }
-    });
+    // Queued as a background job (see jobs.server.ts): the redirect doesn't wait for the sync
+    try {
+        const { enqueueSyncJob } = await import("../services/queue.server");
+        await enqueueSyncJob({ shop: session.shop, storeId: store.id, syncType: "RULES" });
+    } catch (e) { console.error("Auto-sync failed:", e); }
 
     return redirect("/app/rules");
 };
@@ -128,38 +111,6 @@ type Template = {
     targetEntity?: "customer" | "order";
 };
 
-// ─── Config ───────────────────────────────────────────────────────────────────
-
-const ORDER_FIELDS = [
-    { label: "Traffic Source (facebook, tiktok, google…)", value: "order_source" },
-    { label: "Payment Method (paypal, stripe, cod…)", value: "payment_method" },
-    { label: "Shipping City", value: "shipping_city" },
-    { label: "Shipping Country (US, UK, BD…)", value: "shipping_country" },
-    { label: "Total Item Quantity", value: "order_item_count" },
-    { label: "Order Subtotal ($)", value: "order_subtotal" },
-    { label: "Discount Code Used? (true / false)", value: "discount_code_used" },
-    { label: "Specific Discount Code", value: "discount_code_value" },
-    { label: "Discount Percentage Applied (%)", value: "discount_percentage" },
-    { label: "Pre-Order Customer (true / false)", value: "is_preorder" },
-];
-
-const getOps = (field: string) => {
-    if (["order_item_count", "order_subtotal", "discount_percentage"].includes(field))
-        return [{ label: "Greater than (>)", value: "greaterThan" }, { label: "Less than (<)", value: "lessThan" }, { label: "Equals (=)", value: "equals" }];
-    if (["discount_code_used", "is_preorder"].includes(field))
-        return [{ label: "Equals (=)", value: "equals" }];
-    return [{ label: "Contains", value: "contains" }, { label: "Exactly equals", value: "equals" }];
-};
-
-const getHint = (field: string) => ({
-    order_source: "Use lowercase. E.g.: facebook, tiktok, instagram, google",
-    payment_method: "Shopify gateway name. E.g.: paypal, cash_on_delivery, stripe",
-    shipping_country: "2-letter ISO code. E.g.: US, UK, BD, AU, CA",
-    discount_code_used: "Enter: true — to match orders WITH a code, false — without",
-    is_preorder: "Enter: true — to match pre-order orders",
-    discount_code_value: "Partial match supported. E.g.: SAVE15 or SUMMER",
-} as any)[field] || "";
-
 // ─── Templates ────────────────────────────────────────────────────────────────
 
 const TEMPLATES: Template[] = [
@@ -197,7 +148,7 @@ const TEMPLATES: Template[] = [
         category: "customer", icon: ClockIcon,
         description: "No purchase in last 90 days",
         longDescription: "When customer's last order was more than 90 days ago, automatically add tag At-Risk to customer.",
-        ruleType: "metric", field: "lastOrderDate", operator: "isBefore", value: "__90_DAYS_AGO__", tag: "At-Risk",
+        ruleType: "metric", field: "lastOrderDate", operator: "moreThanDaysAgo", value: "90", tag: "At-Risk",
     },
     // Order — Traffic Source
     {
@@ -323,7 +274,7 @@ const CATEGORIES: { label: string; value: Category }[] = [
 // ─── Component ────────────────────────────────────────────────────────────────
 
 export default function NewRule() {
-    const { planName, klaviyoConnected, mailchimpConnected } = useLoaderData<typeof loader>();
+    const { planName, klaviyoConnected, mailchimpConnected, groupedRules, existingRules, timezone } = useLoaderData<typeof loader>();
     const actionData = useActionData<typeof action>();
     const submit = useSubmit();
     const navigation = useNavigation();
@@ -343,38 +294,34 @@ export default function NewRule() {
     const [selectedTemplate, setSelectedTemplate] = useState<Template | null>(null);
     const [isModalOpen, setIsModalOpen] = useState(false);
 
+
     // Form state
-    const [name, setName] = useState("");
-    const [targetTag, setTargetTag] = useState("");
-    const [targetEntity, setTargetEntity] = useState("customer");
-    const [matchType, setMatchType] = useState("ALL");
-    const [syncToKlaviyo, setSyncToKlaviyo] = useState(false);
-    const [syncToMailchimp, setSyncToMailchimp] = useState(false);
-    const [conditions, setConditions] = useState<any[]>([{ ruleCategory: "metric", field: "totalSpent", operator: "greaterThan", value: "" }]);
+    const builder = useRuleBuilder();
+    // Bumped when the AI fills in the builder, so the generated rule is simulated before saving
+    const [simulationRunToken, setSimulationRunToken] = useState(0);
 
     // Auto-populate form when AI returns a result
     useEffect(() => {
         const gen = (aiFetcher.data as any)?.aiGenerated;
         if (!gen) return;
         setSelectedTemplate(null);
-        setName(gen.name || aiPrompt);
-        setTargetTag(gen.targetTag || "");
-        setTargetEntity(gen.targetEntity || "customer");
-        setMatchType(gen.matchType || "ALL");
 
         let newConditions = [];
         if (gen.conditions && gen.conditions.length > 0) {
-            // Standardize AI conditions
-            newConditions = gen.conditions.map((c: any) => ({
-                ruleCategory: c.ruleCategory || "metric",
-                field: c.field || "totalSpent",
-                operator: c.operator || "greaterThan",
-                value: String(c.value || "")
-            }));
+            // Standardize AI conditions (recursively, for nested groups)
+            newConditions = normalizeConditionNodes(gen.conditions);
         } else {
-            newConditions = [{ ruleCategory: "metric", field: "totalSpent", operator: "greaterThan", value: "" }];
+            newConditions = [{ ...DEFAULT_METRIC_CONDITION }];
         }
-        setConditions(newConditions);
+        builder.reset({
+            ...EMPTY_RULE_VALUES,
+            name: gen.name || aiPrompt,
+            targetTag: gen.targetTag || "",
+            targetEntity: gen.targetEntity || "customer",
+            matchType: gen.matchType || "ALL",
+            conditions: newConditions
+        });
+        setSimulationRunToken(token => token + 1);
         setIsModalOpen(true);
     }, [aiFetcher.data]);
 
@@ -394,26 +341,10 @@ export default function NewRule() {
 
     const applyTemplate = (t: Template) => {
         setSelectedTemplate(t);
-        setName(t.label);
-        setTargetTag(t.tag);
-        setTargetEntity(t.targetEntity || "customer");
-        setMatchType("ALL");
-        setSyncToKlaviyo(false);
-        setSyncToMailchimp(false);
-
-        // Helper: compute a date string N days in the past
-        const daysAgo = (n: number) => {
-            const d = new Date();
-            d.setDate(d.getDate() - n);
-            return d.toISOString().split("T")[0]; // YYYY-MM-DD
-        };
 
         let newConditions: any[] = [];
 
-        if (t.key === "at_risk") {
-            // Dynamically calculate 90 days ago so the condition always fires correctly
-            newConditions = [{ ruleCategory: "metric", field: "lastOrderDate", operator: "isBefore", value: daysAgo(90) }];
-        } else if (t.key === "high_volume_social") {
+        if (t.key === "high_volume_social") {
             // Mixed rule: metric (totalSpent) + order (traffic source)
             newConditions = [
                 { ruleCategory: "metric", field: "totalSpent", operator: "greaterThan", value: "500" },
@@ -425,70 +356,29 @@ export default function NewRule() {
                 { ruleCategory: "order", field: "payment_method", operator: "contains", value: "cash_on_delivery" }
             ];
         } else if (t.ruleType === "metric") {
-            // Check if value is a sentinel placeholder
-            const val = t.value === "__90_DAYS_AGO__" ? daysAgo(90) : (t.value || "");
-            newConditions = [{ ruleCategory: "metric", field: t.field || "totalSpent", operator: t.operator || "greaterThan", value: val }];
+            // Date templates use relative operators (e.g. moreThanDaysAgo 90), resolved at evaluation time
+            newConditions = [{ ruleCategory: "metric", field: t.field || "totalSpent", operator: t.operator || "greaterThan", value: t.value || "" }];
         } else {
             newConditions = [{ ruleCategory: "order", field: t.orderField || "order_source", operator: t.orderOperator || "contains", value: t.orderValue || "" }];
         }
 
-        setConditions(newConditions);
+        builder.reset({
+            ...EMPTY_RULE_VALUES,
+            name: t.label,
+            targetTag: t.tag,
+            targetEntity: t.targetEntity || "customer",
+            conditions: newConditions
+        });
         setIsModalOpen(true);
     };
 
     const openBlank = () => {
         setSelectedTemplate(null);
-        setName(""); setTargetTag(""); setTargetEntity("customer"); setMatchType("ALL");
-        setSyncToKlaviyo(false); setSyncToMailchimp(false);
-        setConditions([{ ruleCategory: "metric", field: "totalSpent", operator: "greaterThan", value: "" }]);
+        builder.reset(EMPTY_RULE_VALUES);
         setIsModalOpen(true);
     };
 
-    const addCondition = () => {
-        setConditions([...conditions, { ruleCategory: "order", field: "order_source", operator: "contains", value: "" }]);
-    };
-
-    const updateCondition = (index: number, key: string, val: string) => {
-        const newConds = [...conditions];
-        newConds[index][key] = val;
-        // Auto-fix operator on field switch
-        if (key === "field") {
-            if (newConds[index].ruleCategory === "metric") {
-                newConds[index].operator = val === "lastOrderDate" ? "isBefore" : "greaterThan";
-            } else {
-                newConds[index].operator = getOps(val)[0]?.value || "contains";
-            }
-        }
-        if (key === "ruleCategory") {
-            if (val === "metric") { newConds[index].field = "totalSpent"; newConds[index].operator = "greaterThan"; }
-            else { newConds[index].field = "order_source"; newConds[index].operator = "contains"; }
-        }
-        setConditions(newConds);
-    };
-
-    const removeCondition = (index: number) => {
-        setConditions(conditions.filter((_, i) => i !== index));
-    };
-
-    const handleSubmit = () => {
-        const fd = new FormData();
-        fd.append("name", name);
-        fd.append("targetTag", targetTag.trim());
-        fd.append("targetEntity", targetEntity);
-        fd.append("matchType", matchType);
-        fd.append("conditionsJson", JSON.stringify(conditions));
-        fd.append("syncToKlaviyo", syncToKlaviyo.toString());
-        fd.append("syncToMailchimp", syncToMailchimp.toString());
-        submit(fd, { method: "post" });
-    };
-
-    const metricFieldOptions = [
-        { label: "Total Spent ($)", value: "totalSpent" },
-        { label: "Number of Orders", value: "orderCount" },
-        { label: "Last Order Date", value: "lastOrderDate" },
-    ];
-
-    const orderFieldOptions = ORDER_FIELDS.map(f => ({ label: f.label, value: f.value }));
+    const handleSubmit = () => submit(builder.toFormData(), { method: "post" });
 
     return (
         <>
@@ -511,132 +401,19 @@ export default function NewRule() {
                             <Banner tone="critical">{actionData.error}</Banner>
                         </Box>
                     )}
-                    <FormLayout>
-                        <TextField
-                            label="Rule Name"
-                            value={name}
-                            onChange={setName}
-                            placeholder="e.g. High-value Customers"
-                            autoComplete="off"
-                        />
-                        <Select
-                            label="Multiple Conditions Behavior"
-                            options={[
-                                { label: "Match ALL conditions (AND)", value: "ALL" },
-                                { label: "Match ANY condition (OR)", value: "ANY" },
-                            ]}
-                            value={matchType}
-                            onChange={setMatchType}
-                        />
-                        <Text variant="headingSm" as="h6">Conditions</Text>
-                        <BlockStack gap="300">
-                            {conditions.map((cond, index) => {
-                                const isMetric = cond.ruleCategory === "metric";
-                                const ops = isMetric
-                                    ? (cond.field === "lastOrderDate"
-                                        ? [{ label: "Before", value: "isBefore" }, { label: "After", value: "isAfter" }]
-                                        : [{ label: "Greater than (>)", value: "greaterThan" }, { label: "Less than (<)", value: "lessThan" }, { label: "Equals (=)", value: "equals" }])
-                                    : getOps(cond.field);
-
-                                return (
-                                    <div key={index} style={{ padding: "12px", background: "var(--p-color-bg-surface-secondary)", borderRadius: "8px", position: "relative" }}>
-                                        {conditions.length > 1 && (
-                                            <div style={{ position: "absolute", top: "12px", right: "12px", zIndex: 2 }}>
-                                                <Button size="micro" variant="tertiary" tone="critical" onClick={() => removeCondition(index)} icon={DeleteIcon} />
-                                            </div>
-                                        )}
-                                        <FormLayout>
-                                            <Select
-                                                label="Condition Scope"
-                                                options={[
-                                                    { label: "Customer Property", value: "metric" },
-                                                    { label: "Order Property", value: "order" },
-                                                ]}
-                                                value={cond.ruleCategory}
-                                                onChange={v => updateCondition(index, "ruleCategory", v)}
-                                            />
-                                            <FormLayout.Group>
-                                                <Select
-                                                    label="Field"
-                                                    options={isMetric ? metricFieldOptions : orderFieldOptions}
-                                                    value={cond.field}
-                                                    onChange={v => updateCondition(index, "field", v)}
-                                                />
-                                                <Select
-                                                    label="Operator"
-                                                    options={ops}
-                                                    value={cond.operator}
-                                                    onChange={v => updateCondition(index, "operator", v)}
-                                                />
-                                                <TextField
-                                                    label={isMetric ? (cond.field === "lastOrderDate" ? "Date (YYYY-MM-DD)" : "Value") : "Value"}
-                                                    value={cond.value}
-                                                    onChange={v => updateCondition(index, "value", v)}
-                                                    helpText={!isMetric ? getHint(cond.field) : ""}
-                                                    placeholder={isMetric ? (cond.field === "totalSpent" ? "1000" : cond.field === "orderCount" ? "5" : "2024-01-01") : "e.g. facebook, true"}
-                                                    autoComplete="off"
-                                                />
-                                            </FormLayout.Group>
-                                        </FormLayout>
-                                    </div>
-                                );
-                            })}
-                        </BlockStack>
-                        <InlineStack>
-                            <Button size="slim" icon={PlusIcon} onClick={addCondition}>Add AND Condition</Button>
-                        </InlineStack>
-
-                        <TextField
-                            label="Tag to Apply"
-                            value={targetTag}
-                            onChange={setTargetTag}
-                            placeholder="e.g. VIP, Loyal-Customer"
-                            helpText={`This tag will be added to the ${targetEntity === "order" ? "Order" : "Customer"} in Shopify.`}
-                            autoComplete="off"
-                        />
-                        <Select
-                            label="Tag Target"
-                            options={[
-                                { label: "Shopify Customer Profile", value: "customer" },
-                                { label: "Shopify Order", value: "order" },
-                            ]}
-                            value={targetEntity}
-                            onChange={setTargetEntity}
-                            helpText={targetEntity === "order" ? "The tag will appear on the individual Shopify Order." : "The tag will appear on the Customer's profile in Shopify."}
-                        />
-
-                        {targetEntity === "customer" && (
-                            <Box paddingBlockStart="200">
-                                <BlockStack gap="200">
-                                    <Text variant="headingSm" as="h3">Marketing Integrations</Text>
-                                    
-                                    <Tooltip content={!klaviyoConnected ? "Connect Klaviyo on the Integrations page to enable." : "Push all matching customer profiles to Klaviyo."}>
-                                        <Checkbox
-                                            label="Sync segment to Klaviyo"
-                                            checked={syncToKlaviyo}
-                                            onChange={setSyncToKlaviyo}
-                                            disabled={!klaviyoConnected}
-                                        />
-                                    </Tooltip>
-
-                                    <Tooltip content={!mailchimpConnected ? "Connect Mailchimp on the Integrations page to enable." : "Push all matching customer profiles to Mailchimp."}>
-                                        <Checkbox
-                                            label="Sync segment to Mailchimp"
-                                            checked={syncToMailchimp}
-                                            onChange={setSyncToMailchimp}
-                                            disabled={!mailchimpConnected}
-                                        />
-                                    </Tooltip>
-
-                                    {(!klaviyoConnected || !mailchimpConnected) && (
-                                        <Text as="p" variant="bodySm" tone="subdued">
-                                            Visit the Integrations page to activate external syncing functionality.
-                                        </Text>
-                                    )}
-                                </BlockStack>
-                            </Box>
-                        )}
-                    </FormLayout>
+                    <RuleBuilderFields
+                        builder={builder}
+                        groupedRules={groupedRules}
+                        klaviyoConnected={klaviyoConnected}
+                        mailchimpConnected={mailchimpConnected}
+                        timezone={timezone}
+                    />
+                    <Box paddingBlockStart="400">
+                        <RuleConflictWarnings builder={builder} rules={existingRules} />
+                    </Box>
+                </Modal.Section>
+                <Modal.Section>
+                    <RuleSimulationPanel builder={builder} runToken={simulationRunToken} />
                 </Modal.Section>
             </Modal>
 
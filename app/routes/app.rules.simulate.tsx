@@ -0,0 +1,30 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { getCachedStore } from "../services/cache.server";
+import { parseRuleForm } from "../components/RuleBuilder";
+import { toDraftRule } from "../services/rule-impact.server";
+import { simulateRule } from "../services/rule-simulation.server";
+
+// Dry run of the builder's current form (see RuleSimulationPanel). Nothing is saved or tagged.
+export const action = async ({ request }: ActionFunctionArgs) => {
+    const { session, admin } = await authenticate.admin(request);
+    const store = await getCachedStore(session.shop);
+    if (!store) return { error: "Store not found" };
+
+    const fd = await request.formData();
+    const parsed = parseRuleForm(fd);
+    if ("error" in parsed) return { error: parsed.error };
+
+    // Editing: simulate as the existing rule, so it doesn't compete with itself in its exclusive group
+    const ruleId = fd.get("ruleId") as string | null;
+    const current = ruleId ? await db.rule.findFirst({ where: { id: ruleId, storeId: store.id } }) : null;
+
+    try {
+        const simulation = await simulateRule(admin, store.id, toDraftRule(store.id, parsed.data, current));
+        return { simulation };
+    } catch (e: any) {
+        console.error("[RULE_SIMULATION] Dry run failed:", e);
+        return { error: e.message || "Simulation failed." };
+    }
+};
@@ -1,4 +1,5 @@
 import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
+import type { Rule } from "@prisma/client";
 import { useLoaderData, useActionData, useNavigation, Form } from "react-router";
 import {
     Page, Layout, Card, Text, BlockStack, InlineStack, Badge, Button,
@@ -7,9 +8,18 @@ import {
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
 import { getCachedStore } from "../services/cache.server";
-import { fetchAllOrders, fetchAllCustomers } from "../services/shopify-helpers.server";
+import { fetchAllOrders, fetchAllCustomers, fetchProductDetails } from "../services/shopify-helpers.server";
+import { hasLocalOrders, getLocalOrderPayloads } from "../services/order-store.server";
 import { evaluateOrderRules } from "../services/order-rules.server";
+import { mapGraphqlOrder, getOrderProductIds, rulesNeedProductDetails } from "../services/order-data.server";
+import type { ProductDetailsMap } from "../services/order-data.server";
+import { rulesNeedOrderHistory, hasHistoryConditions, loadOrderHistory, computeHistoryAggregate, describeHistoryCondition } from "../services/purchase-history.server";
+import type { OrderHistory } from "../services/purchase-history.server";
+import { profileFromGraphqlCustomer } from "../services/customer-profile.server";
 import { calculateCustomerTags } from "../services/rule.server";
+import { hasOrderConditions, parseConditionNodes, flattenConditions } from "../services/condition-tree";
+import { findTemplateTags } from "../services/tag-template";
+import { withExclusiveGroupSiblings, isSameExclusiveGroup, compareGroupPriority, describeExclusiveGroupLoss } from "../services/exclusive-groups";
 import { useState } from "react";
 
 // ─── Action: Run diagnostic scan ──────────────────────────────────────────────
@@ -24,10 +34,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     const activeRules = await db.rule.findMany({ where: { storeId: store.id, isActive: true } });
 
     // Separate order rules from customer rules
-    const orderRules = activeRules.filter(r => {
-        try { return JSON.parse(r.conditions).some((c: any) => c.ruleCategory === "order"); }
-        catch { return false; }
-    });
+    const orderRules = activeRules.filter(r => hasOrderConditions(r.conditions));
     const customerRules = activeRules.filter(r => !orderRules.some(or => or.id === r.id));
 
     let rulesToScanOrder: any[] = [];
@@ -50,72 +57,89 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     const results: any[] = [];
     let totalItems = 0;
 
+    // Higher-priority rule of the same exclusive group that matched or already holds its tag
+    const findGroupWinner = (rule: Rule, matchedRuleIds: string[], existingTags: string[]) =>
+        activeRules
+            .filter(r => r.id !== rule.id && isSameExclusiveGroup(r, rule) && compareGroupPriority(r, rule) < 0)
+            .filter(r => matchedRuleIds.includes(r.id) || findTemplateTags(r.targetTag, existingTags).length > 0)
+            .sort(compareGroupPriority)[0];
+
     // --- Order Rules Evaluation ---
     if (rulesToScanOrder.length > 0) {
-        const allOrders = await fetchAllOrders(admin);
+        // Local Order table once the store is backfilled, otherwise straight from Shopify
+        const allOrders = await hasLocalOrders(store.id)
+            ? await getLocalOrderPayloads(store.id)
+            : (await fetchAllOrders(admin, 5000)).map(edge => mapGraphqlOrder(edge.node));
         totalItems += allOrders.length;
 
-        for (const edge of allOrders) {
-            const o = edge.node;
-            const subtotal = parseFloat(o.subtotalPriceSet?.shopMoney?.amount || "0");
-            const existingTags: string[] = o.tags || [];
-
-            const mappedOrder = {
-                subtotal_price: String(subtotal),
-                total_discounts: o.totalDiscountsSet?.shopMoney?.amount || "0",
-                discount_codes: o.discountCodes ? o.discountCodes.map((c: string) => ({ code: c })) : [],
-                payment_gateway_names: o.paymentGatewayNames || [],
-                source_name: o.channel?.name || o.sourceIdentifier || "",
-                referring_site: "", landing_site: "",
-                shipping_address: { city: o.shippingAddress?.city, country_code: o.shippingAddress?.countryCode },
-                tags: existingTags,
-                line_items: (o.lineItems?.edges || []).map((le: any) => ({
-                    quantity: le.node.quantity,
-                    properties: le.node.customAttributes?.map((ca: any) => ({ name: ca.key, value: ca.value })) || []
-                }))
-            };
+        const productDetails = rulesNeedProductDetails(rulesToScanOrder)
+            ? await fetchProductDetails(admin, allOrders.flatMap(getOrderProductIds))
+            : undefined;
 
-            const customerData = {
-                id: o.customer?.id?.split("/").pop() || "guest",
-                totalSpent: parseFloat(o.customer?.amountSpent?.amount || "0"),
-                orderCount: parseInt(o.customer?.numberOfOrders || "0"),
-                tags: (o.customer?.tags || []).join(", "),
-            };
+        // Customer metrics for mixed rules come from the local Customer table
+        const customerIds = [...new Set(allOrders.map(o => o.customer?.id).filter((id): id is string => !!id))];
+        const customers = await db.customer.findMany({ where: { storeId: store.id, id: { in: customerIds } } });
+        const customersById = new Map(customers.map(c => [c.id, c]));
+
+        for (const mappedOrder of allOrders) {
+            const subtotal = parseFloat(mappedOrder.subtotal_price || "0");
+            const existingTags: string[] = mappedOrder.tags;
+
+            const customer = mappedOrder.customer?.id ? customersById.get(mappedOrder.customer.id) : undefined;
+            const customerData = customer
+                ? { ...customer, tags: customer.tags || "" }
+                : { id: mappedOrder.customer?.id || "guest", totalSpent: 0, orderCount: 0, tags: "" };
 
             for (const rule of rulesToScanOrder) {
-                const hasTag = existingTags.includes(rule.targetTag);
+                // Template rules (e.g. "City-{{shipping_city}}") count any rendered value
+                const hasTag = findTemplateTags(rule.targetTag, existingTags).length > 0;
 
                 if (hasTag) {
                     results.push({
-                        type: "order", id: o.id.split("/").pop(), itemContext: `Subtotal: $${subtotal.toFixed(2)}`,
+                        type: "order", id: mappedOrder.id, itemContext: `Subtotal: $${subtotal.toFixed(2)}`,
                         existingTags, tag: rule.targetTag, ruleName: rule.name, qualifies: true, status: "already_tagged", skipReason: ""
                     });
                     continue;
                 }
 
                 const mappedOrderForEval = { ...mappedOrder, tags: [] };
-                const matched = evaluateOrderRules(mappedOrderForEval, customerData, [rule], []).filter((r: any) => r.targetEntity === "order");
+                // Exclusive group siblings compete, so a lower tier shows why it isn't applied
+                const evaluated = evaluateOrderRules(mappedOrderForEval, customerData, withExclusiveGroupSiblings([rule], activeRules), [], productDetails);
+                const matched = evaluated.filter(r => r.targetEntity === "order" && r.ruleId === rule.id);
                 const qualifies = matched.length > 0;
+                const lostTo = !qualifies ? findGroupWinner(rule, evaluated.map(r => r.ruleId), existingTags) : undefined;
 
                 let status: string = qualifies ? "needs_tag" : "no_match";
                 let skipReason = "";
 
-                if (!qualifies) {
+                if (lostTo) {
+                    skipReason = describeExclusiveGroupLoss(lostTo);
+                } else if (!qualifies) {
                     try {
-                        const conditions = JSON.parse(rule.conditions);
+                        const conditions = flattenConditions(parseConditionNodes(rule.conditions));
                         const actualValues: Record<string, any> = {
                             order_subtotal: subtotal,
-                            payment_method: Array.isArray(o.paymentGatewayNames) ? o.paymentGatewayNames.join(", ") || "(none)" : "(none)",
-                            order_source: o.channel?.name || o.sourceIdentifier || "(none)",
-                            shipping_city: o.shippingAddress?.city || "(none)",
-                            shipping_country: o.shippingAddress?.countryCode || "(none)",
-                            discount_code_used: (o.discountCodes && o.discountCodes.length > 0) ? "true" : "false",
+                            payment_method: mappedOrder.payment_gateway_names.join(", ") || "(none)",
+                            order_source: [mappedOrder.referring_site, mappedOrder.landing_site, mappedOrder.source_name].filter(Boolean).join(" ") || "(none)",
+                            shipping_city: mappedOrder.shipping_address.city || "(none)",
+                            shipping_country: mappedOrder.shipping_address.country_code || "(none)",
+                            discount_code_used: mappedOrder.discount_codes.length > 0 ? "true" : "false",
                         };
-                        skipReason = conditions.filter((c: any) => c.ruleCategory === "order").map((c: any) => `${c.field} ${c.operator} "${c.value}" (actual: "${actualValues[c.field] ?? "?"}")`).join(" AND ");
+                        // Line-item fields: list the values across all items
+                        const items = mappedOrder.line_items;
+                        const detailsOf = (item: { product_id: string | null }) => productDetails?.get(item.product_id || "");
+                        const listOrNone = (values: (string | null | undefined)[]) => [...new Set(values.filter(Boolean))].join(", ") || "(none)";
+                        actualValues.product_id = listOrNone(items.map((i) => i.product_id));
+                        actualValues.product_sku = listOrNone(items.map((i) => i.sku));
+                        actualValues.product_vendor = listOrNone(items.map((i) => i.vendor || detailsOf(i)?.vendor));
+                        actualValues.product_type = listOrNone(items.map((i) => detailsOf(i)?.productType));
+                        actualValues.product_tag = listOrNone(items.flatMap((i) => detailsOf(i)?.tags || []));
+                        actualValues.product_collection = listOrNone(items.flatMap((i) => detailsOf(i)?.collections || []));
+                        skipReason = conditions.filter((c: any) => c.ruleCategory === "order").map((c: any) => `${c.field} ${c.operator} "${c.value}"${c.itemMatch === "all" ? " [all items]" : ""} (actual: "${actualValues[c.field] ?? "?"}")`).join(" AND ");
                     } catch { skipReason = "Could not parse conditions"; }
                 }
 
-                results.push({ type: "order", id: o.id.split("/").pop(), itemContext: `Subtotal: $${subtotal.toFixed(2)}`, existingTags, tag: rule.targetTag, ruleName: rule.name, qualifies, status, skipReason });
+                results.push({ type: "order", id: mappedOrder.id, itemContext: `Subtotal: $${subtotal.toFixed(2)}`, existingTags, tag: rule.targetTag, ruleName: rule.name, qualifies, status, skipReason });
             }
         }
     }
@@ -126,6 +150,10 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         const allCustomers = await fetchAllCustomers(admin, isFree);
         totalItems += allCustomers.length;
 
+        // Purchase-history rules need each customer's orders — fetched lazily, product details shared
+        const needsHistory = rulesNeedOrderHistory(rulesToScanCustomer);
+        const historyProductDetails: ProductDetailsMap = new Map();
+
         for (const edge of allCustomers) {
             const c = edge.node;
             const tagsArray = Array.isArray(c.tags) ? c.tags : (typeof c.tags === "string" ? c.tags.split(",") : []);
@@ -137,11 +165,14 @@ export const action = async ({ request }: ActionFunctionArgs) => {
                 totalSpent: parseFloat(c.amountSpent?.amount || "0"),
                 orderCount: parseInt(c.numberOfOrders || "0"),
                 lastOrderDate: new Date(), // Shopify Customers api doesn't directly expose last_order_date without orders nested
-                createdAt: new Date(), updatedAt: new Date()
+                createdAt: new Date(), updatedAt: new Date(),
+                ...profileFromGraphqlCustomer(c)
             };
+            let orderHistory: OrderHistory | undefined;
 
             for (const rule of rulesToScanCustomer) {
-                const hasTag = existingTags.includes(rule.targetTag);
+                // Template rules (e.g. "City-{{shipping_city}}") count any rendered value
+                const hasTag = findTemplateTags(rule.targetTag, existingTags).length > 0;
 
                 if (hasTag) {
                     results.push({
@@ -151,22 +182,31 @@ export const action = async ({ request }: ActionFunctionArgs) => {
                     continue;
                 }
 
+                if (needsHistory && !orderHistory && hasHistoryConditions(rule.conditions)) {
+                    orderHistory = await loadOrderHistory(admin, store.id, customerMock.id, rulesToScanCustomer, historyProductDetails);
+                }
+
                 // Call the actual calculation logic
-                const tagsData = await calculateCustomerTags(customerMock, [rule]);
-                const qualifies = tagsData.tagsToAdd.some(t => t.tag === rule.targetTag);
+                const tagsData = await calculateCustomerTags(customerMock, withExclusiveGroupSiblings([rule], activeRules), orderHistory);
+                const qualifies = tagsData.tagsToAdd.some(t => t.ruleId === rule.id);
+                const lostTo = !qualifies ? findGroupWinner(rule, tagsData.tagsToAdd.map(t => t.ruleId), existingTags) : undefined;
 
                 let status: string = qualifies ? "needs_tag" : "no_match";
                 let skipReason = "";
 
-                if (!qualifies) {
+                if (lostTo) {
+                    skipReason = describeExclusiveGroupLoss(lostTo);
+                } else if (!qualifies) {
                     try {
-                        const conditions = JSON.parse(rule.conditions);
+                        const conditions = flattenConditions(parseConditionNodes(rule.conditions));
                         const actualValues: Record<string, any> = {
                             totalSpent: customerMock.totalSpent,
                             orderCount: customerMock.orderCount,
                             lastOrderDate: "Skipped (API limitation)",
                         };
-                        skipReason = conditions.map((c: any) => `${c.field} ${c.operator} "${c.value}" (actual: "${actualValues[c.field] ?? "?"}")`).join(" AND ");
+                        skipReason = conditions.map((c: any) => c.ruleCategory === "history"
+                            ? `${describeHistoryCondition(c)} (actual: ${orderHistory ? computeHistoryAggregate(orderHistory, c) : "?"})`
+                            : `${c.field} ${c.operator} "${c.value}" (actual: "${actualValues[c.field] ?? "?"}")`).join(" AND ");
                     } catch { skipReason = "Could not parse conditions"; }
                 }
 
@@ -232,9 +272,7 @@ export default function SyncDebugPage() {
 
     const [selectedId, setSelectedId] = useState<string>("__all_orders__");
 
-    const orderRules = activeRules.filter(r => {
-        try { return JSON.parse(r.conditions).some((c: any) => c.ruleCategory === "order"); } catch { return false; }
-    });
+    const orderRules = activeRules.filter(r => hasOrderConditions(r.conditions));
     const customerRules = activeRules.filter(r => !orderRules.some(or => or.id === r.id));
 
     const tagOptions = [
@@ -257,6 +295,7 @@ export default function SyncDebugPage() {
             title="Sync Diagnostics"
             subtitle="Scan customers or orders explicitly to see exactly which ones match your active rules."
             backAction={{ url: "/app/rules", content: "Rules" }}
+            secondaryActions={[{ content: "Explain one order or customer", url: "/app/explain" }]}
         >
             <Layout>
                 <Layout.Section>
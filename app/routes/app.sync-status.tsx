@@ -0,0 +1,35 @@
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { getCachedStore } from "../services/cache.server";
+import { getSyncJobSummary } from "../services/queue.server";
+import { pauseJob, resumeJob, cancelJob } from "../services/jobs.server";
+
+// Latest sync job, polled by SyncJobProgress while the job is active
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+    const { session } = await authenticate.admin(request);
+    const store = await getCachedStore(session.shop);
+    if (!store) return { syncJob: null };
+
+    return { syncJob: await getSyncJobSummary(store.id) };
+};
+
+// Pause, resume or cancel the sync job (a running job stops at its next checkpoint)
+export const action = async ({ request }: ActionFunctionArgs) => {
+    const { session } = await authenticate.admin(request);
+    const store = await getCachedStore(session.shop);
+    if (!store) return { syncJob: null, error: "Store not found" };
+
+    const fd = await request.formData();
+    const actionType = fd.get("action");
+    const jobId = fd.get("jobId") as string;
+
+    let applied = false;
+    if (actionType === "pause_sync") applied = await pauseJob(store.id, jobId);
+    if (actionType === "resume_sync") applied = await resumeJob(store.id, jobId);
+    if (actionType === "cancel_sync") applied = await cancelJob(store.id, jobId);
+
+    return {
+        syncJob: await getSyncJobSummary(store.id),
+        error: applied ? null : "The sync already moved on. Refresh to see its current state."
+    };
+};
@@ -4,12 +4,15 @@ import { authenticate } from "../shopify.server";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import db from "../db.server";
 import { getCachedStore } from "../services/cache.server";
+import { getCustomerTagExpiries } from "../services/tag-expiry.server";
+import { parseRuleTrace } from "../services/condition-tree";
+import RuleTraceView from "../components/RuleTraceView";
 import {
   Page, Layout, Card, Text, BlockStack, InlineStack, Badge,
-  TextField, Button, Icon, Box, Divider, EmptyState, Avatar
+  TextField, Button, Icon, Box, Divider, EmptyState, Avatar, Tooltip
 } from "@shopify/polaris";
 import {
-  SearchIcon, EmailIcon, ChartVerticalIcon, HashtagIcon, CheckIcon, XIcon, AppsIcon
+  SearchIcon, EmailIcon, ChartVerticalIcon, HashtagIcon, CheckIcon, XIcon, AppsIcon, DisabledIcon
 } from "@shopify/polaris-icons";
 import { useState } from "react";
 
@@ -38,6 +41,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
   let selectedCustomer = null;
   let timelineLogs: any[] = [];
+  let tagExpiries: Awaited<ReturnType<typeof getCustomerTagExpiries>> = [];
 
   if (selectedCustomerId) {
     selectedCustomer = await db.customer.findUnique({
@@ -47,19 +51,41 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     if (selectedCustomer) {
       timelineLogs = await db.activityLog.findMany({
         where: { storeId: store.id, customerId: selectedCustomerId },
-        include: { rule: true },
+        include: { rule: true, ruleVersion: { select: { version: true } } },
         orderBy: { createdAt: "desc" }
       });
+      tagExpiries = await getCustomerTagExpiries(store.id, selectedCustomerId);
     }
   }
 
-  return { customers, selectedCustomer, timelineLogs, searchQ };
+  return { customers, selectedCustomer, timelineLogs, tagExpiries, searchQ };
 };
 
+// "12 days left" / "5 hours left" until a tag expires
+function formatRemaining(expiresAt: string | Date): string {
+  const ms = new Date(expiresAt).getTime() - Date.now();
+  if (ms <= 0) return "expiring now";
+  const hours = Math.floor(ms / (60 * 60 * 1000));
+  if (hours < 24) return `${hours || 1} hour${hours === 1 ? "" : "s"} left`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? "" : "s"} left`;
+}
+
 export default function Timeline() {
-  const { customers, selectedCustomer, timelineLogs, searchQ } = useLoaderData<typeof loader>();
+  const { customers, selectedCustomer, timelineLogs, tagExpiries, searchQ } = useLoaderData<typeof loader>();
   const navigate = useNavigate();
   const [searchValue, setSearchValue] = useState(searchQ);
+  // Log IDs whose condition trace is expanded
+  const [openTraces, setOpenTraces] = useState<Set<string>>(new Set());
+
+  const toggleTrace = (id: string) => {
+    setOpenTraces(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
 
   const handleSearchChange = (val: string) => {
     setSearchValue(val);
@@ -88,6 +114,8 @@ export default function Timeline() {
     if (action === "TAG_REMOVED") return { icon: XIcon, tone: "critical", color: "#ef4444", bg: "#fee2e2" };
     if (action === "EMAIL_SENT") return { icon: EmailIcon, tone: "magic", color: "#8b5cf6", bg: "#ede9fe" };
     if (action === "MARKETING_SYNC") return { icon: AppsIcon, tone: "info", color: "#005bd3", bg: "#ebf5ff" };
+    // A rule matched, but its exclusion lists kept the tag off (see rule-exclusions.ts)
+    if (action === "TAG_SUPPRESSED") return { icon: DisabledIcon, tone: "warning", color: "#b98900", bg: "#fff5d6" };
     return { icon: ChartVerticalIcon, tone: "base", color: "#6b7280", bg: "#f3f4f6" };
   };
 
@@ -198,15 +226,37 @@ export default function Timeline() {
                   <BlockStack gap="100" inlineAlign="end">
                     <Text variant="headingSm" as="h3">Current Tags</Text>
                     <InlineStack gap="100" wrap>
-                      {selectedCustomer.tags ? selectedCustomer.tags.split(",").map(t => (
-                        <Badge tone="magic" key={t.trim()}>{t.trim()}</Badge>
-                      )) : <Text as="span" tone="subdued">None</Text>}
+                      {selectedCustomer.tags ? selectedCustomer.tags.split(",").map(t => {
+                        const expiry = tagExpiries.find(e => !e.orderId && e.tag === t.trim());
+                        return expiry ? (
+                          <Tooltip key={t.trim()} content={`Removed ${new Date(expiry.expiresAt).toLocaleDateString()} unless rule "${expiry.rule.name}" qualifies again`}>
+                            <Badge tone="attention">{`${t.trim()} · ${formatRemaining(expiry.expiresAt)}`}</Badge>
+                          </Tooltip>
+                        ) : (
+                          <Badge tone="magic" key={t.trim()}>{t.trim()}</Badge>
+                        );
+                      }) : <Text as="span" tone="subdued">None</Text>}
                     </InlineStack>
                   </BlockStack>
                 </InlineStack>
 
                 <Divider />
 
+                {tagExpiries.length > 0 && (
+                  <BlockStack gap="200">
+                    <Text variant="headingMd" as="h2">Expiring Tags</Text>
+                    {tagExpiries.map(expiry => (
+                      <InlineStack key={expiry.id} gap="200" blockAlign="center">
+                        <Badge tone="attention">{expiry.tag}</Badge>
+                        {expiry.orderId && <Text as="span" variant="bodySm" tone="subdued">{`Order ${expiry.orderId}`}</Text>}
+                        <Text as="span" variant="bodySm">
+                          {`${formatRemaining(expiry.expiresAt)} — last qualifying order ${new Date(expiry.qualifiedAt).toLocaleDateString()}, expires after ${expiry.rule.expireAfterDays} days (${expiry.rule.name})`}
+                        </Text>
+                      </InlineStack>
+                    ))}
+                  </BlockStack>
+                )}
+
                 <Text variant="headingMd" as="h2">AI History Log</Text>
                 
                 {timelineLogs.length === 0 ? (
@@ -220,6 +270,7 @@ export default function Timeline() {
                     {timelineLogs.map((log: any) => {
                       const details = getLogIconDetails(log.action);
                       const isAdded = log.action === "TAG_ADDED";
+                      const trace = parseRuleTrace(log.trace);
                       
                       return (
                         <div key={log.id} className="timeline-node">
@@ -232,8 +283,8 @@ export default function Timeline() {
                               <BlockStack gap="200">
                                 <InlineStack align="space-between" blockAlign="center">
                                   <InlineStack gap="200" blockAlign="center">
-                                    <Badge tone={isAdded ? "success" : log.action === "TAG_REMOVED" ? "critical" : log.action === "MARKETING_SYNC" ? "info" : "attention"}>
-                                      {isAdded ? "Tag Added" : log.action === "TAG_REMOVED" ? "Tag Removed" : log.action === "MARKETING_SYNC" ? "CRM Sync" : "Event"}
+                                    <Badge tone={isAdded ? "success" : log.action === "TAG_REMOVED" ? "critical" : log.action === "MARKETING_SYNC" ? "info" : log.action === "TAG_SUPPRESSED" ? "warning" : "attention"}>
+                                      {isAdded ? "Tag Added" : log.action === "TAG_REMOVED" ? "Tag Removed" : log.action === "MARKETING_SYNC" ? "CRM Sync" : log.action === "TAG_SUPPRESSED" ? "Excluded" : "Event"}
                                     </Badge>
                                     <Badge tone="magic">{log.tagContext}</Badge>
                                   </InlineStack>
@@ -252,8 +303,25 @@ export default function Timeline() {
                                   {log.rule && (
                                     <Text variant="bodySm" tone="subdued" as="p">
                                       Rule triggered: {log.rule.name}
+                                      {log.ruleVersion && (
+                                        <> (<Button variant="plain" onClick={() => navigate(`/app/rules/${log.rule.id}/history`)}>{`v${log.ruleVersion.version}`}</Button>)</>
+                                      )}
                                     </Text>
                                   )}
+                                  {trace && (
+                                    <BlockStack gap="200">
+                                      <InlineStack>
+                                        <Button variant="plain" disclosure={openTraces.has(log.id) ? "up" : "down"} onClick={() => toggleTrace(log.id)}>
+                                          {openTraces.has(log.id) ? "Hide condition details" : "Show condition details"}
+                                        </Button>
+                                      </InlineStack>
+                                      {openTraces.has(log.id) && (
+                                        <Box padding="200" background="bg-surface" borderRadius="200">
+                                          <RuleTraceView trace={trace} />
+                                        </Box>
+                                      )}
+                                    </BlockStack>
+                                  )}
                                 </BlockStack>
                               </BlockStack>
                             </Box>
@@ -8,7 +8,8 @@ import polarisStyles from "@shopify/polaris/build/esm/styles.css?url";
 
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
-import { getCachedStore } from "../services/cache.server";
+import { getCachedStore, invalidateStoreCache } from "../services/cache.server";
+import { fetchShopTimezone } from "../services/shopify-helpers.server";
 
 // Import our new premium complex UI extensions
 import premiumStyles from "../styles/app-premium.css?url";
@@ -19,7 +20,7 @@ export const links = () => [
 ];
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { session, admin } = await authenticate.admin(request);
   const shop = session.shop;
 
   let store = await getCachedStore(shop);
@@ -31,6 +32,15 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     });
   }
 
+  // Rule schedules run in the store's timezone: load it once
+  if (!store.timezone) {
+    const timezone = await fetchShopTimezone(admin);
+    if (timezone) {
+      await db.store.update({ where: { id: store.id }, data: { timezone } });
+      invalidateStoreCache(shop);
+    }
+  }
+
   return { apiKey: process.env.SHOPIFY_API_KEY || "" };
 };
 
@@ -59,6 +69,7 @@ export default function App() {
           <Link to="/app/integrations">Integrations</Link>
           <Link to="/app/cleanup">Cleanup</Link>
           <Link to="/app/sync-debug">Sync Diagnostics</Link>
+          <Link to="/app/explain">Tag Explainer</Link>
           <Link to="/app/settings">Settings</Link>
           <Link to="/app/pricing">Pricing Plans</Link>
           <Link to="/app/support">Support</Link>
@@ -1,8 +1,11 @@
 import type { ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
+import { profileFromWebhookCustomer } from "../services/customer-profile.server";
 import { calculateCustomerTags } from "../services/rule.server";
+import { recordSuppressedMatches } from "../services/rule-exclusions.server";
 import { manageCustomerTags } from "../services/tags.server";
+import { filterScheduledRules } from "../services/rule-schedule";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
     const { admin, shop, payload, topic } = await authenticate.webhook(request);
@@ -33,7 +36,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             lastName: customerData.last_name,
             totalSpent: parseFloat(customerData.total_spent || "0"),
             orderCount: customerData.orders_count || 0,
-            tags: customerData.tags
+            tags: customerData.tags,
+            ...profileFromWebhookCustomer(customerData)
         },
         update: {
             email: customerData.email,
@@ -41,7 +45,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             lastName: customerData.last_name,
             totalSpent: parseFloat(customerData.total_spent || "0"),
             orderCount: customerData.orders_count || 0,
-            tags: customerData.tags
+            tags: customerData.tags,
+            ...profileFromWebhookCustomer(customerData)
         }
     });
 
@@ -49,34 +54,39 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         where: { id_storeId: { id: customerId, storeId: store.id } }
     });
 
-    const activeRules = await db.rule.findMany({
+    // Rules outside their schedule window are skipped (see rule-schedule.ts)
+    const activeRules = filterScheduledRules(await db.rule.findMany({
         where: { storeId: store.id, isActive: true }
-    });
+    }), store.timezone);
 
     if (customer && activeRules.length > 0) {
-        const { tagsToAdd, tagsToRemove } = await calculateCustomerTags(customer, activeRules);
+        const { tagsToAdd, tagsToRemove, suppressed } = await calculateCustomerTags(customer, activeRules);
+        await recordSuppressedMatches(store.id, customerId, suppressed);
 
         const addTagNames = tagsToAdd.map(t => t.tag);
         const removeTagNames = tagsToRemove.map(t => t.tag);
 
         if (addTagNames.length > 0 || removeTagNames.length > 0) {
             try {
-                await manageCustomerTags(admin, store.id, customerId, addTagNames, removeTagNames);
+                // Counts its own usage and gives back what Shopify rejected; only applied tags are logged
+                const tagged = await manageCustomerTags(admin, store.id, customerId, addTagNames, removeTagNames);
 
                 const uniqueCustomerTags = new Set<string>();
                 for (const item of tagsToAdd) {
+                    if (!tagged.tagsAdded.includes(item.tag)) continue;
                     if (uniqueCustomerTags.has(item.tag)) continue;
                     uniqueCustomerTags.add(item.tag);
                     await db.activityLog.create({
-                        data: { storeId: store.id, customerId, action: "TAG_ADDED", tagContext: item.tag, reason: item.reason }
+                        data: { storeId: store.id, customerId, action: "TAG_ADDED", tagContext: item.tag, reason: item.reason, ruleId: item.ruleId, ruleVersionId: item.ruleVersionId, trace: item.trace }
                     });
                 }
                 const uniqueCustomerRemovals = new Set<string>();
                 for (const item of tagsToRemove) {
+                    if (!tagged.tagsRemoved.includes(item.tag)) continue;
                     if (uniqueCustomerRemovals.has(item.tag)) continue;
                     uniqueCustomerRemovals.add(item.tag);
                     await db.activityLog.create({
-                        data: { storeId: store.id, customerId, action: "TAG_REMOVED", tagContext: item.tag, reason: item.reason }
+                        data: { storeId: store.id, customerId, action: "TAG_REMOVED", tagContext: item.tag, reason: item.reason, ruleId: item.ruleId, ruleVersionId: item.ruleVersionId, trace: item.trace }
                     });
                 }
             } catch (err) {
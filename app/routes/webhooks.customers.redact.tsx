@@ -5,7 +5,9 @@
  * When a merchant deletes a customer in Shopify, Shopify sends this webhook
  * requiring us to permanently delete all stored PII for that customer.
  *
- * We delete: Customer record (cascades to ActivityLogs via FK constraint).
+ * We delete: Customer record (cascades to ActivityLogs via FK constraint) and the
+ * customer's stored orders (cascades to OrderLineItems), including any order
+ * listed in orders_to_redact.
  * Required: Must respond 200 within 5 seconds.
  */
 import type { ActionFunctionArgs } from "react-router";
@@ -34,6 +36,18 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             }).catch(() => {
                 // Customer may not exist in our DB — that's fine, still 200
             });
+
+            const ordersToRedact: string[] = (payload?.orders_to_redact || []).map((id: number | string) => String(id));
+            await db.order.deleteMany({
+                where: {
+                    storeId: store.id,
+                    OR: [{ customerId: shopifyCustomerId }, { id: { in: ordersToRedact } }],
+                },
+            });
+
+            await db.tagExpiry.deleteMany({
+                where: { storeId: store.id, customerId: shopifyCustomerId },
+            });
         }
     }
 
@@ -1,11 +1,22 @@
 import type { ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
-import { calculateCustomerTags } from "../services/rule.server";
+import { profileFromWebhookCustomer } from "../services/customer-profile.server";
+import { calculateCustomerTags, loadAppliedTemplateTags } from "../services/rule.server";
 import { manageCustomerTags, manageOrderTags } from "../services/tags.server";
 import { getCachedStore } from "../services/cache.server";
-import { evaluateOrderRules } from "../services/order-rules.server";
-import { incrementUsage } from "../services/usage.server";
+import { evaluateOrderRules, findExpiryRefreshes, findSuppressedOrderMatches } from "../services/order-rules.server";
+import { recordQualifyingEvents } from "../services/tag-expiry.server";
+import { recordSuppressedMatches } from "../services/rule-exclusions.server";
+import type { SuppressedMatch } from "../services/rule-exclusions.server";
+import type { QualifyingEvent } from "../services/tag-expiry.server";
+import { hasOrderConditions } from "../services/condition-tree";
+import { getOrderProductIds, rulesNeedProductDetails } from "../services/order-data.server";
+import { rulesNeedOrderHistory, loadOrderHistory } from "../services/purchase-history.server";
+import { fetchProductDetails } from "../services/shopify-helpers.server";
+import { incrementUsage, refundUsage } from "../services/usage.server";
+import { saveOrder } from "../services/order-store.server";
+import { filterScheduledRules } from "../services/rule-schedule";
 
 /**
  * orders/create webhook
@@ -27,6 +38,10 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     if (!store || !store.isActive) return new Response();
 
     const order = payload as any;
+
+    // Keep the local Order table current (guest checkouts included) — read by rules, ROI, diagnostics and exports
+    await saveOrder(store.id, order).catch(err => console.error("[ORDER_STORE] Failed to save order:", err));
+
     const customerData = order.customer;
     if (!customerData) return new Response();
 
@@ -44,13 +59,15 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             totalSpent: parseFloat(customerData.total_spent || "0"),
             orderCount: customerData.orders_count || 1,
             lastOrderDate: new Date(order.created_at),
-            tags: customerData.tags
+            tags: customerData.tags,
+            ...profileFromWebhookCustomer(customerData, order)
         },
         update: {
             totalSpent: parseFloat(customerData.total_spent || "0"),
             orderCount: customerData.orders_count || 1,
             lastOrderDate: new Date(order.created_at),
-            tags: customerData.tags
+            tags: customerData.tags,
+            ...profileFromWebhookCustomer(customerData, order)
         }
     });
 
@@ -59,26 +76,54 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     });
     if (!customer) return new Response();
 
-    const activeRules = await db.rule.findMany({
+    // Campaign schedules (see rule-schedule.ts): only rules whose window covers the order's time
+    const activeRules = filterScheduledRules(await db.rule.findMany({
         where: { storeId: store.id, isActive: true }
-    });
+    }), store.timezone, new Date(order.created_at || Date.now()));
     if (activeRules.length === 0) return new Response();
 
     const existingTags = customer.tags ? customer.tags.split(",").map((t: string) => t.trim()) : [];
 
     let addTagNames: string[] = [];
-    let tagsToAddLog: { tag: string; reason: string; targetEntity?: string }[] = [];
+    let removeTagNames: string[] = [];
+    let tagsToAddLog: { tag: string; reason: string; targetEntity?: string; ruleId?: string; ruleVersionId?: string | null; trace?: string | null }[] = [];
+    let tagsToRemoveLog: { tag: string; reason: string; ruleId?: string; ruleVersionId?: string | null; trace?: string | null }[] = [];
+    // Stale rendered values of template order tags (e.g. "City-paris" after the city changed)
+    const staleOrderTags: string[] = [];
+    const orderId: string = order.admin_graphql_api_id ? order.admin_graphql_api_id.split('/').pop() : order.id.toString();
+    // Matches of rules with "expire after N days" (see tag-expiry.server.ts)
+    let qualifyingEvents: QualifyingEvent[] = [];
+    // Matches held back by a rule's exclusion lists (see rule-exclusions.ts)
+    let suppressedMatches: SuppressedMatch[] = [];
 
     // Evaluate Order-Based Rules only (not customer metric rules)
     try {
-        const orderTagResults = evaluateOrderRules(order, customer, activeRules, existingTags);
+        const productDetails = rulesNeedProductDetails(activeRules)
+            ? await fetchProductDetails(admin, getOrderProductIds(order))
+            : undefined;
+        // Only mixed order + purchase-history rules are evaluated here
+        const orderHistory = rulesNeedOrderHistory(activeRules.filter(r => hasOrderConditions(r.conditions)))
+            ? await loadOrderHistory(admin, store.id, customerId, activeRules)
+            : undefined;
+        // Template values the rules applied before, the only ones they may replace (see tag-template.ts)
+        const appliedTemplateTags = await loadAppliedTemplateTags(store.id, customerId, activeRules);
+        const orderTagResults = evaluateOrderRules(order, customer, activeRules, existingTags, productDetails, orderHistory, appliedTemplateTags);
+        qualifyingEvents = [...orderTagResults, ...findExpiryRefreshes(order, customer, activeRules, existingTags, productDetails, orderHistory)]
+            .map(item => ({ ...item, orderId }));
+        suppressedMatches = findSuppressedOrderMatches(order, customer, activeRules, existingTags, productDetails, orderHistory);
         for (const item of orderTagResults) {
             if (item.targetEntity === "order") {
-                tagsToAddLog.push({ tag: item.tag, reason: item.reason, targetEntity: "order" });
+                tagsToAddLog.push({ tag: item.tag, reason: item.reason, targetEntity: "order", ruleId: item.ruleId, ruleVersionId: item.ruleVersionId, trace: item.trace });
+                staleOrderTags.push(...(item.staleTags || []));
             } else {
                 if (!addTagNames.includes(item.tag)) {
                     addTagNames.push(item.tag);
-                    tagsToAddLog.push({ tag: item.tag, reason: item.reason, targetEntity: "customer" });
+                    tagsToAddLog.push({ tag: item.tag, reason: item.reason, targetEntity: "customer", ruleId: item.ruleId, ruleVersionId: item.ruleVersionId, trace: item.trace });
+                }
+                for (const stale of item.staleTags || []) {
+                    if (removeTagNames.includes(stale) || addTagNames.includes(stale)) continue;
+                    removeTagNames.push(stale);
+                    tagsToRemoveLog.push({ tag: stale, reason: `${item.reason}, "${stale}" replaced by "${item.tag}"`, ruleId: item.ruleId, ruleVersionId: item.ruleVersionId, trace: item.trace });
                 }
             }
         }
@@ -90,18 +135,37 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     if (addTagNames.length > 0 || actualOrderTagsToAdd.length > 0) {
         try {
+            // Tags Shopify applied: only these are logged, the usage of the others is refunded
+            let customerTagsAdded: string[] = [];
+            let customerTagsRemoved: string[] = [];
+            let orderTagsAdded: string[] = [];
+
             if (addTagNames.length > 0) {
                 const allowedAdd = await incrementUsage(store.shop, "customer_tag", addTagNames.length);
+                // Template customer tags replace their previous rendered value
+                const allowedRemove = allowedAdd && removeTagNames.length > 0 ? await incrementUsage(store.shop, "removal", removeTagNames.length) : false;
+                if (!allowedRemove) {
+                    removeTagNames = [];
+                    tagsToRemoveLog = [];
+                }
                 if (allowedAdd) {
-                    await manageCustomerTags(admin, store.id, customerId, addTagNames, []);
+                    // Usage was already counted above, so don't let manageCustomerTags count it again
+                    const tagged = await manageCustomerTags(admin, store.id, customerId, addTagNames, removeTagNames, true);
+                    await refundUsage(store.shop, "customer_tag", addTagNames.length - tagged.tagsAdded.length);
+                    await refundUsage(store.shop, "removal", removeTagNames.length - tagged.tagsRemoved.length);
+                    customerTagsAdded = tagged.tagsAdded;
+                    customerTagsRemoved = tagged.tagsRemoved;
                 }
             }
 
             if (actualOrderTagsToAdd.length > 0) {
                 const allowedOrderTag = await incrementUsage(store.shop, "order_tag", actualOrderTagsToAdd.length);
+                const allowedOrderRemove = staleOrderTags.length > 0 && allowedOrderTag ? await incrementUsage(store.shop, "removal", staleOrderTags.length) : false;
                 if (allowedOrderTag) {
-                    const orderId = order.admin_graphql_api_id ? order.admin_graphql_api_id.split('/').pop() : order.id.toString();
-                    await manageOrderTags(admin, store.id, orderId, customerId, actualOrderTagsToAdd, []);
+                    const tagged = await manageOrderTags(admin, store.id, orderId, customerId, actualOrderTagsToAdd, allowedOrderRemove ? staleOrderTags : [], true);
+                    await refundUsage(store.shop, "order_tag", actualOrderTagsToAdd.length - tagged.tagsAdded.length);
+                    if (allowedOrderRemove) await refundUsage(store.shop, "removal", staleOrderTags.length - tagged.tagsRemoved.length);
+                    orderTagsAdded = tagged.tagsAdded;
                 }
             }
 
@@ -109,9 +173,11 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             const uniqueOrderTags = new Set<string>();
             for (const item of tagsToAddLog) {
                 if (item.targetEntity === "order") {
+                     if (!orderTagsAdded.includes(item.tag)) continue;
                      if (uniqueOrderTags.has(item.tag)) continue;
                      uniqueOrderTags.add(item.tag);
                 } else {
+                     if (!customerTagsAdded.includes(item.tag)) continue;
                      if (uniqueCustomerTags.has(item.tag)) continue;
                      uniqueCustomerTags.add(item.tag);
                 }
@@ -122,31 +188,31 @@ export const action = async ({ request }: ActionFunctionArgs) => {
                         customerId,
                         action: "TAG_ADDED",
                         tagContext: item.tag,
-                        reason: `[orders/create] ${item.reason}`
+                        reason: `[orders/create] ${item.reason}`,
+                        ruleId: item.ruleId,
+                        ruleVersionId: item.ruleVersionId,
+                        trace: item.trace
                     }
                 });
             }
 
-            // IMPORTANT: Update the local Prisma cache so the Dashboard "Matching Customers" count
-            // immediately reflects these newly added tags for order-based rules.
-            const dbCustomer = await db.customer.findUnique({
-                where: { id_storeId: { id: customerId, storeId: store.id } }
-            });
-            if (dbCustomer) {
-                let currentTags = dbCustomer.tags ? dbCustomer.tags.split(",").map(t => t.trim()).filter(Boolean) : [];
-                currentTags = [...currentTags, ...addTagNames];
-
-                await db.customer.update({
-                    where: { id_storeId: { id: customerId, storeId: store.id } },
-                    data: { tags: Array.from(new Set(currentTags)).join(", ") }
+            for (const item of tagsToRemoveLog) {
+                if (!customerTagsRemoved.includes(item.tag)) continue;
+                await db.activityLog.create({
+                    data: { storeId: store.id, customerId, action: "TAG_REMOVED", tagContext: item.tag, reason: `[orders/create] ${item.reason}`, ruleId: item.ruleId, ruleVersionId: item.ruleVersionId, trace: item.trace }
                 });
             }
 
-            console.log(`[ORDER_RULES] orders/create triggers: Customer Tags (${addTagNames.join(", ")}) | Order Tags (${actualOrderTagsToAdd.join(", ")})`);
+            console.log(`[ORDER_RULES] orders/create triggers: Customer Tags (${customerTagsAdded.join(", ")}) | Order Tags (${orderTagsAdded.join(", ")})`);
         } catch (err) {
             console.error("[ORDER_RULES] Failed to apply order-create tags:", err);
         }
     }
 
+    // Start or extend the expiry of tags from rules with "expire after N days"
+    await recordQualifyingEvents(store.id, customerId, qualifyingEvents, activeRules)
+        .catch(err => console.error("[TAG_EXPIRY] Failed to record qualifying events:", err));
+    await recordSuppressedMatches(store.id, customerId, suppressedMatches, "[orders/create]");
+
     return new Response();
 };
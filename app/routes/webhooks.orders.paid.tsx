@@ -1,12 +1,23 @@
 import type { ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
-import { calculateCustomerTags } from "../services/rule.server";
+import { profileFromWebhookCustomer } from "../services/customer-profile.server";
+import { calculateCustomerTags, loadAppliedTemplateTags } from "../services/rule.server";
 import { manageCustomerTags, manageOrderTags } from "../services/tags.server";
 import { getCachedStore } from "../services/cache.server";
 import { analyzeSentiment } from "../services/ai.server";
-import { evaluateOrderRules } from "../services/order-rules.server";
-import { incrementUsage } from "../services/usage.server";
+import { evaluateOrderRules, findExpiryRefreshes, findSuppressedOrderMatches } from "../services/order-rules.server";
+import { recordQualifyingEvents } from "../services/tag-expiry.server";
+import { recordSuppressedMatches } from "../services/rule-exclusions.server";
+import type { SuppressedMatch } from "../services/rule-exclusions.server";
+import type { QualifyingEvent } from "../services/tag-expiry.server";
+import { getOrderProductIds, rulesNeedProductDetails } from "../services/order-data.server";
+import { rulesNeedOrderHistory, loadOrderHistory } from "../services/purchase-history.server";
+import { fetchProductDetails } from "../services/shopify-helpers.server";
+import { shopifyGraphql } from "../services/shopify-graphql.server";
+import { incrementUsage, refundUsage } from "../services/usage.server";
+import { saveOrder } from "../services/order-store.server";
+import { filterScheduledRules } from "../services/rule-schedule";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
     const { admin, shop, payload, topic } = await authenticate.webhook(request);
@@ -22,6 +33,9 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     // Typecast payload based on webhook topic
     const order = payload as any;
 
+    // Refresh the stored order (now paid) — read by rules, ROI, diagnostics and exports
+    await saveOrder(store.id, order).catch(err => console.error("[ORDER_STORE] Failed to save order:", err));
+
     // Extract customer data from the order
     const customerData = order.customer;
     if (!customerData) {
@@ -47,13 +61,15 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             totalSpent: parseFloat(customerData.state === 'disabled' ? "0" : customerData.total_spent || "0"),
             orderCount: customerData.orders_count || 1,
             lastOrderDate: new Date(order.created_at),
-            tags: customerData.tags
+            tags: customerData.tags,
+            ...profileFromWebhookCustomer(customerData, order)
         },
         update: {
             totalSpent: parseFloat(customerData.total_spent || "0"),
             orderCount: customerData.orders_count || 1,
             lastOrderDate: new Date(order.created_at),
-            tags: customerData.tags
+            tags: customerData.tags,
+            ...profileFromWebhookCustomer(customerData, order)
             // We'll update the name/email as well just in case they changed
         }
     });
@@ -63,22 +79,37 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         where: { id_storeId: { id: customerId, storeId: store.id } }
     });
 
-    const activeRules = await db.rule.findMany({
+    // Campaign schedules (see rule-schedule.ts): only rules whose window covers the order's time
+    const activeRules = filterScheduledRules(await db.rule.findMany({
         where: { storeId: store.id, isActive: true }
-    });
+    }), store.timezone, new Date(order.created_at || Date.now()));
 
     let addTagNames: string[] = []; // For customer specifically
     let removeTagNames: string[] = [];
-    let tagsToAddLog: { tag: string, reason: string, targetEntity?: string }[] = [];
-    let tagsToRemoveLog: { tag: string, reason: string, targetEntity?: string }[] = [];
+    let tagsToAddLog: { tag: string, reason: string, targetEntity?: string, ruleId?: string, ruleVersionId?: string | null, trace?: string | null }[] = [];
+    let tagsToRemoveLog: { tag: string, reason: string, targetEntity?: string, ruleId?: string, ruleVersionId?: string | null, trace?: string | null }[] = [];
+    // Stale rendered values of template order tags (e.g. "City-paris" after the city changed)
+    const staleOrderTags: string[] = [];
+    // Matches of rules with "expire after N days" (see tag-expiry.server.ts)
+    let qualifyingEvents: QualifyingEvent[] = [];
 
     if (customer && activeRules.length > 0) {
         const standardRules = activeRules.filter(r => !r.collectionId);
         const collectionRules = activeRules.filter(r => r.collectionId);
         const existingTags = customer.tags ? customer.tags.split(",").map((t: string) => t.trim()) : [];
 
-        // 1. Evaluate standard rules (Total Spent, Order Count, etc)
-        const { tagsToAdd, tagsToRemove } = await calculateCustomerTags(customer, standardRules);
+        // Purchase-history conditions need the customer's full order history (includes this order)
+        const orderHistory = rulesNeedOrderHistory(activeRules)
+            ? await loadOrderHistory(admin, store.id, customerId, activeRules)
+            : undefined;
+
+        // Template values the rules applied before, the only ones they may replace (see tag-template.ts)
+        const appliedTemplateTags = await loadAppliedTemplateTags(store.id, customerId, activeRules);
+
+        // 1. Evaluate standard rules (Total Spent, Order Count, purchase history, etc)
+        const { tagsToAdd, tagsToRemove, suppressed } = await calculateCustomerTags(customer, standardRules, orderHistory, appliedTemplateTags);
+        // Matches held back by a rule's exclusion lists (see rule-exclusions.ts)
+        const suppressedMatches: SuppressedMatch[] = [...suppressed];
         addTagNames = tagsToAdd.map(t => t.tag);
         removeTagNames = tagsToRemove.map(t => t.tag);
         tagsToAddLog = [...tagsToAdd];
@@ -93,7 +124,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
                 // Fetch the collections for these products
                 const productGids = productIds.map(id => `gid://shopify/Product/${id}`);
                 try {
-                    const productsResponse = await admin.graphql(
+                    const productsData = await shopifyGraphql(
+                        admin,
                         `#graphql
                           query getProductCollections($ids: [ID!]!) {
                             nodes(ids: $ids) {
@@ -110,19 +142,14 @@ export const action = async ({ request }: ActionFunctionArgs) => {
                             }
                           }
                         `,
-                        {
-                            variables: {
-                                ids: productGids
-                            }
-                        }
+                        { ids: productGids }
                     );
 
-                    const productsData = await productsResponse.json();
                     const purchasedCollectionIds = new Set<string>();
 
                     // Extract all unique collection IDs this customer bought from in this order
-                    if (productsData?.data?.nodes) {
-                        for (const node of productsData.data.nodes) {
+                    if (productsData?.nodes) {
+                        for (const node of productsData.nodes) {
                             if (node && node.collections) {
                                 for (const edge of node.collections.edges) {
                                     purchasedCollectionIds.add(edge.node.id);
@@ -171,17 +198,36 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             }
         }
 
-        // 4. Evaluate Order-Based Rules (source, payment, city, quantity, discounts, pre-order)
+        // 4. Evaluate Order-Based Rules (source, payment, city, quantity, discounts, pre-order, products)
         try {
             const existingPlusNewTags = [...existingTags, ...addTagNames];
-            const orderTagResults = evaluateOrderRules(order, customer, activeRules, existingPlusNewTags);
+            const productDetails = rulesNeedProductDetails(activeRules)
+                ? await fetchProductDetails(admin, getOrderProductIds(order))
+                : undefined;
+            const orderTagResults = evaluateOrderRules(order, customer, activeRules, existingPlusNewTags, productDetails, orderHistory, appliedTemplateTags);
+            const orderId = order.admin_graphql_api_id?.split('/').pop() || order.id.toString();
+            qualifyingEvents = [...orderTagResults, ...findExpiryRefreshes(order, customer, activeRules, existingPlusNewTags, productDetails, orderHistory)]
+                .map(item => ({ ...item, orderId }));
+            suppressedMatches.push(...findSuppressedOrderMatches(order, customer, activeRules, existingPlusNewTags, productDetails, orderHistory));
             for (const item of orderTagResults) {
                 if (item.targetEntity === "order") {
-                    tagsToAddLog.push({ tag: item.tag, reason: item.reason, targetEntity: "order" });
+                    tagsToAddLog.push({ tag: item.tag, reason: item.reason, targetEntity: "order", ruleId: item.ruleId, ruleVersionId: item.ruleVersionId, trace: item.trace });
+                    staleOrderTags.push(...(item.staleTags || []));
                 } else {
                     if (!addTagNames.includes(item.tag)) {
                         addTagNames.push(item.tag);
-                        tagsToAddLog.push({ tag: item.tag, reason: item.reason, targetEntity: "customer" });
+                        tagsToAddLog.push({ tag: item.tag, reason: item.reason, targetEntity: "customer", ruleId: item.ruleId, ruleVersionId: item.ruleVersionId, trace: item.trace });
+                    }
+                    for (const stale of item.staleTags || []) {
+                        if (removeTagNames.includes(stale)) continue;
+                        if (addTagNames.includes(stale)) {
+                            // Not applied yet (e.g. a lower tier of an exclusive group matched by a metric rule)
+                            addTagNames = addTagNames.filter(t => t !== stale);
+                            tagsToAddLog = tagsToAddLog.filter(t => t.tag !== stale || t.targetEntity === "order");
+                            continue;
+                        }
+                        removeTagNames.push(stale);
+                        tagsToRemoveLog.push({ tag: stale, reason: `${item.reason}, "${stale}" replaced by "${item.tag}"`, ruleId: item.ruleId, ruleVersionId: item.ruleVersionId, trace: item.trace });
                     }
                 }
             }
@@ -194,51 +240,47 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
         if (addTagNames.length > 0 || removeTagNames.length > 0 || actualOrderTagsToAdd.length > 0) {
             try {
+                // Tags Shopify applied: only these are logged, the usage of the others is refunded
+                let customerTagsAdded: string[] = [];
+                let customerTagsRemoved: string[] = [];
+                let orderTagsAdded: string[] = [];
+
                 if (addTagNames.length > 0 || removeTagNames.length > 0) {
                     // Check and increment usage for customer tags
                     const allowedAdd = addTagNames.length > 0 ? await incrementUsage(store.shop, "customer_tag", addTagNames.length) : true;
                     const allowedRemove = removeTagNames.length > 0 ? await incrementUsage(store.shop, "removal", removeTagNames.length) : true;
 
                     if (allowedAdd || allowedRemove) {
-                        // If one fails but other succeeds, we proceed with both but technically 
-                        // the service handles the increment. If both fail, we skip.
-                        await manageCustomerTags(admin, store.id, customerId, allowedAdd ? addTagNames : [], allowedRemove ? removeTagNames : []);
+                        // Usage was already counted above, so don't let manageCustomerTags count it again
+                        const tagged = await manageCustomerTags(admin, store.id, customerId, allowedAdd ? addTagNames : [], allowedRemove ? removeTagNames : [], true);
+                        if (allowedAdd) await refundUsage(store.shop, "customer_tag", addTagNames.length - tagged.tagsAdded.length);
+                        if (allowedRemove) await refundUsage(store.shop, "removal", removeTagNames.length - tagged.tagsRemoved.length);
+                        customerTagsAdded = tagged.tagsAdded;
+                        customerTagsRemoved = tagged.tagsRemoved;
                     }
                 }
                 
                 if (actualOrderTagsToAdd.length > 0) {
                     // Check and increment usage for order tags
                     const allowedOrderTag = await incrementUsage(store.shop, "order_tag", actualOrderTagsToAdd.length);
+                    const allowedOrderRemove = staleOrderTags.length > 0 && allowedOrderTag ? await incrementUsage(store.shop, "removal", staleOrderTags.length) : false;
                     if (allowedOrderTag) {
-                        await manageOrderTags(admin, store.id, order.admin_graphql_api_id.split('/').pop() || order.id.toString(), customerId, actualOrderTagsToAdd, []);
+                        const tagged = await manageOrderTags(admin, store.id, order.admin_graphql_api_id.split('/').pop() || order.id.toString(), customerId, actualOrderTagsToAdd, allowedOrderRemove ? staleOrderTags : [], true);
+                        await refundUsage(store.shop, "order_tag", actualOrderTagsToAdd.length - tagged.tagsAdded.length);
+                        if (allowedOrderRemove) await refundUsage(store.shop, "removal", staleOrderTags.length - tagged.tagsRemoved.length);
+                        orderTagsAdded = tagged.tagsAdded;
                     }
                 }
 
-                // IMPORTANT: Manually update the local Prisma customer cache with the order-based tags
-                // so the Rules Dashboard "Matching Customers" count updates instantly.
-                const dbCustomer = await db.customer.findUnique({
-                    where: { id_storeId: { id: customerId, storeId: store.id } }
-                });
-                if (dbCustomer) {
-                    let currentTags = dbCustomer.tags ? dbCustomer.tags.split(",").map(t => t.trim()).filter(Boolean) : [];
-                    if (addTagNames.length > 0) currentTags = [...currentTags, ...addTagNames];
-                    if (removeTagNames.length > 0) currentTags = currentTags.filter((t: string) => !removeTagNames.includes(t));
-
-                    await db.customer.update({
-                        where: { id_storeId: { id: customerId, storeId: store.id } },
-                        data: { tags: Array.from(new Set(currentTags)).join(", ") }
-                    });
-                }
-
-
                 const uniqueCustomerTags = new Set<string>();
                 // Log the actions for Customer tags
                 for (const item of tagsToAddLog) {
                     if (item.targetEntity === "order") continue; // We handle orders separately below
+                    if (!customerTagsAdded.includes(item.tag)) continue;
                     if (uniqueCustomerTags.has(item.tag)) continue;
                     uniqueCustomerTags.add(item.tag);
                     await db.activityLog.create({
-                        data: { storeId: store.id, customerId, action: "TAG_ADDED", tagContext: item.tag, reason: item.reason }
+                        data: { storeId: store.id, customerId, action: "TAG_ADDED", tagContext: item.tag, reason: item.reason, ruleId: item.ruleId, ruleVersionId: item.ruleVersionId, trace: item.trace }
                     });
                 }
                 
@@ -246,22 +288,29 @@ export const action = async ({ request }: ActionFunctionArgs) => {
                 // Log the actions for Order tags
                 for (const item of tagsToAddLog) {
                     if (item.targetEntity !== "order") continue;
+                    if (!orderTagsAdded.includes(item.tag)) continue;
                     if (uniqueOrderTags.has(item.tag)) continue;
                     uniqueOrderTags.add(item.tag);
                     await db.activityLog.create({
-                        data: { storeId: store.id, customerId, action: "TAG_ADDED", tagContext: item.tag, reason: item.reason }
+                        data: { storeId: store.id, customerId, action: "TAG_ADDED", tagContext: item.tag, reason: item.reason, ruleId: item.ruleId, ruleVersionId: item.ruleVersionId, trace: item.trace }
                     });
                 }
 
                 for (const item of tagsToRemoveLog) {
+                    if (!customerTagsRemoved.includes(item.tag)) continue;
                     await db.activityLog.create({
-                        data: { storeId: store.id, customerId, action: "TAG_REMOVED", tagContext: item.tag, reason: item.reason }
+                        data: { storeId: store.id, customerId, action: "TAG_REMOVED", tagContext: item.tag, reason: item.reason, ruleId: item.ruleId, ruleVersionId: item.ruleVersionId, trace: item.trace }
                     });
                 }
             } catch (err) {
                 console.error("Failed to manage tags", err);
             }
         }
+
+        // Start or extend the expiry of tags from rules with "expire after N days"
+        await recordQualifyingEvents(store.id, customerId, qualifyingEvents, activeRules)
+            .catch(err => console.error("[TAG_EXPIRY] Failed to record qualifying events:", err));
+        await recordSuppressedMatches(store.id, customerId, suppressedMatches);
     }
 
     return new Response();
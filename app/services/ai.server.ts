@@ -1,6 +1,29 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
 import OpenAI from "openai";
 
+/**
+ * A single condition returned by the LLM.
+ */
+export interface GeneratedCondition {
+    field: string;
+    operator: string;
+    value: string;
+    ruleCategory?: "metric" | "order" | "history";
+    itemMatch?: "any" | "all";
+    // History conditions only
+    filter?: GeneratedCondition;
+    sumField?: string;
+}
+
+/**
+ * A nested AND/OR group returned by the LLM (same shape as ConditionGroup in condition-tree.ts).
+ */
+export interface GeneratedConditionGroup {
+    type: "group";
+    matchType: "ALL" | "ANY";
+    conditions: Array<GeneratedCondition | GeneratedConditionGroup>;
+}
+
 /**
  * Interface representing the structured JSON output expected from the LLM.
  */
@@ -10,12 +33,7 @@ export interface GeneratedRule {
     description: string;
     ruleType: "metric" | "order";
     matchType?: "ALL" | "ANY";
-    conditions: Array<{
-        field: string;
-        operator: string;
-        value: string;
-        ruleCategory?: "metric" | "order";
-    }>;
+    conditions: Array<GeneratedCondition | GeneratedConditionGroup>;
 }
 
 /**
@@ -27,13 +45,22 @@ You are an expert Shopify segmentation AI for "TagBot AI".
 Translate a merchant's natural language request into a strict JSON rule configuration.
 
 RULE TYPES:
-- "metric" → applies to customer profile data (totalSpent, orderCount, lastOrderDate)
+- "metric" → applies to customer profile data (spend, orders, dates, email domain, location, marketing consent, locale, tags)
 - "order"  → applies to individual order properties (traffic source, payment, location, discounts, quantity)
 
 CUSTOMER METRIC FIELDS (ruleType: "metric"):
 - "totalSpent"     (Number: lifetime spend in dollars, e.g. 1000)
 - "orderCount"     (Number: total number of orders, e.g. 5)
-- "lastOrderDate"  (Date string: ISO 8601, e.g. "2024-01-01")
+- "averageOrderValue" (Number: totalSpent / orderCount in dollars, e.g. 75)
+- "lastOrderDate"  (Date: use a relative date operator below, or an ISO 8601 date string e.g. "2024-01-01" with isBefore/isAfter)
+- "firstOrderDate" (Date: same operators as lastOrderDate)
+- "shopifyCreatedAt" (Date: when the customer account was created; same operators as lastOrderDate)
+- "emailDomain"    (String: lowercase domain without "@", e.g. "gmail.com")
+- "country"        (String: 2-letter ISO code of the customer's default address, e.g. "US")
+- "province"       (String: province/state code of the default address, e.g. "CA", "NY")
+- "acceptsMarketing" (Boolean string: "true" or "false" — subscribed to email marketing)
+- "locale"         (String: customer language, e.g. "en", "fr")
+- "tags"           (String: a single existing customer tag — use ONLY with hasTag / doesNotHaveTag)
 
 ORDER FIELDS — use ruleCategory: "order" in condition (ruleType: "order"):
 - "order_source"         (String: e.g. "facebook", "tiktok", "instagram", "google")
@@ -46,24 +73,62 @@ ORDER FIELDS — use ruleCategory: "order" in condition (ruleType: "order"):
 - "discount_code_value"  (String: specific code, e.g. "SUMMER20")
 - "discount_percentage"  (Number: percentage, e.g. 15)
 - "is_preorder"          (Boolean string: "true" or "false")
+- "product_id"           (String: numeric Shopify product ID, e.g. "8123456789")
+- "product_sku"          (String: variant SKU, e.g. "TSHIRT-RED-M")
+- "product_vendor"       (String: brand / vendor name, e.g. "Nike")
+- "product_type"         (String: product type, e.g. "Shoes")
+- "product_tag"          (String: a single product tag, e.g. "organic")
+- "product_collection"   (String: collection handle or title, e.g. "summer-sale")
+  The six product_* fields are checked per line item. Add "itemMatch": "all" when EVERY item in the order must match
+  (e.g. "orders containing only Nike products"); omit it (defaults to "any") when one matching item is enough.
+
+PURCHASE HISTORY — use ruleCategory: "history" to aggregate over ALL of the customer's past orders:
+- "field" is the aggregation: "count" (number of orders), "sum" (total of "sumField" over orders),
+  "distinctMonths" (number of different calendar months with an order), "ratio" (percentage 0-100 of all orders)
+- "sumField" (sum only): "order_subtotal" or "order_item_count"
+- "operator": "atLeast", "atMost", "greaterThan", "lessThan" or "equals"; "value" is a number string
+- "filter" (optional): ONE order condition selecting which orders count, written like an order condition
+  without ruleCategory, e.g. { "field": "product_id", "operator": "equals", "value": "8123456789" }
 
 OPERATORS (use EXACTLY these strings):
 - "greaterThan"   → for numbers: field > value
 - "lessThan"      → for numbers: field < value
 - "equals"        → for exact match (strings, booleans, numbers)
+- "notEquals"     → for strings: field is not value (customer metric fields and product_* fields)
 - "contains"      → for partial string match (e.g. source contains "facebook")
-- "isBefore"      → for dates only
-- "isAfter"       → for dates only
+- "hasTag"          → for "tags" only: customer has this tag
+- "doesNotHaveTag"  → for "tags" only: customer does not have this tag
+- "isBefore"      → for dates only, fixed ISO date value
+- "isAfter"       → for dates only, fixed ISO date value
+- "withinLastDays"  → for dates only: date is within the last N days (value: "30")
+- "moreThanDaysAgo" → for dates only: date is more than N days ago (value: "90")
+- "betweenDaysAgo"  → for dates only: date is between N and M days ago (value: "30,90")
 
 RULES:
 1. If the merchant mentions order source / traffic / campaign / social media → use ruleType: "order", field: "order_source"
 2. If about payment method → field: "payment_method"
 3. If about location/city/country → field: "shipping_city" or "shipping_country"  
+3b. If about what was bought (a product, SKU, brand, product type, product tag or collection) → use the matching product_* field with ruleCategory "order"
 4. If about discount/coupon → field: "discount_code_used" or "discount_percentage"
 5. If about spend/revenue → use ruleType: "metric", field: "totalSpent"
 6. If about order count/frequency → field: "orderCount"
+6b. If about recency ("hasn't ordered in 90 days", "bought in the last month") → field: "lastOrderDate" with a relative date operator. NEVER compute a calendar date yourself — relative operators are re-evaluated every day.
+6c. "New customers" / "signed up" → "shopifyCreatedAt"; "first purchase" → "firstOrderDate"; "average basket/order size" → "averageOrderValue".
+6d. Customer's home country/state, email provider (gmail, company domain), newsletter subscribers, language → "country", "province", "emailDomain", "acceptsMarketing", "locale" (ruleType "metric"). Use "shipping_country" only when the merchant is talking about where a specific order ships.
+6e. "Customers tagged X" / "without tag X" → field: "tags" with hasTag / doesNotHaveTag.
+6f. Anything counted ACROSS past orders ("bought X at least 3 times", "ordered from collection Y in 2 different months",
+    "used a discount on more than half of their orders", "ever paid with COD") → ruleCategory "history".
+    "Ever" means count atLeast 1. Rules made only of history/metric conditions use ruleType "metric".
+6g. "Tag by city / country / spend tier" (one tag per value) → a tag template in targetTag: placeholders {{field}} render
+    from the matched data, e.g. "City-{{shipping_city}}", "Country-{{country|upper}}", "Spend-{{totalSpent|bucket:100,500,1000}}".
+    Filters: bucket:a,b,c, lower, upper, capitalize, year, month, default:text. Order fields (shipping_city…) need at least
+    one order condition; use a condition that always holds, e.g. order_subtotal greaterThan "0".
 7. All values must be strings in the JSON.
 8. If the user mentions "OR", "either", or asks for multiple independent paths, set "matchType" to "ANY". Otherwise default to "ALL" (AND logic).
+9. If the request mixes AND and OR (e.g. "(A and B) or (C and D)"), wrap each part in a group:
+   { "type": "group", "matchType": "ALL", "conditions": [ ...conditions... ] }
+   Groups can be nested inside other groups. The top-level "matchType" combines the top-level entries.
+   Use "ruleType": "order" if ANY condition inside any group has ruleCategory "order".
 
 OUTPUT FORMAT — return ONLY raw JSON, no markdown:
 {
@@ -76,6 +141,50 @@ OUTPUT FORMAT — return ONLY raw JSON, no markdown:
     { "field": "order_source", "operator": "contains", "value": "facebook", "ruleCategory": "order" }
   ]
 }
+
+NESTED EXAMPLE — "spent over 500 with more than 3 orders, or TikTok COD buyers":
+{
+  "name": "VIP or TikTok COD",
+  "ruleType": "order",
+  "matchType": "ANY",
+  "targetTag": "Priority-Customer",
+  "description": "High spenders with repeat orders, or TikTok buyers paying cash on delivery",
+  "conditions": [
+    { "type": "group", "matchType": "ALL", "conditions": [
+      { "field": "totalSpent", "operator": "greaterThan", "value": "500", "ruleCategory": "metric" },
+      { "field": "orderCount", "operator": "greaterThan", "value": "3", "ruleCategory": "metric" }
+    ] },
+    { "type": "group", "matchType": "ALL", "conditions": [
+      { "field": "order_source", "operator": "contains", "value": "tiktok", "ruleCategory": "order" },
+      { "field": "payment_method", "operator": "contains", "value": "cash_on_delivery", "ruleCategory": "order" }
+    ] }
+  ]
+}
+
+HISTORY EXAMPLE — "customers who bought from the summer-sale collection in at least 2 different months":
+{
+  "name": "Repeat Summer Shoppers",
+  "ruleType": "metric",
+  "matchType": "ALL",
+  "targetTag": "Summer-Repeat",
+  "description": "Bought from the summer-sale collection in 2+ different months",
+  "conditions": [
+    { "field": "distinctMonths", "operator": "atLeast", "value": "2", "ruleCategory": "history",
+      "filter": { "field": "product_collection", "operator": "contains", "value": "summer-sale" } }
+  ]
+}
+
+TEMPLATE EXAMPLE — "tag repeat customers by spend tier":
+{
+  "name": "Spend Tiers",
+  "ruleType": "metric",
+  "matchType": "ALL",
+  "targetTag": "Spend-{{totalSpent|bucket:100,500,1000}}",
+  "description": "Tags repeat customers with their spend tier, e.g. Spend-500-1000",
+  "conditions": [
+    { "field": "orderCount", "operator": "greaterThan", "value": "1", "ruleCategory": "metric" }
+  ]
+}
 `;
 
 
@@ -0,0 +1,246 @@
+/**
+ * bulk-operations.server.ts
+ *
+ * Shopify bulk operations: runBulkQuery fetches a whole store's customers or orders
+ * without paging through the Admin API.
+ *
+ *   1. bulkOperationRunQuery starts the query on Shopify's side
+ *   2. the operation is polled every POLL_MS until it finishes (onProgress gets the
+ *      number of objects exported so far)
+ *   3. the JSONL result is streamed line by line; records of a nested connection
+ *      (e.g. an order's line items) carry `__parentId` and are handed over together
+ *      with their parent record
+ *
+ * Shopify runs one bulk query per shop and app at a time. A caller that stops early
+ * (its onProgress or onRecord throws, or MAX_WAIT_MS passes) cancels the operation, so
+ * the next one can start.
+ *
+ * runBulkMutation runs a mutation once per line of variables: the lines are uploaded
+ * as a staged JSONL file, and every line's result comes back with its line number.
+ */
+import { shopifyGraphql, shopifyMutation, formatUserErrors } from "./shopify-graphql.server";
+
+export type BulkProgress = (objectCount: number) => Promise<void>;
+
+// A top-level record of the result with the records of its nested connections
+export type BulkRecordHandler = (record: any, children: any[]) => Promise<void>;
+
+// The mutation's result for line `lineNumber` (0-based) of the uploaded variables
+export type BulkResultHandler = (result: any, lineNumber: number) => Promise<void>;
+
+export class BulkOperationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "BulkOperationError";
+    }
+}
+
+type BulkOperation = {
+    id: string;
+    status: "CREATED" | "RUNNING" | "COMPLETED" | "CANCELING" | "CANCELED" | "FAILED" | "EXPIRED";
+    errorCode: string | null;
+    objectCount: string;
+    url: string | null;
+};
+
+const POLL_MS = 3000;
+const MAX_WAIT_MS = 2 * 60 * 60 * 1000;
+const FINISHED = ["COMPLETED", "CANCELED", "FAILED", "EXPIRED"];
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+async function startBulkQuery(admin: any, query: string): Promise<string> {
+    const started = await shopifyMutation<{ bulkOperation: { id: string } | null }>(admin, `#graphql
+        mutation bulkOperationRunQuery($query: String!) {
+            bulkOperationRunQuery(query: $query) {
+                bulkOperation { id status }
+                userErrors { field message code }
+            }
+        }
+    `, { query }, "bulkOperationRunQuery");
+
+    if (!started.ok || !started.payload?.bulkOperation) {
+        throw new BulkOperationError(`Could not start bulk operation: ${formatUserErrors(started.userErrors) || "no operation returned"}`);
+    }
+    return started.payload.bulkOperation.id;
+}
+
+async function getBulkOperation(admin: any, id: string): Promise<BulkOperation> {
+    const data = await shopifyGraphql(admin, `#graphql
+        query bulkOperationStatus($id: ID!) {
+            node(id: $id) {
+                ... on BulkOperation { id status errorCode objectCount url }
+            }
+        }
+    `, { id });
+    if (!data?.node) throw new BulkOperationError(`Bulk operation ${id} not found`);
+    return data.node;
+}
+
+async function cancelBulkOperation(admin: any, id: string) {
+    try {
+        await shopifyMutation(admin, `#graphql
+            mutation bulkOperationCancel($id: ID!) {
+                bulkOperationCancel(id: $id) {
+                    bulkOperation { id status }
+                    userErrors { field message }
+                }
+            }
+        `, { id }, "bulkOperationCancel");
+        console.log(`[BULK_OPS] Cancelled bulk operation ${id}`);
+    } catch (err) {
+        console.error(`[BULK_OPS] Failed to cancel bulk operation ${id}:`, err instanceof Error ? err.message : err);
+    }
+}
+
+/**
+ * Poll operation `id` until it completes, cancelling it when the wait is given up (onProgress
+ * throws, or MAX_WAIT_MS passes). Throws BulkOperationError unless it completed.
+ */
+async function waitForBulkOperation(admin: any, id: string, onProgress?: BulkProgress): Promise<BulkOperation> {
+    let operation: BulkOperation;
+    let finished = false;
+    try {
+        const startedAt = Date.now();
+        for (;;) {
+            operation = await getBulkOperation(admin, id);
+            if (FINISHED.includes(operation.status)) break;
+            if (Date.now() - startedAt > MAX_WAIT_MS) throw new BulkOperationError(`Bulk operation ${id} still ${operation.status} after ${MAX_WAIT_MS / 60000} min`);
+            if (onProgress) await onProgress(parseInt(operation.objectCount || "0"));
+            await sleep(POLL_MS);
+        }
+        finished = true;
+    } finally {
+        if (!finished) await cancelBulkOperation(admin, id);
+    }
+
+    if (operation.status !== "COMPLETED") {
+        throw new BulkOperationError(`Bulk operation ${id} ${operation.status.toLowerCase()}${operation.errorCode ? ` (${operation.errorCode})` : ""}`);
+    }
+    console.log(`[BULK_OPS] Bulk operation ${id} completed: ${operation.objectCount} objects`);
+    return operation;
+}
+
+// Every line of the JSONL file at `url`, parsed, without loading the whole file
+async function* streamJsonl(url: string): AsyncGenerator<any> {
+    const response = await fetch(url);
+    if (!response.ok || !response.body) throw new BulkOperationError(`Bulk operation result download failed (HTTP ${response.status})`);
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+        buffer += decoder.decode(chunk, { stream: true });
+        let newline: number;
+        while ((newline = buffer.indexOf("\n")) >= 0) {
+            const line = buffer.slice(0, newline).trim();
+            buffer = buffer.slice(newline + 1);
+            if (line) yield JSON.parse(line);
+        }
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) yield JSON.parse(buffer);
+}
+
+/**
+ * Run `query` (a bulk query: connections without `first`, at most two levels deep) and
+ * hand every top-level record with its nested records to `onRecord`, in result order.
+ * @returns the number of top-level records
+ */
+export async function runBulkQuery(
+    admin: any,
+    query: string,
+    onRecord: BulkRecordHandler,
+    onProgress?: BulkProgress
+): Promise<number> {
+    const id = await startBulkQuery(admin, query);
+    console.log(`[BULK_OPS] Started bulk operation ${id}`);
+
+    const operation = await waitForBulkOperation(admin, id, onProgress);
+    if (!operation.url) return 0; // Nothing matched the query
+
+    // Nested records follow their parent, so a record is complete once the next top-level one starts
+    let records = 0;
+    let current: { record: any; children: any[] } | null = null;
+    for await (const line of streamJsonl(operation.url)) {
+        if (line.__parentId) {
+            if (current && line.__parentId === current.record.id) current.children.push(line);
+            continue;
+        }
+        if (current) await onRecord(current.record, current.children);
+        current = { record: line, children: [] };
+        records++;
+    }
+    if (current) await onRecord(current.record, current.children);
+
+    return records;
+}
+
+// Upload the variables as the JSONL file a bulk mutation reads; returns its staged upload path
+async function uploadBulkVariables(admin: any, variables: Record<string, unknown>[]): Promise<string> {
+    const staged = await shopifyMutation<{ stagedTargets: { url: string; parameters: { name: string; value: string }[] }[] }>(admin, `#graphql
+        mutation stagedUploadsCreate($input: [StagedUploadInput!]!) {
+            stagedUploadsCreate(input: $input) {
+                stagedTargets { url parameters { name value } }
+                userErrors { field message }
+            }
+        }
+    `, {
+        input: [{ resource: "BULK_MUTATION_VARIABLES", filename: "bulk-variables.jsonl", mimeType: "text/jsonl", httpMethod: "POST" }]
+    }, "stagedUploadsCreate");
+
+    const target = staged.payload?.stagedTargets?.[0];
+    const key = target?.parameters.find(p => p.name === "key")?.value;
+    if (!staged.ok || !target || !key) {
+        throw new BulkOperationError(`Could not stage bulk mutation variables: ${formatUserErrors(staged.userErrors) || "no upload target returned"}`);
+    }
+
+    const form = new FormData();
+    for (const { name, value } of target.parameters) form.append(name, value);
+    form.append("file", new Blob([variables.map(v => JSON.stringify(v)).join("\n")], { type: "text/jsonl" }), "bulk-variables.jsonl");
+
+    const response = await fetch(target.url, { method: "POST", body: form });
+    if (!response.ok) throw new BulkOperationError(`Bulk mutation variables upload failed (HTTP ${response.status})`);
+    return key;
+}
+
+/**
+ * Run `mutation` (one mutation with variables) once per entry of `variables` and hand each
+ * line's result (`{ data, errors }`) to `onResult` with its index in `variables`. Lines
+ * Shopify didn't get to have no result.
+ * @returns the number of results
+ */
+export async function runBulkMutation(
+    admin: any,
+    mutation: string,
+    variables: Record<string, unknown>[],
+    onResult: BulkResultHandler,
+    onProgress?: BulkProgress
+): Promise<number> {
+    if (variables.length === 0) return 0;
+    const stagedUploadPath = await uploadBulkVariables(admin, variables);
+
+    const started = await shopifyMutation<{ bulkOperation: { id: string } | null }>(admin, `#graphql
+        mutation bulkOperationRunMutation($mutation: String!, $stagedUploadPath: String!) {
+            bulkOperationRunMutation(mutation: $mutation, stagedUploadPath: $stagedUploadPath) {
+                bulkOperation { id status }
+                userErrors { field message code }
+            }
+        }
+    `, { mutation, stagedUploadPath }, "bulkOperationRunMutation");
+    if (!started.ok || !started.payload?.bulkOperation) {
+        throw new BulkOperationError(`Could not start bulk mutation: ${formatUserErrors(started.userErrors) || "no operation returned"}`);
+    }
+    const id = started.payload.bulkOperation.id;
+    console.log(`[BULK_OPS] Started bulk mutation ${id} (${variables.length} lines)`);
+
+    const operation = await waitForBulkOperation(admin, id, onProgress);
+    if (!operation.url) return 0;
+
+    let results = 0;
+    for await (const line of streamJsonl(operation.url)) {
+        if (typeof line.__lineNumber !== "number") continue;
+        await onResult(line, line.__lineNumber);
+        results++;
+    }
+    return results;
+}
@@ -0,0 +1,268 @@
+/**
+ * condition-tree.ts
+ *
+ * Shared helpers for nested AND/OR condition groups and relative date operators
+ * (safe to import from both server services and route components — no
+ * server-only dependencies).
+ *
+ * Storage format (Rule.conditions JSON):
+ *   The root is still a flat array combined with Rule.matchType, so every rule
+ *   saved before groups existed keeps working unchanged. Any element of the
+ *   array may be a group, and groups may contain further groups:
+ *
+ *   [
+ *     { "type": "group", "matchType": "ALL", "conditions": [
+ *         { "ruleCategory": "metric", "field": "totalSpent", "operator": "greaterThan", "value": 500 },
+ *         { "ruleCategory": "metric", "field": "orderCount", "operator": "greaterThan", "value": 3 }
+ *     ] },
+ *     { "type": "group", "matchType": "ALL", "conditions": [
+ *         { "ruleCategory": "order", "field": "order_source", "operator": "contains", "value": "tiktok" },
+ *         { "ruleCategory": "order", "field": "payment_method", "operator": "contains", "value": "cod" }
+ *     ] }
+ *   ]   + Rule.matchType = "ANY"
+ */
+
+export type MatchType = "ALL" | "ANY";
+
+export type LeafCondition = {
+    field: string;
+    operator: string;
+    value: any;
+    ruleCategory?: "metric" | "order" | "history";
+    // Line-item order fields only (product_*): must "any" (default) or "all" items match?
+    itemMatch?: "any" | "all";
+    // History conditions only (see purchase-history.server.ts): which orders count, and what to sum
+    filter?: LeafCondition;
+    sumField?: string;
+};
+
+export type ConditionGroup = {
+    type: "group";
+    matchType: MatchType;
+    conditions: ConditionNode[];
+};
+
+export type ConditionNode = LeafCondition | ConditionGroup;
+
+export function isConditionGroup(node: unknown): node is ConditionGroup {
+    const candidate = node as Partial<ConditionGroup> | null | undefined;
+    return !!candidate && candidate.type === "group" && Array.isArray(candidate.conditions);
+}
+
+/**
+ * Parse a Rule.conditions JSON string into its root node list.
+ * Throws on malformed JSON so callers can keep their existing error handling.
+ */
+export function parseConditionNodes(conditionsJson: string): ConditionNode[] {
+    const parsed = JSON.parse(conditionsJson);
+    if (Array.isArray(parsed)) return parsed;
+    // Tolerate a bare root group object (e.g. from the AI generator)
+    if (isConditionGroup(parsed)) return [parsed];
+    return [];
+}
+
+/**
+ * Collect every leaf condition in the tree, depth-first.
+ */
+export function flattenConditions(nodes: ConditionNode[]): LeafCondition[] {
+    const leaves: LeafCondition[] = [];
+    for (const node of nodes) {
+        if (isConditionGroup(node)) leaves.push(...flattenConditions(node.conditions));
+        else leaves.push(node);
+    }
+    return leaves;
+}
+
+/**
+ * True when any leaf anywhere in the tree is an order condition.
+ * Returns false for unparseable JSON, matching the old inline try/catch checks.
+ */
+export function hasOrderConditions(conditionsJson: string): boolean {
+    try {
+        return flattenConditions(parseConditionNodes(conditionsJson)).some(c => c.ruleCategory === "order");
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Recursively evaluate a node list. Empty groups never match under ANY and
+ * always match under ALL, the same as Array.prototype.some / every.
+ */
+export function evaluateConditionNodes(
+    nodes: ConditionNode[],
+    matchType: string,
+    evaluateLeaf: (condition: LeafCondition) => boolean
+): boolean {
+    const evaluateNode = (node: ConditionNode): boolean =>
+        isConditionGroup(node)
+            ? evaluateConditionNodes(node.conditions, node.matchType, evaluateLeaf)
+            : evaluateLeaf(node);
+
+    return matchType === "ANY" ? nodes.some(evaluateNode) : nodes.every(evaluateNode);
+}
+
+/**
+ * Build a human-readable expression, parenthesising nested groups.
+ * e.g. `(totalSpent greaterThan 500 AND orderCount greaterThan 3) OR order.order_source contains "tiktok"`
+ */
+export function describeConditionNodes(
+    nodes: ConditionNode[],
+    matchType: string,
+    describeLeaf: (condition: LeafCondition) => string
+): string {
+    const joinWord = matchType === "ANY" ? " OR " : " AND ";
+    return nodes
+        .map(node => isConditionGroup(node)
+            ? `(${describeConditionNodes(node.conditions, node.matchType, describeLeaf)})`
+            : describeLeaf(node))
+        .join(joinWord);
+}
+
+/**
+ * Apply a transform to every leaf while preserving the group structure.
+ */
+export function mapConditionLeaves(
+    nodes: ConditionNode[],
+    transform: (condition: LeafCondition) => LeafCondition
+): ConditionNode[] {
+    return nodes.map(node => isConditionGroup(node)
+        ? { ...node, conditions: mapConditionLeaves(node.conditions, transform) }
+        : transform(node));
+}
+
+// ─── Evaluation Traces ───────────────────────────────────────────────────────
+
+/**
+ * Structured record of one rule evaluation, stored as JSON on ActivityLog.trace so the
+ * timeline can show why a tag was added or removed. Unlike evaluateConditionNodes, every
+ * condition is evaluated (no short-circuit), so the trace shows each value that was seen.
+ */
+export type ConditionTraceLeaf = {
+    scope: "customer" | "order" | "history";
+    // What was compared, e.g. "customer.totalSpent" or "history.count(all orders)"
+    subject: string;
+    operator: string;
+    expected: string;
+    // null when the customer / order has no value for the field
+    actual: string | null;
+    passed: boolean;
+};
+
+export type ConditionTraceGroup = {
+    type: "group";
+    matchType: MatchType;
+    passed: boolean;
+    conditions: ConditionTraceNode[];
+};
+
+export type ConditionTraceNode = ConditionTraceLeaf | ConditionTraceGroup;
+
+export type RuleTrace = {
+    matchType: MatchType;
+    matched: boolean;
+    conditions: ConditionTraceNode[];
+};
+
+export function isConditionTraceGroup(node: ConditionTraceNode): node is ConditionTraceGroup {
+    return (node as ConditionTraceGroup).type === "group";
+}
+
+/**
+ * Evaluate a node list like evaluateConditionNodes, recording every leaf.
+ */
+export function traceConditionNodes(
+    nodes: ConditionNode[],
+    matchType: string,
+    traceLeaf: (condition: LeafCondition) => ConditionTraceLeaf
+): RuleTrace {
+    const conditions = nodes.map((node): ConditionTraceNode => {
+        if (!isConditionGroup(node)) return traceLeaf(node);
+        const group = traceConditionNodes(node.conditions, node.matchType, traceLeaf);
+        return { type: "group", matchType: group.matchType, passed: group.matched, conditions: group.conditions };
+    });
+    const normalizedMatchType: MatchType = matchType === "ANY" ? "ANY" : "ALL";
+    const matched = normalizedMatchType === "ANY" ? conditions.some(c => c.passed) : conditions.every(c => c.passed);
+    return { matchType: normalizedMatchType, matched, conditions };
+}
+
+/**
+ * Display form of a value seen during evaluation: dates as YYYY-MM-DD, numbers with at
+ * most two decimals, lists comma-separated. null for missing / empty values.
+ */
+export function formatTraceValue(value: unknown): string | null {
+    if (value === null || value === undefined || value === "") return null;
+    if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+    if (typeof value === "number") return isFinite(value) ? String(Math.round(value * 100) / 100) : null;
+    if (Array.isArray(value)) return value.length > 0 ? value.map(v => formatTraceValue(v) ?? "").join(", ") : null;
+    return String(value);
+}
+
+/**
+ * Read an ActivityLog.trace column. Returns null for logs written without a trace.
+ */
+export function parseRuleTrace(json: string | null | undefined): RuleTrace | null {
+    if (!json) return null;
+    try {
+        const trace = JSON.parse(json);
+        return trace && Array.isArray(trace.conditions) ? trace : null;
+    } catch {
+        return null;
+    }
+}
+
+// ─── Relative Dates ──────────────────────────────────────────────────────────
+
+/**
+ * Date operators whose value is a number of days relative to "now".
+ * They are stored as-is (e.g. { operator: "moreThanDaysAgo", value: "90" }) and
+ * resolved at evaluation time, so the window moves forward every day instead of
+ * being frozen on the date the rule was saved.
+ *
+ *   withinLastDays   value "N"    → date is in the last N days
+ *   moreThanDaysAgo  value "N"    → date is older than N days
+ *   betweenDaysAgo   value "N,M"  → date is between N and M days ago (either order)
+ */
+export const RELATIVE_DATE_OPERATORS = ["withinLastDays", "moreThanDaysAgo", "betweenDaysAgo"] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isRelativeDateOperator(operator: string): boolean {
+    return (RELATIVE_DATE_OPERATORS as readonly string[]).includes(operator);
+}
+
+/**
+ * The two day counts of a betweenDaysAgo value ("30,90"), smallest first. Null unless
+ * it is exactly two whole, non-negative numbers.
+ */
+export function parseDaysAgoRange(value: unknown): [number, number] | null {
+    const parts = String(value ?? "").split(",").map(v => v.trim());
+    if (parts.length !== 2 || parts.some(v => !/^\d+$/.test(v))) return null;
+    const [a, b] = parts.map(Number);
+    return [Math.min(a, b), Math.max(a, b)];
+}
+
+/**
+ * Resolve a relative date operator into an inclusive absolute window.
+ * Returns null when the value can't be parsed (the condition then never matches).
+ */
+export function resolveRelativeDateRange(
+    operator: string,
+    value: unknown,
+    now: Date = new Date()
+): { from?: Date; to?: Date } | null {
+    const daysAgo = (n: number) => new Date(now.getTime() - n * DAY_MS);
+
+    if (operator === "betweenDaysAgo") {
+        const range = parseDaysAgoRange(value);
+        if (!range) return null;
+        return { from: daysAgo(range[1]), to: daysAgo(range[0]) };
+    }
+
+    const days = Number(value);
+    if (value === "" || value === null || isNaN(days) || days < 0) return null;
+
+    if (operator === "withinLastDays") return { from: daysAgo(days) };
+    if (operator === "moreThanDaysAgo") return { to: daysAgo(days) };
+    return null;
+}
@@ -0,0 +1,75 @@
+/**
+ * customer-profile.server.ts
+ *
+ * Maps Shopify customer payloads onto the segmentation fields of the local
+ * Customer model (emailDomain, shopifyCreatedAt, firstOrderDate, averageOrderValue,
+ * country, province, acceptsMarketing, locale).
+ *
+ * Two payload shapes exist:
+ *   - REST webhooks (customers/create, order.customer in orders/*) → snake_case
+ *   - GraphQL customer nodes from fetchAllCustomers (historical sync)  → camelCase
+ *
+ * Missing values are returned as `undefined` (never null) so spreading the
+ * result into a Prisma `update` leaves previously synced values untouched.
+ */
+
+export function getEmailDomain(email?: string | null): string | undefined {
+    if (!email || !email.includes("@")) return undefined;
+    return email.split("@").pop()!.trim().toLowerCase() || undefined;
+}
+
+export function getAverageOrderValue(totalSpent: number, orderCount: number): number {
+    if (!orderCount || orderCount <= 0) return 0;
+    return Math.round((totalSpent / orderCount) * 100) / 100;
+}
+
+const toDate = (value: unknown): Date | undefined => {
+    if (!value) return undefined;
+    const date = new Date(value as string);
+    return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Profile fields from a REST webhook customer object.
+ * `order` is the surrounding order payload when the customer came from an orders/* webhook —
+ * it supplies the locale and, for a customer's first order, the first order date.
+ */
+export function profileFromWebhookCustomer(customerData: any, order?: any) {
+    const totalSpent = parseFloat(customerData.total_spent || "0");
+    const orderCount = customerData.orders_count || (order ? 1 : 0);
+    const consentState = customerData.email_marketing_consent?.state;
+
+    return {
+        emailDomain: getEmailDomain(customerData.email),
+        shopifyCreatedAt: toDate(customerData.created_at),
+        // Only knowable from the payload when this order is the customer's first one
+        firstOrderDate: order && orderCount <= 1 ? toDate(order.created_at) : undefined,
+        averageOrderValue: getAverageOrderValue(totalSpent, orderCount),
+        country: customerData.default_address?.country_code || undefined,
+        province: customerData.default_address?.province_code || undefined,
+        acceptsMarketing: consentState
+            ? consentState === "subscribed"
+            : (typeof customerData.accepts_marketing === "boolean" ? customerData.accepts_marketing : undefined),
+        locale: order?.customer_locale || customerData.locale || undefined
+    };
+}
+
+/**
+ * Profile fields from a GraphQL customer node (see fetchAllCustomers).
+ */
+export function profileFromGraphqlCustomer(node: any) {
+    const totalSpent = parseFloat(node.amountSpent?.amount || "0");
+    const orderCount = parseInt(node.numberOfOrders || "0");
+    const marketingState = node.emailMarketingConsent?.marketingState;
+
+    return {
+        emailDomain: getEmailDomain(node.email),
+        shopifyCreatedAt: toDate(node.createdAt),
+        firstOrderDate: toDate(node.orders?.edges?.[0]?.node?.createdAt),
+        averageOrderValue: getAverageOrderValue(totalSpent, orderCount),
+        country: node.defaultAddress?.countryCodeV2 || undefined,
+        province: node.defaultAddress?.provinceCode || undefined,
+        acceptsMarketing: marketingState ? marketingState === "SUBSCRIBED" : undefined,
+        locale: node.locale || undefined
+    };
+}
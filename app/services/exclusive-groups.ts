@@ -0,0 +1,74 @@
+/**
+ * exclusive-groups.ts
+ *
+ * Mutually Exclusive Rule Groups (shared by server services and route components —
+ * no server-only dependencies).
+ *
+ * Rules that share Rule.exclusiveGroup (e.g. "VIP tier") compete for one tag:
+ *
+ *   Silver-VIP  totalSpent > 500    exclusiveGroup "VIP tier", groupPriority 1
+ *   Gold-VIP    totalSpent > 1000   exclusiveGroup "VIP tier", groupPriority 2
+ *
+ * A $1500 customer matches both, but only the highest-priority match ("Gold-VIP")
+ * is applied and every other tag of the group is removed. Ties go to the rule
+ * created first. Groups are separate per target entity, so a customer group and
+ * an order group with the same name never interact.
+ *
+ * calculateCustomerTags and evaluateOrderRules each see only part of a store's rules
+ * (metric vs. order rules). A group member the current path does not evaluate still
+ * competes through the tag it already applied.
+ */
+
+export type GroupedRule = {
+    id: string;
+    targetEntity: string;
+    exclusiveGroup: string | null;
+    groupPriority: number;
+    createdAt: Date | string;
+};
+
+export function getExclusiveGroupKey(rule: Pick<GroupedRule, "targetEntity" | "exclusiveGroup">): string | null {
+    const group = rule.exclusiveGroup?.trim();
+    return group ? `${rule.targetEntity}:${group.toLowerCase()}` : null;
+}
+
+export function isSameExclusiveGroup(a: GroupedRule, b: GroupedRule): boolean {
+    const key = getExclusiveGroupKey(a);
+    return !!key && key === getExclusiveGroupKey(b);
+}
+
+/**
+ * Sort comparator: highest priority first, then the oldest rule.
+ */
+export function compareGroupPriority(a: GroupedRule, b: GroupedRule): number {
+    return (b.groupPriority - a.groupPriority) || (new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+}
+
+/**
+ * The winning rule of every exclusive group among `candidates`, keyed by
+ * getExclusiveGroupKey(). Ungrouped candidates are ignored.
+ */
+export function getExclusiveGroupWinners<R extends GroupedRule>(candidates: R[]): Map<string, R> {
+    const winners = new Map<string, R>();
+    for (const rule of candidates) {
+        const key = getExclusiveGroupKey(rule);
+        if (!key) continue;
+        const current = winners.get(key);
+        if (!current || compareGroupPriority(rule, current) < 0) winners.set(key, rule);
+    }
+    return winners;
+}
+
+/**
+ * `rules` plus every other rule of `allRules` sharing one of their groups, for
+ * callers that only evaluate a subset of the store's rules.
+ */
+export function withExclusiveGroupSiblings<R extends GroupedRule>(rules: R[], allRules: R[]): R[] {
+    const keys = new Set(rules.map(getExclusiveGroupKey).filter(Boolean));
+    const ids = new Set(rules.map(r => r.id));
+    return [...rules, ...allRules.filter(r => !ids.has(r.id) && keys.has(getExclusiveGroupKey(r)))];
+}
+
+export function describeExclusiveGroupLoss(winner: { name: string; targetTag: string; exclusiveGroup: string | null }): string {
+    return `Exclusive group "${winner.exclusiveGroup}": rule "${winner.name}" (${winner.targetTag}) takes priority`;
+}
@@ -0,0 +1,402 @@
+/**
+ * jobs.server.ts
+ *
+ * Durable Background Jobs (Additive Module)
+ *
+ * Historical syncs, marketing pushes and tag renames run as rows of the Job table rather than as
+ * promises inside the request that started them, so a redeploy or crash no longer
+ * leaves a half-finished sync with Store.isSyncing stuck:
+ *
+ *   QUEUED → RUNNING → COMPLETED
+ *                    → QUEUED again after a failed attempt (retried after 30s, 2 min, 8 min …)
+ *                    → FAILED once maxAttempts are used up
+ *                    → CANCELLED at the next checkpoint after cancelJob
+ *                    → PAUSED at the next checkpoint after pauseJob; resumeJob queues it again
+ *                    → QUEUED again at the next checkpoint after the worker's deadline
+ *
+ * A running job saves a checkpoint (phase, cursor, completed count) as it goes, and a
+ * retried or resumed job continues from it. A RUNNING job whose heartbeat (its last
+ * checkpoint) is older than STALE_JOB_MINUTES belonged to a worker that died and is
+ * picked up again. Jobs of one store run one at a time, oldest first.
+ *
+ * Workers (runJobWorker):
+ *   - in-process, started by enqueueJob and running until no job is due
+ *   - the cron route api.cron.jobs.tsx, for serverless deploys and jobs left behind
+ *   - `npm run worker` (scripts/job-worker.ts), a polling loop for local development
+ *
+ * The handlers of each job type live in queue.server.ts.
+ */
+import type { Job } from "@prisma/client";
+import db from "../db.server";
+
+export type JobType = "SYNC" | "MARKETING_PUSH" | "TAG_RENAME";
+export type JobStatus = "QUEUED" | "RUNNING" | "PAUSED" | "COMPLETED" | "FAILED" | "CANCELLED";
+
+export type JobContext = {
+    job: Job;
+    // Checkpoint and progress saved by the previous attempt, null on the first run
+    checkpoint: unknown;
+    progress: unknown;
+    // When the worker must stop (epoch ms, Infinity without a time limit)
+    deadline: number;
+    /**
+     * Save the checkpoint (and the progress shown in the UI) and refresh the heartbeat.
+     * Throws JobCancelledError / JobPausedError once the job is cancelled / paused, and
+     * stops the job past the deadline so it is requeued and resumes from this checkpoint.
+     */
+    saveCheckpoint: (checkpoint: unknown, completed?: number, progress?: unknown) => Promise<void>;
+    // Refresh only the heartbeat, for work that can't stop halfway (e.g. a running bulk mutation)
+    heartbeat: () => Promise<void>;
+};
+
+export type JobHandler<P = any> = {
+    run: (payload: P, ctx: JobContext) => Promise<void>;
+    // The failed attempt is retried at `runAfter`
+    onRetry?: (payload: P, runAfter: Date, error: string) => Promise<void>;
+    // The job stopped until resumed
+    onPaused?: (payload: P) => Promise<void>;
+    // The job stopped for good: COMPLETED, FAILED after its last attempt, or CANCELLED
+    onFinished?: (payload: P, status: JobStatus, error: string | null) => Promise<void>;
+};
+
+export class JobCancelledError extends Error {
+    constructor() {
+        super("Job cancelled");
+    }
+}
+
+export class JobPausedError extends Error {
+    constructor() {
+        super("Job paused");
+    }
+}
+
+// Another worker took the job over (this one looked dead): stop without touching it
+class JobLockLostError extends Error {}
+
+// The worker's deadline passed: requeue the job to continue from its last checkpoint
+class JobYieldError extends Error {}
+
+const MINUTE_MS = 60 * 1000;
+const STALE_JOB_MINUTES = 10;
+const RETRY_BASE_MS = 30 * 1000;
+const POLL_MS = 5000;
+const ACTIVE_STATUSES: JobStatus[] = ["QUEUED", "RUNNING"];
+
+const WORKER_ID = `${process.pid}-${crypto.randomUUID().slice(0, 8)}`;
+
+let inProcessWorker: Promise<unknown> | null = null;
+// A job was queued while the in-process worker was looking for one
+let wakeRequested = false;
+
+// 30s, 2 min, 8 min, … after the Nth failed attempt
+function getRetryDelayMs(attempts: number): number {
+    return RETRY_BASE_MS * 4 ** Math.max(attempts - 1, 0);
+}
+
+async function getJobHandler(type: string): Promise<JobHandler> {
+    // Imported lazily: queue.server.ts enqueues jobs itself
+    const { syncJobHandler, marketingPushJobHandler, tagRenameJobHandler } = await import("./queue.server");
+    if (type === "SYNC") return syncJobHandler;
+    if (type === "MARKETING_PUSH") return marketingPushJobHandler;
+    if (type === "TAG_RENAME") return tagRenameJobHandler;
+    throw new Error(`Unknown job type ${type}`);
+}
+
+/**
+ * Queue a job and start the in-process worker. With `dedupe`, a job of the same type
+ * and payload that hasn't started yet is returned instead of adding another.
+ */
+export async function enqueueJob(type: JobType, storeId: string, payload: object, options: { dedupe?: boolean; maxAttempts?: number } = {}): Promise<Job> {
+    const data = JSON.stringify(payload);
+    const queued = options.dedupe
+        ? await db.job.findFirst({ where: { storeId, type, status: "QUEUED", attempts: 0, payload: data } })
+        : null;
+
+    const job = queued ?? await db.job.create({
+        data: { storeId, type, payload: data, ...(options.maxAttempts ? { maxAttempts: options.maxAttempts } : {}) }
+    });
+    console.log(`[JOBS] ${queued ? "Already queued" : "Queued"} ${type} job ${job.id} for store ${storeId}`);
+
+    startJobWorker();
+    return job;
+}
+
+/**
+ * The store's queued and running jobs of `type`, latest first.
+ */
+export async function getActiveJobs(storeId: string, type: JobType): Promise<Job[]> {
+    return db.job.findMany({
+        where: { storeId, type, status: { in: ACTIVE_STATUSES } },
+        orderBy: { createdAt: "desc" }
+    });
+}
+
+/**
+ * The store's latest job of `type`, whatever its status.
+ */
+export async function getLatestJob(storeId: string, type: JobType): Promise<Job | null> {
+    return db.job.findFirst({ where: { storeId, type }, orderBy: { createdAt: "desc" } });
+}
+
+/**
+ * Cancel a job: a queued or paused one right away, a running one at its next checkpoint.
+ */
+export async function cancelJob(storeId: string, jobId: string): Promise<boolean> {
+    const job = await db.job.findFirst({ where: { id: jobId, storeId } });
+    if (!job) return false;
+
+    if (job.status === "RUNNING") {
+        await db.job.update({ where: { id: job.id }, data: { cancelRequested: true } });
+        console.log(`[JOBS] Cancellation requested for running job ${job.id}`);
+        return true;
+    }
+    if (job.status !== "QUEUED" && job.status !== "PAUSED") return false;
+
+    const { count } = await db.job.updateMany({
+        where: { id: job.id, status: job.status },
+        data: { status: "CANCELLED", finishedAt: new Date() }
+    });
+    if (count === 0) return cancelJob(storeId, jobId); // Picked up meanwhile
+    await notifyFinished(job, "CANCELLED", null);
+    return true;
+}
+
+/**
+ * Pause a job: a queued one right away, a running one at its next checkpoint.
+ */
+export async function pauseJob(storeId: string, jobId: string): Promise<boolean> {
+    const job = await db.job.findFirst({ where: { id: jobId, storeId } });
+    if (!job) return false;
+
+    if (job.status === "RUNNING") {
+        await db.job.update({ where: { id: job.id }, data: { pauseRequested: true } });
+        console.log(`[JOBS] Pause requested for running job ${job.id}`);
+        return true;
+    }
+    if (job.status !== "QUEUED") return false;
+
+    const { count } = await db.job.updateMany({
+        where: { id: job.id, status: "QUEUED" },
+        data: { status: "PAUSED" }
+    });
+    if (count === 0) return pauseJob(storeId, jobId); // Picked up meanwhile
+    await notifyPaused(job);
+    return true;
+}
+
+/**
+ * Queue a paused, failed or cancelled job again. It continues from its last checkpoint
+ * with a fresh set of attempts.
+ */
+export async function resumeJob(storeId: string, jobId: string): Promise<boolean> {
+    const { count } = await db.job.updateMany({
+        where: { id: jobId, storeId, status: { in: ["PAUSED", "FAILED", "CANCELLED"] } },
+        data: { status: "QUEUED", attempts: 0, runAfter: new Date(), cancelRequested: false, pauseRequested: false, error: null, finishedAt: null }
+    });
+    if (count === 0) return false;
+
+    console.log(`[JOBS] Resumed job ${jobId}`);
+    startJobWorker();
+    return true;
+}
+
+async function notifyFinished(job: Job, status: JobStatus, error: string | null) {
+    try {
+        const handler = await getJobHandler(job.type);
+        await handler.onFinished?.(JSON.parse(job.payload), status, error);
+    } catch (err) {
+        console.error(`[JOBS] Finish hook of job ${job.id} failed:`, err);
+    }
+}
+
+async function notifyPaused(job: Job) {
+    try {
+        const handler = await getJobHandler(job.type);
+        await handler.onPaused?.(JSON.parse(job.payload));
+    } catch (err) {
+        console.error(`[JOBS] Pause hook of job ${job.id} failed:`, err);
+    }
+}
+
+async function finishJob(job: Job, status: JobStatus, error: string | null) {
+    await db.job.update({
+        where: { id: job.id },
+        data: { status, error, finishedAt: new Date(), lockedBy: null, cancelRequested: false, pauseRequested: false }
+    });
+    console.log(`[JOBS] ${job.type} job ${job.id}: ${status}${error ? ` (${error})` : ""}`);
+    await notifyFinished(job, status, error);
+}
+
+/**
+ * Lock the oldest due job of a store without a running one. Due: queued and past its
+ * backoff, or running with a stale heartbeat.
+ */
+async function claimNextJob(now: Date = new Date()): Promise<Job | null> {
+    const staleBefore = new Date(now.getTime() - STALE_JOB_MINUTES * MINUTE_MS);
+    const candidates = await db.job.findMany({
+        where: {
+            OR: [
+                { status: "QUEUED", runAfter: { lte: now } },
+                { status: "RUNNING", heartbeatAt: { lt: staleBefore } }
+            ]
+        },
+        orderBy: { createdAt: "asc" },
+        take: 20
+    });
+    if (candidates.length === 0) return null;
+
+    const running = await db.job.findMany({
+        where: { status: "RUNNING", heartbeatAt: { gte: staleBefore } },
+        select: { storeId: true }
+    });
+    const busyStores = new Set(running.map(j => j.storeId));
+
+    for (const job of candidates) {
+        if (busyStores.has(job.storeId)) continue;
+
+        if (job.status === "RUNNING") {
+            console.warn(`[JOBS] Job ${job.id} stopped sending heartbeats (worker ${job.lockedBy}), taking it over`);
+            if (job.attempts >= job.maxAttempts) {
+                await finishJob(job, "FAILED", job.error || "The worker stopped during the last attempt");
+                continue;
+            }
+        }
+
+        // The attempt count doubles as a version: only one worker wins the job
+        const { count } = await db.job.updateMany({
+            where: { id: job.id, status: job.status, attempts: job.attempts },
+            data: { status: "RUNNING", lockedBy: WORKER_ID, heartbeatAt: now, attempts: { increment: 1 }, startedAt: job.startedAt ?? now }
+        });
+        if (count === 1) return db.job.findUnique({ where: { id: job.id } });
+    }
+    return null;
+}
+
+async function runJob(job: Job, deadline: number) {
+    const payload = JSON.parse(job.payload);
+    let handler: JobHandler;
+    try {
+        handler = await getJobHandler(job.type);
+    } catch (err) {
+        await finishJob(job, "FAILED", err instanceof Error ? err.message : String(err));
+        return;
+    }
+
+    const ctx: JobContext = {
+        job,
+        checkpoint: job.checkpoint ? JSON.parse(job.checkpoint) : null,
+        progress: job.progress ? JSON.parse(job.progress) : null,
+        deadline,
+        saveCheckpoint: async (checkpoint, completed, progress) => {
+            const { count } = await db.job.updateMany({
+                where: { id: job.id, lockedBy: WORKER_ID, status: "RUNNING" },
+                data: {
+                    checkpoint: JSON.stringify(checkpoint),
+                    ...(completed !== undefined ? { completed } : {}),
+                    ...(progress !== undefined ? { progress: JSON.stringify(progress) } : {}),
+                    heartbeatAt: new Date()
+                }
+            });
+            if (count === 0) throw new JobLockLostError();
+            const current = await db.job.findUnique({ where: { id: job.id }, select: { cancelRequested: true, pauseRequested: true } });
+            if (current?.cancelRequested) throw new JobCancelledError();
+            if (current?.pauseRequested) throw new JobPausedError();
+            if (Date.now() >= deadline) throw new JobYieldError();
+        },
+        heartbeat: async () => {
+            const { count } = await db.job.updateMany({
+                where: { id: job.id, lockedBy: WORKER_ID, status: "RUNNING" },
+                data: { heartbeatAt: new Date() }
+            });
+            if (count === 0) throw new JobLockLostError();
+        }
+    };
+
+    console.log(`[JOBS] Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+    try {
+        await handler.run(payload, ctx);
+        await finishJob(job, "COMPLETED", null);
+    } catch (err) {
+        if (err instanceof JobLockLostError) {
+            console.warn(`[JOBS] Job ${job.id} was taken over by another worker, stopping this attempt`);
+            return;
+        }
+        if (err instanceof JobCancelledError) {
+            await finishJob(job, "CANCELLED", null);
+            return;
+        }
+        if (err instanceof JobPausedError) {
+            await db.job.update({ where: { id: job.id }, data: { status: "PAUSED", lockedBy: null, pauseRequested: false } });
+            console.log(`[JOBS] ${job.type} job ${job.id}: PAUSED`);
+            await notifyPaused(job);
+            return;
+        }
+        if (err instanceof JobYieldError) {
+            // Not a failed attempt: the next worker continues where this one stopped
+            await db.job.update({
+                where: { id: job.id },
+                data: { status: "QUEUED", runAfter: new Date(), lockedBy: null, attempts: { decrement: 1 } }
+            });
+            console.log(`[JOBS] ${job.type} job ${job.id}: out of time, requeued at its checkpoint`);
+            return;
+        }
+
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`[JOBS] ${job.type} job ${job.id} failed on attempt ${job.attempts}:`, message);
+        if (job.attempts >= job.maxAttempts) {
+            await finishJob(job, "FAILED", message);
+            return;
+        }
+
+        const delay = getRetryDelayMs(job.attempts);
+        const runAfter = new Date(Date.now() + delay);
+        await db.job.update({
+            where: { id: job.id },
+            data: { status: "QUEUED", runAfter, error: message, lockedBy: null }
+        });
+        try {
+            await handler.onRetry?.(payload, runAfter, message);
+        } catch (hookErr) {
+            console.error(`[JOBS] Retry hook of job ${job.id} failed:`, hookErr);
+        }
+        // Long-running servers retry in-process; otherwise the next cron run picks it up
+        setTimeout(startJobWorker, delay + 1000).unref();
+    }
+}
+
+/**
+ * Run due jobs one after another. By default until none is due; with `untilIdle: false`
+ * it keeps polling. After `maxRuntimeMs` no new job is taken and the running one is
+ * requeued at its next checkpoint.
+ */
+export async function runJobWorker(options: { untilIdle?: boolean; maxRuntimeMs?: number; pollMs?: number } = {}): Promise<number> {
+    const { untilIdle = true, maxRuntimeMs, pollMs = POLL_MS } = options;
+    const deadline = maxRuntimeMs ? Date.now() + maxRuntimeMs : Infinity;
+    let processed = 0;
+
+    while (Date.now() < deadline) {
+        wakeRequested = false;
+        const job = await claimNextJob();
+        if (!job) {
+            if (wakeRequested) continue;
+            if (untilIdle) break;
+            await new Promise(r => setTimeout(r, pollMs));
+            continue;
+        }
+        await runJob(job, deadline);
+        processed++;
+    }
+    return processed;
+}
+
+/**
+ * Start the in-process worker unless it already runs (fire-and-forget).
+ */
+export function startJobWorker(): void {
+    wakeRequested = true;
+    if (inProcessWorker) return;
+    inProcessWorker = runJobWorker()
+        .catch(err => console.error("[JOBS] Worker stopped:", err))
+        .finally(() => { inProcessWorker = null; });
+}
@@ -0,0 +1,314 @@
+/**
+ * order-data.server.ts
+ *
+ * Normalized order data shared by every order-based evaluation path:
+ * order rules (order-rules.server.ts) and purchase-history aggregates
+ * (purchase-history.server.ts). Pure functions only — no Shopify or DB access.
+ *
+ * Supported order fields:
+ *   order_source         - referring_site / source_name
+ *   payment_method       - payment_gateway
+ *   shipping_city        - shipping_address.city
+ *   shipping_country     - shipping_address.country_code
+ *   order_item_count     - sum of line_items[].quantity
+ *   order_subtotal       - subtotal_price
+ *   discount_code_used   - whether discount_codes is non-empty ("true"/"false")
+ *   discount_code_value  - specific discount code string
+ *   discount_percentage  - derived: (total_discounts / subtotal_price) * 100
+ *   is_preorder          - any line_item.properties has name "Pre-Order" or product tag "pre-order"
+ *
+ * Line-item fields (matched per line item; `itemMatch: "any"` (default) or "all" on the condition):
+ *   product_id           - line_item.product_id (numeric or gid)
+ *   product_sku          - line_item.sku (variant SKU)
+ *   product_vendor       - line_item.vendor
+ *   product_type         - product.productType   (needs ProductDetailsMap)
+ *   product_tag          - product.tags          (needs ProductDetailsMap)
+ *   product_collection   - collection id, handle or title (needs ProductDetailsMap)
+ *
+ * Webhook payloads don't carry product type, tags or collections, so every caller
+ * (webhooks, queue historical sync, sync debugger) loads them once with
+ * fetchProductDetails() when rulesNeedProductDetails() is true and passes the map in.
+ */
+
+import type { Rule } from "@prisma/client";
+import { parseConditionNodes, flattenConditions, formatTraceValue } from "./condition-tree";
+import type { ConditionTraceLeaf } from "./condition-tree";
+
+export type OrderCondition = {
+    field: string;
+    operator: string;
+    value: string;
+    ruleCategory: "order";
+    itemMatch?: "any" | "all";
+};
+
+/**
+ * Product data that isn't part of the order payload, keyed by numeric product ID.
+ * `collections` holds lowercased collection ids, handles and titles.
+ */
+export type ProductDetails = {
+    productType: string;
+    vendor: string;
+    tags: string[];
+    collections: string[];
+};
+export type ProductDetailsMap = Map<string, ProductDetails>;
+
+type LineItemData = {
+    product_id: string;
+    product_sku: string;
+    product_vendor: string;
+    product_type: string;
+    product_tag: string[];
+    product_collection: string[];
+};
+
+// Webhook-shaped line item produced by mapGraphqlOrder
+type MappedLineItem = {
+    title: string;
+    price: string;
+    quantity: number;
+    properties: { name: string; value: string }[];
+    product_id: string | null;
+    sku: string;
+    vendor: string;
+};
+
+export const LINE_ITEM_FIELDS = ["product_id", "product_sku", "product_vendor", "product_type", "product_tag", "product_collection"];
+
+// Fields that can only be evaluated once product details are loaded
+const PRODUCT_DETAIL_FIELDS = ["product_type", "product_tag", "product_collection"];
+
+const toNumericId = (id: unknown) => String(id ?? "").split("/").pop() || "";
+
+/**
+ * True when any rule has a condition that needs fetchProductDetails() — an order
+ * condition on a product detail field, or a purchase-history filter on one.
+ */
+export function rulesNeedProductDetails(rules: Rule[]): boolean {
+    return rules.some(rule => {
+        try {
+            return flattenConditions(parseConditionNodes(rule.conditions)).some(c =>
+                (c.ruleCategory === "order" && PRODUCT_DETAIL_FIELDS.includes(c.field)) ||
+                (c.ruleCategory === "history" && !!c.filter && PRODUCT_DETAIL_FIELDS.includes(c.filter.field))
+            );
+        } catch {
+            return false;
+        }
+    });
+}
+
+/**
+ * Numeric product IDs referenced by an order payload's line items.
+ */
+export function getOrderProductIds(order: any): string[] {
+    return [...new Set<string>((order.line_items || []).map((item: { product_id?: unknown }) => toNumericId(item.product_id)).filter(Boolean))];
+}
+
+/**
+ * Map a GraphQL order node (see fetchAllOrders) onto the webhook payload shape
+ * extractOrderData and saveOrder expect. Shared by the queue historical sync,
+ * the order backfill and the sync debugger.
+ */
+export function mapGraphqlOrder(o: any) {
+    const lineItemEdges: any[] = o.lineItems?.edges || [];
+    return {
+        id: toNumericId(o.id),
+        name: o.name,
+        email: o.email,
+        customer: o.customer?.id ? { id: toNumericId(o.customer.id) } : null,
+        created_at: o.createdAt,
+        currency: o.currencyCode,
+        financial_status: o.displayFinancialStatus ? String(o.displayFinancialStatus).toLowerCase() : undefined,
+        total_price: o.totalPriceSet?.shopMoney?.amount,
+        subtotal_price: String(parseFloat(o.subtotalPriceSet?.shopMoney?.amount || "0")),
+        total_discounts: o.totalDiscountsSet?.shopMoney?.amount || "0",
+        discount_codes: o.discountCodes ? o.discountCodes.map((c: string) => ({ code: c })) : [],
+        payment_gateway_names: o.paymentGatewayNames || [],
+        source_name: o.channel?.name || o.sourceIdentifier || "",
+        referring_site: "",
+        landing_site: "",
+        shipping_address: { city: o.shippingAddress?.city, country_code: o.shippingAddress?.countryCode },
+        tags: o.tags || [],
+        line_items: lineItemEdges.map((le): MappedLineItem => ({
+            title: le.node.title || "",
+            price: le.node.originalUnitPriceSet?.shopMoney?.amount || "0",
+            quantity: le.node.quantity,
+            properties: le.node.customAttributes ? le.node.customAttributes.map((ca: { key: string; value: string }) => ({ name: ca.key, value: ca.value })) : [],
+            product_id: toNumericId(le.node.product?.id) || null,
+            sku: le.node.sku || "",
+            vendor: le.node.vendor || le.node.product?.vendor || ""
+        }))
+    };
+}
+
+/**
+ * Extract normalized order data fields from the raw Shopify order payload.
+ */
+export function extractOrderData(order: any, productDetails?: ProductDetailsMap): Record<string, any> {
+    // Total ordered item quantity
+    const itemCount = (order.line_items || []).reduce(
+        (sum: number, item: any) => sum + (item.quantity || 0), 0
+    );
+
+    // Detect pre-order: look for a line_item property named pre-order / pre_order
+    const isPreorder = (order.line_items || []).some((item: any) => {
+        const props: { name: string; value: string }[] = item.properties || [];
+        return props.some(p =>
+            p.name?.toLowerCase().replace(/[^a-z]/g, "") === "preorder" ||
+            p.value?.toLowerCase().replace(/[^a-z]/g, "") === "preorder"
+        );
+    });
+
+    const subtotal = parseFloat(order.subtotal_price || "0");
+    const totalDiscount = parseFloat(order.total_discounts || "0");
+    const discountPct = subtotal > 0 ? (totalDiscount / subtotal) * 100 : 0;
+    const discountCodes: { code: string }[] = order.discount_codes || [];
+    const discountCodeUsed = discountCodes.length > 0;
+    const discountCodeValue = discountCodes.map(d => d.code).join(",").toLowerCase();
+
+    // Traffic source: build a combined string so merchants can match by any signal.
+    //   1. referring_site  = full URL the customer came from (e.g. "https://www.facebook.com/...")
+    //   2. landing_site    = URL of the first page visited — often contains UTM params
+    //                        (e.g. "?utm_source=facebook&utm_medium=cpc")
+    //   3. source_name     = Shopify's own channel label ("web", "pos", "shopify_draft_order", etc.)
+    // We join all three so a "contains facebook" check will fire if ANY of them mentions facebook.
+    const referringSite = (order.referring_site || "").toLowerCase();
+    const landingSite = (order.landing_site || "").toLowerCase();
+    const sourceName = (order.source_name || "").toLowerCase();
+    // Combine into one searchable string separated by spaces
+    const orderSource = [referringSite, landingSite, sourceName].filter(Boolean).join(" ");
+
+    // Payment method: Shopify may expose the gateway in multiple places.
+    // `payment_gateway_names` is the most reliable; fall back to `payment_gateway` or `gateway`.
+    let paymentMethodStr = "";
+    if (Array.isArray(order.payment_gateway_names) && order.payment_gateway_names.length > 0) {
+        paymentMethodStr = order.payment_gateway_names.join(", ").toLowerCase();
+    } else {
+        paymentMethodStr = (order.payment_gateway || order.gateway || "").toLowerCase();
+    }
+    // Normalize all COD variants → always include "cash_on_delivery" so template matching works.
+    // Real Shopify gateways: "Cash on Delivery (COD)", "cash on delivery", "cod", "cash-on-delivery"
+    if (
+        paymentMethodStr.includes("cash on delivery") ||
+        paymentMethodStr.includes("cash_on_delivery") ||
+        paymentMethodStr.includes("cash-on-delivery") ||
+        paymentMethodStr === "cod" ||
+        paymentMethodStr.includes("(cod)")
+    ) {
+        paymentMethodStr += " cash_on_delivery";
+    }
+
+    // Per-line-item product data for the product_* fields
+    const lineItems: LineItemData[] = (order.line_items || []).map((item: any) => {
+        const productId = toNumericId(item.product_id);
+        const details = productDetails?.get(productId);
+        return {
+            product_id: productId,
+            product_sku: (item.sku || "").toLowerCase(),
+            product_vendor: (item.vendor || details?.vendor || "").toLowerCase(),
+            product_type: (details?.productType || "").toLowerCase(),
+            product_tag: (details?.tags || []).map(t => t.toLowerCase()),
+            product_collection: details?.collections || []
+        };
+    });
+
+    return {
+        line_items: lineItems,
+        order_source: orderSource,
+        payment_method: paymentMethodStr,
+        shipping_city: (order.shipping_address?.city || "").toLowerCase(),
+        shipping_country: (order.shipping_address?.country_code || "").toLowerCase(),
+        order_item_count: itemCount,
+        order_subtotal: subtotal,
+        discount_code_used: discountCodeUsed ? "true" : "false",
+        discount_code_value: discountCodeValue,
+        discount_percentage: parseFloat(discountPct.toFixed(2)),
+        is_preorder: isPreorder ? "true" : "false"
+    };
+}
+
+/**
+ * Evaluate a product_* condition per line item. List fields (tags, collections) match when
+ * any entry matches; notEquals on a list means "none of the entries equal the value".
+ */
+function evaluateLineItemCondition(lineItems: LineItemData[], condition: OrderCondition): boolean {
+    if (lineItems.length === 0) return false;
+
+    const key = condition.field as keyof LineItemData;
+    const wanted = condition.field === "product_id"
+        ? toNumericId(condition.value)
+        : String(condition.value ?? "").trim().toLowerCase();
+
+    const matchesItem = (item: LineItemData) => {
+        const actual = item[key];
+        const values = Array.isArray(actual) ? actual : [actual];
+        switch (condition.operator) {
+            case "equals":
+                return values.some(v => v === wanted);
+            case "notEquals":
+                return !values.some(v => v === wanted);
+            case "contains":
+                return values.some(v => v.includes(wanted));
+            default:
+                return false;
+        }
+    };
+
+    return condition.itemMatch === "all" ? lineItems.every(matchesItem) : lineItems.some(matchesItem);
+}
+
+export function evaluateOrderCondition(orderData: Record<string, any>, condition: OrderCondition): boolean {
+    if (LINE_ITEM_FIELDS.includes(condition.field)) {
+        return evaluateLineItemCondition(orderData.line_items, condition);
+    }
+
+    const rawActual = orderData[condition.field];
+    if (rawActual === undefined || rawActual === null) return false;
+
+    const { operator, value } = condition;
+
+    switch (operator) {
+        case "equals":
+            if (rawActual !== "" && !isNaN(Number(rawActual)) && !isNaN(Number(value))) {
+                return Number(rawActual) === Number(value);
+            }
+            return String(rawActual).toLowerCase() === String(value).toLowerCase();
+
+        case "contains":
+            return String(rawActual).toLowerCase().includes(String(value).toLowerCase());
+
+        case "greaterThan":
+            return Number(rawActual) > Number(value);
+
+        case "lessThan":
+            return Number(rawActual) < Number(value);
+
+        case "notEquals":
+            if (rawActual !== "" && !isNaN(Number(rawActual)) && !isNaN(Number(value))) {
+                return Number(rawActual) !== Number(value);
+            }
+            return String(rawActual).toLowerCase() !== String(value).toLowerCase();
+
+        default:
+            return false;
+    }
+}
+
+/**
+ * Trace entry for an order condition (see traceConditionNodes). Line-item fields show the
+ * distinct values across the order's items.
+ */
+export function traceOrderCondition(orderData: Record<string, any>, condition: OrderCondition): ConditionTraceLeaf {
+    const actual = LINE_ITEM_FIELDS.includes(condition.field)
+        ? [...new Set((orderData.line_items as LineItemData[]).flatMap(item => item[condition.field as keyof LineItemData]))]
+        : orderData[condition.field];
+    return {
+        scope: "order",
+        subject: `order.${condition.field}${condition.itemMatch === "all" ? " (all items)" : ""}`,
+        operator: condition.operator,
+        expected: formatTraceValue(condition.value) ?? "",
+        actual: formatTraceValue(actual),
+        passed: evaluateOrderCondition(orderData, condition)
+    };
+}
@@ -7,196 +7,366 @@
  * the raw Shopify `orders/paid` webhook payload. Zero changes to the existing
  * customer metric evaluation pipeline (rule.server.ts is untouched).
  *
- * Supported order fields:
- *   order_source         - referring_site / source_name
- *   payment_method       - payment_gateway
- *   shipping_city        - shipping_address.city
- *   shipping_country     - shipping_address.country_code
- *   order_item_count     - sum of line_items[].quantity
- *   order_subtotal       - subtotal_price
- *   discount_code_used   - whether discount_codes is non-empty ("true"/"false")
- *   discount_code_value  - specific discount code string
- *   discount_percentage  - derived: (total_discounts / subtotal_price) * 100
- *   is_preorder          - any line_item.properties has name "Pre-Order" or product tag "pre-order"
+ * The supported order fields and payload normalization live in order-data.server.ts.
  */
 
-import type { Rule } from "@prisma/client";
-import { evaluateCondition as evalCustomerCondition } from "./rule.server";
+import type { Rule, Customer } from "@prisma/client";
+import { evaluateCondition as evalCustomerCondition, traceCondition as traceCustomerCondition, getCustomerTemplateValues } from "./rule.server";
+import { parseConditionNodes, flattenConditions, evaluateConditionNodes, traceConditionNodes, describeConditionNodes, hasOrderConditions } from "./condition-tree";
+import type { ConditionNode, RuleTrace } from "./condition-tree";
+import { extractOrderData, evaluateOrderCondition, traceOrderCondition } from "./order-data.server";
+import type { ProductDetailsMap } from "./order-data.server";
+import { evaluateHistoryCondition, traceHistoryCondition, describeHistoryCondition } from "./purchase-history.server";
+import type { OrderHistory } from "./purchase-history.server";
+import { isTagTemplate, renderTagTemplate, findTemplateTags, findOwnedTags } from "./tag-template";
+import type { AppliedTemplateTags } from "./tag-template";
+import { getExclusiveGroupKey, getExclusiveGroupWinners } from "./exclusive-groups";
+import { findRuleExclusion, toExclusionSubject } from "./rule-exclusions";
 
-export type OrderCondition = {
-    field: string;
-    operator: string;
-    value: string;
-    ruleCategory: "order";
+export type OrderRuleResult = {
+    tag: string;
+    reason: string;
+    targetEntity: string;
+    ruleId: string;
+    ruleVersionId: string | null;
+    // Tags the caller should remove from the customer / order: other rendered values of
+    // a template, and the tags of lower-priority rules in the same exclusive group
+    staleTags?: string[];
+    // Rules with expireAfterDays only: date of the qualifying order (see tag-expiry.server.ts)
+    qualifiedAt?: Date;
+    // Evaluation trace as ActivityLog.trace JSON (matches only, not expiry refreshes)
+    trace?: string;
 };
 
-/**
- * Extract normalized order data fields from the raw Shopify order payload.
- */
-function extractOrderData(order: any): Record<string, any> {
-    // Total ordered item quantity
-    const itemCount = (order.line_items || []).reduce(
-        (sum: number, item: any) => sum + (item.quantity || 0), 0
-    );
-
-    // Detect pre-order: look for a line_item property named pre-order / pre_order
-    const isPreorder = (order.line_items || []).some((item: any) => {
-        const props: { name: string; value: string }[] = item.properties || [];
-        return props.some(p =>
-            p.name?.toLowerCase().replace(/[^a-z]/g, "") === "preorder" ||
-            p.value?.toLowerCase().replace(/[^a-z]/g, "") === "preorder"
-        );
-    });
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-    const subtotal = parseFloat(order.subtotal_price || "0");
-    const totalDiscount = parseFloat(order.total_discounts || "0");
-    const discountPct = subtotal > 0 ? (totalDiscount / subtotal) * 100 : 0;
-    const discountCodes: { code: string }[] = order.discount_codes || [];
-    const discountCodeUsed = discountCodes.length > 0;
-    const discountCodeValue = discountCodes.map(d => d.code).join(",").toLowerCase();
-
-    // Traffic source: build a combined string so merchants can match by any signal.
-    //   1. referring_site  = full URL the customer came from (e.g. "https://www.facebook.com/...")
-    //   2. landing_site    = URL of the first page visited — often contains UTM params
-    //                        (e.g. "?utm_source=facebook&utm_medium=cpc")
-    //   3. source_name     = Shopify's own channel label ("web", "pos", "shopify_draft_order", etc.)
-    // We join all three so a "contains facebook" check will fire if ANY of them mentions facebook.
-    const referringSite = (order.referring_site || "").toLowerCase();
-    const landingSite = (order.landing_site || "").toLowerCase();
-    const sourceName = (order.source_name || "").toLowerCase();
-    // Combine into one searchable string separated by spaces
-    const orderSource = [referringSite, landingSite, sourceName].filter(Boolean).join(" ");
-
-    // Payment method: Shopify may expose the gateway in multiple places.
-    // `payment_gateway_names` is the most reliable; fall back to `payment_gateway` or `gateway`.
-    let paymentMethodStr = "";
-    if (Array.isArray(order.payment_gateway_names) && order.payment_gateway_names.length > 0) {
-        paymentMethodStr = order.payment_gateway_names.join(", ").toLowerCase();
-    } else {
-        paymentMethodStr = (order.payment_gateway || order.gateway || "").toLowerCase();
-    }
-    // Normalize all COD variants → always include "cash_on_delivery" so template matching works.
-    // Real Shopify gateways: "Cash on Delivery (COD)", "cash on delivery", "cod", "cash-on-delivery"
-    if (
-        paymentMethodStr.includes("cash on delivery") ||
-        paymentMethodStr.includes("cash_on_delivery") ||
-        paymentMethodStr.includes("cash-on-delivery") ||
-        paymentMethodStr === "cod" ||
-        paymentMethodStr.includes("(cod)")
-    ) {
-        paymentMethodStr += " cash_on_delivery";
-    }
+type OrderData = ReturnType<typeof extractOrderData>;
 
-    return {
-        order_source: orderSource,
-        payment_method: paymentMethodStr,
-        shipping_city: (order.shipping_address?.city || "").toLowerCase(),
-        shipping_country: (order.shipping_address?.country_code || "").toLowerCase(),
-        order_item_count: itemCount,
-        order_subtotal: subtotal,
-        discount_code_used: discountCodeUsed ? "true" : "false",
-        discount_code_value: discountCodeValue,
-        discount_percentage: parseFloat(discountPct.toFixed(2)),
-        is_preorder: isPreorder ? "true" : "false"
-    };
+/**
+ * Days after the last qualifying order when the rule's tag expires, or null.
+ * Only rules with order conditions expire — metric rules already remove their tag
+ * as soon as the customer stops matching.
+ */
+export function getRuleExpiryDays(rule: Rule): number | null {
+    if (!rule.expireAfterDays || rule.expireAfterDays <= 0) return null;
+    return hasOrderConditions(rule.conditions) ? rule.expireAfterDays : null;
 }
 
-function evaluateOrderCondition(orderData: Record<string, any>, condition: OrderCondition): boolean {
-    const rawActual = orderData[condition.field];
-    if (rawActual === undefined || rawActual === null) return false;
-
-    const { operator, value } = condition;
-
-    switch (operator) {
-        case "equals":
-            if (rawActual !== "" && !isNaN(Number(rawActual)) && !isNaN(Number(value))) {
-                return Number(rawActual) === Number(value);
-            }
-            return String(rawActual).toLowerCase() === String(value).toLowerCase();
+function getOrderDate(order: { created_at?: string | null; processed_at?: string | null }): Date {
+    const date = new Date(order.created_at || order.processed_at || Date.now());
+    return isNaN(date.getTime()) ? new Date() : date;
+}
 
-        case "contains":
-            return String(rawActual).toLowerCase().includes(String(value).toLowerCase());
+// REST payloads carry tags as "a, b", mapped GraphQL / local orders as an array
+function getOrderTags(order: { tags?: string | string[] | null }): string[] {
+    return Array.isArray(order.tags)
+        ? order.tags
+        : String(order.tags || "").split(",").map(t => t.trim()).filter(Boolean);
+}
 
-        case "greaterThan":
-            return Number(rawActual) > Number(value);
+// Rules whose exclusion lists (see rule-exclusions.ts) cover this customer or order, with the reason
+function findOrderExclusions(
+    order: { tags?: string | string[] | null },
+    customer: Parameters<typeof toExclusionSubject>[0],
+    rules: Rule[],
+    existingCustomerTags: string[]
+): Map<string, string> {
+    const subject = toExclusionSubject(customer, [...existingCustomerTags, ...getOrderTags(order)]);
+    const exclusions = new Map<string, string>();
+    for (const rule of rules) {
+        const exclusion = findRuleExclusion(rule, subject);
+        if (exclusion) exclusions.set(rule.id, exclusion);
+    }
+    return exclusions;
+}
 
-        case "lessThan":
-            return Number(rawActual) < Number(value);
+// Template placeholders see the customer's fields plus the order fields
+function renderTemplateForOrder(template: string, orderData: OrderData, customer: Customer): string | null {
+    const orderValues = { ...orderData };
+    delete orderValues.line_items;
+    return renderTagTemplate(template, { ...getCustomerTemplateValues(customer), ...orderValues });
+}
 
-        case "notEquals":
-            if (rawActual !== "" && !isNaN(Number(rawActual)) && !isNaN(Number(value))) {
-                return Number(rawActual) !== Number(value);
-            }
-            return String(rawActual).toLowerCase() !== String(value).toLowerCase();
+// Evaluate all conditions across the order, customer and purchase-history scopes
+function matchesRule(conditions: ConditionNode[], matchType: string, orderData: OrderData, customer: Customer, orderHistory?: OrderHistory): boolean {
+    return evaluateConditionNodes(conditions, matchType, (c: any) => {
+        if (c.ruleCategory === "order") {
+            return evaluateOrderCondition(orderData, c);
+        } else if (c.ruleCategory === "history") {
+            return !!orderHistory && evaluateHistoryCondition(orderHistory, c);
+        } else {
+            return evalCustomerCondition(customer, c);
+        }
+    });
+}
 
-        default:
-            return false;
-    }
+// Same as matchesRule, recording every condition with the value seen
+function traceRule(conditions: ConditionNode[], matchType: string, orderData: OrderData, customer: Customer, orderHistory?: OrderHistory): RuleTrace {
+    return traceConditionNodes(conditions, matchType, (c: any) => {
+        if (c.ruleCategory === "order") {
+            return traceOrderCondition(orderData, c);
+        } else if (c.ruleCategory === "history") {
+            return traceHistoryCondition(orderHistory, c);
+        } else {
+            return traceCustomerCondition(customer, c);
+        }
+    });
 }
 
 /**
  * Main export: given the raw Shopify order and a list of active Rule records,
  * return matched tag names and reasons.
+ * `productDetails` is required for product_type / product_tag / product_collection conditions,
+ * `orderHistory` for purchase-history conditions in mixed rules.
+ * Template target tags are rendered from the order fields plus the customer's fields;
+ * a template whose rendered value is already present is skipped. Previously rendered
+ * values become staleTags only when `appliedTemplateTags` (loadAppliedTemplateTags in
+ * rule.server.ts) shows the rule applied them. Exclusive groups return at most one
+ * result each, with the group's other (owned) tags as staleTags.
+ * Rules that exclude the customer or the order (see rule-exclusions.ts) are skipped;
+ * findSuppressedOrderMatches reports what they would have tagged.
  */
 export function evaluateOrderRules(
     order: any,
     customer: any,
     rules: Rule[],
-    existingCustomerTags: string[]
-): { tag: string; reason: string; targetEntity: string }[] {
-    const results: { tag: string; reason: string; targetEntity: string }[] = [];
-    const orderData = extractOrderData(order);
+    existingCustomerTags: string[],
+    productDetails?: ProductDetailsMap,
+    orderHistory?: OrderHistory,
+    appliedTemplateTags?: AppliedTemplateTags
+): OrderRuleResult[] {
+    const exclusions = findOrderExclusions(order, customer, rules, existingCustomerTags);
+    const applicableRules = rules.filter(rule => !exclusions.has(rule.id));
+    const results = matchOrderRules(order, customer, applicableRules, existingCustomerTags, productDetails, orderHistory, appliedTemplateTags);
+    return resolveExclusiveGroups(results, applicableRules, getOrderTags(order), existingCustomerTags, appliedTemplateTags);
+}
+
+/**
+ * The tags evaluateOrderRules held back because a rule's exclusion lists cover the
+ * customer or the order, with the exclusion in the reason. Exclusive groups are not
+ * resolved, so every excluded match is reported.
+ */
+export function findSuppressedOrderMatches(
+    order: any,
+    customer: any,
+    rules: Rule[],
+    existingCustomerTags: string[],
+    productDetails?: ProductDetailsMap,
+    orderHistory?: OrderHistory
+): OrderRuleResult[] {
+    const exclusions = findOrderExclusions(order, customer, rules, existingCustomerTags);
+    if (exclusions.size === 0) return [];
+    const excludedRules = rules.filter(rule => exclusions.has(rule.id));
+    return matchOrderRules(order, customer, excludedRules, existingCustomerTags, productDetails, orderHistory)
+        .map(result => ({ ...result, reason: `${result.reason}, not applied: ${exclusions.get(result.ruleId)}`, staleTags: undefined }));
+}
+
+// Every rule with order conditions that matches this order and would add a tag
+function matchOrderRules(
+    order: any,
+    customer: any,
+    rules: Rule[],
+    existingCustomerTags: string[],
+    productDetails?: ProductDetailsMap,
+    orderHistory?: OrderHistory,
+    appliedTemplateTags?: AppliedTemplateTags
+): OrderRuleResult[] {
+    const results: OrderRuleResult[] = [];
+    const orderData = extractOrderData(order, productDetails);
+    const orderDate = getOrderDate(order);
+    const orderTags = getOrderTags(order);
 
 
     for (const rule of rules) {
-        let conditions: any[];
+        let conditions: ConditionNode[];
         try {
-            conditions = JSON.parse(rule.conditions);
+            conditions = parseConditionNodes(rule.conditions);
         } catch {
             continue;
         }
 
-        // A rule requires order evaluation if it has AT LEAST ONE order condition
-        const orderConditions = conditions.filter((c: any) => c.ruleCategory === "order");
+        // A rule requires order evaluation if it has AT LEAST ONE order condition,
+        // at any depth of its condition groups. It might also have metric conditions (mixed rule).
+        const orderConditions = flattenConditions(conditions).filter(c => c.ruleCategory === "order");
         if (orderConditions.length === 0) continue; // Pure metric rules are handled purely by rule.server.ts
 
-        // It might also have metric conditions (mixed rule)
-        const metricConditions = conditions.filter((c: any) => c.ruleCategory === "metric");
+        // An expiring tag whose qualifying order is already past the window would be removed straight away
+        const expiryDays = getRuleExpiryDays(rule);
+        if (expiryDays && orderDate.getTime() + expiryDays * DAY_MS <= Date.now()) continue;
 
-        // Skip if customer already has this tag, BUT only if the rule targets the customer.
-        if (rule.targetEntity === "customer" && existingCustomerTags.includes(rule.targetTag)) continue;
+        // Skip if the customer (customer rules) or the order (order rules) already has this tag.
+        // Templates are checked after rendering, below.
+        const entityTags = rule.targetEntity === "order" ? orderTags : existingCustomerTags;
+        const templated = isTagTemplate(rule.targetTag);
+        if (!templated && entityTags.includes(rule.targetTag)) continue;
 
-        // Skip if order already has this tag (newly added check)
-        const orderTags = order.tags || [];
-        if (rule.targetEntity === "order" && orderTags.includes(rule.targetTag)) continue;
+        const trace = traceRule(conditions, rule.matchType, orderData, customer, orderHistory);
 
-        // Evaluate all conditions across both scopes
-        const evaluateGenericCondition = (c: any) => {
-            if (c.ruleCategory === "order") {
-                return evaluateOrderCondition(orderData, c);
-            } else {
-                return evalCustomerCondition(customer, c);
+        if (trace.matched) {
+            let tag = rule.targetTag;
+            let staleTags: string[] = [];
+            if (templated) {
+                const rendered = renderTemplateForOrder(rule.targetTag, orderData, customer);
+                if (!rendered || entityTags.some(t => t.toLowerCase() === rendered.toLowerCase())) continue;
+                tag = rendered;
+                staleTags = findOwnedTags(rule.targetTag, entityTags, appliedTemplateTags?.get(rule.id));
             }
-        };
-
-        const isMatch = rule.matchType === "ANY"
-            ? conditions.some(c => evaluateGenericCondition(c))
-            : conditions.every(c => evaluateGenericCondition(c));
 
-        if (isMatch) {
-            const reasons = conditions.map((c: any) =>
+            const expression = describeConditionNodes(conditions, rule.matchType, (c: any) =>
                 c.ruleCategory === "order"
-                    ? `order.${c.field} ${c.operator} "${c.value}"`
-                    : `customer.${c.field} ${c.operator} "${c.value}"`
+                    ? `order.${c.field} ${c.operator} "${c.value}"${c.itemMatch === "all" ? " (all items)" : ""}`
+                    : c.ruleCategory === "history"
+                        ? describeHistoryCondition(c)
+                        : `customer.${c.field} ${c.operator} "${c.value}"`
             );
-            const joinWord = rule.matchType === "ANY" ? " OR " : " AND ";
             results.push({
-                tag: rule.targetTag,
-                reason: `Rule "${rule.name}" matched (${reasons.join(joinWord)})`,
-                targetEntity: rule.targetEntity
+                tag,
+                reason: `Rule "${rule.name}" matched (${expression})`,
+                targetEntity: rule.targetEntity,
+                ruleId: rule.id,
+                ruleVersionId: rule.currentVersionId,
+                ...(staleTags.length > 0 ? { staleTags } : {}),
+                ...(expiryDays ? { qualifiedAt: orderDate } : {}),
+                trace: JSON.stringify(trace)
             });
         }
     }
 
     return results;
 }
+
+/**
+ * The tag `rule` gives this order (the rendered value for templates), or null when it
+ * doesn't match. Existing tags, expiry windows and exclusive groups are ignored, so rule
+ * previews can tell "matches" apart from "already tagged".
+ */
+export function matchOrderRule(
+    order: any,
+    customer: Customer,
+    rule: Rule,
+    productDetails?: ProductDetailsMap,
+    orderHistory?: OrderHistory
+): string | null {
+    let conditions: ConditionNode[];
+    try {
+        conditions = parseConditionNodes(rule.conditions);
+    } catch {
+        return null;
+    }
+
+    const orderData = extractOrderData(order, productDetails);
+    if (!matchesRule(conditions, rule.matchType, orderData, customer, orderHistory)) return null;
+    return isTagTemplate(rule.targetTag) ? renderTemplateForOrder(rule.targetTag, orderData, customer) : rule.targetTag;
+}
+
+/**
+ * Per-condition trace of `rule` against this order (see traceConditionNodes), or null when
+ * its conditions can't be parsed. Like matchOrderRule, existing tags, expiry windows and
+ * exclusive groups are ignored.
+ */
+export function traceOrderRule(
+    order: any,
+    customer: Customer,
+    rule: Rule,
+    productDetails?: ProductDetailsMap,
+    orderHistory?: OrderHistory
+): RuleTrace | null {
+    let conditions: ConditionNode[];
+    try {
+        conditions = parseConditionNodes(rule.conditions);
+    } catch {
+        return null;
+    }
+    return traceRule(conditions, rule.matchType, extractOrderData(order, productDetails), customer, orderHistory);
+}
+
+/**
+ * True when the order is already older than the rule's "expire after N days" window,
+ * in which case evaluateOrderRules doesn't apply the tag.
+ */
+export function isPastExpiryWindow(order: any, rule: Rule): boolean {
+    const expiryDays = getRuleExpiryDays(rule);
+    return !!expiryDays && getOrderDate(order).getTime() + expiryDays * DAY_MS <= Date.now();
+}
+
+/**
+ * Expiring rules (see tag-expiry.server.ts) whose tag is already on the customer / order
+ * and that match this order again. evaluateOrderRules skips those rules, so callers use
+ * this to push the tag's expiry forward. Excluded customers / orders are skipped here too.
+ */
+export function findExpiryRefreshes(
+    order: any,
+    customer: any,
+    rules: Rule[],
+    existingCustomerTags: string[],
+    productDetails?: ProductDetailsMap,
+    orderHistory?: OrderHistory
+): OrderRuleResult[] {
+    const expiringRules = rules.filter(rule => getRuleExpiryDays(rule));
+    if (expiringRules.length === 0) return [];
+    const exclusions = findOrderExclusions(order, customer, expiringRules, existingCustomerTags);
+
+    const orderData = extractOrderData(order, productDetails);
+    const orderDate = getOrderDate(order);
+    const orderTags = getOrderTags(order);
+    const refreshes: OrderRuleResult[] = [];
+
+    for (const rule of expiringRules) {
+        if (exclusions.has(rule.id)) continue;
+        if (orderDate.getTime() + getRuleExpiryDays(rule)! * DAY_MS <= Date.now()) continue;
+        const heldTags = findTemplateTags(rule.targetTag, rule.targetEntity === "order" ? orderTags : existingCustomerTags);
+        if (heldTags.length === 0) continue;
+
+        let conditions: ConditionNode[];
+        try {
+            conditions = parseConditionNodes(rule.conditions);
+        } catch {
+            continue;
+        }
+        if (!matchesRule(conditions, rule.matchType, orderData, customer, orderHistory)) continue;
+
+        // A template only refreshes the value this order renders to
+        const templated = isTagTemplate(rule.targetTag);
+        const rendered = templated ? renderTemplateForOrder(rule.targetTag, orderData, customer) : null;
+        for (const tag of heldTags) {
+            if (templated && tag.toLowerCase() !== rendered?.toLowerCase()) continue;
+            refreshes.push({ tag, reason: `Rule "${rule.name}" matched again`, targetEntity: rule.targetEntity, ruleId: rule.id, ruleVersionId: rule.currentVersionId, qualifiedAt: orderDate });
+        }
+    }
+
+    return refreshes;
+}
+
+/**
+ * Exclusive groups (see exclusive-groups.ts): keep only the highest-priority match per
+ * group and mark the group's other tags on the customer / order as stale. Group members
+ * that already hold their tag (skipped above, or metric rules not evaluated here) compete too.
+ */
+function resolveExclusiveGroups(
+    results: OrderRuleResult[],
+    rules: Rule[],
+    orderTags: string[],
+    existingCustomerTags: string[],
+    appliedTemplateTags?: AppliedTemplateTags
+): OrderRuleResult[] {
+    const tagsOf = (rule: Rule) => findOwnedTags(rule.targetTag, rule.targetEntity === "order" ? orderTags : existingCustomerTags, appliedTemplateTags?.get(rule.id));
+
+    const matchedRules = rules.filter(r => results.some(result => result.ruleId === r.id));
+    const heldRules = rules.filter(r => getExclusiveGroupKey(r) && !matchedRules.includes(r) && tagsOf(r).length > 0);
+    const winners = getExclusiveGroupWinners([...matchedRules, ...heldRules]);
+
+    return results.flatMap(result => {
+        const rule = matchedRules.find(r => r.id === result.ruleId);
+        const key = rule && getExclusiveGroupKey(rule);
+        if (!key) return [result];
+        if (winners.get(key)?.id !== rule.id) return [];
+
+        const staleTags = new Set(result.staleTags || []);
+        for (const other of rules) {
+            if (other.id === rule.id || getExclusiveGroupKey(other) !== key) continue;
+            for (const tag of tagsOf(other)) staleTags.add(tag);
+        }
+        staleTags.delete(result.tag);
+        return [{ ...result, staleTags: staleTags.size > 0 ? [...staleTags] : undefined }];
+    });
+}
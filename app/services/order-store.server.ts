@@ -0,0 +1,243 @@
+/**
+ * order-store.server.ts
+ *
+ * Local Order Table (Additive Module)
+ *
+ * Orders and their line items are kept in the local Order / OrderLineItem tables so
+ * rule evaluation, the ROI page, Sync Diagnostics and CSV exports no longer page
+ * through the Admin API on every run:
+ *
+ *   - orders/create and orders/paid webhooks upsert each order as it arrives (saveOrder)
+ *   - the first historical sync runs a one-time backfill of every existing order
+ *     (backfillOrders) and stamps Store.ordersBackfilledAt
+ *   - order tags added by TagBot are mirrored onto the local row (mirrorOrderTags)
+ *
+ * Local reads are only trusted once the backfill has finished (hasLocalOrders);
+ * until then callers keep fetching from Shopify. Rows are turned back into the
+ * webhook payload shape with toOrderPayload(), so extractOrderData and every rule
+ * path evaluate a stored order exactly like a live one.
+ */
+import type { Order, OrderLineItem } from "@prisma/client";
+import db from "../db.server";
+import { mapGraphqlOrder } from "./order-data.server";
+import { forEachOrderPage } from "./shopify-helpers.server";
+import type { BulkProgress } from "./bulk-operations.server";
+
+export type LocalOrder = Order & { lineItems: OrderLineItem[] };
+
+// Orders read per database round trip when scanning a whole store
+const LOCAL_ORDER_PAGE_SIZE = 500;
+
+const toNumericId = (id: unknown) => String(id ?? "").split("/").pop() || "";
+
+const toFloat = (value: unknown) => {
+    const n = parseFloat(String(value ?? "0"));
+    return isNaN(n) ? 0 : n;
+};
+
+// Comma separated strings (REST tags, stored lists) and arrays (GraphQL tags) → trimmed list
+export const splitList = (value: unknown): string[] =>
+    (Array.isArray(value) ? value : String(value ?? "").split(","))
+        .map(v => String(v).trim())
+        .filter(Boolean);
+
+const joinList = (values: string[]) => (values.length > 0 ? values.join(", ") : null);
+
+/**
+ * True once the one-time backfill has finished, i.e. the local Order table holds
+ * the store's complete order history. Read straight from the DB (not the store
+ * cache) so a backfill that just finished is picked up immediately.
+ */
+export async function hasLocalOrders(storeId: string): Promise<boolean> {
+    const store = await db.store.findUnique({ where: { id: storeId }, select: { ordersBackfilledAt: true } });
+    return !!store?.ordersBackfilledAt;
+}
+
+/**
+ * Upsert one order with its line items. Accepts a REST webhook payload or the
+ * output of mapGraphqlOrder; line items are replaced on every save.
+ */
+export async function saveOrder(storeId: string, order: any): Promise<void> {
+    const id = toNumericId(order.admin_graphql_api_id || order.id);
+    if (!id) return;
+
+    const createdAt = new Date(order.created_at || order.processed_at);
+    const data = {
+        customerId: order.customer?.id ? toNumericId(order.customer.id) : null,
+        name: order.name || null,
+        email: order.email || order.contact_email || null,
+        processedAt: isNaN(createdAt.getTime()) ? new Date() : createdAt,
+        subtotalPrice: toFloat(order.subtotal_price),
+        totalPrice: toFloat(order.total_price ?? order.subtotal_price),
+        totalDiscounts: toFloat(order.total_discounts),
+        currency: order.currency || null,
+        financialStatus: order.financial_status || null,
+        discountCodes: joinList((order.discount_codes || []).map((d: { code: string }) => d.code)),
+        paymentGateways: joinList(order.payment_gateway_names || []),
+        sourceName: order.source_name || null,
+        referringSite: order.referring_site || null,
+        landingSite: order.landing_site || null,
+        shippingCity: order.shipping_address?.city || null,
+        shippingCountry: order.shipping_address?.country_code || null,
+        tags: joinList(splitList(order.tags))
+    };
+
+    const lineItems = (order.line_items || []).map((item: any) => ({
+        orderId: id,
+        productId: toNumericId(item.product_id) || null,
+        title: item.title || item.name || null,
+        sku: item.sku || null,
+        vendor: item.vendor || null,
+        quantity: item.quantity || 0,
+        price: toFloat(item.price),
+        properties: item.properties?.length
+            ? JSON.stringify(item.properties.map((p: { name: string; value: string }) => ({ name: p.name, value: p.value })))
+            : null
+    }));
+
+    await db.$transaction([
+        db.order.upsert({
+            where: { id_storeId: { id, storeId } },
+            create: { id, storeId, ...data },
+            update: data
+        }),
+        db.orderLineItem.deleteMany({ where: { orderId: id } }),
+        db.orderLineItem.createMany({ data: lineItems })
+    ]);
+}
+
+/**
+ * Rebuild the webhook payload shape (see mapGraphqlOrder) from a stored order.
+ */
+export function toOrderPayload(order: LocalOrder) {
+    return {
+        id: order.id,
+        name: order.name,
+        email: order.email,
+        customer: order.customerId ? { id: order.customerId } : null,
+        created_at: order.processedAt.toISOString(),
+        currency: order.currency,
+        financial_status: order.financialStatus,
+        total_price: String(order.totalPrice),
+        subtotal_price: String(order.subtotalPrice),
+        total_discounts: String(order.totalDiscounts),
+        discount_codes: splitList(order.discountCodes).map(code => ({ code })),
+        payment_gateway_names: splitList(order.paymentGateways),
+        source_name: order.sourceName || "",
+        referring_site: order.referringSite || "",
+        landing_site: order.landingSite || "",
+        shipping_address: { city: order.shippingCity, country_code: order.shippingCountry },
+        tags: splitList(order.tags),
+        line_items: order.lineItems.map(item => {
+            let properties: { name: string; value: string }[] = [];
+            try { properties = item.properties ? JSON.parse(item.properties) : []; } catch { /* ignore malformed JSON */ }
+            return {
+                title: item.title || "",
+                price: String(item.price),
+                quantity: item.quantity,
+                properties,
+                product_id: item.productId,
+                sku: item.sku || "",
+                vendor: item.vendor || ""
+            };
+        })
+    };
+}
+
+export type LocalOrderPayload = ReturnType<typeof toOrderPayload>;
+
+/**
+ * All stored orders of one customer as payloads, newest first.
+ */
+export async function getLocalCustomerOrders(storeId: string, customerId: string): Promise<LocalOrderPayload[]> {
+    const orders = await db.order.findMany({
+        where: { storeId, customerId },
+        include: { lineItems: true },
+        orderBy: { processedAt: "desc" }
+    });
+    return orders.map(toOrderPayload);
+}
+
+/**
+ * Walk every stored order of a store in pages of LOCAL_ORDER_PAGE_SIZE.
+ * @returns the number of orders visited
+ */
+export async function forEachLocalOrderPage(
+    storeId: string,
+    onPage: (orders: LocalOrder[]) => Promise<void>,
+    // Start after this order ID (a resumed sync)
+    after: string | null = null
+): Promise<number> {
+    let visited = 0;
+    let cursor: string | null = after;
+    let page: LocalOrder[];
+
+    do {
+        page = await db.order.findMany({
+            where: { storeId, ...(cursor ? { id: { gt: cursor } } : {}) },
+            include: { lineItems: true },
+            orderBy: { id: "asc" },
+            take: LOCAL_ORDER_PAGE_SIZE
+        });
+        if (page.length === 0) break;
+
+        visited += page.length;
+        await onPage(page);
+        cursor = page[page.length - 1].id;
+    } while (page.length === LOCAL_ORDER_PAGE_SIZE);
+
+    return visited;
+}
+
+/**
+ * Every stored order of a store as payloads (Sync Diagnostics).
+ */
+export async function getLocalOrderPayloads(storeId: string): Promise<LocalOrderPayload[]> {
+    const payloads: LocalOrderPayload[] = [];
+    await forEachLocalOrderPage(storeId, async page => { payloads.push(...page.map(toOrderPayload)); });
+    return payloads;
+}
+
+/**
+ * Keep the stored tags in step with tags TagBot added to / removed from the order
+ * in Shopify. No-op when the order isn't stored.
+ */
+export async function mirrorOrderTags(storeId: string, orderId: string, tagsToAdd: string[], tagsToRemove: string[]): Promise<void> {
+    if (tagsToAdd.length === 0 && tagsToRemove.length === 0) return;
+
+    const order = await db.order.findUnique({ where: { id_storeId: { id: orderId, storeId } }, select: { tags: true } });
+    if (!order) return;
+
+    const tags = [...new Set([...splitList(order.tags), ...tagsToAdd])].filter(t => !tagsToRemove.includes(t));
+    await db.order.update({ where: { id_storeId: { id: orderId, storeId } }, data: { tags: joinList(tags) } });
+}
+
+/**
+ * One-time import of every existing order. Orders are saved page by page, so the
+ * backfill can be resumed by simply running it again; Store.ordersBackfilledAt is
+ * only set when Shopify returned the last page. Large stores are read with a bulk
+ * operation (see forEachOrderPage), whose progress goes to `onBulkProgress`.
+ */
+export async function backfillOrders(
+    admin: any,
+    storeId: string,
+    onProgress?: (saved: number) => Promise<void>,
+    onBulkProgress?: BulkProgress
+): Promise<{ saved: number; complete: boolean }> {
+    let saved = 0;
+
+    const { complete } = await forEachOrderPage(admin, async edges => {
+        for (const edge of edges) {
+            await saveOrder(storeId, mapGraphqlOrder(edge.node));
+            saved++;
+        }
+        if (onProgress) await onProgress(saved);
+    }, Infinity, onBulkProgress);
+
+    if (complete) {
+        await db.store.update({ where: { id: storeId }, data: { ordersBackfilledAt: new Date() } });
+    }
+
+    console.log(`[ORDER_STORE] Backfill for store ${storeId}: ${saved} orders saved${complete ? "" : " (incomplete — retried on the next sync)"}`);
+    return { saved, complete };
+}
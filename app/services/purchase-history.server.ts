@@ -0,0 +1,166 @@
+/**
+ * purchase-history.server.ts
+ *
+ * Purchase-History Conditions (Additive Module)
+ *
+ * Order rules look at one order at a time. A "history" condition aggregates over
+ * all of a customer's orders instead:
+ *
+ *   { "ruleCategory": "history", "field": "count", "operator": "atLeast", "value": "3",
+ *     "filter": { "field": "product_id", "operator": "equals", "value": "8123456789" } }
+ *   → "bought product 8123456789 in at least 3 orders"
+ *
+ * Aggregations (condition.field):
+ *   count           - number of orders matching `filter` (all orders when there is no filter)
+ *   sum             - sum of `sumField` (order_subtotal | order_item_count) over matching orders
+ *   distinctMonths  - number of different calendar months (UTC) with a matching order
+ *   ratio           - matching orders as a percentage (0-100) of all orders
+ *
+ * Operators: greaterThan, lessThan, equals, atLeast (>=), atMost (<=)
+ *
+ * `filter` is any order condition (see order-data.server.ts), product_* fields included.
+ * The history is loaded once per customer (from the local Order table once the
+ * store's order backfill finished, otherwise from Shopify) and passed into
+ * calculateCustomerTags / evaluateOrderRules. Callers that don't load it skip rules with history conditions,
+ * so those tags are never removed for lack of data.
+ */
+import type { Rule } from "@prisma/client";
+import { parseConditionNodes, flattenConditions, formatTraceValue } from "./condition-tree";
+import type { LeafCondition, ConditionTraceLeaf } from "./condition-tree";
+import { extractOrderData, evaluateOrderCondition, getOrderProductIds, mapGraphqlOrder, rulesNeedProductDetails } from "./order-data.server";
+import type { OrderCondition, ProductDetailsMap } from "./order-data.server";
+import { fetchCustomerOrders, fetchProductDetails } from "./shopify-helpers.server";
+import { hasLocalOrders, getLocalCustomerOrders } from "./order-store.server";
+
+export const HISTORY_AGGREGATES = ["count", "sum", "distinctMonths", "ratio"];
+export const HISTORY_SUM_FIELDS = ["order_subtotal", "order_item_count"];
+
+export type OrderHistory = {
+    // One entry per order: its date plus the normalized extractOrderData() fields
+    orders: { createdAt: Date | null; data: Record<string, any> }[];
+};
+
+/**
+ * True when any leaf anywhere in the tree is a purchase-history condition.
+ * Returns false for unparseable JSON, like hasOrderConditions.
+ */
+export function hasHistoryConditions(conditionsJson: string): boolean {
+    try {
+        return flattenConditions(parseConditionNodes(conditionsJson)).some(c => c.ruleCategory === "history");
+    } catch {
+        return false;
+    }
+}
+
+export function rulesNeedOrderHistory(rules: Rule[]): boolean {
+    return rules.some(rule => hasHistoryConditions(rule.conditions));
+}
+
+/**
+ * Build an OrderHistory from webhook-shaped order payloads (see mapGraphqlOrder).
+ */
+export function buildOrderHistory(orderPayloads: any[], productDetails?: ProductDetailsMap): OrderHistory {
+    return {
+        orders: orderPayloads.map(order => {
+            const createdAt = order.created_at ? new Date(order.created_at) : null;
+            return {
+                createdAt: createdAt && !isNaN(createdAt.getTime()) ? createdAt : null,
+                data: extractOrderData(order, productDetails)
+            };
+        })
+    };
+}
+
+/**
+ * Load a customer's order history — all stored orders when the store is backfilled,
+ * otherwise the most recent ones from Shopify — plus product details when the
+ * rules' history filters need them.
+ */
+export async function loadOrderHistory(
+    admin: any,
+    storeId: string,
+    customerId: string,
+    rules: Rule[],
+    productDetails: ProductDetailsMap = new Map()
+): Promise<OrderHistory> {
+    const orders = await hasLocalOrders(storeId)
+        ? await getLocalCustomerOrders(storeId, customerId)
+        : (await fetchCustomerOrders(admin, customerId)).map(edge => mapGraphqlOrder(edge.node));
+    if (rulesNeedProductDetails(rules)) {
+        await fetchProductDetails(admin, orders.flatMap(getOrderProductIds), productDetails);
+    }
+    return buildOrderHistory(orders, productDetails);
+}
+
+/**
+ * Compute the aggregate a history condition compares against. NaN for unknown aggregations.
+ */
+export function computeHistoryAggregate(history: OrderHistory, condition: LeafCondition): number {
+    const matching = condition.filter
+        ? history.orders.filter(o => evaluateOrderCondition(o.data, condition.filter as OrderCondition))
+        : history.orders;
+
+    switch (condition.field) {
+        case "count":
+            return matching.length;
+        case "sum": {
+            const key = HISTORY_SUM_FIELDS.includes(condition.sumField || "") ? condition.sumField! : "order_subtotal";
+            return matching.reduce((sum, o) => sum + (Number(o.data[key]) || 0), 0);
+        }
+        case "distinctMonths":
+            return new Set(matching.filter(o => o.createdAt).map(o => o.createdAt!.toISOString().slice(0, 7))).size;
+        case "ratio":
+            return history.orders.length > 0 ? (matching.length / history.orders.length) * 100 : 0;
+        default:
+            return NaN;
+    }
+}
+
+export function evaluateHistoryCondition(history: OrderHistory, condition: LeafCondition): boolean {
+    const actual = computeHistoryAggregate(history, condition);
+    const expected = Number(condition.value);
+    if (isNaN(actual) || isNaN(expected)) return false;
+
+    switch (condition.operator) {
+        case "greaterThan": return actual > expected;
+        case "lessThan": return actual < expected;
+        case "equals": return actual === expected;
+        case "atLeast": return actual >= expected;
+        case "atMost": return actual <= expected;
+        default: return false;
+    }
+}
+
+/**
+ * What a history condition measures, e.g. `history.count(orders where product_id equals "123")`
+ */
+export function describeHistoryAggregate(condition: LeafCondition): string {
+    const scope = condition.filter
+        ? `orders where ${condition.filter.field} ${condition.filter.operator} "${condition.filter.value}"${condition.filter.itemMatch === "all" ? " (all items)" : ""}`
+        : "all orders";
+    const measure = condition.field === "sum" ? `sum of ${condition.sumField || "order_subtotal"} over ` : "";
+    return `history.${condition.field}(${measure}${scope})`;
+}
+
+/**
+ * Human-readable form for reasons and the sync debugger,
+ * e.g. `history.count(orders where product_id equals "123") atLeast 3`
+ */
+export function describeHistoryCondition(condition: LeafCondition): string {
+    return `${describeHistoryAggregate(condition)} ${condition.operator} ${condition.value}`;
+}
+
+/**
+ * Trace entry for a history condition (see traceConditionNodes). Without a loaded
+ * history the condition fails with no value, as in evaluateRule.
+ */
+export function traceHistoryCondition(history: OrderHistory | undefined, condition: LeafCondition): ConditionTraceLeaf {
+    return {
+        scope: "history",
+        subject: describeHistoryAggregate(condition),
+        operator: condition.operator,
+        expected: formatTraceValue(condition.value) ?? "",
+        actual: history ? formatTraceValue(computeHistoryAggregate(history, condition)) : null,
+        passed: !!history && evaluateHistoryCondition(history, condition)
+    };
+}
@@ -1,8 +1,11 @@
+import type { Customer, Rule } from "@prisma/client";
 import { unauthenticated } from "../shopify.server";
 import db from "../db.server";
-import { calculateCustomerTags } from "./rule.server";
+import { calculateCustomerTags, loadAppliedTemplateTags } from "./rule.server";
+import type { RuleTagChange } from "./rule.server";
 import { getCachedStoreById } from "./cache.server";
-import { manageCustomerTags, manageOrderTags } from "./tags.server";
+import { manageCustomerTags, manageOrderTags, manageCustomerTagsBatch, manageOrderTagsBatch } from "./tags.server";
+import type { TagChangeResult } from "./tags.server";
 
 interface SyncJobPayload {
     shop: string;
@@ -14,20 +17,88 @@ interface SyncJobPayload {
     tagsToRemove?: string[];
 }
 
-import { evaluateOrderRules } from "./order-rules.server";
-import { fetchAllCustomers, fetchAllOrders } from "./shopify-helpers.server";
-import { incrementUsage } from "./usage.server";
+import { evaluateOrderRules, findExpiryRefreshes, findSuppressedOrderMatches } from "./order-rules.server";
+import type { OrderRuleResult } from "./order-rules.server";
+import { recordQualifyingEvents } from "./tag-expiry.server";
+import { recordSuppressedMatches } from "./rule-exclusions.server";
+import type { SuppressedMatch } from "./rule-exclusions.server";
+import type { QualifyingEvent } from "./tag-expiry.server";
+import { mapGraphqlOrder, getOrderProductIds, rulesNeedProductDetails } from "./order-data.server";
+import { hasOrderConditions } from "./condition-tree";
+import { filterScheduledRules, isRuleInSchedule } from "./rule-schedule";
+import { withExclusiveGroupSiblings } from "./exclusive-groups";
+import { compileCustomerRules, ruleChangesCustomer } from "./rule-query.server";
+import type { CompiledRule } from "./rule-query.server";
+import { isTagTemplate, findTemplateTags } from "./tag-template";
+import type { AppliedTemplateTags } from "./tag-template";
+import { fetchAllCustomers, forEachOrderPage, fetchCustomerOrders, fetchProductDetails } from "./shopify-helpers.server";
+import { hasLocalOrders, backfillOrders, getLocalCustomerOrders, forEachLocalOrderPage, toOrderPayload, splitList } from "./order-store.server";
+import type { ProductDetailsMap } from "./order-data.server";
+import { rulesNeedOrderHistory, buildOrderHistory, loadOrderHistory } from "./purchase-history.server";
+import type { OrderHistory } from "./purchase-history.server";
+import { incrementUsage, refundUsage } from "./usage.server";
+import { formatUserErrors } from "./shopify-graphql.server";
+import { enqueueJob, getActiveJobs, getLatestJob, cancelJob } from "./jobs.server";
+import type { JobContext, JobHandler } from "./jobs.server";
+import { BulkOperationError } from "./bulk-operations.server";
+import type { BulkProgress } from "./bulk-operations.server";
+import { emptySyncProgress, countOutcome } from "./sync-progress";
+import type { ItemOutcome, PhaseProgress, SyncProgress, SyncJobSummary } from "./sync-progress";
+import { profileFromGraphqlCustomer, getEmailDomain } from "./customer-profile.server";
+import { renameRuleTag } from "./rule-impact.server";
+import type { TagRenameCheckpoint } from "./rule-impact.server";
 
 const BATCH_SIZE = 5;  // Process 5 customers in parallel at a time
+const BULK_CHUNK_SIZE = 500;  // Customers refreshed and compared per round of queries (processCustomersInBulk)
+
+// One order of the phase-2 order scan, from the local Order table or from Shopify
+type SyncOrder = {
+    id: string; // numeric Shopify order ID
+    payload: any; // webhook-shaped order (toOrderPayload / mapGraphqlOrder)
+    existingTags: string[];
+    customer: { id: string; email: string | null; totalSpent: number; orderCount: number; tags: string };
+};
+
+// Phases of a sync in the order they run, and where a retried or resumed one continues (Job.checkpoint)
+const SYNC_PHASES = ["customers", "perCustomer", "orders"] as const;
+type SyncPhase = typeof SYNC_PHASES[number];
+type SyncCheckpoint = {
+    phase: SyncPhase;
+    cursor: string | null; // Last customer (or local order) finished
+    completed: number;
+};
+
+const getCustomerId = (edge: any): string => edge.node.id.split("/").pop();
+
+// Customers after the one a previous attempt finished with; all of them when it's gone
+function customersAfter(customers: any[], cursor: string | null): any[] {
+    const index = cursor ? customers.findIndex(edge => getCustomerId(edge) === cursor) : -1;
+    return index >= 0 ? customers.slice(index + 1) : customers;
+}
 
 /**
- * Fire-and-forget sync job.
+ * Queue a sync as a durable job (see jobs.server.ts). A full sync that is already
+ * waiting to start isn't queued twice.
  * Processes customers in parallel batches of BATCH_SIZE for speed.
  */
 export async function enqueueSyncJob(payload: SyncJobPayload) {
-    processSyncJob(payload).catch(err => {
-        console.error("[QUEUE_WORKER] Unhandled error during sync job:", err);
-    });
+    return enqueueJob("SYNC", payload.storeId, payload, { dedupe: !payload.customersToSync });
+}
+
+// Local Customer row of a GraphQL customer node (see fetchAllCustomers)
+function toCustomerUpsert(storeId: string, c: any) {
+    const customerId = c.id.split("/").pop();
+    const update = {
+        totalSpent: parseFloat(c.amountSpent?.amount || "0"),
+        orderCount: parseInt(c.numberOfOrders || "0"),
+        tags: Array.isArray(c.tags) ? c.tags.join(",") : (c.tags || ""),
+        ...profileFromGraphqlCustomer(c)
+    };
+    return {
+        where: { id_storeId: { id: customerId, storeId } },
+        create: { id: customerId, storeId, email: c.email, firstName: c.firstName, lastName: c.lastName, ...update },
+        update
+    };
 }
 
 export async function processOneCustomer(
@@ -35,29 +106,14 @@ export async function processOneCustomer(
     storeId: string,
     edge: any,
     activeRules: any[],
-    payload: SyncJobPayload
-) {
+    payload: SyncJobPayload,
+    localOrders = false // Read the customer's orders from the local Order table (store is backfilled)
+): Promise<ItemOutcome> {
     const c = edge.node;
     const customerId = c.id.split("/").pop();
+    let outcome: ItemOutcome = "skipped";
 
-    const upsertedCustomer = await db.customer.upsert({
-        where: { id_storeId: { id: customerId, storeId } },
-        create: {
-            id: customerId,
-            storeId,
-            email: c.email,
-            firstName: c.firstName,
-            lastName: c.lastName,
-            totalSpent: parseFloat(c.amountSpent?.amount || "0"),
-            orderCount: parseInt(c.numberOfOrders || "0"),
-            tags: Array.isArray(c.tags) ? c.tags.join(",") : (c.tags || "")
-        },
-        update: {
-            totalSpent: parseFloat(c.amountSpent?.amount || "0"),
-            orderCount: parseInt(c.numberOfOrders || "0"),
-            tags: Array.isArray(c.tags) ? c.tags.join(",") : (c.tags || "")
-        }
-    });
+    const upsertedCustomer = await db.customer.upsert(toCustomerUpsert(storeId, c));
 
     if (payload.syncType === "CLEANUP") {
         const addTagNames = payload.tagsToAdd || [];
@@ -66,15 +122,21 @@ export async function processOneCustomer(
         if (addTagNames.length > 0 || removeTagNames.length > 0) {
             const allowedAdd = addTagNames.length > 0 ? await incrementUsage(payload.shop, "customer_tag", addTagNames.length) : true;
             const allowedRemove = removeTagNames.length > 0 ? await incrementUsage(payload.shop, "removal", removeTagNames.length) : true;
+            outcome = allowedAdd || allowedRemove ? "tagged" : "limitBlocked";
 
             if (allowedAdd || allowedRemove) {
-                await manageCustomerTags(admin, storeId, customerId, allowedAdd ? addTagNames : [], allowedRemove ? removeTagNames : []);
-                for (const tag of (allowedAdd ? addTagNames : [])) {
+                // Usage was already counted above; only what Shopify applied is logged and kept
+                const tagged = await manageCustomerTags(admin, storeId, customerId, allowedAdd ? addTagNames : [], allowedRemove ? removeTagNames : [], true);
+                if (allowedAdd) await refundUsage(payload.shop, "customer_tag", addTagNames.length - tagged.tagsAdded.length);
+                if (allowedRemove) await refundUsage(payload.shop, "removal", removeTagNames.length - tagged.tagsRemoved.length);
+                if (!tagged.success) outcome = "failed";
+
+                for (const tag of tagged.tagsAdded) {
                     await db.activityLog.create({
                         data: { storeId, customerId, action: "TAG_ADDED", tagContext: tag, reason: "Manual Tag Cleanup (Merge)" }
                     });
                 }
-                for (const tag of (allowedRemove ? removeTagNames : [])) {
+                for (const tag of tagged.tagsRemoved) {
                     await db.activityLog.create({
                         data: { storeId, customerId, action: "TAG_REMOVED", tagContext: tag, reason: "Manual Tag Cleanup" }
                     });
@@ -82,107 +144,72 @@ export async function processOneCustomer(
             }
         }
     } else if (activeRules.length > 0) {
-        // 1. Evaluate standard metric rules
-        const { tagsToAdd, tagsToRemove } = await calculateCustomerTags(upsertedCustomer, activeRules);
+        const hasOrderRules = activeRules.some(r => hasOrderConditions(r.conditions));
+        const needsHistory = rulesNeedOrderHistory(activeRules);
+
+        // One read of the customer's orders serves both order rules and purchase-history conditions
+        const mappedOrders = !(hasOrderRules || needsHistory) ? []
+            : localOrders
+                ? await getLocalCustomerOrders(storeId, customerId)
+                : (await fetchCustomerOrders(admin, customerId)).map(edge => mapGraphqlOrder(edge.node));
+        const productDetails = mappedOrders.length > 0 && rulesNeedProductDetails(activeRules)
+            ? await fetchProductDetails(admin, mappedOrders.flatMap(getOrderProductIds))
+            : undefined;
+        const orderHistory = needsHistory ? buildOrderHistory(mappedOrders, productDetails) : undefined;
+
+        // Template values the rules applied before, the only ones they may replace (see tag-template.ts)
+        const appliedTemplateTags = await loadAppliedTemplateTags(storeId, customerId, activeRules);
+
+        // 1. Evaluate standard metric rules (and purchase-history rules)
+        const { tagsToAdd, tagsToRemove, suppressed } = await calculateCustomerTags(upsertedCustomer, activeRules, orderHistory, appliedTemplateTags);
         let addTagNames = tagsToAdd.map(t => t.tag);
         let removeTagNames = tagsToRemove.map(t => t.tag);
-        const tagsToAddLog: { tag: string, reason: string, targetEntity?: string, orderId?: string }[] = [...tagsToAdd];
-        const tagsToRemoveLog: { tag: string, reason: string, targetEntity?: string, orderId?: string }[] = [...tagsToRemove];
-
-        // 2. Evaluate order-based rules (if any exist)
-        const hasOrderRules = activeRules.some(r => {
-            try { return JSON.parse(r.conditions).some((c: any) => c.ruleCategory === "order"); }
-            catch { return false; }
-        });
-
+        let tagsToAddLog: { tag: string, reason: string, targetEntity?: string, orderId?: string, ruleId?: string, ruleVersionId?: string | null, trace?: string | null }[] = [...tagsToAdd];
+        const tagsToRemoveLog: { tag: string, reason: string, targetEntity?: string, orderId?: string, ruleId?: string, ruleVersionId?: string | null, trace?: string | null }[] = [...tagsToRemove];
+        // Stale rendered values of template order tags, per order ID
+        const staleTagsByOrder: Record<string, string[]> = {};
+        // Matches of rules with "expire after N days" (see tag-expiry.server.ts)
+        const qualifyingEvents: QualifyingEvent[] = [];
+        // Matches held back by a rule's exclusion lists (see rule-exclusions.ts)
+        const suppressedMatches: SuppressedMatch[] = [...suppressed];
+
+        // 2. Evaluate order-based rules against each of the customer's orders (if any exist)
         if (hasOrderRules) {
-            // Fetch ALL orders for this customer to check historical rule matches
-            let hasNextPage = true;
-            let cursor: string | null = null;
-            let allOrderEdges: any[] = [];
-
-            while (hasNextPage) {
-                const orderRes = await admin.graphql(`#graphql
-                    query getCustomerOrders($id: ID!, $cursor: String) {
-                        customer(id: $id) {
-                            orders(first: 50, after: $cursor) {
-                                pageInfo {
-                                    hasNextPage
-                                    endCursor
-                                }
-                                edges {
-                                    node {
-                                        id
-                                        createdAt
-                                        tags
-                                        subtotalPriceSet { shopMoney { amount } }
-                                        totalDiscountsSet { shopMoney { amount } }
-                                        discountCodes
-                                        paymentGatewayNames
-                                        sourceIdentifier
-                                        channel { name }
-                                        shippingAddress { city countryCode }
-                                        lineItems(first: 50) {
-                                            edges {
-                                                node {
-                                                    quantity
-                                                    customAttributes { key value }
-                                                    product { tags }
-                                                }
-                                            }
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                    }
-                `, { variables: { id: `gid://shopify/Customer/${customerId}`, cursor: cursor || null } });
-
-                const orderData: any = await orderRes.json();
-                const ordersConnection: any = orderData.data?.customer?.orders;
-                
-                if (!ordersConnection) break;
-
-                allOrderEdges = allOrderEdges.concat(ordersConnection.edges || []);
-                hasNextPage = ordersConnection.pageInfo?.hasNextPage || false;
-                cursor = ordersConnection.pageInfo?.endCursor || null;
-
-                // Simple rate-limit respect
-                if (hasNextPage) await new Promise(r => setTimeout(r, 250));
-            }
-
             const existingTags = tagsToAdd.map(t => t.tag).concat(upsertedCustomer.tags ? upsertedCustomer.tags.split(",").map(t => t.trim()) : []);
-
-            for (const orderEdge of allOrderEdges) {
-                // Map the graphql order payload to match the REST webhook shape that evaluateOrderRules expects
-                const o = orderEdge.node;
-                const mappedOrder = {
-                    subtotal_price: o.subtotalPriceSet?.shopMoney?.amount || "0",
-                    total_discounts: o.totalDiscountsSet?.shopMoney?.amount || "0",
-                    discount_codes: o.discountCodes ? o.discountCodes.map((c: string) => ({ code: c })) : [],
-                    payment_gateway_names: o.paymentGatewayNames,
-                    source_name: o.channel?.name || o.sourceIdentifier,
-                    referring_site: "", // GraphQL limits this
-                    landing_site: "",
-                    shipping_address: { city: o.shippingAddress?.city, country_code: o.shippingAddress?.countryCode },
-                    tags: o.tags || [],
-                    line_items: o.lineItems.edges.map((le: any) => ({
-                        quantity: le.node.quantity,
-                        properties: le.node.customAttributes ? le.node.customAttributes.map((ca: any) => ({ name: ca.key, value: ca.value })) : []
-                    }))
-                };
-
-                const orderTagResults = evaluateOrderRules(mappedOrder, upsertedCustomer, activeRules, existingTags);
+            // A customer tag rendered from an order template (e.g. "City-{{shipping_city}}") follows the
+            // newest order only, otherwise every older order would replace it again
+            const olderOrderRules = activeRules.filter(r => r.targetEntity !== "customer" || !isTagTemplate(r.targetTag));
+
+            for (let i = 0; i < mappedOrders.length; i++) {
+                const mappedOrder = mappedOrders[i];
+                const orderRulesForOrder = i === 0 ? activeRules : olderOrderRules;
+                const orderTagResults = evaluateOrderRules(mappedOrder, upsertedCustomer, orderRulesForOrder, existingTags, productDetails, orderHistory, appliedTemplateTags);
+                qualifyingEvents.push(...[...orderTagResults, ...findExpiryRefreshes(mappedOrder, upsertedCustomer, orderRulesForOrder, existingTags, productDetails, orderHistory)]
+                    .map(item => ({ ...item, orderId: mappedOrder.id })));
+                suppressedMatches.push(...findSuppressedOrderMatches(mappedOrder, upsertedCustomer, orderRulesForOrder, existingTags, productDetails, orderHistory));
                 for (const item of orderTagResults) {
                     if (item.targetEntity === "order") {
                         // Tagging an order is unique to the order itself, no need to deduplicate against the customer's history
-                        tagsToAddLog.push({ tag: item.tag, reason: item.reason, targetEntity: "order", orderId: o.id });
+                        tagsToAddLog.push({ tag: item.tag, reason: item.reason, targetEntity: "order", orderId: mappedOrder.id, ruleId: item.ruleId, ruleVersionId: item.ruleVersionId, trace: item.trace });
+                        if (item.staleTags) staleTagsByOrder[mappedOrder.id] = [...(staleTagsByOrder[mappedOrder.id] || []), ...item.staleTags];
                     } else {
                         if (!addTagNames.includes(item.tag)) {
                             addTagNames.push(item.tag);
                             tagsToAddLog.push({ ...item, targetEntity: "customer" });
                             existingTags.push(item.tag);
                         }
+                        for (const stale of item.staleTags || []) {
+                            if (removeTagNames.includes(stale)) continue;
+                            if (addTagNames.includes(stale)) {
+                                // Not applied yet (e.g. a lower tier of an exclusive group matched by a metric rule)
+                                addTagNames = addTagNames.filter(t => t !== stale);
+                                tagsToAddLog = tagsToAddLog.filter(t => t.tag !== stale || t.targetEntity === "order");
+                                existingTags.splice(existingTags.indexOf(stale), 1);
+                                continue;
+                            }
+                            removeTagNames.push(stale);
+                            tagsToRemoveLog.push({ tag: stale, reason: `${item.reason}, "${stale}" replaced by "${item.tag}"`, ruleId: item.ruleId, ruleVersionId: item.ruleVersionId, trace: item.trace });
+                        }
                     }
                 }
             }
@@ -190,15 +217,26 @@ export async function processOneCustomer(
 
         // 3. Apply the combined results
         const actualOrderTagsToAdd = tagsToAddLog.filter(t => t.targetEntity === "order");
+        const hasStaleOrderTags = Object.keys(staleTagsByOrder).length > 0;
+
+        if (addTagNames.length > 0 || removeTagNames.length > 0 || actualOrderTagsToAdd.length > 0 || hasStaleOrderTags) {
+            // Tags Shopify applied: only these are logged, the usage of the others is refunded
+            let customerTagsAdded: string[] = [];
+            let customerTagsRemoved: string[] = [];
+            const orderTagsAdded = new Set<string>(); // `${orderId}:${tag}`
 
-        if (addTagNames.length > 0 || removeTagNames.length > 0 || actualOrderTagsToAdd.length > 0) {
-            
             if (addTagNames.length > 0 || removeTagNames.length > 0) {
                 const allowedAdd = addTagNames.length > 0 ? await incrementUsage(payload.shop, "customer_tag", addTagNames.length) : true;
                 const allowedRemove = removeTagNames.length > 0 ? await incrementUsage(payload.shop, "removal", removeTagNames.length) : true;
+                outcome = allowedAdd || allowedRemove ? "tagged" : "limitBlocked";
 
                 if (allowedAdd || allowedRemove) {
-                    await manageCustomerTags(admin, storeId, customerId, allowedAdd ? addTagNames : [], allowedRemove ? removeTagNames : [], true);
+                    const tagged = await manageCustomerTags(admin, storeId, customerId, allowedAdd ? addTagNames : [], allowedRemove ? removeTagNames : [], true);
+                    if (allowedAdd) await refundUsage(payload.shop, "customer_tag", addTagNames.length - tagged.tagsAdded.length);
+                    if (allowedRemove) await refundUsage(payload.shop, "removal", removeTagNames.length - tagged.tagsRemoved.length);
+                    customerTagsAdded = tagged.tagsAdded;
+                    customerTagsRemoved = tagged.tagsRemoved;
+                    if (!tagged.success) outcome = "failed";
                 }
             }
 
@@ -215,8 +253,17 @@ export async function processOneCustomer(
                     const cleanOrderId = orderGid.split('/').pop() || "";
                     if (cleanOrderId) {
                         const allowed = await incrementUsage(payload.shop, "order_tag", tags.length);
+                        const stale = staleTagsByOrder[cleanOrderId] || [];
+                        const allowedRemove = stale.length > 0 && allowed ? await incrementUsage(payload.shop, "removal", stale.length) : false;
                         if (allowed) {
-                            await manageOrderTags(admin, storeId, cleanOrderId, customerId, tags, [], true);
+                            const tagged = await manageOrderTags(admin, storeId, cleanOrderId, customerId, tags, allowedRemove ? stale : [], true);
+                            await refundUsage(payload.shop, "order_tag", tags.length - tagged.tagsAdded.length);
+                            if (allowedRemove) await refundUsage(payload.shop, "removal", stale.length - tagged.tagsRemoved.length);
+                            for (const tag of tagged.tagsAdded) orderTagsAdded.add(`${orderGid}:${tag}`);
+                            if (tagged.success) outcome = "tagged";
+                            else if (outcome !== "tagged") outcome = "failed";
+                        } else if (outcome !== "tagged") {
+                            outcome = "limitBlocked";
                         }
                     }
                 }
@@ -226,338 +273,778 @@ export async function processOneCustomer(
             const uniqueCustomerTags = new Set<string>();
             for (const item of tagsToAddLog) {
                 if (item.targetEntity === "order") continue; // Handled below
+                if (!customerTagsAdded.includes(item.tag)) continue;
                 if (uniqueCustomerTags.has(item.tag)) continue;
                 uniqueCustomerTags.add(item.tag);
-                
-                // Fetch the rule ID to properly attribute the activity
-                const rule = await db.rule.findFirst({ where: { storeId, targetTag: item.tag } });
-                
+
                 await db.activityLog.create({
-                    data: { storeId, customerId, action: "TAG_ADDED", tagContext: item.tag, reason: `[Historical Sync] ${item.reason}`, ruleId: rule?.id }
+                    data: { storeId, customerId, action: "TAG_ADDED", tagContext: item.tag, reason: `[Historical Sync] ${item.reason}`, ruleId: item.ruleId, ruleVersionId: item.ruleVersionId, trace: item.trace }
                 });
             }
 
             const uniqueOrderTags = new Set<string>();
             for (const item of tagsToAddLog) {
                 if (item.targetEntity !== "order") continue;
+                if (!orderTagsAdded.has(`${item.orderId}:${item.tag}`)) continue;
                 if (uniqueOrderTags.has(item.tag)) continue;
                 uniqueOrderTags.add(item.tag);
-                
-                // Fetch the rule ID to properly attribute the activity
-                const rule = await db.rule.findFirst({ where: { storeId, targetTag: item.tag, targetEntity: "order" } });
 
                 await db.activityLog.create({
-                    data: { storeId, customerId, action: "TAG_ADDED", tagContext: item.tag, reason: `[Historical Sync] ${item.reason}`, ruleId: rule?.id }
+                    data: { storeId, customerId, action: "TAG_ADDED", tagContext: item.tag, reason: `[Historical Sync] ${item.reason}`, ruleId: item.ruleId, ruleVersionId: item.ruleVersionId, trace: item.trace }
                 });
             }
 
             for (const item of tagsToRemoveLog) {
+                if (!customerTagsRemoved.includes(item.tag)) continue;
                 await db.activityLog.create({
-                    data: { storeId, customerId, action: "TAG_REMOVED", tagContext: item.tag, reason: `[Historical Sync] ${item.reason}` }
+                    data: { storeId, customerId, action: "TAG_REMOVED", tagContext: item.tag, reason: `[Historical Sync] ${item.reason}`, ruleId: item.ruleId, ruleVersionId: item.ruleVersionId, trace: item.trace }
                 });
             }
         }
+
+        await recordQualifyingEvents(storeId, customerId, qualifyingEvents, activeRules);
+        await recordSuppressedMatches(storeId, customerId, suppressedMatches, "[Historical Sync]");
     }
+
+    return outcome;
 }
 
-async function processSyncJob(payload: SyncJobPayload) {
-    const { shop, storeId } = payload;
-    console.log(`[QUEUE_WORKER] Started sync job for shop: ${shop}`);
+// Whether the Shopify values of a customer differ from its local row (undefined = not synced)
+function hasCustomerChanged(existing: Customer, update: Record<string, unknown>): boolean {
+    return Object.entries(update).some(([key, value]) => {
+        if (value === undefined) return false;
+        const current = existing[key as keyof Customer];
+        if (value instanceof Date) return !(current instanceof Date) || current.getTime() !== value.getTime();
+        return current !== value;
+    });
+}
 
-    try {
-        const { admin } = await unauthenticated.admin(shop);
+type PlannedCustomerChange = { customerId: string; added: RuleTagChange[]; removed: RuleTagChange[] };
 
-        const store = await getCachedStoreById(storeId);
-        const isFree = store?.planName === "Free" || store?.planName === "";
+// The compiled rules' changes to one customer with their usage counted, as processOneCustomer does for metric rules
+async function planCustomerRuleChanges(payload: SyncJobPayload, customer: Customer, rules: Rule[]): Promise<PlannedCustomerChange | ItemOutcome> {
+    const { storeId } = payload;
+    const { tagsToAdd, tagsToRemove, suppressed } = await calculateCustomerTags(customer, rules);
+    await recordSuppressedMatches(storeId, customer.id, suppressed, "[Historical Sync]");
+
+    const allowedAdd = tagsToAdd.length > 0 && await incrementUsage(payload.shop, "customer_tag", tagsToAdd.length);
+    const allowedRemove = tagsToRemove.length > 0 && await incrementUsage(payload.shop, "removal", tagsToRemove.length);
+    if (!allowedAdd && !allowedRemove) return tagsToAdd.length > 0 || tagsToRemove.length > 0 ? "limitBlocked" : "skipped";
+
+    return { customerId: customer.id, added: allowedAdd ? tagsToAdd : [], removed: allowedRemove ? tagsToRemove : [] };
+}
 
-        let customersToSync = payload.customersToSync;
-        if (!customersToSync) {
-            customersToSync = await fetchAllCustomers(admin, isFree);
+/**
+ * Apply planned changes in one batch (see manageCustomerTagsBatch). Only tags Shopify
+ * applied are logged and counted: the usage of rejected ones is refunded.
+ */
+async function applyCustomerRuleChanges(
+    admin: any,
+    payload: SyncJobPayload,
+    planned: PlannedCustomerChange[],
+    onBulkProgress?: BulkProgress
+): Promise<ItemOutcome[]> {
+    const { storeId, shop } = payload;
+    const results = await manageCustomerTagsBatch(admin, storeId, planned.map(p => ({
+        customerId: p.customerId,
+        tagsToAdd: p.added.map(t => t.tag),
+        tagsToRemove: p.removed.map(t => t.tag)
+    })), onBulkProgress);
+
+    const outcomes: ItemOutcome[] = [];
+    let rejectedAdds = 0;
+    let rejectedRemoves = 0;
+    for (const [i, { customerId, added, removed }] of planned.entries()) {
+        const result = results[i];
+        const appliedAdds = result.tagsAdded.length > 0 ? added : [];
+        const appliedRemoves = result.tagsRemoved.length > 0 ? removed : [];
+        rejectedAdds += added.length - appliedAdds.length;
+        rejectedRemoves += removed.length - appliedRemoves.length;
+
+        for (const [action, items] of [["TAG_ADDED", appliedAdds], ["TAG_REMOVED", appliedRemoves]] as const) {
+            for (const item of items) {
+                await db.activityLog.create({
+                    data: { storeId, customerId, action, tagContext: item.tag, reason: `[Historical Sync] ${item.reason}`, ruleId: item.ruleId, ruleVersionId: item.ruleVersionId, trace: item.trace }
+                });
+            }
         }
+        outcomes.push(result.success ? "tagged" : "failed");
+    }
 
-        const activeRules = await db.rule.findMany({
-            where: { storeId, isActive: true }
-        });
+    await refundUsage(shop, "customer_tag", rejectedAdds);
+    await refundUsage(shop, "removal", rejectedRemoves);
+    return outcomes;
+}
 
-        // Separate customer rules from order rules
-        const orderRules = activeRules.filter(r => {
-            try { return JSON.parse(r.conditions).some((c: any) => c.ruleCategory === "order"); }
-            catch { return false; }
-        });
-        const customerOnlyRules = activeRules.filter(r => {
-            try { return !JSON.parse(r.conditions).some((c: any) => c.ruleCategory === "order"); }
-            catch { return false; }
+/**
+ * Phase 1 for rules compiled into Customer filters (see rule-query.server.ts). Per chunk of
+ * BULK_CHUNK_SIZE customers: writes only the rows whose Shopify values changed, runs one
+ * query per rule to find the customers whose tags it would change, and re-evaluates and
+ * tags only those. With no compiled rules it just refreshes the rows.
+ */
+async function processCustomersInBulk(
+    admin: any,
+    payload: SyncJobPayload,
+    customers: any[],
+    compiledRules: CompiledRule[],
+    // Counts of the customer phase (see sync-progress.ts)
+    progress: PhaseProgress,
+    onProgress: (done: number, lastCustomerId: string) => Promise<void>,
+    // Called while a bulk tag mutation runs (see applyTagMutations)
+    onBulkProgress?: BulkProgress
+): Promise<{ refreshed: number; changed: number }> {
+    const { storeId } = payload;
+    const rules = compiledRules.map(c => c.rule);
+    let refreshed = 0;
+    let changed = 0;
+
+    for (let i = 0; i < customers.length; i += BULK_CHUNK_SIZE) {
+        const upserts = customers.slice(i, i + BULK_CHUNK_SIZE).map(edge => toCustomerUpsert(storeId, edge.node));
+        const ids = upserts.map(u => u.where.id_storeId.id);
+
+        // 1. Refresh new and changed customer rows
+        const rows = new Map((await db.customer.findMany({ where: { storeId, id: { in: ids } } })).map(c => [c.id, c]));
+        const writes = upserts.filter(u => {
+            const row = rows.get(u.where.id_storeId.id);
+            return !row || hasCustomerChanged(row, u.update);
         });
+        if (writes.length > 0) {
+            for (const row of await db.$transaction(writes.map(u => db.customer.upsert(u)))) rows.set(row.id, row);
+            refreshed += writes.length;
+        }
+
+        // 2. The customers of the chunk each rule matches
+        const matches: Set<string>[] = [];
+        for (const { where } of compiledRules) {
+            const matched = await db.customer.findMany({ where: { storeId, id: { in: ids }, AND: [where] }, select: { id: true } });
+            matches.push(new Set(matched.map(c => c.id)));
+        }
 
-        const totalWork = customersToSync.length + (orderRules.length > 0 ? 1 : 0);
+        // 3. Re-evaluate the customers with a difference, then tag them in one batch
+        const planned: PlannedCustomerChange[] = [];
+        for (const customer of rows.values()) {
+            const existingTags = customer.tags ? customer.tags.split(",").map(t => t.trim()) : [];
+            if (!compiledRules.some(({ rule }, r) => ruleChangesCustomer(rule, matches[r].has(customer.id), existingTags))) {
+                countOutcome(progress, "skipped");
+                continue;
+            }
+            changed++;
+            await planCustomerRuleChanges(payload, customer, rules)
+                .then(plan => typeof plan === "string" ? countOutcome(progress, plan) : planned.push(plan))
+                .catch(err => {
+                    progress.failed++;
+                    console.error(`[QUEUE_WORKER] Error processing customer ${customer.id}:`, err.message);
+                });
+        }
+        if (planned.length > 0) {
+            await applyCustomerRuleChanges(admin, payload, planned, onBulkProgress)
+                .then(outcomes => outcomes.forEach(outcome => countOutcome(progress, outcome)))
+                .catch(err => {
+                    progress.failed += planned.length;
+                    console.error(`[QUEUE_WORKER] Error tagging ${planned.length} customers:`, err.message);
+                });
+        }
+
+        await onProgress(Math.min(i + BULK_CHUNK_SIZE, customers.length), ids[ids.length - 1]);
+    }
+
+    return { refreshed, changed };
+}
 
+async function processSyncJob(payload: SyncJobPayload, ctx: JobContext) {
+    const { shop, storeId } = payload;
+    // Where a previous attempt stopped (see jobs.server.ts)
+    const resumeFrom = ctx.checkpoint as SyncCheckpoint | null;
+    console.log(`[QUEUE_WORKER] ${resumeFrom ? `Resuming sync job at ${resumeFrom.phase} (${resumeFrom.completed} done)` : "Started sync job"} for shop: ${shop}`);
+
+    const { admin } = await unauthenticated.admin(shop);
+
+    const store = await getCachedStoreById(storeId);
+    const isFree = store?.planName === "Free" || store?.planName === "";
+
+    let checkpoint: SyncCheckpoint = resumeFrom ?? { phase: "customers", cursor: null, completed: 0 };
+    // Bulk operation exports of large stores (see bulk-operations.server.ts) report through
+    // the sync status; every poll also refreshes the job's heartbeat
+    const reportBulkProgress = (label: string): BulkProgress => async objectCount => {
         await db.store.update({
             where: { id: storeId },
-            data: {
-                isSyncing: true,
-                syncTarget: totalWork,
-                syncCompleted: 0,
-                syncMessage: payload.syncMessage || "Evaluating customers and orders against active rules…"
-            }
+            data: { syncMessage: `Exporting ${label} from Shopify (bulk operation)… ${objectCount.toLocaleString()} records` }
         });
+        await ctx.saveCheckpoint(checkpoint, checkpoint.completed);
+    };
+
+    const customersToSync: any[] = payload.customersToSync ?? await fetchAllCustomers(
+        admin,
+        isFree,
+        reportBulkProgress("customers"),
+        // A bulk export reads first order dates only for customers without one stored
+        new Set((await db.customer.findMany({ where: { storeId, firstOrderDate: { not: null } }, select: { id: true } })).map(c => c.id))
+    );
+
+    const activeRules = await db.rule.findMany({
+        where: { storeId, isActive: true }
+    });
 
-        let completed = 0;
-
-        // ─── Phase 1: Customer Rules ────────────────────────────────────────────
-        // Use the original per-customer processing for customer-based rules
-        if (customerOnlyRules.length > 0 || activeRules.length === 0) {
-            for (let i = 0; i < customersToSync.length; i += BATCH_SIZE) {
-                const batch = customersToSync.slice(i, i + BATCH_SIZE);
-
-                await Promise.all(
-                    batch.map(edge =>
-                        processOneCustomer(admin, storeId, edge, customerOnlyRules.length > 0 ? customerOnlyRules : activeRules, payload)
-                            .catch(err => console.error(`[QUEUE_WORKER] Error processing customer:`, err.message))
-                    )
-                );
-
-                completed += batch.length;
-                await db.store.update({
-                    where: { id: storeId },
-                    data: { syncCompleted: completed }
-                });
-            }
-        } else {
-            completed += customersToSync.length;
+    // Separate customer rules from order rules. Schedules (see rule-schedule.ts): customer
+    // rules run if their window is open now, order rules per order at the order's time
+    const timezone = store?.timezone;
+    const orderRules = activeRules.filter(r => hasOrderConditions(r.conditions));
+    const customerOnlyRules = filterScheduledRules(activeRules.filter(r => {
+        try { JSON.parse(r.conditions); } catch { return false; }
+        return !hasOrderConditions(r.conditions);
+    }), timezone);
+
+    // Customer rules that compile into Customer filters (see rule-query.server.ts) are
+    // evaluated in bulk, the others per customer; a cleanup doesn't evaluate rules
+    const isCleanup = payload.syncType === "CLEANUP";
+    const compiledRules = isCleanup ? [] : compileCustomerRules(customerOnlyRules);
+    const perCustomerRules = customerOnlyRules.filter(r => !compiledRules.some(c => c.rule.id === r.id));
+    // Exclusive group siblings compete with them (see exclusive-groups.ts), e.g. order rules
+    const perCustomerRulesToEvaluate = withExclusiveGroupSiblings(perCustomerRules, activeRules);
+    const runCustomerPhase = customerOnlyRules.length > 0 || activeRules.length === 0;
+    const bulkPass = runCustomerPhase && !isCleanup;
+    const perCustomerPass = runCustomerPhase && (isCleanup || perCustomerRules.length > 0);
+    const customerPasses = Math.max((bulkPass ? 1 : 0) + (perCustomerPass ? 1 : 0), 1);
+
+    const totalWork = customersToSync.length * customerPasses + (orderRules.length > 0 ? 1 : 0);
+
+    // Phase counts shown on the rules page and dashboard; a resumed job keeps counting
+    const progress: SyncProgress = (ctx.progress as SyncProgress | null) ?? emptySyncProgress();
+    progress.customers.total = customersToSync.length;
+    progress.customers.passes = runCustomerPhase ? customerPasses : 0;
+
+    // Also where a pause or cancel stops the job (see jobs.server.ts)
+    const saveProgress = async (next: SyncCheckpoint) => {
+        checkpoint = next;
+        await db.store.update({ where: { id: storeId }, data: { syncCompleted: next.completed } });
+        await ctx.saveCheckpoint(next, next.completed, progress);
+    };
+    // Customers still to do in `phase`: none once a later phase started, the ones after the cursor in it
+    const remainingIn = (phase: SyncPhase): any[] => {
+        if (!resumeFrom) return customersToSync;
+        const position = SYNC_PHASES.indexOf(phase) - SYNC_PHASES.indexOf(resumeFrom.phase);
+        if (position < 0) return [];
+        return position === 0 ? customersAfter(customersToSync, resumeFrom.cursor) : customersToSync;
+    };
+
+    await db.store.update({
+        where: { id: storeId },
+        data: {
+            isSyncing: true,
+            syncTarget: totalWork,
+            syncCompleted: checkpoint.completed,
+            syncMessage: payload.syncMessage || "Evaluating customers and orders against active rules…"
         }
+    });
 
-        // ─── Phase 2: Order Rules ────────────────────────────────────────────────
-        // Fetch ALL orders directly from Shopify and tag every qualifying one.
-        if (orderRules.length > 0) {
-            console.log(`[ORDER_SYNC] Starting order scan. ${orderRules.length} order rule(s) active.`);
-            const allOrders = await fetchAllOrders(admin);
-            console.log(`[ORDER_SYNC] Fetched ${allOrders.length} total orders from Shopify.`);
-
-            let ordersEvaluated = 0;
-            let ordersAlreadyTagged = 0;
-            let ordersQualified = 0;
-            let ordersTagged = 0;
-            let ordersFailed = 0;
+    // ─── Phase 0: One-time Order Backfill ───────────────────────────────────
+    // Import every existing order into the local Order table once. From then on the
+    // orders webhooks keep it current and both phases below read orders locally.
+    let localOrders = await hasLocalOrders(storeId);
+    if (!localOrders && payload.syncType !== "CLEANUP") {
+        const backfill = await backfillOrders(admin, storeId, async saved => {
+            await db.store.update({
+                where: { id: storeId },
+                data: { syncMessage: `Importing order history (one-time)… ${saved} orders` }
+            });
+            await ctx.saveCheckpoint(checkpoint, checkpoint.completed, progress);
+        }, reportBulkProgress("order history"));
+        localOrders = backfill.complete;
+        await db.store.update({
+            where: { id: storeId },
+            data: { syncMessage: payload.syncMessage || "Evaluating customers and orders against active rules…" }
+        });
+    }
 
-            for (const orderEdge of allOrders) {
-                const o = orderEdge.node;
-                ordersEvaluated++;
+    let completed = 0;
+
+    // ─── Phase 1: Customer Rules ────────────────────────────────────────────
+    // Bulk pass: refresh the customer rows and apply the compiled rules, touching
+    // Shopify only for customers whose tags actually change
+    if (bulkPass) {
+        const customers = remainingIn("customers");
+        const skipped = customersToSync.length - customers.length;
+        const start = completed + skipped;
+        progress.phase = "customers";
+        progress.customers.pass = 1;
+        progress.customers.done = skipped;
+        const { refreshed, changed } = await processCustomersInBulk(admin, payload, customers, compiledRules, progress.customers, async (done, lastCustomerId) => {
+            progress.customers.done = skipped + done;
+            await saveProgress({ phase: "customers", cursor: lastCustomerId, completed: start + done });
+        }, ctx.heartbeat);
+        completed += customersToSync.length;
+        console.log(`[QUEUE_WORKER] Bulk pass: ${compiledRules.length} compiled rule(s), ${refreshed} customer row(s) refreshed, ${changed} customer(s) re-tagged`);
+    }
 
-                try {
-                    const subtotal = parseFloat(o.subtotalPriceSet?.shopMoney?.amount || "0");
-                    const existingOrderTags: string[] = o.tags || [];
-
-                    const mappedOrder = {
-                        subtotal_price: String(subtotal),
-                        total_discounts: o.totalDiscountsSet?.shopMoney?.amount || "0",
-                        discount_codes: o.discountCodes ? o.discountCodes.map((c: string) => ({ code: c })) : [],
-                        payment_gateway_names: o.paymentGatewayNames || [],
-                        source_name: o.channel?.name || o.sourceIdentifier || "",
-                        referring_site: "",
-                        landing_site: "",
-                        shipping_address: { city: o.shippingAddress?.city, country_code: o.shippingAddress?.countryCode },
-                        tags: existingOrderTags,
-                        line_items: (o.lineItems?.edges || []).map((le: any) => ({
-                            quantity: le.node.quantity,
-                            properties: le.node.customAttributes ? le.node.customAttributes.map((ca: any) => ({ name: ca.key, value: ca.value })) : []
-                        }))
-                    };
+    // Per-customer pass for the rules that don't compile (and cleanups)
+    if (perCustomerPass) {
+        const customers = remainingIn("perCustomer");
+        completed += customersToSync.length - customers.length;
+        progress.phase = "customers";
+        progress.customers.pass = bulkPass ? 2 : 1;
+        progress.customers.done = customersToSync.length - customers.length;
+        for (let i = 0; i < customers.length; i += BATCH_SIZE) {
+            const batch = customers.slice(i, i + BATCH_SIZE);
+
+            await Promise.all(
+                batch.map(edge =>
+                    processOneCustomer(admin, storeId, edge, perCustomerRulesToEvaluate, payload, localOrders)
+                        .then(outcome => countOutcome(progress.customers, outcome))
+                        .catch(err => {
+                            progress.customers.failed++;
+                            console.error(`[QUEUE_WORKER] Error processing customer:`, err.message);
+                        })
+                )
+            );
+
+            completed += batch.length;
+            progress.customers.done += batch.length;
+            await saveProgress({ phase: "perCustomer", cursor: getCustomerId(batch[batch.length - 1]), completed });
+        }
+    }
+    if (!runCustomerPhase) completed += customersToSync.length;
+
+    // ─── Phase 2: Order Rules ────────────────────────────────────────────────
+    // Scan every order of the store — the local Order table once it is backfilled,
+    // otherwise fetched from Shopify — and tag every qualifying one.
+    if (orderRules.length > 0) {
+        console.log(`[ORDER_SYNC] Starting order scan (${localOrders ? "local Order table" : "Shopify"}). ${orderRules.length} order rule(s) active.`);
+        // A resumed local scan continues after the last finished page; a Shopify scan starts over
+        const orderCursor = resumeFrom?.phase === "orders" ? resumeFrom.cursor : null;
+        progress.phase = "orders";
+        if (!orderCursor) progress.orders = emptySyncProgress().orders;
+        if (localOrders) progress.orders.total = await db.order.count({ where: { storeId } });
+        await saveProgress({ phase: "orders", cursor: orderCursor, completed });
+
+        // Product type / tag / collection conditions need product data that isn't on the order.
+        // Loaded page by page into one map, so each product is fetched once per sync.
+        const needsProductDetails = rulesNeedProductDetails(orderRules);
+        const productDetails: ProductDetailsMap = new Map();
+
+        // Mixed rules with purchase-history conditions: load each customer's history once
+        const needsHistory = rulesNeedOrderHistory(orderRules);
+        const historyByCustomer = new Map<string, OrderHistory>();
+        // Template values the rules applied per customer, the only ones they may replace (see tag-template.ts)
+        const hasTemplateRules = orderRules.some(r => isTagTemplate(r.targetTag));
+        const appliedByCustomer = new Map<string, AppliedTemplateTags>();
+
+        // Every scanned order is counted in progress.orders; qualified only feeds the summary log
+        const orderProgress = progress.orders;
+        let ordersQualified = 0;
+
+        // Qualifying orders of a page with their usage counted, tagged together by tagPendingOrders
+        type PendingOrderTags = { order: SyncOrder; tagsToApply: string[]; staleTags: string[]; orderTagResults: OrderRuleResult[] };
+
+        const processOrder = async (order: SyncOrder, pending: PendingOrderTags[]) => {
+            orderProgress.done++;
+
+            const orderTime = new Date(order.payload.created_at || Date.now());
+            const scheduledRules = orderRules.filter(r => isRuleInSchedule(r, timezone, orderTime));
+            if (scheduledRules.length === 0) {
+                countOutcome(orderProgress, "skipped");
+                return;
+            }
 
-                    const customerData = {
-                        id: o.customer?.id?.split("/").pop() || "guest",
-                        totalSpent: parseFloat(o.customer?.amountSpent?.amount || "0"),
-                        orderCount: parseInt(o.customer?.numberOfOrders || "0"),
-                        tags: (o.customer?.tags || []).join(", "),
-                    };
+            try {
+                const subtotal = parseFloat(order.payload.subtotal_price || "0");
+                const customerData = order.customer;
 
-                    const results = evaluateOrderRules(mappedOrder, customerData, orderRules, []);
-                    const orderTagResults = results.filter(r => r.targetEntity === "order");
-                    const tagsToApply = orderTagResults.map(r => r.tag).filter(tag => !existingOrderTags.includes(tag));
+                let orderHistory: OrderHistory | undefined;
+                if (needsHistory && customerData.id !== "guest") {
+                    orderHistory = historyByCustomer.get(customerData.id);
+                    if (!orderHistory) {
+                        orderHistory = await loadOrderHistory(admin, storeId, customerData.id, orderRules, productDetails);
+                        historyByCustomer.set(customerData.id, orderHistory);
+                    }
+                }
 
-                    if (orderTagResults.length > 0 && tagsToApply.length === 0) {
-                        // Qualified but already tagged
-                        ordersAlreadyTagged++;
-                        console.log(`[ORDER_SYNC] Order ${o.id} SKIPPED (already has tags: ${orderTagResults.map(r => r.tag).join(", ")})`);
-                        continue;
+                let appliedTemplateTags: AppliedTemplateTags | undefined;
+                if (hasTemplateRules && customerData.id !== "guest") {
+                    appliedTemplateTags = appliedByCustomer.get(customerData.id);
+                    if (!appliedTemplateTags) {
+                        appliedTemplateTags = await loadAppliedTemplateTags(storeId, customerData.id, orderRules);
+                        appliedByCustomer.set(customerData.id, appliedTemplateTags);
                     }
+                }
 
-                    if (tagsToApply.length === 0) continue;
+                const results = evaluateOrderRules(order.payload, customerData, scheduledRules, [], productDetails, orderHistory, appliedTemplateTags);
+                // Order tags held back by a rule's exclusion lists (see rule-exclusions.ts)
+                const suppressed = findSuppressedOrderMatches(order.payload, customerData, scheduledRules, [], productDetails, orderHistory)
+                    .filter(r => r.targetEntity === "order" && !order.existingTags.includes(r.tag));
+                if (suppressed.length > 0) await recordSuppressedMatches(storeId, customerData.id, suppressed, "[Order Sync]");
+                const orderTagResults = results.filter(r => r.targetEntity === "order");
+                const tagsToApply = orderTagResults.map(r => r.tag).filter(tag => !order.existingTags.includes(tag));
+                const staleTags = orderTagResults.flatMap(r => r.staleTags || []);
+
+                // Start or extend the expiry of order tags from rules with "expire after N days"
+                const qualifyingEvents = [
+                    ...orderTagResults,
+                    ...findExpiryRefreshes(order.payload, customerData, scheduledRules, [], productDetails, orderHistory).filter(r => r.targetEntity === "order")
+                ].map(item => ({ ...item, orderId: order.id }));
+                if (qualifyingEvents.some(e => e.qualifiedAt)) {
+                    await recordQualifyingEvents(storeId, customerData.id, qualifyingEvents, orderRules);
+                }
 
-                    ordersQualified++;
-                    console.log(`[ORDER_SYNC] Order ${o.id} QUALIFIES. subtotal=${subtotal}. Tags to apply: ${tagsToApply.join(", ")}`);
+                if (orderTagResults.length > 0 && tagsToApply.length === 0) {
+                    // Qualified but already tagged
+                    countOutcome(orderProgress, "skipped");
+                    console.log(`[ORDER_SYNC] Order ${order.id} SKIPPED (already has tags: ${orderTagResults.map(r => r.tag).join(", ")})`);
+                    return;
+                }
 
-                    // Apply tags directly via Shopify GraphQL
-                    const tagRes = await admin.graphql(`#graphql
-                        mutation tagsAdd($id: ID!, $tags: [String!]!) {
-                            tagsAdd(id: $id, tags: $tags) {
-                                node { id }
-                                userErrors { field message }
-                            }
-                        }
-                    `, { variables: { id: o.id, tags: tagsToApply } });
+                if (tagsToApply.length === 0) {
+                    countOutcome(orderProgress, "skipped");
+                    return;
+                }
 
-                    const tagData = await tagRes.json();
-                    const userErrors = tagData.data?.tagsAdd?.userErrors || [];
+                ordersQualified++;
+                console.log(`[ORDER_SYNC] Order ${order.id} QUALIFIES. subtotal=${subtotal}. Tags to apply: ${tagsToApply.join(", ")}`);
 
-                    if (userErrors.length > 0) {
-                        ordersFailed++;
-                        console.error(`[ORDER_SYNC] FAILED to tag order ${o.id}:`, JSON.stringify(userErrors));
-                    } else {
-                        // Increment usage for order tags
-                        await incrementUsage(shop, "order_tag", tagsToApply.length);
-                        ordersTagged++;
-                        console.log(`[ORDER_SYNC] ✓ Tagged order ${o.id} with ${tagsToApply.join(", ")}`);
-
-                        // Log to ActivityLog (only for non-guest customers)
-                        if (customerData.id !== "guest") {
-                            await db.customer.upsert({
-                                where: { id_storeId: { id: customerData.id, storeId } },
-                                create: {
-                                    id: customerData.id,
+                // Usage for order tags, counted before tagging so the plan limit holds
+                if (!await incrementUsage(shop, "order_tag", tagsToApply.length)) {
+                    countOutcome(orderProgress, "limitBlocked");
+                    console.log(`[ORDER_SYNC] Order ${order.id} BLOCKED (monthly order tag limit reached)`);
+                    return;
+                }
+
+                // Removal usage for stale template tags, which are removed in the same batch
+                const removeStale = staleTags.length > 0 && await incrementUsage(shop, "removal", staleTags.length);
+                pending.push({ order, tagsToApply, staleTags: removeStale ? staleTags : [], orderTagResults });
+            } catch (err: any) {
+                orderProgress.failed++;
+                console.error(`[ORDER_SYNC] Exception on order ${order.id}:`, err.message);
+            }
+        };
+
+        /**
+         * Tag a page's qualifying orders in one batch (see manageOrderTagsBatch). Only orders
+         * Shopify tagged are logged; the usage of rejected tags is refunded.
+         */
+        const tagPendingOrders = async (pending: PendingOrderTags[]) => {
+            if (pending.length === 0) return;
+
+            let results: TagChangeResult[];
+            try {
+                results = await manageOrderTagsBatch(admin, storeId, pending.map(p => ({
+                    orderId: p.order.id,
+                    tagsToAdd: p.tagsToApply,
+                    tagsToRemove: p.staleTags
+                })), ctx.heartbeat);
+            } catch (err: any) {
+                orderProgress.failed += pending.length;
+                console.error(`[ORDER_SYNC] Exception tagging ${pending.length} orders:`, err.message);
+                return;
+            }
+
+            let rejectedAdds = 0;
+            let rejectedRemoves = 0;
+            for (const [i, { order, tagsToApply, staleTags, orderTagResults }] of pending.entries()) {
+                const tagged = results[i];
+                rejectedRemoves += staleTags.length - tagged.tagsRemoved.length;
+                if (tagged.tagsAdded.length === 0) {
+                    rejectedAdds += tagsToApply.length;
+                    orderProgress.failed++;
+                    console.error(`[ORDER_SYNC] FAILED to tag order ${order.id}:`, formatUserErrors(tagged.userErrors));
+                    continue;
+                }
+                countOutcome(orderProgress, "tagged");
+                console.log(`[ORDER_SYNC] ✓ Tagged order ${order.id} with ${tagsToApply.join(", ")}`);
+
+                const customerData = order.customer;
+                try {
+                    // Log to ActivityLog (only for non-guest customers)
+                    if (customerData.id !== "guest") {
+                        await db.customer.upsert({
+                            where: { id_storeId: { id: customerData.id, storeId } },
+                            create: {
+                                id: customerData.id,
+                                storeId,
+                                email: customerData.email,
+                                emailDomain: getEmailDomain(customerData.email),
+                                totalSpent: customerData.totalSpent,
+                                orderCount: customerData.orderCount,
+                                tags: customerData.tags || null,
+                            },
+                            update: {}
+                        });
+
+                        for (const result of orderTagResults) {
+                            if (!tagsToApply.includes(result.tag)) continue;
+                            await db.activityLog.create({
+                                data: {
                                     storeId,
-                                    email: o.customer?.email || null,
-                                    totalSpent: customerData.totalSpent,
-                                    orderCount: customerData.orderCount,
-                                    tags: customerData.tags || null,
-                                },
-                                update: {}
+                                    customerId: customerData.id,
+                                    action: "TAG_ADDED",
+                                    tagContext: result.tag,
+                                    reason: `[Order Sync] ${result.reason}`,
+                                    ruleId: result.ruleId,
+                                    ruleVersionId: result.ruleVersionId,
+                                    trace: result.trace
+                                }
                             });
-
-                            for (const result of orderTagResults) {
-                                if (!tagsToApply.includes(result.tag)) continue;
-                                const rule = await db.rule.findFirst({ where: { storeId, targetTag: result.tag, targetEntity: "order" } });
-                                await db.activityLog.create({
-                                    data: {
-                                        storeId,
-                                        customerId: customerData.id,
-                                        action: "TAG_ADDED",
-                                        tagContext: result.tag,
-                                        reason: `[Order Sync] ${result.reason}`,
-                                        ruleId: rule?.id
-                                    }
-                                });
-                            }
                         }
                     }
                 } catch (err: any) {
-                    ordersFailed++;
-                    console.error(`[ORDER_SYNC] Exception on order ${o.id}:`, err.message);
+                    console.error(`[ORDER_SYNC] Failed to log tags of order ${order.id}:`, err.message);
                 }
             }
 
-            console.log(`[ORDER_SYNC] ════════════════════════════════════════`);
-            console.log(`[ORDER_SYNC] Total orders fetched  : ${allOrders.length}`);
-            console.log(`[ORDER_SYNC] Evaluated             : ${ordersEvaluated}`);
-            console.log(`[ORDER_SYNC] Qualified (new)       : ${ordersQualified}`);
-            console.log(`[ORDER_SYNC] Already tagged (skip) : ${ordersAlreadyTagged}`);
-            console.log(`[ORDER_SYNC] Successfully tagged   : ${ordersTagged}`);
-            console.log(`[ORDER_SYNC] Failed                : ${ordersFailed}`);
-            console.log(`[ORDER_SYNC] ════════════════════════════════════════`);
-
-            completed++;
-            await db.store.update({ where: { id: storeId }, data: { syncCompleted: completed } });
+            await refundUsage(shop, "order_tag", rejectedAdds);
+            await refundUsage(shop, "removal", rejectedRemoves);
+        };
+
+        const processOrderPage = async (orders: SyncOrder[]) => {
+            if (needsProductDetails) {
+                await fetchProductDetails(admin, orders.flatMap(o => getOrderProductIds(o.payload)), productDetails);
+            }
+            const pending: PendingOrderTags[] = [];
+            for (const order of orders) await processOrder(order, pending);
+            await tagPendingOrders(pending);
+        };
+
+        let ordersTotal = 0;
+        if (localOrders) {
+            ordersTotal = await forEachLocalOrderPage(storeId, async page => {
+                const customerIds = [...new Set(page.map(o => o.customerId).filter((id): id is string => !!id))];
+                const customers = await db.customer.findMany({ where: { storeId, id: { in: customerIds } } });
+                const customersById = new Map(customers.map(c => [c.id, c]));
+
+                await processOrderPage(page.map(o => {
+                    const customer = o.customerId ? customersById.get(o.customerId) : undefined;
+                    return {
+                        id: o.id,
+                        payload: toOrderPayload(o),
+                        existingTags: splitList(o.tags),
+                        customer: customer
+                            ? { ...customer, tags: customer.tags || "" }
+                            : { id: o.customerId || "guest", email: o.email, totalSpent: 0, orderCount: 0, tags: "" }
+                    };
+                }));
+                await saveProgress({ phase: "orders", cursor: page[page.length - 1].id, completed });
+            }, orderCursor);
+        } else {
+            // Streamed a page at a time; a resumed scan starts over, the checkpoints let a pause or cancel stop it
+            let exporting = true;
+            const scan = await forEachOrderPage(admin, async edges => {
+                if (exporting) {
+                    exporting = false;
+                    await db.store.update({
+                        where: { id: storeId },
+                        data: { syncMessage: payload.syncMessage || "Evaluating customers and orders against active rules…" }
+                    });
+                }
+                orderProgress.total += edges.length;
+
+                await processOrderPage(edges.map(edge => {
+                    const o = edge.node;
+                    return {
+                        id: o.id.split("/").pop(),
+                        payload: mapGraphqlOrder(o),
+                        existingTags: o.tags || [],
+                        customer: {
+                            id: o.customer?.id?.split("/").pop() || "guest",
+                            email: o.customer?.email || null,
+                            totalSpent: parseFloat(o.customer?.amountSpent?.amount || "0"),
+                            orderCount: parseInt(o.customer?.numberOfOrders || "0"),
+                            tags: (o.customer?.tags || []).join(", "),
+                        }
+                    };
+                }));
+                await saveProgress({ phase: "orders", cursor: null, completed });
+            }, Infinity, reportBulkProgress("orders"));
+            if (!scan.complete) throw new BulkOperationError(`Order export stopped after ${scan.fetched} orders`);
+            ordersTotal = scan.fetched;
         }
 
-        console.log(`[QUEUE_WORKER] Finished sync job for shop: ${shop}`);
-    } catch (err: any) {
-        console.error(`[QUEUE_WORKER] Failed to process sync job for ${shop}:`, err.message);
-    } finally {
-        try {
-            // Update timestamp on all active rules to signify this sync finished
+        console.log(`[ORDER_SYNC] ════════════════════════════════════════`);
+        console.log(`[ORDER_SYNC] Total orders scanned  : ${ordersTotal}`);
+        console.log(`[ORDER_SYNC] Evaluated             : ${orderProgress.done}`);
+        console.log(`[ORDER_SYNC] Qualified (new)       : ${ordersQualified}`);
+        console.log(`[ORDER_SYNC] Skipped               : ${orderProgress.skipped}`);
+        console.log(`[ORDER_SYNC] Successfully tagged   : ${orderProgress.tagged}`);
+        console.log(`[ORDER_SYNC] Limit blocked         : ${orderProgress.limitBlocked}`);
+        console.log(`[ORDER_SYNC] Failed                : ${orderProgress.failed}`);
+        console.log(`[ORDER_SYNC] ════════════════════════════════════════`);
+
+        completed++;
+        await saveProgress({ ...checkpoint, completed });
+    }
+
+    console.log(`[QUEUE_WORKER] Finished sync job for shop: ${shop}`);
+}
+
+export const syncJobHandler: JobHandler<SyncJobPayload> = {
+    run: processSyncJob,
+    onRetry: async ({ storeId }, runAfter, error) => {
+        const minutes = Math.max(Math.round((runAfter.getTime() - Date.now()) / 60000), 1);
+        await db.store.update({
+            where: { id: storeId },
+            data: { syncMessage: `Sync interrupted (${error}). Resuming in ~${minutes} min…` }
+        });
+    },
+    onPaused: async ({ storeId }) => {
+        // Free the store for the scheduler and the sync buttons until the job is resumed
+        await db.store.update({
+            where: { id: storeId },
+            data: { isSyncing: false, syncMessage: "Sync paused" }
+        });
+    },
+    onFinished: async ({ storeId }, status) => {
+        // Update timestamp on all rules to signify a sync finished
+        if (status === "COMPLETED") {
             await db.rule.updateMany({
                 where: { storeId },
                 data: { lastSyncCompletedAt: new Date() }
             });
-
-            await db.store.update({
-                where: { id: storeId },
-                data: { isSyncing: false, syncMessage: null }
-            });
-        } catch (e) {
-            console.error(`[QUEUE_WORKER] Failed to reset isSyncing flag:`, e);
         }
+        await db.store.update({
+            where: { id: storeId },
+            data: { isSyncing: false, syncMessage: null }
+        });
     }
+};
+
+// How long a finished sync stays on the rules page and dashboard
+const SYNC_SUMMARY_HOURS = 24;
+
+/**
+ * The store's latest sync job for the progress panel (see sync-progress.ts). Null when
+ * there is none, it was cancelled, or it finished more than SYNC_SUMMARY_HOURS ago.
+ */
+export async function getSyncJobSummary(storeId: string): Promise<SyncJobSummary | null> {
+    const job = await getLatestJob(storeId, "SYNC");
+    if (!job || job.status === "CANCELLED") return null;
+    if (job.finishedAt && Date.now() - job.finishedAt.getTime() > SYNC_SUMMARY_HOURS * 60 * 60 * 1000) return null;
+
+    let progress: SyncProgress | null = null;
+    try { progress = job.progress ? JSON.parse(job.progress) : null; } catch { /* ignore malformed JSON */ }
+
+    return {
+        id: job.id,
+        status: job.status as SyncJobSummary["status"],
+        progress,
+        error: job.error,
+        runAfter: job.status === "QUEUED" && job.attempts > 0 ? job.runAfter.toISOString() : null,
+        finishedAt: job.finishedAt?.toISOString() ?? null,
+        stopping: job.cancelRequested || job.pauseRequested
+    };
+}
+
+type MarketingPushPayload = { shop: string, storeId: string, platform: "klaviyo" | "mailchimp", ruleId?: string };
+
+// Where a retried or resumed push continues (Job.checkpoint)
+type MarketingPushCheckpoint = {
+    cursor: string | null; // Last customer pushed
+    syncCount: number;
+    authErrorCount: number;
+    lastErrorMsg: string;
+};
+
+const PUSH_CHECKPOINT_EVERY = 50;  // Customers between two checkpoints of a push
+
+/**
+ * Queue a push of the synced segments to Klaviyo / Mailchimp as a durable job (see jobs.server.ts).
+ */
+export async function enqueueMarketingBulkSyncJob(payload: MarketingPushPayload) {
+    await db.store.update({
+        where: { id: payload.storeId },
+        data: payload.platform === "klaviyo" ? { klaviyoSyncInProgress: true } : { mailchimpSyncInProgress: true }
+    });
+    return enqueueJob("MARKETING_PUSH", payload.storeId, payload, { dedupe: true });
 }
 
-export async function enqueueMarketingBulkSyncJob(payload: { shop: string, storeId: string, platform: "klaviyo" | "mailchimp", ruleId?: string }) {
-    try {
-        await processMarketingBulkSyncJob(payload);
-    } catch (err) {
-        console.error(`[QUEUE_WORKER] Unhandled error during ${payload.platform} sync job:`, err);
+/**
+ * Cancel the store's queued / running pushes to `platform`. With none active, the stuck
+ * in-progress flag is reset.
+ * @returns the number of jobs cancelled
+ */
+export async function cancelMarketingBulkSyncJobs(storeId: string, platform: MarketingPushPayload["platform"]): Promise<number> {
+    const jobs = (await getActiveJobs(storeId, "MARKETING_PUSH"))
+        .filter(job => (JSON.parse(job.payload) as MarketingPushPayload).platform === platform);
+    let cancelled = 0;
+    for (const job of jobs) {
+        if (await cancelJob(storeId, job.id)) cancelled++;
     }
+    if (cancelled === 0) {
+        await db.store.update({
+            where: { id: storeId },
+            data: platform === "klaviyo" ? { klaviyoSyncInProgress: false } : { mailchimpSyncInProgress: false }
+        });
+    }
+    return cancelled;
 }
 
-async function processMarketingBulkSyncJob(payload: { shop: string, storeId: string, platform: "klaviyo" | "mailchimp", ruleId?: string }) {
+async function processMarketingBulkSyncJob(payload: MarketingPushPayload, ctx: JobContext) {
     const { shop, storeId, platform, ruleId } = payload;
-    console.log(`[QUEUE_WORKER] Started ${platform} bulk sync job for shop: ${shop}`);
-
-    try {
-        const store = await getCachedStoreById(storeId);
-        if (!store) throw new Error("Store not found");
-
-        const isKlaviyo = platform === "klaviyo";
-        const isMailchimp = platform === "mailchimp";
-
-        const syncedRules = await db.rule.findMany({
-            where: { 
-                storeId, 
-                isActive: true, 
-                ...(ruleId ? { id: ruleId } : {}),
-                ...(isKlaviyo ? { syncToKlaviyo: true } : { syncToMailchimp: true }) 
-            },
-            select: { targetTag: true }
-        });
+    const resumeFrom = ctx.checkpoint as MarketingPushCheckpoint | null;
+    console.log(`[QUEUE_WORKER] ${resumeFrom ? "Resuming" : "Started"} ${platform} bulk sync job for shop: ${shop}`);
 
-        const targetTags = syncedRules.map(r => r.targetTag);
+    const store = await getCachedStoreById(storeId);
+    if (!store) throw new Error("Store not found");
 
-        if (targetTags.length === 0) {
-            console.log(`[QUEUE_WORKER] No active synced segments for ${platform}, aborting.`);
-            return;
-        }
+    const isKlaviyo = platform === "klaviyo";
+    const isMailchimp = platform === "mailchimp";
 
-        const validCustomers = await db.customer.findMany({
-            where: {
-                storeId,
-                email: { not: null },
-                tags: { not: null }
-            },
-            select: { id: true, email: true, tags: true }
-        });
+    const syncedRules = await db.rule.findMany({
+        where: { 
+            storeId, 
+            isActive: true, 
+            ...(ruleId ? { id: ruleId } : {}),
+            ...(isKlaviyo ? { syncToKlaviyo: true } : { syncToMailchimp: true }) 
+        },
+        select: { targetTag: true }
+    });
 
-        let syncCount = 0;
-        
-        // Dynamically import API functions to avoid circular dependencies
-        const { syncTagsToKlaviyo } = await import("./klaviyo.server");
-        const { syncTagsToMailchimp } = await import("./mailchimp.server");
+    const targetTags = syncedRules.map(r => r.targetTag);
 
-        let authErrorCount = 0;
-        let lastErrorMsg = "";
+    if (targetTags.length === 0) {
+        console.log(`[QUEUE_WORKER] No active synced segments for ${platform}, aborting.`);
+        return;
+    }
 
-        for (const c of validCustomers) {
-            if (!c.email) continue;
-            
-            const currentTags = c.tags ? c.tags.split(",").map(t => t.trim().toLowerCase()) : [];
-            const overlappingTags = targetTags.filter(t => currentTags.includes(t.toLowerCase()));
+    // In ID order, so a resumed push continues after the last customer it finished
+    const validCustomers = await db.customer.findMany({
+        where: {
+            storeId,
+            email: { not: null },
+            tags: { not: null },
+            ...(resumeFrom?.cursor ? { id: { gt: resumeFrom.cursor } } : {})
+        },
+        select: { id: true, email: true, tags: true },
+        orderBy: { id: "asc" }
+    });
 
-            if (overlappingTags.length > 0) {
-                try {
-                    if (isKlaviyo) {
-                        const tokenToUse = store.klaviyoAccessToken || store.klaviyoApiKey;
-                        const canSync = store.klaviyoAccessToken ? store.klaviyoIsActive : !!store.klaviyoApiKey;
-
-                        if (tokenToUse && canSync) {
-                            const res = await syncTagsToKlaviyo(tokenToUse, c.email, overlappingTags);
-                            if (res.success) {
-                                syncCount++;
-                            } else {
-                                authErrorCount++;
-                                lastErrorMsg = res.message || "Unknown Error";
-                            }
-                            // Basic rate limit respect (approx 6/sec)
-                            await new Promise(r => setTimeout(r, 150)); 
-                        }
-                    } else if (isMailchimp && store.mailchimpApiKey && store.mailchimpServerPrefix && store.mailchimpListId) {
-                        const res = await syncTagsToMailchimp(store.mailchimpApiKey, store.mailchimpServerPrefix, store.mailchimpListId, c.email, overlappingTags);
+    let syncCount = resumeFrom?.syncCount ?? 0;
+    
+    // Dynamically import API functions to avoid circular dependencies
+    const { syncTagsToKlaviyo } = await import("./klaviyo.server");
+    const { syncTagsToMailchimp } = await import("./mailchimp.server");
+
+    let authErrorCount = resumeFrom?.authErrorCount ?? 0;
+    let lastErrorMsg = resumeFrom?.lastErrorMsg ?? "";
+
+    for (let i = 0; i < validCustomers.length; i++) {
+        const c = validCustomers[i];
+        if (i > 0 && i % PUSH_CHECKPOINT_EVERY === 0) {
+            await ctx.saveCheckpoint({ cursor: validCustomers[i - 1].id, syncCount, authErrorCount, lastErrorMsg }, syncCount);
+        }
+        if (!c.email) continue;
+        
+        const customerTags = c.tags ? c.tags.split(",").map(t => t.trim()) : [];
+        const currentTags = customerTags.map(t => t.toLowerCase());
+        // Template segments sync every rendered value the customer carries (e.g. "City-paris")
+        const overlappingTags = targetTags.flatMap(t => isTagTemplate(t)
+            ? findTemplateTags(t, customerTags)
+            : (currentTags.includes(t.toLowerCase()) ? [t] : []));
+
+        if (overlappingTags.length > 0) {
+            try {
+                if (isKlaviyo) {
+                    const tokenToUse = store.klaviyoAccessToken || store.klaviyoApiKey;
+                    const canSync = store.klaviyoAccessToken ? store.klaviyoIsActive : !!store.klaviyoApiKey;
+
+                    if (tokenToUse && canSync) {
+                        const res = await syncTagsToKlaviyo(tokenToUse, c.email, overlappingTags);
                         if (res.success) {
                             syncCount++;
                         } else {
@@ -567,44 +1054,78 @@ async function processMarketingBulkSyncJob(payload: { shop: string, storeId: str
                         // Basic rate limit respect (approx 6/sec)
                         await new Promise(r => setTimeout(r, 150)); 
                     }
-                } catch (apiErr: any) {
-                    console.error(`[QUEUE_WORKER] Bulk sync API fail for ${c.email}:`, apiErr);
-                    authErrorCount++;
-                    lastErrorMsg = apiErr.message;
+                } else if (isMailchimp && store.mailchimpApiKey && store.mailchimpServerPrefix && store.mailchimpListId) {
+                    const res = await syncTagsToMailchimp(store.mailchimpApiKey, store.mailchimpServerPrefix, store.mailchimpListId, c.email, overlappingTags);
+                    if (res.success) {
+                        syncCount++;
+                    } else {
+                        authErrorCount++;
+                        lastErrorMsg = res.message || "Unknown Error";
+                    }
+                    // Basic rate limit respect (approx 6/sec)
+                    await new Promise(r => setTimeout(r, 150)); 
                 }
+            } catch (apiErr: any) {
+                console.error(`[QUEUE_WORKER] Bulk sync API fail for ${c.email}:`, apiErr);
+                authErrorCount++;
+                lastErrorMsg = apiErr.message;
             }
         }
+    }
 
-        let finalMessage = `Successfully pushed ${syncCount} qualifying profiles.`;
-        if (authErrorCount > 0) {
-            finalMessage = `Pushed ${syncCount} profiles. Failed ${authErrorCount} due to API errors (e.g., ${lastErrorMsg}). Check Integrations page.`;
-        }
+    let finalMessage = `Successfully pushed ${syncCount} qualifying profiles.`;
+    if (authErrorCount > 0) {
+        finalMessage = `Pushed ${syncCount} profiles. Failed ${authErrorCount} due to API errors (e.g., ${lastErrorMsg}). Check Integrations page.`;
+    }
 
-        console.log(`[QUEUE_WORKER] Finished ${platform} bulk sync. ` + finalMessage);
-        
+    console.log(`[QUEUE_WORKER] Finished ${platform} bulk sync. ` + finalMessage);
+    
+    await db.store.update({
+        where: { id: storeId },
+        data: { syncMessage: finalMessage }
+    });
+}
+
+export const marketingPushJobHandler: JobHandler<MarketingPushPayload> = {
+    run: processMarketingBulkSyncJob,
+    onFinished: async ({ storeId, platform }, status, error) => {
         await db.store.update({
             where: { id: storeId },
-            data: { syncMessage: finalMessage }
+            data: {
+                ...(platform === "klaviyo" ? { klaviyoSyncInProgress: false } : { mailchimpSyncInProgress: false }),
+                ...(status === "FAILED" ? { syncMessage: `Bulk Sync Failed: ${error}` } : {})
+            }
         });
-        
-    } catch (err: any) {
-        console.error(`[QUEUE_WORKER] Failed to process ${platform} bulk sync for ${shop}:`, err.message);
-        try {
-            await db.store.update({
-                where: { id: storeId },
-                data: { syncMessage: `Bulk Sync Failed: ${err.message}` }
-            });
-        } catch (dbErr) { /* ignore */ }
-    } finally {
-        try {
-            const isKlaviyo = platform === "klaviyo";
-            await db.store.update({
-                where: { id: storeId },
-                data: isKlaviyo ? { klaviyoSyncInProgress: false } : { mailchimpSyncInProgress: false }
-            });
-        } catch (e) {
-            console.error(`[QUEUE_WORKER] Failed to reset sync flag:`, e);
-        }
     }
+};
+
+type TagRenamePayload = { shop: string, storeId: string, ruleId: string, oldTag: string };
+
+/**
+ * Queue the move of a rule's old targetTag to its new one (see renameRuleTag) as a durable
+ * job. Once it finished it queues the RULES sync of the edited rule, so that sync sees the
+ * renamed tags even when an older one was still waiting.
+ */
+export async function enqueueTagRenameJob(payload: TagRenamePayload) {
+    return enqueueJob("TAG_RENAME", payload.storeId, payload, { dedupe: true });
+}
+
+async function processTagRenameJob({ shop, storeId, ruleId, oldTag }: TagRenamePayload, ctx: JobContext) {
+    const rule = await db.rule.findFirst({ where: { id: ruleId, storeId } });
+    if (!rule || rule.targetTag === oldTag) return;
+
+    const { admin } = await unauthenticated.admin(shop);
+    await renameRuleTag(admin, storeId, rule, oldTag, {
+        resumeFrom: ctx.checkpoint as TagRenameCheckpoint | null,
+        onBatch: checkpoint => ctx.saveCheckpoint(checkpoint, checkpoint.renamed),
+        onBulkProgress: ctx.heartbeat
+    });
 }
 
+export const tagRenameJobHandler: JobHandler<TagRenamePayload> = {
+    run: processTagRenameJob,
+    onFinished: async ({ shop, storeId, ruleId, oldTag }, status, error) => {
+        if (status === "FAILED") console.error(`[QUEUE_WORKER] Renaming "${oldTag}" of rule ${ruleId} failed: ${error}`);
+        await enqueueSyncJob({ shop, storeId, syncType: "RULES" });
+    }
+};
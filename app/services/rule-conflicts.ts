@@ -0,0 +1,349 @@
+/**
+ * rule-conflicts.ts
+ *
+ * Static Rule Analysis (shared by server loaders and route components — no server-only
+ * dependencies).
+ *
+ * Looks at a store's Rule rows without evaluating any customer or order and flags:
+ *
+ *   never_matches        totalSpent > 100 AND totalSpent < 50, an empty OR group, …
+ *   redundant_condition  totalSpent > 100 AND totalSpent > 500 (the first adds nothing)
+ *   duplicate            two rules with the same conditions and the same tag
+ *   same_conditions      two rules with the same conditions and different tags
+ *   oscillation          one rule adds a tag that another rule removes when its own
+ *                        conditions fail, so the tag flips on every sync
+ *   tag_conflict         two add-only rules apply the same tag under different conditions
+ *
+ * Customer rules without order conditions remove their tag when they stop matching
+ * (calculateCustomerTags); rules with order conditions and order-target rules only add.
+ * A tag template owns every tag it can render (findTemplateTags), so "Spend-{{…}}"
+ * also removes a plain "Spend-VIP" tag. Rules in the same exclusive group compete by
+ * design and are not compared with each other. Pair checks only cover active rules.
+ */
+import type { ConditionNode, LeafCondition } from "./condition-tree";
+import { isConditionGroup, parseConditionNodes, flattenConditions, isRelativeDateOperator, parseDaysAgoRange } from "./condition-tree";
+import { isTagTemplate, tagMatchesTemplate } from "./tag-template";
+import { getExclusiveGroupKey } from "./exclusive-groups";
+import { printRuleDsl } from "./rule-dsl";
+
+export type AnalyzedRule = {
+    id: string;
+    name: string;
+    targetTag: string;
+    targetEntity: string;
+    matchType: string;
+    // Rule.conditions JSON, or the builder's node list for a draft
+    conditions: string | ConditionNode[];
+    isActive: boolean;
+    exclusiveGroup: string | null;
+};
+
+export type RuleWarningKind = "never_matches" | "redundant_condition" | "duplicate" | "same_conditions" | "oscillation" | "tag_conflict";
+
+export type RuleWarning = {
+    kind: RuleWarningKind;
+    severity: "critical" | "warning" | "info";
+    ruleId: string;
+    // The other rule of a pair warning
+    otherRuleId?: string;
+    message: string;
+};
+
+// Prisma `select` for loading AnalyzedRule rows
+export const ANALYZED_RULE_SELECT = {
+    id: true, name: true, targetTag: true, targetEntity: true, matchType: true, conditions: true, isActive: true, exclusiveGroup: true
+} as const;
+
+// Id given to an unsaved rule by analyzeDraftRule()
+const DRAFT_RULE_ID = "__draft__";
+
+const NUMERIC_FIELDS = new Set([
+    "totalSpent", "orderCount", "averageOrderValue", "order_item_count", "order_subtotal", "discount_percentage"
+]);
+
+// ─── Single-rule analysis ────────────────────────────────────────────────────
+
+const describeNode = (node: ConditionNode): string => isConditionGroup(node)
+    ? `(${printRuleDsl(node.conditions, node.matchType)})`
+    : printRuleDsl([node], "ALL");
+
+const isBlank = (value: unknown) => value === null || value === undefined || String(value).trim() === "";
+
+// Order-insensitive key: two conditions or lists with the same key always give the same result
+function canonicalNode(node: ConditionNode): string {
+    if (isConditionGroup(node)) return canonicalList(node.conditions, node.matchType);
+    return JSON.stringify([
+        node.ruleCategory || "metric",
+        node.field,
+        node.operator,
+        String(node.value ?? "").trim().toLowerCase(),
+        node.itemMatch === "all" ? "all" : "any",
+        node.sumField || "",
+        node.filter ? canonicalNode(node.filter) : ""
+    ]);
+}
+
+function canonicalList(nodes: ConditionNode[], matchType: string): string {
+    // A single-node list or group means the node itself, whatever its match type
+    if (nodes.length === 1) return canonicalNode(nodes[0]);
+    return `${matchType === "ANY" ? "ANY" : "ALL"}[${nodes.map(canonicalNode).sort().join(",")}]`;
+}
+
+type Bound = { value: number; inclusive: boolean; condition: LeafCondition };
+type Range = { lower?: Bound; upper?: Bound };
+
+// The constrained quantity a leaf talks about: field value, date age or timestamp
+function constraintKey(leaf: LeafCondition, suffix: string): string {
+    const scope = leaf.ruleCategory || "metric";
+    const history = scope === "history" ? `:${leaf.sumField || ""}:${leaf.filter ? canonicalNode(leaf.filter) : ""}` : "";
+    return `${scope}:${leaf.field}${history}:${suffix}`;
+}
+
+// Numeric interval a leaf restricts its quantity to, if any
+function toBounds(leaf: LeafCondition): { key: string; lower?: Bound; upper?: Bound } | null {
+    const { operator, value } = leaf;
+    if (isBlank(value)) return null;
+    const bound = (n: number, inclusive: boolean): Bound => ({ value: n, inclusive, condition: leaf });
+
+    if (isRelativeDateOperator(operator)) {
+        // Age in days; the evaluator's relative ranges include both ends
+        const key = constraintKey(leaf, "age");
+        if (operator === "betweenDaysAgo") {
+            const range = parseDaysAgoRange(value);
+            if (!range) return null;
+            return { key, lower: bound(range[0], true), upper: bound(range[1], true) };
+        }
+        const days = Number(value);
+        if (isNaN(days) || days < 0) return null;
+        return operator === "withinLastDays" ? { key, upper: bound(days, true) } : { key, lower: bound(days, true) };
+    }
+
+    if (operator === "isBefore" || operator === "isAfter") {
+        const time = new Date(value).getTime();
+        if (isNaN(time)) return null;
+        const key = constraintKey(leaf, "date");
+        return operator === "isBefore" ? { key, upper: bound(time, false) } : { key, lower: bound(time, false) };
+    }
+
+    const isNumeric = leaf.ruleCategory === "history" || NUMERIC_FIELDS.has(leaf.field);
+    const n = Number(value);
+    if (!isNumeric || isNaN(n)) return null;
+    const key = constraintKey(leaf, "value");
+    switch (operator) {
+        case "greaterThan": return { key, lower: bound(n, false) };
+        case "atLeast": return { key, lower: bound(n, true) };
+        case "lessThan": return { key, upper: bound(n, false) };
+        case "atMost": return { key, upper: bound(n, true) };
+        case "equals": return { key, lower: bound(n, true), upper: bound(n, true) };
+        default: return null;
+    }
+}
+
+// Is `a` a tighter lower (or upper) bound than `b`?
+const isTighter = (a: Bound, b: Bound, side: "lower" | "upper") =>
+    a.value === b.value ? !a.inclusive && b.inclusive : side === "lower" ? a.value > b.value : a.value < b.value;
+
+const isEmptyRange = ({ lower, upper }: Range) =>
+    !!lower && !!upper && (lower.value > upper.value || (lower.value === upper.value && !(lower.inclusive && upper.inclusive)));
+
+// Leaves joined by AND: contradictions (returned) and redundant bounds (collected)
+function analyzeAndLeaves(leaves: LeafCondition[], redundant: string[]): string | null {
+    const ranges = new Map<string, Range>();
+    const equalsValues = new Map<string, LeafCondition>();
+    const notEqualsValues = new Map<string, LeafCondition[]>();
+    const tags = new Map<string, { has?: LeafCondition; hasNot?: LeafCondition }>();
+
+    for (const leaf of leaves) {
+        const bounds = toBounds(leaf);
+        if (bounds) {
+            const range = ranges.get(bounds.key) || {};
+            for (const side of ["lower", "upper"] as const) {
+                const next = bounds[side];
+                if (!next) continue;
+                const current = range[side];
+                // An `equals` still pins the other side, so it is never reported as redundant
+                if (current && current.condition !== next.condition) {
+                    const [kept, dropped] = isTighter(next, current, side) ? [next, current] : [current, next];
+                    if (dropped.condition.operator !== "equals") {
+                        redundant.push(`${describeNode(dropped.condition)} is redundant next to ${describeNode(kept.condition)}`);
+                    }
+                    range[side] = kept;
+                } else {
+                    range[side] = next;
+                }
+            }
+            ranges.set(bounds.key, range);
+            if (isEmptyRange(range)) {
+                return `${describeNode(range.lower!.condition)} and ${describeNode(range.upper!.condition)} can't both be true`;
+            }
+            continue;
+        }
+
+        if (isBlank(leaf.value)) continue;
+        const value = String(leaf.value).trim().toLowerCase();
+
+        if (leaf.operator === "hasTag" || leaf.operator === "doesNotHaveTag") {
+            const entry = tags.get(value) || {};
+            if (leaf.operator === "hasTag") entry.has = leaf; else entry.hasNot = leaf;
+            tags.set(value, entry);
+            if (entry.has && entry.hasNot) return `${describeNode(entry.has)} and ${describeNode(entry.hasNot)} can't both be true`;
+            continue;
+        }
+
+        // Line-item fields hold one value per item, so two different `equals` can both pass
+        if (leaf.field.startsWith("product_") || (leaf.operator !== "equals" && leaf.operator !== "notEquals")) continue;
+        const key = constraintKey(leaf, "value");
+        if (leaf.operator === "equals") {
+            const other = equalsValues.get(key);
+            if (other && String(other.value).trim().toLowerCase() !== value) {
+                return `${describeNode(other)} and ${describeNode(leaf)} can't both be true`;
+            }
+            equalsValues.set(key, leaf);
+        } else {
+            notEqualsValues.set(key, [...(notEqualsValues.get(key) || []), leaf]);
+        }
+        const equals = equalsValues.get(key);
+        const excluded = equals && (notEqualsValues.get(key) || []).find(l => String(l.value).trim().toLowerCase() === String(equals.value).trim().toLowerCase());
+        if (equals && excluded) return `${describeNode(equals)} and ${describeNode(excluded)} can't both be true`;
+    }
+    return null;
+}
+
+// Why a node list can never match (null when it can), collecting redundant parts on the way
+function analyzeList(nodes: ConditionNode[], matchType: string, redundant: string[]): string | null {
+    const joiner = matchType === "ANY" ? "OR" : "AND";
+    const seen = new Set<string>();
+    for (const node of nodes) {
+        const key = canonicalNode(node);
+        if (seen.has(key)) redundant.push(`${describeNode(node)} appears twice in the same ${joiner} list`);
+        seen.add(key);
+    }
+
+    const groupReasons = nodes.map(node => isConditionGroup(node) ? analyzeList(node.conditions, node.matchType, redundant) : null);
+
+    if (matchType === "ANY") {
+        if (nodes.length === 0) return "an empty OR list never matches";
+        if (groupReasons.every(Boolean)) return groupReasons[0];
+        nodes.forEach((node, i) => {
+            if (groupReasons[i]) redundant.push(`${describeNode(node)} can never match (${groupReasons[i]}), so it never adds anything to its OR list`);
+        });
+        return null;
+    }
+
+    const groupReason = groupReasons.find(Boolean);
+    if (groupReason) return groupReason;
+    return analyzeAndLeaves(collectAndLeaves(nodes), redundant);
+}
+
+// Leaves of an AND list, including those of nested groups that also behave as AND
+// (ALL groups and single-node groups), so contradictions across them are caught
+function collectAndLeaves(nodes: ConditionNode[]): LeafCondition[] {
+    return nodes.flatMap(node => !isConditionGroup(node) ? [node]
+        : node.matchType !== "ANY" || node.conditions.length === 1 ? collectAndLeaves(node.conditions)
+        : []);
+}
+
+function toConditionNodes(conditions: AnalyzedRule["conditions"]): ConditionNode[] | null {
+    if (Array.isArray(conditions)) return conditions;
+    try {
+        return parseConditionNodes(conditions);
+    } catch {
+        return null;
+    }
+}
+
+// ─── Rule pairs ──────────────────────────────────────────────────────────────
+
+// Does calculateCustomerTags remove this rule's tag when the rule stops matching?
+const removesOnMismatch = (rule: AnalyzedRule, nodes: ConditionNode[]) =>
+    rule.targetEntity === "customer" && !flattenConditions(nodes).some(c => c.ruleCategory === "order");
+
+// Can the two target tags end up as the same tag in Shopify?
+function tagsOverlap(a: string, b: string): boolean {
+    const [aTemplate, bTemplate] = [isTagTemplate(a), isTagTemplate(b)];
+    if (aTemplate && bTemplate) return a.trim() === b.trim();
+    if (aTemplate) return tagMatchesTemplate(a, b);
+    if (bTemplate) return tagMatchesTemplate(b, a);
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+type PreparedRule = { rule: AnalyzedRule; nodes: ConditionNode[]; key: string; removes: boolean };
+
+function analyzePair(a: PreparedRule, b: PreparedRule): RuleWarning[] {
+    const pair = (kind: RuleWarningKind, severity: RuleWarning["severity"], messageFor: (self: AnalyzedRule, other: AnalyzedRule) => string): RuleWarning[] => [
+        { kind, severity, ruleId: a.rule.id, otherRuleId: b.rule.id, message: messageFor(a.rule, b.rule) },
+        { kind, severity, ruleId: b.rule.id, otherRuleId: a.rule.id, message: messageFor(b.rule, a.rule) }
+    ];
+
+    if (a.key === b.key) {
+        return a.rule.targetTag.trim().toLowerCase() === b.rule.targetTag.trim().toLowerCase()
+            ? pair("duplicate", "warning", (_, other) => `Duplicate of "${other.name}": same conditions and the same tag.`)
+            : pair("same_conditions", "info", (_, other) => `Same conditions as "${other.name}", which applies "${other.targetTag}". One rule with both tags' purpose may be simpler.`);
+    }
+
+    if (!tagsOverlap(a.rule.targetTag, b.rule.targetTag)) return [];
+
+    if (a.removes && b.removes) {
+        return pair("oscillation", "critical", (self, other) =>
+            `Tag flips on every sync: "${self.name}" and "${other.name}" both apply "${self.targetTag}" and each removes it when its own conditions fail. A customer matching only one of them gets it added and removed again.`);
+    }
+    if (a.removes || b.removes) {
+        const [remover, adder] = a.removes ? [a.rule, b.rule] : [b.rule, a.rule];
+        return pair("oscillation", "critical", () => isTagTemplate(remover.targetTag) && !isTagTemplate(adder.targetTag)
+            ? `Tag flips between syncs: "${adder.name}" adds "${adder.targetTag}", but "${remover.name}" treats it as a value of its template "${remover.targetTag}" and replaces or removes it.`
+            : `Tag flips between syncs: "${adder.name}" adds "${adder.targetTag}", but "${remover.name}" removes it whenever its own conditions fail.`);
+    }
+    return pair("tag_conflict", "warning", (_, other) =>
+        `"${other.name}" also applies "${other.targetTag}" under different conditions, so the tag can't tell the two rules apart.`);
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Every warning for a store's rules. Pair warnings are reported on both rules.
+ */
+export function analyzeRules(rules: AnalyzedRule[]): RuleWarning[] {
+    const warnings: RuleWarning[] = [];
+    const prepared: PreparedRule[] = [];
+
+    for (const rule of rules) {
+        const nodes = toConditionNodes(rule.conditions);
+        if (!nodes) continue;
+
+        const redundant: string[] = [];
+        const reason = analyzeList(nodes, rule.matchType, redundant);
+        if (reason) {
+            warnings.push({ kind: "never_matches", severity: "critical", ruleId: rule.id, message: `This rule can never match: ${reason}.` });
+        }
+        for (const detail of [...new Set(redundant)]) {
+            warnings.push({ kind: "redundant_condition", severity: "info", ruleId: rule.id, message: `${detail}.` });
+        }
+
+        if (rule.isActive) prepared.push({ rule, nodes, key: canonicalList(nodes, rule.matchType), removes: removesOnMismatch(rule, nodes) });
+    }
+
+    for (let i = 0; i < prepared.length; i++) {
+        for (let j = i + 1; j < prepared.length; j++) {
+            const [a, b] = [prepared[i], prepared[j]];
+            if (a.rule.targetEntity !== b.rule.targetEntity) continue;
+            const groupKey = getExclusiveGroupKey(a.rule);
+            if (groupKey && groupKey === getExclusiveGroupKey(b.rule)) continue;
+            warnings.push(...analyzePair(a, b));
+        }
+    }
+
+    return warnings;
+}
+
+/**
+ * Warnings for a rule being created or edited, checked against the store's other rules.
+ * Pass the rule's id when editing so its saved version is left out.
+ */
+export function analyzeDraftRule(
+    draft: Omit<AnalyzedRule, "id" | "isActive"> & { id?: string },
+    rules: AnalyzedRule[]
+): RuleWarning[] {
+    const id = draft.id || DRAFT_RULE_ID;
+    const others = rules.filter(r => r.id !== id);
+    return analyzeRules([{ ...draft, id, isActive: true }, ...others]).filter(w => w.ruleId === id);
+}
@@ -0,0 +1,449 @@
+/**
+ * rule-dsl.ts
+ *
+ * Text Rule Expression Language (safe to import from both server services and route
+ * components — no server-only dependencies).
+ *
+ * A rule's conditions written as text, for the builder's "Advanced" tab:
+ *
+ *   totalSpent > 500 AND (order.payment_method contains "cod" OR order.order_source contains "tiktok")
+ *
+ * parseRuleDsl() turns the text into Rule.conditions nodes plus Rule.matchType,
+ * printRuleDsl() turns them back. Both map 1:1 onto the stored JSON (see
+ * condition-tree.ts): printing and re-parsing a rule gives the same conditions.
+ *
+ * Grammar:
+ *
+ *   rule       := [prefix] list
+ *   list       := node (("AND" | "OR") node)*       one joiner per list → matchType ALL / ANY
+ *   node       := "(" [prefix] [list] ")"           a group
+ *               | condition
+ *   prefix     := ("ALL" | "ANY") ":"              matchType of a list with fewer than two nodes
+ *   condition  := ["customer."] field op value                                ruleCategory "metric"
+ *               | "order." field ["[any]" | "[all]"] op value                  ruleCategory "order"
+ *               | "history." aggregate "(" [sumField] ["where" filter] ")" op value
+ *   filter     := ["order."] field ["[any]" | "[all]"] op value
+ *   op         := ">" | "<" | "=" | "!=" | ">=" | "<=" | operator name (contains, withinLastDays, …)
+ *   value      := "quoted text" | number | true | false
+ *
+ * AND and OR can't be mixed in one list: `a AND b OR c` needs parentheses. Quoted values
+ * stay strings and bare numbers / booleans keep their type, so "500" and 500 round-trip
+ * as stored. Keywords and operator names are not case-sensitive.
+ */
+import type { ConditionNode, LeafCondition, MatchType } from "./condition-tree";
+import { isConditionGroup } from "./condition-tree";
+
+// Kept in sync with the builder's field lists (RuleBuilder.tsx) and the evaluators
+const CUSTOMER_FIELDS = [
+    "totalSpent", "orderCount", "averageOrderValue", "lastOrderDate", "firstOrderDate", "shopifyCreatedAt",
+    "emailDomain", "country", "province", "acceptsMarketing", "locale", "tags"
+];
+const ORDER_FIELDS = [
+    "order_source", "payment_method", "shipping_city", "shipping_country", "order_item_count", "order_subtotal",
+    "discount_code_used", "discount_code_value", "discount_percentage", "is_preorder",
+    "product_id", "product_sku", "product_vendor", "product_type", "product_tag", "product_collection"
+];
+const HISTORY_AGGREGATES = ["count", "sum", "distinctMonths", "ratio"];
+const HISTORY_SUM_FIELDS = ["order_subtotal", "order_item_count"];
+
+const CUSTOMER_OPERATORS = [
+    "greaterThan", "lessThan", "equals", "notEquals", "contains", "isBefore", "isAfter",
+    "withinLastDays", "moreThanDaysAgo", "betweenDaysAgo", "hasTag", "doesNotHaveTag"
+];
+const ORDER_OPERATORS = ["greaterThan", "lessThan", "equals", "notEquals", "contains"];
+const HISTORY_OPERATORS = ["atLeast", "atMost", "greaterThan", "lessThan", "equals"];
+
+const SYMBOL_OPERATORS: Record<string, string> = {
+    ">": "greaterThan", "<": "lessThan", "=": "equals", "!=": "notEquals", ">=": "atLeast", "<=": "atMost"
+};
+const OPERATOR_SYMBOLS = Object.fromEntries(Object.entries(SYMBOL_OPERATORS).map(([symbol, operator]) => [operator, symbol]));
+const OPERATOR_NAMES = [...new Set([...CUSTOMER_OPERATORS, ...ORDER_OPERATORS, ...HISTORY_OPERATORS])];
+
+// Printed rules longer than this put every root condition on its own line
+const MAX_LINE_LENGTH = 80;
+
+export type RuleDslError = {
+    message: string;
+    line: number;
+    column: number;
+};
+
+export function formatRuleDslError(error: RuleDslError): string {
+    return `Line ${error.line}, column ${error.column}: ${error.message}`;
+}
+
+// ─── Tokenizer ───────────────────────────────────────────────────────────────
+
+type TokenType = "word" | "string" | "number" | "symbol" | "end";
+
+type Token = {
+    type: TokenType;
+    text: string;
+    // Decoded value of string tokens
+    value?: string;
+    line: number;
+    column: number;
+};
+
+class DslSyntaxError extends Error {
+    constructor(message: string, readonly line: number, readonly column: number) {
+        super(message);
+    }
+}
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    let line = 1;
+    let column = 1;
+
+    const advance = (count: number) => {
+        for (let n = 0; n < count; n++) {
+            if (text[i] === "\n") { line++; column = 1; } else column++;
+            i++;
+        }
+    };
+
+    while (i < text.length) {
+        const char = text[i];
+        if (/\s/.test(char)) { advance(1); continue; }
+        const start = { line, column };
+
+        if (char === "\"") {
+            let value = "";
+            let j = i + 1;
+            while (j < text.length && text[j] !== "\"") {
+                if (text[j] === "\n") throw new DslSyntaxError("Unterminated text value: add the closing \"", start.line, start.column);
+                if (text[j] === "\\" && j + 1 < text.length) {
+                    const escaped = text[j + 1];
+                    value += escaped === "n" ? "\n" : escaped;
+                    j += 2;
+                } else {
+                    value += text[j++];
+                }
+            }
+            if (j >= text.length) throw new DslSyntaxError("Unterminated text value: add the closing \"", start.line, start.column);
+            tokens.push({ type: "string", text: text.slice(i, j + 1), value, ...start });
+            advance(j + 1 - i);
+            continue;
+        }
+
+        // Read up to the end of the token, so 1e3 or 5abc is reported as one invalid number
+        const number = /^-?\d[\w.]*/.exec(text.slice(i));
+        if (number) {
+            if (!/^-?\d+(\.\d+)?$/.test(number[0])) {
+                throw new DslSyntaxError(`Invalid number "${number[0]}": use digits with an optional decimal point, e.g. 500 or 12.5`, start.line, start.column);
+            }
+            tokens.push({ type: "number", text: number[0], ...start });
+            advance(number[0].length);
+            continue;
+        }
+
+        const word = /^[A-Za-z_][\w]*/.exec(text.slice(i));
+        if (word) {
+            tokens.push({ type: "word", text: word[0], ...start });
+            advance(word[0].length);
+            continue;
+        }
+
+        const symbol = /^(>=|<=|!=|[><=():.[\]])/.exec(text.slice(i));
+        if (symbol) {
+            tokens.push({ type: "symbol", text: symbol[0], ...start });
+            advance(symbol[0].length);
+            continue;
+        }
+
+        throw new DslSyntaxError(`Unexpected character "${char}"`, start.line, start.column);
+    }
+
+    tokens.push({ type: "end", text: "", line, column });
+    return tokens;
+}
+
+// ─── Parser ──────────────────────────────────────────────────────────────────
+
+class Parser {
+    private position = 0;
+
+    constructor(private readonly tokens: Token[]) {}
+
+    private peek(offset = 0): Token {
+        return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)];
+    }
+
+    private next(): Token {
+        const token = this.peek();
+        if (token.type !== "end") this.position++;
+        return token;
+    }
+
+    private fail(message: string, token: Token = this.peek()): never {
+        throw new DslSyntaxError(message, token.line, token.column);
+    }
+
+    private describe(token: Token): string {
+        return token.type === "end" ? "the end of the rule" : `"${token.text}"`;
+    }
+
+    private isSymbol(text: string, offset = 0): boolean {
+        const token = this.peek(offset);
+        return token.type === "symbol" && token.text === text;
+    }
+
+    private isKeyword(keyword: string, offset = 0): boolean {
+        const token = this.peek(offset);
+        return token.type === "word" && token.text.toUpperCase() === keyword;
+    }
+
+    private expectSymbol(text: string, context: string): Token {
+        if (!this.isSymbol(text)) this.fail(`Expected "${text}" ${context}, found ${this.describe(this.peek())}`);
+        return this.next();
+    }
+
+    private expectWord(context: string): Token {
+        const token = this.peek();
+        if (token.type !== "word") this.fail(`Expected ${context}, found ${this.describe(token)}`);
+        return this.next();
+    }
+
+    parseRule(): { conditions: ConditionNode[]; matchType: MatchType } {
+        const list = this.parseList(true);
+        const token = this.peek();
+        if (token.type !== "end") {
+            this.fail(token.text === ")" ? "Unmatched \")\"" : `Expected AND, OR or the end of the rule, found ${this.describe(token)}`);
+        }
+        return list;
+    }
+
+    private parseList(isRoot: boolean): { conditions: ConditionNode[]; matchType: MatchType } {
+        let prefix: { matchType: MatchType; token: Token } | null = null;
+        if ((this.isKeyword("ALL") || this.isKeyword("ANY")) && this.isSymbol(":", 1)) {
+            const token = this.next();
+            this.next();
+            prefix = { matchType: token.text.toUpperCase() as MatchType, token };
+        }
+
+        const closesList = () => this.peek().type === "end" || (!isRoot && this.isSymbol(")"));
+        if (closesList()) return { conditions: [], matchType: prefix?.matchType ?? "ALL" };
+
+        const conditions: ConditionNode[] = [this.parseNode()];
+        let joiner: { keyword: string; token: Token } | null = null;
+
+        while (this.isKeyword("AND") || this.isKeyword("OR")) {
+            const token = this.next();
+            const keyword = token.text.toUpperCase();
+            if (joiner && joiner.keyword !== keyword) {
+                this.fail(`Can't mix AND and OR in one list (line ${joiner.token.line} uses ${joiner.keyword}). Add parentheses to group the conditions`, token);
+            }
+            joiner = joiner ?? { keyword, token };
+            conditions.push(this.parseNode());
+        }
+
+        const matchType: MatchType = joiner ? (joiner.keyword === "OR" ? "ANY" : "ALL") : prefix?.matchType ?? "ALL";
+        if (prefix && joiner && prefix.matchType !== matchType) {
+            this.fail(`${prefix.matchType}: contradicts the ${joiner.keyword} joining this list`, prefix.token);
+        }
+        return { conditions, matchType };
+    }
+
+    private parseNode(): ConditionNode {
+        if (this.isSymbol("(")) {
+            const open = this.next();
+            const group = this.parseList(false);
+            if (!this.isSymbol(")")) {
+                const token = this.peek();
+                this.fail(token.type === "end"
+                    ? `Missing ")" for the "(" at line ${open.line}, column ${open.column}`
+                    : `Expected AND, OR or ")", found ${this.describe(token)}`);
+            }
+            this.next();
+            return { type: "group", matchType: group.matchType, conditions: group.conditions };
+        }
+        return this.parseCondition();
+    }
+
+    // `scope.` prefix of a field, if any
+    private parseScope(): string | null {
+        if (this.peek().type === "word" && this.isSymbol(".", 1)) {
+            const scope = this.peek().text;
+            if (["customer", "order", "history"].includes(scope)) {
+                this.next();
+                this.next();
+                return scope;
+            }
+            this.fail(`Unknown scope "${scope}". Use customer., order. or history.`);
+        }
+        return null;
+    }
+
+    private parseCondition(): LeafCondition {
+        const start = this.peek();
+        if (start.type !== "word") this.fail(`Expected a condition, found ${this.describe(start)}`);
+        const scope = this.parseScope();
+
+        if (scope === "history") return this.parseHistoryCondition();
+        if (scope === "order") {
+            const { field, itemMatch } = this.parseOrderField();
+            const { operator, value } = this.parseComparison(ORDER_OPERATORS, "order conditions");
+            return { ruleCategory: "order", field, operator, value, ...(itemMatch ? { itemMatch } : {}) };
+        }
+
+        const fieldToken = this.expectWord("a customer field");
+        const field = fieldToken.text;
+        if (!CUSTOMER_FIELDS.includes(field)) {
+            this.fail(ORDER_FIELDS.includes(field)
+                ? `"${field}" is an order field: write order.${field}`
+                : `Unknown customer field "${field}". Known fields: ${CUSTOMER_FIELDS.join(", ")}`, fieldToken);
+        }
+        const { operator, value } = this.parseComparison(CUSTOMER_OPERATORS, "customer conditions");
+        return { ruleCategory: "metric", field, operator, value };
+    }
+
+    private parseOrderField(): { field: string; itemMatch?: "any" | "all" } {
+        const fieldToken = this.expectWord("an order field");
+        if (!ORDER_FIELDS.includes(fieldToken.text)) {
+            this.fail(`Unknown order field "${fieldToken.text}". Known fields: ${ORDER_FIELDS.join(", ")}`, fieldToken);
+        }
+        if (!this.isSymbol("[")) return { field: fieldToken.text };
+
+        const open = this.next();
+        if (!fieldToken.text.startsWith("product_")) this.fail(`[any] / [all] only apply to product_* fields`, open);
+        const matchToken = this.expectWord("any or all");
+        const itemMatch = matchToken.text.toLowerCase();
+        if (itemMatch !== "any" && itemMatch !== "all") this.fail(`Expected any or all, found "${matchToken.text}"`, matchToken);
+        this.expectSymbol("]", "after the line item match");
+        return { field: fieldToken.text, itemMatch: itemMatch as "any" | "all" };
+    }
+
+    private parseHistoryCondition(): LeafCondition {
+        const aggregateToken = this.expectWord("a history measure");
+        if (!HISTORY_AGGREGATES.includes(aggregateToken.text)) {
+            this.fail(`Unknown history measure "${aggregateToken.text}". Use ${HISTORY_AGGREGATES.join(", ")}`, aggregateToken);
+        }
+        const field = aggregateToken.text;
+        this.expectSymbol("(", `after history.${field}`);
+
+        let sumField: string | undefined;
+        if (this.peek().type === "word" && !this.isKeyword("WHERE")) {
+            const sumToken = this.next();
+            if (field !== "sum") this.fail(`Only history.sum takes a field to sum`, sumToken);
+            if (!HISTORY_SUM_FIELDS.includes(sumToken.text)) {
+                this.fail(`Can't sum "${sumToken.text}". Use ${HISTORY_SUM_FIELDS.join(" or ")}`, sumToken);
+            }
+            sumField = sumToken.text;
+        }
+
+        let filter: LeafCondition | undefined;
+        if (this.isKeyword("WHERE")) {
+            this.next();
+            if (this.isKeyword("ORDER") && this.isSymbol(".", 1)) {
+                this.next();
+                this.next();
+            }
+            const { field: filterField, itemMatch } = this.parseOrderField();
+            const { operator, value } = this.parseComparison(ORDER_OPERATORS, "history filters");
+            filter = { field: filterField, operator, value, ...(itemMatch ? { itemMatch } : {}) };
+        }
+
+        this.expectSymbol(")", `to close history.${field}(`);
+        const { operator, value } = this.parseComparison(HISTORY_OPERATORS, "history conditions");
+        return {
+            ruleCategory: "history", field, operator, value,
+            ...(sumField ? { sumField } : {}),
+            ...(filter ? { filter } : {})
+        };
+    }
+
+    private parseComparison(allowed: string[], context: string): { operator: string; value: string | number | boolean } {
+        const token = this.peek();
+        let operator: string | undefined;
+
+        if (token.type === "symbol" && SYMBOL_OPERATORS[token.text]) {
+            operator = SYMBOL_OPERATORS[token.text];
+        } else if (token.type === "word") {
+            operator = OPERATOR_NAMES.find(name => name.toLowerCase() === token.text.toLowerCase());
+        }
+        if (!operator) this.fail(`Expected an operator (>, <, =, !=, >=, <= or a name like contains), found ${this.describe(token)}`);
+        if (!allowed.includes(operator)) {
+            const symbol = OPERATOR_SYMBOLS[operator];
+            this.fail(`${symbol ? `"${symbol}" (${operator})` : `"${operator}"`} can't be used in ${context}. Use ${allowed.map(o => OPERATOR_SYMBOLS[o] || o).join(", ")}`, token);
+        }
+        this.next();
+        return { operator, value: this.parseValue() };
+    }
+
+    private parseValue(): string | number | boolean {
+        const token = this.peek();
+        if (token.type === "string") { this.next(); return token.value ?? ""; }
+        if (token.type === "number") { this.next(); return Number(token.text); }
+        if (token.type === "word" && ["true", "false"].includes(token.text.toLowerCase())) {
+            this.next();
+            return token.text.toLowerCase() === "true";
+        }
+        this.fail(token.type === "word"
+            ? `Expected a value, found ${this.describe(token)}. Put text values in quotes: "${token.text}"`
+            : `Expected a value, found ${this.describe(token)}`);
+    }
+}
+
+/**
+ * Parse rule text into Rule.conditions nodes and Rule.matchType.
+ * Errors carry the 1-based line and column of the offending token.
+ */
+export function parseRuleDsl(text: string): { conditions: ConditionNode[]; matchType: MatchType } | { error: RuleDslError } {
+    try {
+        return new Parser(tokenize(text)).parseRule();
+    } catch (err) {
+        if (err instanceof DslSyntaxError) return { error: { message: err.message, line: err.line, column: err.column } };
+        throw err;
+    }
+}
+
+// ─── Pretty-printer ──────────────────────────────────────────────────────────
+
+function printValue(value: unknown): string {
+    if (typeof value === "number" && isFinite(value)) return String(value);
+    if (typeof value === "boolean") return String(value);
+    return `"${String(value ?? "").replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n")}"`;
+}
+
+function printComparison(operator: string, value: unknown): string {
+    return `${OPERATOR_SYMBOLS[operator] || operator} ${printValue(value)}`;
+}
+
+function printItemMatch(condition: LeafCondition): string {
+    return condition.itemMatch ? `[${condition.itemMatch}]` : "";
+}
+
+function printLeaf(condition: LeafCondition): string {
+    if (condition.ruleCategory === "order") {
+        return `order.${condition.field}${printItemMatch(condition)} ${printComparison(condition.operator, condition.value)}`;
+    }
+    if (condition.ruleCategory === "history") {
+        const args = [
+            condition.sumField || "",
+            condition.filter ? `where order.${condition.filter.field}${printItemMatch(condition.filter)} ${printComparison(condition.filter.operator, condition.filter.value)}` : ""
+        ].filter(Boolean).join(" ");
+        return `history.${condition.field}(${args}) ${printComparison(condition.operator, condition.value)}`;
+    }
+    // Metric conditions, including legacy leaves saved without a ruleCategory
+    return `${condition.field} ${printComparison(condition.operator, condition.value)}`;
+}
+
+function printList(nodes: ConditionNode[], matchType: string, separator: string): string {
+    // With fewer than two nodes there's no joiner to tell ANY from ALL
+    const prefix = nodes.length < 2 && matchType === "ANY" ? "ANY: " : "";
+    const joiner = matchType === "ANY" ? "OR " : "AND ";
+    return prefix + nodes
+        .map(node => isConditionGroup(node) ? `(${printList(node.conditions, node.matchType, " ")})` : printLeaf(node))
+        .join(separator + joiner);
+}
+
+/**
+ * Print Rule.conditions and Rule.matchType as rule text (see parseRuleDsl).
+ * Long rules put each root-level condition or group on its own line.
+ */
+export function printRuleDsl(conditions: ConditionNode[], matchType: string): string {
+    const oneLine = printList(conditions, matchType, " ");
+    return oneLine.length <= MAX_LINE_LENGTH ? oneLine : printList(conditions, matchType, "\n");
+}
@@ -0,0 +1,60 @@
+/**
+ * rule-exclusions.server.ts
+ *
+ * Suppressed Match Logging (Additive Module)
+ *
+ * Writes the matches that a rule's exclusion lists held back (see rule-exclusions.ts)
+ * to the customer's timeline as TAG_SUPPRESSED ActivityLog entries. Every sync
+ * re-evaluates excluded customers, so a suppression is logged once per customer, rule
+ * and tag; later syncs that reach the same result add nothing.
+ */
+import db from "../db.server";
+
+export type SuppressedMatch = {
+    tag: string;
+    reason: string;
+    ruleId: string;
+    ruleVersionId?: string | null;
+    trace?: string | null;
+};
+
+export async function recordSuppressedMatches(
+    storeId: string,
+    customerId: string,
+    matches: SuppressedMatch[],
+    // Reason prefix, e.g. "[Historical Sync]"
+    source?: string
+): Promise<void> {
+    if (!customerId || customerId === "guest") return;
+
+    const logged = new Set<string>();
+    for (const match of matches) {
+        const key = `${match.ruleId}:${match.tag.toLowerCase()}`;
+        if (logged.has(key)) continue;
+        logged.add(key);
+
+        try {
+            const existing = await db.activityLog.findFirst({
+                where: { storeId, customerId, ruleId: match.ruleId, action: "TAG_SUPPRESSED", tagContext: match.tag },
+                select: { id: true }
+            });
+            if (existing) continue;
+
+            await db.activityLog.create({
+                data: {
+                    storeId,
+                    customerId,
+                    action: "TAG_SUPPRESSED",
+                    tagContext: match.tag,
+                    reason: source ? `${source} ${match.reason}` : match.reason,
+                    ruleId: match.ruleId,
+                    ruleVersionId: match.ruleVersionId ?? null,
+                    trace: match.trace ?? null
+                }
+            });
+        } catch (err: any) {
+            // e.g. the customer row doesn't exist locally yet
+            console.error(`[RULE_EXCLUSIONS] Failed to log suppressed match for customer ${customerId}:`, err.message);
+        }
+    }
+}
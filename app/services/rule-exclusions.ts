@@ -0,0 +1,118 @@
+/**
+ * rule-exclusions.ts
+ *
+ * Rule Exclusion Lists (shared by server services and route components — no
+ * server-only dependencies).
+ *
+ * Keeps staff, wholesale and test customers out of a rule, whatever its conditions say:
+ *
+ *   excludeCustomerIds     "6100000001,6100000002" — Shopify customer IDs (GIDs are accepted)
+ *   excludeEmailPatterns   "*@mystore.com,test+*" — * matches any text; "@mystore.com" is a domain
+ *   excludeTags            "staff,wholesale" — the customer, or the order being evaluated, has any of them
+ *
+ * Lists are stored comma-separated. calculateCustomerTags and evaluateOrderRules skip an
+ * excluded customer / order entirely: the rule neither adds nor removes its tag there.
+ * A match an exclusion held back is reported as a suppressed match and logged as
+ * TAG_SUPPRESSED on the customer's timeline (see rule-exclusions.server.ts).
+ */
+
+export type RuleExclusions = {
+    excludeCustomerIds: string | null;
+    excludeEmailPatterns: string | null;
+    excludeTags: string | null;
+};
+
+// What exclusions are checked against; tags of the order are added when evaluating one
+export type ExclusionSubject = {
+    id?: string | number | null;
+    email?: string | null;
+    tags: string[];
+};
+
+/**
+ * Split a list typed as commas or one entry per line, dropping blanks and duplicates.
+ */
+export function parseExclusionList(value: string | null | undefined): string[] {
+    const seen = new Set<string>();
+    return (value || "").split(/[,\n]/).map(v => v.trim()).filter(v => {
+        const key = v.toLowerCase();
+        if (!v || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+// "gid://shopify/Customer/123" and 123 both become "123"
+export function normalizeCustomerId(id: string | number | null | undefined): string {
+    return String(id ?? "").trim().split("/").pop() || "";
+}
+
+export function hasExclusions(rule: RuleExclusions): boolean {
+    return parseExclusionList(rule.excludeCustomerIds).length > 0
+        || parseExclusionList(rule.excludeEmailPatterns).length > 0
+        || parseExclusionList(rule.excludeTags).length > 0;
+}
+
+/**
+ * Case-insensitive email match: "*" matches any text, a pattern starting with "@" matches
+ * the whole domain, anything else must equal the email.
+ */
+export function matchesEmailPattern(email: string, pattern: string): boolean {
+    const value = email.trim().toLowerCase();
+    const wanted = pattern.trim().toLowerCase();
+    if (!value || !wanted) return false;
+    if (wanted.startsWith("@") && !wanted.includes("*")) return value.endsWith(wanted);
+    if (!wanted.includes("*")) return value === wanted;
+    const regex = new RegExp(`^${wanted.split("*").map(part => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join(".*")}$`);
+    return regex.test(value);
+}
+
+/**
+ * Why `subject` is excluded from `rule` (e.g. `tag "staff" is excluded`), or null.
+ */
+export function findRuleExclusion(rule: RuleExclusions, subject: ExclusionSubject): string | null {
+    const id = normalizeCustomerId(subject.id);
+    if (id && parseExclusionList(rule.excludeCustomerIds).some(excluded => normalizeCustomerId(excluded) === id)) {
+        return `customer ${id} is excluded`;
+    }
+
+    const email = subject.email || "";
+    const pattern = email ? parseExclusionList(rule.excludeEmailPatterns).find(p => matchesEmailPattern(email, p)) : undefined;
+    if (pattern) return `email ${email} matches the exclusion "${pattern}"`;
+
+    const tags = new Set(subject.tags.map(t => t.trim().toLowerCase()));
+    const tag = parseExclusionList(rule.excludeTags).find(t => tags.has(t.toLowerCase()));
+    if (tag) return `tag "${tag}" is excluded`;
+
+    return null;
+}
+
+/**
+ * Exclusion subject for a customer row or a webhook / GraphQL customer payload, whose
+ * tags may be "a, b" or an array. `extraTags` are the order's tags for order evaluation.
+ */
+export function toExclusionSubject(customer: { id?: string | number | null; email?: string | null; tags?: unknown } | null | undefined, extraTags: string[] = []): ExclusionSubject {
+    const rawTags = customer?.tags;
+    const tags = Array.isArray(rawTags)
+        ? rawTags.map(String)
+        : String(rawTags || "").split(",");
+    return {
+        id: customer?.id,
+        email: customer?.email,
+        tags: [...tags, ...extraTags].map(t => t.trim()).filter(Boolean)
+    };
+}
+
+/**
+ * The exclusions in words, e.g. "2 customers · *@mystore.com · tags staff, wholesale".
+ */
+export function describeExclusions(rule: RuleExclusions): string {
+    const ids = parseExclusionList(rule.excludeCustomerIds);
+    const emails = parseExclusionList(rule.excludeEmailPatterns);
+    const tags = parseExclusionList(rule.excludeTags);
+    const parts: string[] = [];
+    if (ids.length > 0) parts.push(`${ids.length} customer${ids.length === 1 ? "" : "s"}`);
+    if (emails.length > 0) parts.push(emails.join(", "));
+    if (tags.length > 0) parts.push(`tag${tags.length === 1 ? "" : "s"} ${tags.join(", ")}`);
+    return parts.join(" · ") || "None";
+}
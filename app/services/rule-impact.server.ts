@@ -0,0 +1,215 @@
+/**
+ * rule-impact.server.ts
+ *
+ * Before an edited rule is saved, previewRuleImpact() evaluates the new definition
+ * against the locally stored customers (and orders, once the store's order backfill
+ * finished) and compares the result with the tags they carry today:
+ *
+ *   wouldGain         match the new definition but don't carry the tag yet
+ *   wouldLose         carry the tag but no longer match — removed on the next sync
+ *                     (customer rules without order conditions only)
+ *   keptWithoutMatch  carry the tag and no longer match, but keep it: rules with order
+ *                     conditions only ever add tags
+ *   renamed           carry the old tag of a renamed targetTag and get the new one
+ *                     (only when the merchant chose to migrate tags)
+ *
+ * Exclusive groups and expiry windows are not applied, so the counts are an upper bound
+ * for rules that use them. renameRuleTag() performs that migration after the save.
+ */
+import type { Rule, Customer } from "@prisma/client";
+import db from "../db.server";
+import type { ParsedRuleForm } from "../components/RuleBuilder";
+import { evaluateRule, getCustomerTemplateValues } from "./rule.server";
+import { matchOrderRule } from "./order-rules.server";
+import { hasOrderConditions } from "./condition-tree";
+import { isTagTemplate, renderTagTemplate, findTemplateTags } from "./tag-template";
+import { getOrderProductIds, rulesNeedProductDetails } from "./order-data.server";
+import { hasHistoryConditions, buildOrderHistory } from "./purchase-history.server";
+import { hasLocalOrders, getLocalOrderPayloads, splitList } from "./order-store.server";
+import type { LocalOrderPayload } from "./order-store.server";
+import { fetchProductDetails } from "./shopify-helpers.server";
+import { manageCustomerTagsBatch, manageOrderTagsBatch } from "./tags.server";
+import type { BulkProgress } from "./bulk-operations.server";
+
+export type RuleImpact = {
+    entity: "customer" | "order";
+    evaluated: number;
+    wouldGain: number;
+    wouldLose: number;
+    keptWithoutMatch: number;
+    unchanged: number;
+    renamed: number;
+    // Set when the preview can't be computed (e.g. orders not stored locally yet)
+    unavailable?: string;
+};
+
+// Stand-in for guest checkouts, as in the historical sync
+const GUEST_CUSTOMER = { id: "guest", totalSpent: 0, orderCount: 0, tags: "" } as unknown as Customer;
+
+/**
+ * The rule as it would be saved: the submitted fields on top of the current rule
+ * (or defaults for a rule that doesn't exist yet).
+ */
+export function toDraftRule(storeId: string, data: ParsedRuleForm, current?: Rule | null): Rule {
+    const now = new Date();
+    return {
+        id: current?.id ?? "draft",
+        storeId,
+        collectionId: null,
+        collectionName: null,
+        isActive: true,
+        lastSyncCompletedAt: null,
+        currentVersionId: null,
+        createdAt: now,
+        updatedAt: now,
+        ...current,
+        ...data
+    };
+}
+
+/**
+ * Compare `draft` with the tags the store's customers / orders carry today.
+ * `renameFrom` is the current targetTag when tags are migrated to the new name.
+ */
+export async function previewRuleImpact(admin: any, storeId: string, draft: Rule, renameFrom?: string | null): Promise<RuleImpact> {
+    const entity = draft.targetEntity === "order" ? "order" : "customer";
+    const impact: RuleImpact = { entity, evaluated: 0, wouldGain: 0, wouldLose: 0, keptWithoutMatch: 0, unchanged: 0, renamed: 0 };
+
+    const usesOrders = hasOrderConditions(draft.conditions);
+    const usesHistory = hasHistoryConditions(draft.conditions);
+    const templated = isTagTemplate(draft.targetTag);
+    const renaming = !!renameFrom && renameFrom !== draft.targetTag;
+
+    // `matchedTag` is the tag the entity gets under the draft (null: no match)
+    const tally = (matchedTag: string | null, tags: string[]) => {
+        impact.evaluated++;
+        const oldTags = renaming ? findTemplateTags(renameFrom!, tags) : [];
+        if (oldTags.length > 0) impact.renamed++;
+
+        const held = [...findTemplateTags(draft.targetTag, tags), ...oldTags];
+        const holdsMatchedTag = !!matchedTag && (templated
+            ? tags.some(t => t.toLowerCase() === matchedTag.toLowerCase())
+            : held.length > 0);
+
+        if (matchedTag && !holdsMatchedTag) impact.wouldGain++;
+        else if (!matchedTag && held.length > 0) {
+            if (usesOrders) impact.keptWithoutMatch++;
+            else impact.wouldLose++;
+        } else impact.unchanged++;
+    };
+
+    if ((usesOrders || usesHistory) && !(await hasLocalOrders(storeId))) {
+        return { ...impact, unavailable: "Orders aren't stored locally yet. Run a historical sync once to preview rules with order or purchase-history conditions." };
+    }
+
+    const customers = await db.customer.findMany({ where: { storeId } });
+    const orders: LocalOrderPayload[] = usesOrders || usesHistory ? await getLocalOrderPayloads(storeId) : [];
+    const productDetails = rulesNeedProductDetails([draft])
+        ? await fetchProductDetails(admin, orders.flatMap(getOrderProductIds))
+        : undefined;
+
+    const ordersByCustomer = new Map<string, LocalOrderPayload[]>();
+    for (const order of orders) {
+        const customerId = order.customer?.id;
+        if (customerId) ordersByCustomer.set(customerId, [...(ordersByCustomer.get(customerId) || []), order]);
+    }
+    const historyOf = (customerId: string) => usesHistory
+        ? buildOrderHistory(ordersByCustomer.get(customerId) || [], productDetails)
+        : undefined;
+
+    if (entity === "order") {
+        const customerMap = new Map(customers.map(c => [c.id, c]));
+        const histories = new Map<string, ReturnType<typeof buildOrderHistory> | undefined>();
+        for (const order of orders) {
+            const customer = (order.customer?.id && customerMap.get(order.customer.id)) || GUEST_CUSTOMER;
+            if (usesHistory && !histories.has(customer.id)) histories.set(customer.id, historyOf(customer.id));
+            tally(matchOrderRule(order, customer, draft, productDetails, histories.get(customer.id)), order.tags);
+        }
+        return impact;
+    }
+
+    for (const customer of customers) {
+        const tags = splitList(customer.tags);
+        const history = historyOf(customer.id);
+        let matchedTag: string | null = null;
+
+        if (usesOrders) {
+            // Customer rules with order conditions qualify through any of the customer's orders
+            for (const order of ordersByCustomer.get(customer.id) || []) {
+                matchedTag = matchOrderRule(order, customer, draft, productDetails, history);
+                if (matchedTag) break;
+            }
+        } else if (evaluateRule(customer, draft, history).isMatch) {
+            matchedTag = templated ? renderTagTemplate(draft.targetTag, getCustomerTemplateValues(customer)) : draft.targetTag;
+        }
+
+        tally(matchedTag, tags);
+    }
+
+    return impact;
+}
+
+// Customers / orders renamed per batch; the job saves its checkpoint after each
+const RENAME_BATCH_SIZE = 250;
+
+// Where a rename stopped: the last customer / order id done, and how many were renamed
+export type TagRenameCheckpoint = { cursor: string | null; renamed: number };
+
+/**
+ * Move `oldTag` to the rule's current targetTag on every customer (or stored order)
+ * that carries it, RENAME_BATCH_SIZE at a time in id order, starting after `resumeFrom`.
+ * Only what Shopify applied is logged and mirrored locally. A rename tags nobody new,
+ * so it isn't counted against the monthly limits. Runs as a TAG_RENAME job (see
+ * enqueueTagRenameJob), which gets each checkpoint through `onBatch` and refreshes its
+ * heartbeat through `onBulkProgress` while a batch runs as bulk mutations.
+ * @returns the number of customers / orders renamed
+ */
+export async function renameRuleTag(
+    admin: any,
+    storeId: string,
+    rule: Rule,
+    oldTag: string,
+    { resumeFrom, onBatch, onBulkProgress }: {
+        resumeFrom?: TagRenameCheckpoint | null;
+        onBatch?: (checkpoint: TagRenameCheckpoint) => Promise<void>;
+        onBulkProgress?: BulkProgress;
+    } = {}
+): Promise<number> {
+    const newTag = rule.targetTag;
+    const reason = `Tag renamed from "${oldTag}" to "${newTag}" (rule "${rule.name}")`;
+    const isOrder = rule.targetEntity === "order";
+    let { cursor, renamed } = resumeFrom ?? { cursor: null, renamed: 0 };
+
+    for (;;) {
+        const where = { storeId, tags: { contains: oldTag }, ...(cursor ? { id: { gt: cursor } } : {}) };
+        const rows: { id: string; customerId: string | null; tags: string | null }[] = isOrder
+            ? await db.order.findMany({ where, select: { id: true, customerId: true, tags: true }, orderBy: { id: "asc" }, take: RENAME_BATCH_SIZE })
+            : (await db.customer.findMany({ where, select: { id: true, tags: true }, orderBy: { id: "asc" }, take: RENAME_BATCH_SIZE }))
+                .map(c => ({ ...c, customerId: c.id }));
+        if (rows.length === 0) break;
+        cursor = rows[rows.length - 1].id;
+
+        const carrying = rows.filter(r => splitList(r.tags).includes(oldTag));
+        const rename = { tagsToAdd: [newTag], tagsToRemove: [oldTag] };
+        const results = isOrder
+            ? await manageOrderTagsBatch(admin, storeId, carrying.map(r => ({ orderId: r.id, ...rename })), onBulkProgress)
+            : await manageCustomerTagsBatch(admin, storeId, carrying.map(r => ({ customerId: r.id, ...rename })), onBulkProgress);
+
+        const logs = carrying.flatMap((row, i) => {
+            const { tagsAdded, tagsRemoved } = results[i];
+            if (!row.customerId) return [];
+            const base = { storeId, customerId: row.customerId, reason, ruleId: rule.id, ruleVersionId: rule.currentVersionId };
+            return [
+                ...tagsRemoved.map(tag => ({ ...base, action: "TAG_REMOVED", tagContext: tag })),
+                ...tagsAdded.map(tag => ({ ...base, action: "TAG_ADDED", tagContext: tag }))
+            ];
+        });
+        if (logs.length > 0) await db.activityLog.createMany({ data: logs });
+        renamed += results.filter(r => r.success).length;
+
+        await onBatch?.({ cursor, renamed });
+    }
+
+    console.log(`[RULE_EDIT] Rule ${rule.id}: "${oldTag}" renamed to "${newTag}" on ${renamed} ${rule.targetEntity}s`);
+    return renamed;
+}
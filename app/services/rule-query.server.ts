@@ -0,0 +1,117 @@
+/**
+ * rule-query.server.ts
+ *
+ * Metric Rule → Database Query Compiler (Additive Module)
+ *
+ * Compiles pure metric customer rules into Prisma `Customer` where filters, so the
+ * historical sync can find the customers whose tags would change with one query per
+ * rule instead of evaluating every customer in JS (see processCustomersInBulk in
+ * queue.server.ts).
+ *
+ * A filter must select exactly the customers evaluateCondition (rule.server.ts)
+ * matches, so only conditions with the same semantics in SQL are compiled:
+ *
+ *   totalSpent, orderCount                          greaterThan, lessThan, equals, notEquals
+ *   lastOrderDate, firstOrderDate, shopifyCreatedAt isBefore, isAfter, withinLastDays,
+ *                                                   moreThanDaysAgo, betweenDaysAgo
+ *
+ * Everything else stays on the per-customer path: case-insensitive text comparisons,
+ * tag conditions, derived fields (emailDomain, averageOrderValue), order and
+ * purchase-history conditions, tag templates and exclusive groups. Exclusion lists
+ * (see rule-exclusions.ts) are applied by the JS re-evaluation of the customers the
+ * filters pick out.
+ */
+import type { Prisma, Rule } from "@prisma/client";
+import { parseConditionNodes, isConditionGroup, resolveRelativeDateRange } from "./condition-tree";
+import type { ConditionNode, LeafCondition } from "./condition-tree";
+import { isTagTemplate } from "./tag-template";
+import { getExclusiveGroupKey } from "./exclusive-groups";
+
+export type CompiledRule = {
+    rule: Rule;
+    where: Prisma.CustomerWhereInput;
+};
+
+const NUMBER_FIELDS = ["totalSpent", "orderCount"];
+const DATE_FIELDS = ["lastOrderDate", "firstOrderDate", "shopifyCreatedAt"];
+
+// Matches no customer (an empty ANY list)
+const NO_CUSTOMER: Prisma.CustomerWhereInput = { id: { in: [] } };
+
+function compileNumberCondition(field: string, operator: string, value: unknown): Prisma.CustomerWhereInput | null {
+    const number = Number(value);
+    if (isNaN(number)) return null;
+    switch (operator) {
+        case "greaterThan": return { [field]: { gt: number } };
+        case "lessThan": return { [field]: { lt: number } };
+        case "equals": return { [field]: { equals: number } };
+        // evaluateCondition compares notEquals as text: "100.0" differs from 100
+        case "notEquals": return String(number) === String(value) ? { [field]: { not: number } } : null;
+        default: return null;
+    }
+}
+
+function compileDateCondition(field: string, operator: string, value: unknown, now: Date): Prisma.CustomerWhereInput | null {
+    if (operator === "isBefore" || operator === "isAfter") {
+        const date = new Date(value as string);
+        if (isNaN(date.getTime())) return null;
+        return { [field]: operator === "isBefore" ? { lt: date } : { gt: date } };
+    }
+    const range = resolveRelativeDateRange(operator, value, now);
+    if (!range || (!range.from && !range.to)) return null;
+    return { [field]: { ...(range.from ? { gte: range.from } : {}), ...(range.to ? { lte: range.to } : {}) } };
+}
+
+function compileLeaf(condition: LeafCondition, now: Date): Prisma.CustomerWhereInput | null {
+    if (condition.ruleCategory && condition.ruleCategory !== "metric") return null;
+    const { field, operator, value } = condition;
+    if (NUMBER_FIELDS.includes(field)) return compileNumberCondition(field, operator, value);
+    if (DATE_FIELDS.includes(field)) return compileDateCondition(field, operator, value, now);
+    return null;
+}
+
+// Same combination as evaluateConditionNodes: ANY → OR, anything else → AND
+function compileNodes(nodes: ConditionNode[], matchType: string, now: Date): Prisma.CustomerWhereInput | null {
+    const parts: Prisma.CustomerWhereInput[] = [];
+    for (const node of nodes) {
+        const part = isConditionGroup(node) ? compileNodes(node.conditions, node.matchType, now) : compileLeaf(node, now);
+        if (!part) return null;
+        parts.push(part);
+    }
+    if (matchType === "ANY") return parts.length > 0 ? { OR: parts } : NO_CUSTOMER;
+    return { AND: parts };
+}
+
+/**
+ * The Customer filter equivalent to `rule`'s conditions, or null when the rule has to be
+ * evaluated per customer. Relative dates are resolved against `now`.
+ */
+export function compileRuleWhere(rule: Rule, now: Date = new Date()): Prisma.CustomerWhereInput | null {
+    if (rule.targetEntity !== "customer" || isTagTemplate(rule.targetTag) || getExclusiveGroupKey(rule)) return null;
+    let nodes: ConditionNode[];
+    try {
+        nodes = parseConditionNodes(rule.conditions);
+    } catch {
+        return null;
+    }
+    return compileNodes(nodes, rule.matchType, now);
+}
+
+/**
+ * The rules of `rules` that compile (see compileRuleWhere), parsed once per sync.
+ */
+export function compileCustomerRules(rules: Rule[], now: Date = new Date()): CompiledRule[] {
+    return rules.flatMap(rule => {
+        const where = compileRuleWhere(rule, now);
+        return where ? [{ rule, where }] : [];
+    });
+}
+
+/**
+ * Whether `rule` changes a customer's tags, as calculateCustomerTags decides it: it
+ * matches and the tag is missing, or it doesn't match and the customer holds the tag.
+ */
+export function ruleChangesCustomer(rule: Rule, matches: boolean, existingTags: string[]): boolean {
+    const holdsTag = existingTags.includes(rule.targetTag);
+    return matches ? !holdsTag : holdsTag;
+}
@@ -0,0 +1,121 @@
+/**
+ * rule-schedule.ts
+ *
+ * Rule Scheduling Windows (shared by server services and route components — no
+ * server-only dependencies).
+ *
+ * A rule can be limited to a campaign window, all in the store's timezone
+ * (Store.timezone, Shopify's shop.ianaTimezone):
+ *
+ *   scheduleStartDate / scheduleEndDate   "2026-11-27" – "2026-11-30", both days included
+ *   scheduleDays                          "5,6" — weekdays, 0 = Sunday
+ *   scheduleStartHour / scheduleEndHour   9 – 17: from 09:00 until 17:00; 22 – 2 runs overnight
+ *
+ * Weekdays and hours are checked separately: with Fri and 22 – 2, the early hours of
+ * Saturday don't count.
+ *
+ * Every part is optional. Outside its window a rule is skipped entirely: it neither
+ * adds nor removes tags, and tags it applied stay until it runs again. Order rules
+ * are checked at the order's creation time, so a historical sync still tags the orders
+ * placed during a past campaign; customer rules are checked at evaluation time.
+ */
+
+export type RuleSchedule = {
+    scheduleStartDate: string | null;
+    scheduleEndDate: string | null;
+    scheduleDays: string | null;
+    scheduleStartHour: number | null;
+    scheduleEndHour: number | null;
+};
+
+// always: no schedule. waiting: within the dates, but outside the weekdays / hours
+export type ScheduleState = "always" | "scheduled" | "active" | "waiting" | "ended";
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isScheduleDate(value: string): boolean {
+    return DATE_PATTERN.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+}
+
+export function parseScheduleDays(value: string | null | undefined): number[] {
+    return [...new Set((value || "").split(",").map(d => parseInt(d.trim(), 10)).filter(d => d >= 0 && d <= 6))].sort();
+}
+
+export function hasSchedule(rule: RuleSchedule): boolean {
+    return !!(rule.scheduleStartDate || rule.scheduleEndDate || parseScheduleDays(rule.scheduleDays).length > 0
+        || rule.scheduleStartHour !== null || rule.scheduleEndHour !== null);
+}
+
+/**
+ * Calendar date, weekday and hour of `at` in the store's timezone (UTC when unknown).
+ */
+export function getStoreLocalTime(timezone: string | null | undefined, at: Date): { date: string; weekday: number; hour: number } {
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+        parts = new Intl.DateTimeFormat("en-US", {
+            timeZone: timezone || "UTC", year: "numeric", month: "2-digit", day: "2-digit", weekday: "short", hour: "2-digit", hourCycle: "h23"
+        }).formatToParts(at);
+    } catch {
+        // Unknown timezone name
+        return getStoreLocalTime("UTC", at);
+    }
+    const part = (type: string) => parts.find(p => p.type === type)?.value || "";
+    return {
+        date: `${part("year")}-${part("month")}-${part("day")}`,
+        weekday: WEEKDAY_LABELS.indexOf(part("weekday")),
+        hour: parseInt(part("hour"), 10) % 24
+    };
+}
+
+function isWithinHours(hour: number, startHour: number | null, endHour: number | null): boolean {
+    const start = startHour ?? 0;
+    const end = endHour ?? 24;
+    if (start === end) return true;
+    return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+export function getScheduleState(rule: RuleSchedule, timezone: string | null | undefined, at: Date = new Date()): ScheduleState {
+    if (!hasSchedule(rule)) return "always";
+    const local = getStoreLocalTime(timezone, at);
+    if (rule.scheduleStartDate && local.date < rule.scheduleStartDate) return "scheduled";
+    if (rule.scheduleEndDate && local.date > rule.scheduleEndDate) return "ended";
+
+    const days = parseScheduleDays(rule.scheduleDays);
+    if (days.length > 0 && !days.includes(local.weekday)) return "waiting";
+    if (!isWithinHours(local.hour, rule.scheduleStartHour, rule.scheduleEndHour)) return "waiting";
+    return "active";
+}
+
+export function isRuleInSchedule(rule: RuleSchedule, timezone: string | null | undefined, at: Date = new Date()): boolean {
+    const state = getScheduleState(rule, timezone, at);
+    return state === "always" || state === "active";
+}
+
+/**
+ * The rules that may run at `at` (see isRuleInSchedule).
+ */
+export function filterScheduledRules<R extends RuleSchedule>(rules: R[], timezone: string | null | undefined, at: Date = new Date()): R[] {
+    return rules.filter(rule => isRuleInSchedule(rule, timezone, at));
+}
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, "0")}:00`;
+
+/**
+ * The window in words, e.g. "2026-11-27 – 2026-11-30 · Fri, Sat · 09:00–17:00".
+ */
+export function describeSchedule(rule: RuleSchedule): string {
+    const parts: string[] = [];
+    if (rule.scheduleStartDate && rule.scheduleEndDate) parts.push(`${rule.scheduleStartDate} – ${rule.scheduleEndDate}`);
+    else if (rule.scheduleStartDate) parts.push(`from ${rule.scheduleStartDate}`);
+    else if (rule.scheduleEndDate) parts.push(`until ${rule.scheduleEndDate}`);
+
+    const days = parseScheduleDays(rule.scheduleDays);
+    if (days.length > 0 && days.length < 7) parts.push(days.map(d => WEEKDAY_LABELS[d]).join(", "));
+
+    if (rule.scheduleStartHour !== null || rule.scheduleEndHour !== null) {
+        parts.push(`${formatHour(rule.scheduleStartHour ?? 0)}–${formatHour(rule.scheduleEndHour ?? 24)}`);
+    }
+    return parts.join(" · ") || "Always";
+}
@@ -0,0 +1,264 @@
+/**
+ * rule-scheduler.server.ts
+ *
+ * Scheduled Re-evaluation of Time-Based Rules (Additive Module)
+ *
+ * A customer who stops ordering never triggers a webhook, so a rule such as
+ * "lastOrderDate moreThanDaysAgo 90" would never add (or remove) its tag on its
+ * own. This job runs per store from the cron route (api.cron.rules.tsx):
+ *
+ *   1. Pick the active rules that contain relative date conditions.
+ *   2. Select only the customers whose date crossed one of those rules' day
+ *      boundaries since the previous completed run (all dated customers on the
+ *      first run, and for rules created or edited since), straight from the local
+ *      Customer table.
+ *   3. Re-evaluate them with calculateCustomerTags and apply the differences
+ *      through the normal usage + manageCustomerTags pipeline.
+ *
+ * Every run is recorded in ScheduledRuleRun so the Rules page can show the
+ * last and next run. Mixed rules with order conditions are skipped here —
+ * they need the order payload and are handled by webhooks / historical sync.
+ */
+import type { Prisma, Rule, ScheduledRuleRun } from "@prisma/client";
+import { unauthenticated } from "../shopify.server";
+import db from "../db.server";
+import { calculateCustomerTags } from "./rule.server";
+import { recordSuppressedMatches } from "./rule-exclusions.server";
+import { withExclusiveGroupSiblings } from "./exclusive-groups";
+import { manageCustomerTags } from "./tags.server";
+import { incrementUsage, refundUsage } from "./usage.server";
+import { parseConditionNodes, flattenConditions, isRelativeDateOperator, parseDaysAgoRange } from "./condition-tree";
+import type { LeafCondition } from "./condition-tree";
+import { filterScheduledRules } from "./rule-schedule";
+
+export const SCHEDULED_RUN_INTERVAL_HOURS = 24;
+
+// A RUNNING record older than this is treated as crashed and no longer blocks new runs
+const STALE_RUN_MINUTES = 60;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface ScheduledRunResult {
+    storeId: string;
+    status: "COMPLETED" | "FAILED";
+    rulesEvaluated: number;
+    customersEvaluated: number;
+    tagsAdded: number;
+    tagsRemoved: number;
+    error?: string;
+}
+
+/**
+ * Rules whose outcome can change purely because time passes:
+ * customer-only rules with at least one relative date condition.
+ */
+export function getTimeBasedRules(rules: Rule[]): Rule[] {
+    return rules.filter(rule => {
+        try {
+            const leaves = flattenConditions(parseConditionNodes(rule.conditions));
+            if (leaves.some(c => c.ruleCategory === "order")) return false;
+            return leaves.some(c => isRelativeDateOperator(c.operator));
+        } catch {
+            return false;
+        }
+    });
+}
+
+// Day offsets at which a relative condition flips for a given date value
+function getBoundaryDays(condition: LeafCondition): number[] {
+    if (condition.operator === "betweenDaysAgo") return parseDaysAgoRange(condition.value) ?? [];
+    const days = Number(String(condition.value ?? "").trim());
+    return isNaN(days) || days < 0 ? [] : [days];
+}
+
+/**
+ * Build the Customer filter for "whose date crossed a boundary between `since` and `now`".
+ * A boundary of N days sits at (t - N days), so between two runs it sweeps over
+ * [since - N days, now - N days]. With no previous run, every dated customer is included,
+ * as for rules updated after `since`: they never had a full pass with their definition.
+ */
+function buildAffectedCustomerFilter(rules: Rule[], since: Date | null, now: Date): Prisma.CustomerWhereInput[] {
+    const filters: Prisma.CustomerWhereInput[] = [];
+
+    for (const rule of rules) {
+        const leaves = flattenConditions(parseConditionNodes(rule.conditions))
+            .filter(c => isRelativeDateOperator(c.operator));
+
+        const ruleSince = since && rule.updatedAt <= since ? since : null;
+        for (const leaf of leaves) {
+            if (!ruleSince) {
+                filters.push({ [leaf.field]: { not: null } });
+                continue;
+            }
+            for (const days of getBoundaryDays(leaf)) {
+                filters.push({
+                    [leaf.field]: {
+                        gte: new Date(ruleSince.getTime() - days * DAY_MS),
+                        lte: new Date(now.getTime() - days * DAY_MS)
+                    }
+                });
+            }
+        }
+    }
+
+    return filters;
+}
+
+/**
+ * Re-evaluate the time-based rules of one store and record the run.
+ */
+export async function runScheduledRuleEvaluation(
+    store: { id: string; shop: string },
+    activeRules: Rule[],
+    now: Date = new Date()
+): Promise<ScheduledRunResult> {
+    const timeRules = getTimeBasedRules(activeRules);
+
+    const run = await db.scheduledRuleRun.create({
+        data: { storeId: store.id, status: "RUNNING", rulesEvaluated: timeRules.length, startedAt: now }
+    });
+
+    const result: ScheduledRunResult = {
+        storeId: store.id,
+        status: "COMPLETED",
+        rulesEvaluated: timeRules.length,
+        customersEvaluated: 0,
+        tagsAdded: 0,
+        tagsRemoved: 0
+    };
+
+    try {
+        const previousRun = await db.scheduledRuleRun.findFirst({
+            where: { storeId: store.id, status: "COMPLETED", id: { not: run.id } },
+            orderBy: { startedAt: "desc" }
+        });
+
+        const filters = buildAffectedCustomerFilter(timeRules, previousRun?.startedAt ?? null, now);
+        const customers = filters.length > 0
+            ? await db.customer.findMany({ where: { storeId: store.id, OR: filters } })
+            : [];
+
+        result.customersEvaluated = customers.length;
+
+        // Only open an Admin API session when something actually has to change
+        let admin: Awaited<ReturnType<typeof unauthenticated.admin>>["admin"] | null = null;
+
+        // Exclusive group siblings compete with the time-based rules (see exclusive-groups.ts)
+        const rulesToEvaluate = withExclusiveGroupSiblings(timeRules, activeRules);
+
+        for (const customer of customers) {
+            try {
+                const { tagsToAdd, tagsToRemove, suppressed } = await calculateCustomerTags(customer, rulesToEvaluate);
+                await recordSuppressedMatches(store.id, customer.id, suppressed, "[Scheduled Re-evaluation]");
+                if (tagsToAdd.length === 0 && tagsToRemove.length === 0) continue;
+
+                const allowedAdd = tagsToAdd.length > 0 ? await incrementUsage(store.shop, "customer_tag", tagsToAdd.length) : false;
+                const allowedRemove = tagsToRemove.length > 0 ? await incrementUsage(store.shop, "removal", tagsToRemove.length) : false;
+                if (!allowedAdd && !allowedRemove) continue;
+
+                if (!admin) admin = (await unauthenticated.admin(store.shop)).admin;
+
+                const wantedAdds = allowedAdd ? tagsToAdd : [];
+                const wantedRemoves = allowedRemove ? tagsToRemove : [];
+
+                // Usage was already counted above, so don't let manageCustomerTags count it again
+                const tagged = await manageCustomerTags(admin, store.id, customer.id, wantedAdds.map(t => t.tag), wantedRemoves.map(t => t.tag), true);
+                const added = wantedAdds.filter(t => tagged.tagsAdded.includes(t.tag));
+                const removed = wantedRemoves.filter(t => tagged.tagsRemoved.includes(t.tag));
+                await refundUsage(store.shop, "customer_tag", wantedAdds.length - added.length);
+                await refundUsage(store.shop, "removal", wantedRemoves.length - removed.length);
+
+                for (const item of added) {
+                    await db.activityLog.create({
+                        data: { storeId: store.id, customerId: customer.id, action: "TAG_ADDED", tagContext: item.tag, reason: `[Scheduled Re-evaluation] ${item.reason}`, ruleId: item.ruleId, ruleVersionId: item.ruleVersionId, trace: item.trace }
+                    });
+                }
+                for (const item of removed) {
+                    await db.activityLog.create({
+                        data: { storeId: store.id, customerId: customer.id, action: "TAG_REMOVED", tagContext: item.tag, reason: `[Scheduled Re-evaluation] ${item.reason}`, ruleId: item.ruleId, ruleVersionId: item.ruleVersionId, trace: item.trace }
+                    });
+                }
+
+                result.tagsAdded += added.length;
+                result.tagsRemoved += removed.length;
+            } catch (err) {
+                console.error(`[RULE_SCHEDULER] Error on customer ${customer.id} (${store.shop}):`, err);
+            }
+        }
+    } catch (err) {
+        console.error(`[RULE_SCHEDULER] Run failed for ${store.shop}:`, err);
+        result.status = "FAILED";
+        result.error = err instanceof Error ? err.message : String(err);
+    }
+
+    await db.scheduledRuleRun.update({
+        where: { id: run.id },
+        data: {
+            status: result.status,
+            customersEvaluated: result.customersEvaluated,
+            tagsAdded: result.tagsAdded,
+            tagsRemoved: result.tagsRemoved,
+            error: result.error ?? null,
+            finishedAt: new Date()
+        }
+    });
+
+    console.log(`[RULE_SCHEDULER] ${store.shop}: ${result.status} — ${result.customersEvaluated} customers, +${result.tagsAdded} / -${result.tagsRemoved} tags`);
+    return result;
+}
+
+/**
+ * Run every store whose last scheduled run is older than SCHEDULED_RUN_INTERVAL_HOURS.
+ * Safe to call more often than the interval (e.g. an hourly cron): stores that are
+ * not due, are mid-sync, or have no time-based rules are skipped.
+ */
+export async function runDueScheduledEvaluations(now: Date = new Date()) {
+    const stores = await db.store.findMany({
+        where: { isActive: true },
+        select: { id: true, shop: true, isSyncing: true, timezone: true }
+    });
+
+    const results: ScheduledRunResult[] = [];
+    let skipped = 0;
+
+    for (const store of stores) {
+        if (store.isSyncing) { skipped++; continue; }
+
+        const lastRun = await db.scheduledRuleRun.findFirst({
+            where: { storeId: store.id },
+            orderBy: { startedAt: "desc" }
+        });
+
+        if (lastRun) {
+            const age = now.getTime() - lastRun.startedAt.getTime();
+            const stillRunning = lastRun.status === "RUNNING" && age < STALE_RUN_MINUTES * 60 * 1000;
+            if (stillRunning || age < SCHEDULED_RUN_INTERVAL_HOURS * HOUR_MS) { skipped++; continue; }
+        }
+
+        // Rules outside their schedule window are skipped (see rule-schedule.ts)
+        const activeRules = filterScheduledRules(await db.rule.findMany({ where: { storeId: store.id, isActive: true } }), store.timezone, now);
+        if (getTimeBasedRules(activeRules).length === 0) { skipped++; continue; }
+
+        results.push(await runScheduledRuleEvaluation(store, activeRules, now));
+    }
+
+    return { storesChecked: stores.length, storesRun: results.length, skipped, results };
+}
+
+/**
+ * Last run + estimated next run for the Rules page.
+ * nextRunAt is null when the store has never run (it will run on the next cron tick).
+ */
+export async function getScheduledRunStatus(storeId: string): Promise<{ lastRun: ScheduledRuleRun | null; nextRunAt: Date | null }> {
+    const lastRun = await db.scheduledRuleRun.findFirst({
+        where: { storeId },
+        orderBy: { startedAt: "desc" }
+    });
+
+    const nextRunAt = lastRun
+        ? new Date(lastRun.startedAt.getTime() + SCHEDULED_RUN_INTERVAL_HOURS * HOUR_MS)
+        : null;
+
+    return { lastRun, nextRunAt };
+}
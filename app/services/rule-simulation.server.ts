@@ -0,0 +1,200 @@
+/**
+ * rule-simulation.server.ts
+ *
+ * Rule Dry-Run Simulation (Additive Module)
+ *
+ * simulateRule() runs an unsaved rule through the real evaluation functions —
+ * calculateCustomerTags for customer rules, evaluateOrderRules for rules with order
+ * conditions — over the locally stored customers and orders, without writing tags to
+ * Shopify or counting usage. It reports:
+ *
+ *   matched        customers / orders the rule's conditions match
+ *   wouldTag       of those, how many would get the tag now (the rest already have it,
+ *                  are outside the expiry window or lose to a higher exclusive-group tier)
+ *   samples        the first SIMULATION_SAMPLE_SIZE that would be tagged, with the reason
+ *   conditions     pass rate of every individual condition — customer and history
+ *                  conditions over customers, order conditions over orders
+ *
+ * Active rules sharing the draft's exclusive group take part, so tiers resolve as they
+ * would live. Orders are only simulated once the store's order backfill finished.
+ */
+import type { Rule, Customer } from "@prisma/client";
+import db from "../db.server";
+import { calculateCustomerTags, evaluateRule, evaluateCondition } from "./rule.server";
+import type { Condition } from "./rule.server";
+import { evaluateOrderRules, matchOrderRule } from "./order-rules.server";
+import { parseConditionNodes, flattenConditions, hasOrderConditions } from "./condition-tree";
+import type { LeafCondition } from "./condition-tree";
+import { extractOrderData, evaluateOrderCondition, getOrderProductIds, rulesNeedProductDetails } from "./order-data.server";
+import type { OrderCondition } from "./order-data.server";
+import { hasHistoryConditions, buildOrderHistory, evaluateHistoryCondition } from "./purchase-history.server";
+import type { OrderHistory } from "./purchase-history.server";
+import { hasLocalOrders, getLocalOrderPayloads, splitList } from "./order-store.server";
+import type { LocalOrderPayload } from "./order-store.server";
+import { fetchProductDetails } from "./shopify-helpers.server";
+import { withExclusiveGroupSiblings } from "./exclusive-groups";
+import { describeRuleCondition } from "./rule-versions.server";
+
+const SIMULATION_SAMPLE_SIZE = 20;
+
+// Stand-in for guest checkouts, as in the historical sync
+const GUEST_CUSTOMER = { id: "guest", totalSpent: 0, orderCount: 0, tags: "" } as unknown as Customer;
+
+export type SimulationSample = {
+    id: string;
+    label: string;
+    tag: string;
+    reason: string;
+};
+
+export type ConditionPassRate = {
+    condition: string;
+    scope: "customer" | "order" | "history";
+    passed: number;
+    evaluated: number;
+};
+
+export type RuleSimulation = {
+    entity: "customer" | "order";
+    customersEvaluated: number;
+    ordersEvaluated: number;
+    matched: number;
+    wouldTag: number;
+    samples: SimulationSample[];
+    conditions: ConditionPassRate[];
+    // Caveats shown with the results, e.g. orders not stored locally yet
+    notes: string[];
+};
+
+const customerLabel = (customer: Customer) =>
+    customer.email || [customer.firstName, customer.lastName].filter(Boolean).join(" ") || `Customer ${customer.id}`;
+
+const conditionScope = (c: LeafCondition): ConditionPassRate["scope"] =>
+    c.ruleCategory === "order" ? "order" : c.ruleCategory === "history" ? "history" : "customer";
+
+/**
+ * Dry-run `draft` (see toDraftRule) over the store's local data.
+ */
+export async function simulateRule(admin: any, storeId: string, draft: Rule): Promise<RuleSimulation> {
+    const entity = draft.targetEntity === "order" ? "order" : "customer";
+    const simulation: RuleSimulation = {
+        entity, customersEvaluated: 0, ordersEvaluated: 0, matched: 0, wouldTag: 0, samples: [], conditions: [], notes: []
+    };
+
+    let leaves: LeafCondition[];
+    try {
+        leaves = flattenConditions(parseConditionNodes(draft.conditions));
+    } catch {
+        return { ...simulation, notes: ["The rule's conditions could not be read."] };
+    }
+    simulation.conditions = leaves.map(c => ({ condition: describeRuleCondition(c), scope: conditionScope(c), passed: 0, evaluated: 0 }));
+
+    const usesOrders = hasOrderConditions(draft.conditions);
+    const usesHistory = hasHistoryConditions(draft.conditions);
+    const ordersAvailable = await hasLocalOrders(storeId);
+    if ((usesOrders || usesHistory) && !ordersAvailable) {
+        simulation.notes.push("Orders aren't stored locally yet, so order and purchase-history conditions can't be simulated. Run a historical sync once.");
+    }
+
+    // Active rules of the draft's exclusive group compete with it, like in a live evaluation
+    const activeRules = await db.rule.findMany({ where: { storeId, isActive: true, id: { not: draft.id } } });
+    const rules = withExclusiveGroupSiblings([draft], activeRules);
+    if (rules.length > 1) simulation.notes.push(`Evaluated together with ${rules.length - 1} other rule(s) of exclusive group "${draft.exclusiveGroup}".`);
+
+    const customers = await db.customer.findMany({ where: { storeId } });
+    const orders: LocalOrderPayload[] = ordersAvailable && (usesOrders || usesHistory) ? await getLocalOrderPayloads(storeId) : [];
+    const productDetails = orders.length > 0 && rulesNeedProductDetails(rules)
+        ? await fetchProductDetails(admin, orders.flatMap(getOrderProductIds))
+        : undefined;
+
+    const ordersByCustomer = new Map<string, LocalOrderPayload[]>();
+    for (const order of orders) {
+        const customerId = order.customer?.id;
+        if (customerId) ordersByCustomer.set(customerId, [...(ordersByCustomer.get(customerId) || []), order]);
+    }
+    const histories = new Map<string, OrderHistory | undefined>();
+    const historyOf = (customerId: string) => {
+        if (!usesHistory || !ordersAvailable) return undefined;
+        if (!histories.has(customerId)) histories.set(customerId, buildOrderHistory(ordersByCustomer.get(customerId) || [], productDetails));
+        return histories.get(customerId);
+    };
+
+    const addSample = (sample: SimulationSample) => {
+        if (simulation.samples.length < SIMULATION_SAMPLE_SIZE) simulation.samples.push(sample);
+    };
+
+    // ── Customers: customer + history condition pass rates, pure customer rules ──
+    for (const customer of customers) {
+        simulation.customersEvaluated++;
+        const history = historyOf(customer.id);
+
+        leaves.forEach((c, i) => {
+            if (c.ruleCategory === "order" || (c.ruleCategory === "history" && !history)) return;
+            simulation.conditions[i].evaluated++;
+            const passed = c.ruleCategory === "history"
+                ? evaluateHistoryCondition(history!, c)
+                : evaluateCondition(customer, c as Condition);
+            if (passed) simulation.conditions[i].passed++;
+        });
+
+        // Rules with order conditions are evaluated per order below
+        if (usesOrders || (usesHistory && !history)) continue;
+
+        if (evaluateRule(customer, draft, history).isMatch) simulation.matched++;
+        const { tagsToAdd } = await calculateCustomerTags(customer, rules, history);
+        const added = tagsToAdd.find(t => t.ruleId === draft.id);
+        if (added) {
+            simulation.wouldTag++;
+            addSample({ id: customer.id, label: customerLabel(customer), tag: added.tag, reason: added.reason });
+        }
+    }
+
+    // ── Orders: order condition pass rates, rules with order conditions ──
+    if (orders.length > 0) {
+        const customerMap = new Map(customers.map(c => [c.id, c]));
+        const matchedCustomers = new Set<string>();
+        const taggedCustomers = new Set<string>();
+
+        for (const order of orders) {
+            simulation.ordersEvaluated++;
+            const orderData = extractOrderData(order, productDetails);
+            leaves.forEach((c, i) => {
+                if (c.ruleCategory !== "order") return;
+                simulation.conditions[i].evaluated++;
+                if (evaluateOrderCondition(orderData, c as OrderCondition)) simulation.conditions[i].passed++;
+            });
+
+            if (!usesOrders) continue;
+            const customer = (order.customer?.id && customerMap.get(order.customer.id)) || GUEST_CUSTOMER;
+            // Customer tags need a customer; once tagged, later orders change nothing
+            if (entity === "customer" && (customer === GUEST_CUSTOMER || taggedCustomers.has(customer.id))) continue;
+
+            const history = historyOf(customer.id);
+            const matchedTag = matchOrderRule(order, customer, draft, productDetails, history);
+            const result = evaluateOrderRules(order, customer, rules, splitList(customer.tags), productDetails, history)
+                .find(r => r.ruleId === draft.id);
+
+            if (entity === "order") {
+                if (matchedTag) simulation.matched++;
+                if (result) {
+                    simulation.wouldTag++;
+                    addSample({ id: order.id, label: order.name || `Order ${order.id}`, tag: result.tag, reason: result.reason });
+                }
+            } else {
+                if (matchedTag) matchedCustomers.add(customer.id);
+                if (result) {
+                    taggedCustomers.add(customer.id);
+                    addSample({ id: customer.id, label: `${customerLabel(customer)} (${order.name || `order ${order.id}`})`, tag: result.tag, reason: result.reason });
+                }
+            }
+        }
+
+        if (usesOrders && entity === "customer") {
+            simulation.matched = matchedCustomers.size;
+            simulation.wouldTag = taggedCustomers.size;
+        }
+    }
+
+    console.log(`[RULE_SIMULATION] Store ${storeId}: ${simulation.matched} matched, ${simulation.wouldTag} would be tagged (${simulation.customersEvaluated} customers, ${simulation.ordersEvaluated} orders)`);
+    return simulation;
+}
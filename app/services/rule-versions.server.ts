@@ -0,0 +1,220 @@
+/**
+ * rule-versions.server.ts
+ *
+ * Every save of a rule (builder create / edit, rollback) writes a RuleVersion: a
+ * snapshot of the fields that decide what gets tagged — conditions, matchType,
+ * targetTag, targetEntity, exclusive group, expiry, schedule and exclusions — plus the
+ * author and time. Rule.currentVersionId points at the latest one.
+ *
+ *   - evaluation results carry the evaluated rule's currentVersionId, so every
+ *     ActivityLog entry written for a rule records the version that produced it
+ *   - diffRuleVersions() compares two snapshots field by field and condition by condition
+ *   - rollbackRule() copies an old snapshot back onto the rule, saves it as a new
+ *     version ("Rolled back to v2") and re-runs evaluation for the store
+ *
+ * Rules created before versioning get their original definition saved as v1 right before
+ * their first edit (saveOriginalRuleVersion), so an edit can always be rolled back.
+ */
+import type { Rule, RuleVersion } from "@prisma/client";
+import db from "../db.server";
+import { parseConditionNodes, flattenConditions, describeConditionNodes } from "./condition-tree";
+import type { LeafCondition } from "./condition-tree";
+import { describeHistoryCondition } from "./purchase-history.server";
+import { enqueueSyncJob } from "./queue.server";
+
+// Rule fields copied into every version and restored by a rollback
+const VERSIONED_FIELDS = [
+    "name", "conditions", "matchType", "targetTag", "targetEntity",
+    "exclusiveGroup", "groupPriority", "expireAfterDays",
+    "scheduleStartDate", "scheduleEndDate", "scheduleDays", "scheduleStartHour", "scheduleEndHour",
+    "excludeCustomerIds", "excludeEmailPatterns", "excludeTags"
+] as const;
+
+type VersionedFields = Pick<Rule, typeof VERSIONED_FIELDS[number]>;
+
+const FIELD_LABELS: Record<typeof VERSIONED_FIELDS[number], string> = {
+    name: "Name",
+    conditions: "Conditions",
+    matchType: "Match type",
+    targetTag: "Tag",
+    targetEntity: "Applies to",
+    exclusiveGroup: "Exclusive group",
+    groupPriority: "Group priority",
+    expireAfterDays: "Expire after (days)",
+    scheduleStartDate: "Runs from",
+    scheduleEndDate: "Runs until",
+    scheduleDays: "Weekdays",
+    scheduleStartHour: "From hour",
+    scheduleEndHour: "Until hour",
+    excludeCustomerIds: "Excluded customers",
+    excludeEmailPatterns: "Excluded emails",
+    excludeTags: "Excluded tags"
+};
+
+export type RuleVersionDiff = {
+    // Changed scalar fields, conditions included as a whole expression
+    fields: { field: string; label: string; before: string; after: string }[];
+    // Individual conditions only present on one side
+    conditionsAdded: string[];
+    conditionsRemoved: string[];
+};
+
+/**
+ * Who made a change: the staff member's email for online sessions, otherwise the shop.
+ */
+export function getRuleAuthor(session: { shop: string; onlineAccessInfo?: { associated_user?: { email?: string } } }): string {
+    return session.onlineAccessInfo?.associated_user?.email || session.shop;
+}
+
+function pickVersionedFields(source: VersionedFields): VersionedFields {
+    return {
+        name: source.name,
+        conditions: source.conditions,
+        matchType: source.matchType,
+        targetTag: source.targetTag,
+        targetEntity: source.targetEntity,
+        exclusiveGroup: source.exclusiveGroup,
+        groupPriority: source.groupPriority,
+        expireAfterDays: source.expireAfterDays,
+        scheduleStartDate: source.scheduleStartDate,
+        scheduleEndDate: source.scheduleEndDate,
+        scheduleDays: source.scheduleDays,
+        scheduleStartHour: source.scheduleStartHour,
+        scheduleEndHour: source.scheduleEndHour,
+        excludeCustomerIds: source.excludeCustomerIds,
+        excludeEmailPatterns: source.excludeEmailPatterns,
+        excludeTags: source.excludeTags
+    };
+}
+
+/**
+ * Snapshot the rule as it is now saved and make it the rule's current version.
+ */
+export async function saveRuleVersion(rule: Rule, author: string | null, note?: string): Promise<RuleVersion> {
+    const latest = await db.ruleVersion.findFirst({
+        where: { ruleId: rule.id },
+        orderBy: { version: "desc" },
+        select: { version: true }
+    });
+
+    const version = await db.ruleVersion.create({
+        data: {
+            ruleId: rule.id,
+            storeId: rule.storeId,
+            version: (latest?.version ?? 0) + 1,
+            ...pickVersionedFields(rule),
+            author,
+            note: note || null
+        }
+    });
+
+    await db.rule.update({ where: { id: rule.id }, data: { currentVersionId: version.id } });
+    return version;
+}
+
+/**
+ * For a rule created before versioning, save its definition as it is now as v1. Call
+ * before updating the rule; no-op once it has a version.
+ */
+export async function saveOriginalRuleVersion(rule: Rule): Promise<void> {
+    if (rule.currentVersionId) return;
+    await saveRuleVersion(rule, null, "Definition before versioning");
+}
+
+/**
+ * All versions of a rule, newest first. Scoped to the store so one shop can never
+ * read another's history.
+ */
+export async function getRuleVersions(storeId: string, ruleId: string): Promise<RuleVersion[]> {
+    return db.ruleVersion.findMany({
+        where: { storeId, ruleId },
+        orderBy: { version: "desc" }
+    });
+}
+
+/**
+ * One condition in words, e.g. `customer.totalSpent greaterThan "500"`.
+ */
+export function describeRuleCondition(c: LeafCondition): string {
+    if (c.ruleCategory === "history") return describeHistoryCondition(c);
+    const scope = c.ruleCategory === "order" ? "order" : "customer";
+    return `${scope}.${c.field} ${c.operator} "${c.value}"${c.itemMatch === "all" ? " (all items)" : ""}`;
+}
+
+function describeConditions(conditionsJson: string, matchType: string): { expression: string; leaves: string[] } {
+    try {
+        const nodes = parseConditionNodes(conditionsJson);
+        return {
+            expression: describeConditionNodes(nodes, matchType, describeRuleCondition) || "(none)",
+            leaves: flattenConditions(nodes).map(describeRuleCondition)
+        };
+    } catch {
+        return { expression: conditionsJson, leaves: [] };
+    }
+}
+
+// Leaves of `a` not in `b`, counting duplicates
+function subtractLeaves(a: string[], b: string[]): string[] {
+    const remaining = [...b];
+    return a.filter(leaf => {
+        const index = remaining.indexOf(leaf);
+        if (index === -1) return true;
+        remaining.splice(index, 1);
+        return false;
+    });
+}
+
+const formatValue = (value: unknown) => (value === null || value === undefined || value === "" ? "—" : String(value));
+
+/**
+ * What changed from `before` to `after`.
+ */
+export function diffRuleVersions(before: VersionedFields, after: VersionedFields): RuleVersionDiff {
+    const fields: RuleVersionDiff["fields"] = [];
+
+    for (const field of VERSIONED_FIELDS) {
+        if (field === "conditions") continue;
+        if (formatValue(before[field]) !== formatValue(after[field])) {
+            fields.push({ field, label: FIELD_LABELS[field], before: formatValue(before[field]), after: formatValue(after[field]) });
+        }
+    }
+
+    // matchType is part of the expression, so a changed root combinator shows up here too
+    const beforeConditions = describeConditions(before.conditions, before.matchType);
+    const afterConditions = describeConditions(after.conditions, after.matchType);
+    if (beforeConditions.expression !== afterConditions.expression) {
+        fields.push({ field: "conditions", label: FIELD_LABELS.conditions, before: beforeConditions.expression, after: afterConditions.expression });
+    }
+
+    return {
+        fields,
+        conditionsAdded: subtractLeaves(afterConditions.leaves, beforeConditions.leaves),
+        conditionsRemoved: subtractLeaves(beforeConditions.leaves, afterConditions.leaves)
+    };
+}
+
+/**
+ * Restore an old version: its fields are copied onto the rule and saved as a new
+ * version, then the store's rules are re-evaluated so tags follow the restored logic.
+ */
+export async function rollbackRule(
+    shop: string,
+    storeId: string,
+    ruleId: string,
+    versionId: string,
+    author: string
+): Promise<RuleVersion | null> {
+    const target = await db.ruleVersion.findFirst({ where: { id: versionId, ruleId, storeId } });
+    if (!target) return null;
+
+    const rule = await db.rule.update({
+        where: { id: ruleId },
+        data: pickVersionedFields(target)
+    });
+    const version = await saveRuleVersion(rule, author, `Rolled back to v${target.version}`);
+
+    await enqueueSyncJob({ shop, storeId, syncType: "RULES" });
+
+    console.log(`[RULE_VERSIONS] Rule ${ruleId} rolled back to v${target.version} (now v${version.version}) by ${author}`);
+    return version;
+}
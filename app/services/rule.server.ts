@@ -1,15 +1,68 @@
-import { Store, Rule, Customer } from "@prisma/client";
+import { Rule, Customer } from "@prisma/client";
+import { parseConditionNodes, flattenConditions, traceConditionNodes, describeConditionNodes, resolveRelativeDateRange, formatTraceValue } from "./condition-tree";
+import type { ConditionTraceLeaf, RuleTrace } from "./condition-tree";
+import { traceHistoryCondition, describeHistoryCondition } from "./purchase-history.server";
+import type { OrderHistory } from "./purchase-history.server";
+import db from "../db.server";
+import { isTagTemplate, renderTagTemplate, findOwnedTags } from "./tag-template";
+import type { AppliedTemplateTags } from "./tag-template";
+import { getExclusiveGroupKey, getExclusiveGroupWinners, describeExclusiveGroupLoss } from "./exclusive-groups";
+import { findRuleExclusion, toExclusionSubject } from "./rule-exclusions";
 
 export type Condition = {
-    field: "totalSpent" | "orderCount" | "lastOrderDate";
-    operator: "greaterThan" | "lessThan" | "equals" | "isBefore" | "isAfter";
+    field:
+        | "totalSpent" | "orderCount" | "lastOrderDate"
+        | "emailDomain" | "shopifyCreatedAt" | "firstOrderDate" | "averageOrderValue"
+        | "country" | "province" | "acceptsMarketing" | "locale" | "tags";
+    operator:
+        | "greaterThan" | "lessThan" | "equals" | "notEquals" | "contains" | "isBefore" | "isAfter"
+        | "withinLastDays" | "moreThanDaysAgo" | "betweenDaysAgo"
+        | "hasTag" | "doesNotHaveTag";
     value: any;
 };
 
+// Read a field off the customer, deriving values for rows synced before the field was stored
+function getCustomerFieldValue(customer: Customer, field: Condition["field"]) {
+    if (field === "emailDomain" && !customer.emailDomain && customer.email?.includes("@")) {
+        return customer.email.split("@").pop()!.toLowerCase();
+    }
+    if (field === "averageOrderValue" && !customer.averageOrderValue && customer.orderCount > 0) {
+        return customer.totalSpent / customer.orderCount;
+    }
+    return customer[field];
+}
+
+// Customer fields rules can compare, as the evaluator sees them (e.g. for the tagging explainer)
+export const CUSTOMER_CONDITION_FIELDS: Condition["field"][] = [
+    "totalSpent", "orderCount", "averageOrderValue", "lastOrderDate", "firstOrderDate", "shopifyCreatedAt",
+    "emailDomain", "country", "province", "acceptsMarketing", "locale", "tags"
+];
+
+export function getCustomerConditionValues(customer: Customer): Record<string, string | null> {
+    return Object.fromEntries(CUSTOMER_CONDITION_FIELDS.map(field => [field, formatTraceValue(getCustomerFieldValue(customer, field))]));
+}
+
+// Placeholder values for tag templates (see tag-template.ts): every customer column plus derived fields
+export function getCustomerTemplateValues(customer: Customer): Record<string, unknown> {
+    return {
+        ...customer,
+        emailDomain: getCustomerFieldValue(customer, "emailDomain"),
+        averageOrderValue: getCustomerFieldValue(customer, "averageOrderValue")
+    };
+}
+
 // Evaluate a single condition against customer data
 export function evaluateCondition(customer: Customer, condition: Condition): boolean {
     const { field, operator, value } = condition;
-    const customerValue = customer[field];
+
+    // Tag membership — a customer without tags "does not have" any tag
+    if (operator === "hasTag" || operator === "doesNotHaveTag") {
+        const wanted = String(value ?? "").trim().toLowerCase();
+        const hasTag = (customer.tags || "").split(",").some(t => t.trim().toLowerCase() === wanted);
+        return operator === "hasTag" ? hasTag : !hasTag;
+    }
+
+    const customerValue = getCustomerFieldValue(customer, field);
 
     if (customerValue === null || customerValue === undefined) return false;
 
@@ -26,89 +79,237 @@ export function evaluateCondition(customer: Customer, condition: Condition): boo
             if (!isNaN(numCust) && !isNaN(numVal)) return numCust === numVal;
             return String(customerValue).toLowerCase() === String(value).toLowerCase();
 
+        // String comparisons (emailDomain, country, province, locale) — case-insensitive
+        case "notEquals":
+            return String(customerValue).toLowerCase() !== String(value).toLowerCase();
+        case "contains":
+            return String(customerValue).toLowerCase().includes(String(value).toLowerCase());
+
         // Date Comparisons
         case "isBefore":
             return new Date(customerValue as Date).getTime() < new Date(value).getTime();
         case "isAfter":
             return new Date(customerValue as Date).getTime() > new Date(value).getTime();
 
+        // Relative date comparisons — resolved against "now" on every evaluation
+        case "withinLastDays":
+        case "moreThanDaysAgo":
+        case "betweenDaysAgo": {
+            const range = resolveRelativeDateRange(operator, value);
+            if (!range) return false;
+            const time = new Date(customerValue as Date).getTime();
+            if (isNaN(time)) return false;
+            if (range.from && time < range.from.getTime()) return false;
+            if (range.to && time > range.to.getTime()) return false;
+            return true;
+        }
+
         default:
             return false;
     }
 }
 
-// Evaluate a rule (which may have multiple conditions, assuming AND logic for now)
-export function evaluateRule(customer: Customer, rule: Rule): { isMatch: boolean; reason: string } {
+// Trace entry for a customer condition: the value evaluateCondition compared (see traceConditionNodes)
+export function traceCondition(customer: Customer, condition: Condition): ConditionTraceLeaf {
+    const tagCondition = condition.operator === "hasTag" || condition.operator === "doesNotHaveTag";
+    return {
+        scope: "customer",
+        subject: tagCondition ? "customer.tags" : `customer.${condition.field}`,
+        operator: condition.operator,
+        expected: formatTraceValue(condition.value) ?? "",
+        actual: formatTraceValue(tagCondition ? customer.tags : getCustomerFieldValue(customer, condition.field)),
+        passed: evaluateCondition(customer, condition)
+    };
+}
+
+// Evaluate a rule. Conditions may be a flat list or contain nested AND/OR groups
+// (see condition-tree.ts); the root list is combined using rule.matchType.
+// Purchase-history conditions need `orderHistory` and never match without it.
+// `trace` records every condition with the value seen (null when the rule wasn't evaluated).
+export function evaluateRule(customer: Customer, rule: Rule, orderHistory?: OrderHistory): { isMatch: boolean; reason: string; trace: RuleTrace | null } {
     try {
-        const conditions: Condition[] = JSON.parse(rule.conditions);
+        const conditions = parseConditionNodes(rule.conditions);
 
         // Skip order-category rules — they are evaluated by order-rules.server.ts, not here
-        if (conditions.some((c: any) => c.ruleCategory === "order")) {
-            return { isMatch: false, reason: "Order-based rule (skipped for customer eval)" };
+        if (flattenConditions(conditions).some(c => c.ruleCategory === "order")) {
+            return { isMatch: false, reason: "Order-based rule (skipped for customer eval)", trace: null };
         }
 
-        // AND logic vs OR logic
-        const isMatch = rule.matchType === "ANY"
-            ? conditions.some((condition) => evaluateCondition(customer, condition))
-            : conditions.every((condition) => evaluateCondition(customer, condition));
+        // AND logic vs OR logic, applied recursively per group
+        const trace = traceConditionNodes(conditions, rule.matchType, (condition) =>
+            condition.ruleCategory === "history"
+                ? traceHistoryCondition(orderHistory, condition)
+                : traceCondition(customer, condition as Condition)
+        );
+        const isMatch = trace.matched;
 
         // Generate an english reason if it matches
         let reason = "";
         if (isMatch) {
-            const reasons = conditions.map(c => `${c.field} ${c.operator} ${c.value}`);
-            const joinWord = rule.matchType === "ANY" ? " OR " : " AND ";
-            reason = `Matched rule "${rule.name}" (${reasons.join(joinWord)})`;
+            const expression = describeConditionNodes(conditions, rule.matchType, c =>
+                c.ruleCategory === "history" ? describeHistoryCondition(c) : `${c.field} ${c.operator} ${c.value}`
+            );
+            reason = `Matched rule "${rule.name}" (${expression})`;
         } else {
             reason = `No longer matches rule "${rule.name}"`;
         }
 
-        return { isMatch, reason };
+        return { isMatch, reason, trace };
     } catch (error) {
         console.error(`[RULE_ENGINE] Failed to parse conditions for Rule ${rule.id}:`, error);
-        return { isMatch: false, reason: "Error parsing conditions" };
+        return { isMatch: false, reason: "Error parsing conditions", trace: null };
     }
 }
 
-// Main service function to calculate tags for a customer based on store rules
+/**
+ * The values each template rule among `rules` has applied to the customer (and its orders),
+ * from the rule's TAG_ADDED history. Only these count as the rule's own when stale.
+ */
+export async function loadAppliedTemplateTags(storeId: string, customerId: string, rules: Rule[]): Promise<AppliedTemplateTags> {
+    const applied: AppliedTemplateTags = new Map();
+    const templateRuleIds = rules.filter(r => isTagTemplate(r.targetTag)).map(r => r.id);
+    if (templateRuleIds.length === 0 || !storeId || !customerId) return applied;
+
+    const logs = await db.activityLog.findMany({
+        where: { storeId, customerId, action: "TAG_ADDED", ruleId: { in: templateRuleIds } },
+        select: { ruleId: true, tagContext: true }
+    });
+    for (const log of logs) {
+        if (!applied.has(log.ruleId!)) applied.set(log.ruleId!, new Set());
+        applied.get(log.ruleId!)!.add(log.tagContext.trim().toLowerCase());
+    }
+    return applied;
+}
+
+// One tag to add / remove, with the rule (and version, see rule-versions.server.ts) behind it
+// and the evaluation trace as ActivityLog.trace JSON
+export type RuleTagChange = { tag: string; reason: string; ruleId: string; ruleVersionId: string | null; trace: string | null };
+
+// Main service function to calculate tags for a customer based on store rules.
+// Pass `orderHistory` (see loadOrderHistory) to include rules with purchase-history conditions.
+// Template target tags (see tag-template.ts) are rendered per customer; previously rendered
+// values the rule applied (`appliedTemplateTags`, loaded when not passed) that no longer
+// apply are returned in tagsToRemove. Within an exclusive group
+// (see exclusive-groups.ts) only the highest-priority match keeps its tag.
+// Rules that exclude the customer (see rule-exclusions.ts) are skipped; the tags they
+// would have added are returned in `suppressed`.
 export async function calculateCustomerTags(
     customer: Customer,
-    activeRules: Rule[]
-): Promise<{ tagsToAdd: { tag: string; reason: string }[]; tagsToRemove: { tag: string; reason: string }[] }> {
+    activeRules: Rule[],
+    orderHistory?: OrderHistory,
+    appliedTemplateTags?: AppliedTemplateTags
+): Promise<{ tagsToAdd: RuleTagChange[]; tagsToRemove: RuleTagChange[]; suppressed: RuleTagChange[] }> {
 
     const existingTags = customer.tags ? customer.tags.split(",").map(t => t.trim()) : [];
 
-    const tagsToAdd: { tag: string; reason: string }[] = [];
-    const tagsToRemove: { tag: string; reason: string }[] = [];
+    const tagsToAdd: RuleTagChange[] = [];
+    const tagsToRemove: RuleTagChange[] = [];
+    const suppressed: RuleTagChange[] = [];
 
-    for (const rule of activeRules) {
-        // Skip rules that have order-based conditions,
-        // because we don't evaluate them here, and importantly,
-        // we SHOULD NOT remove their tags if they don't match.
+    // Tags currently on the customer that belong to a rule (rendered values it applied, for templates)
+    const applied = appliedTemplateTags ?? await loadAppliedTemplateTags(customer.storeId, customer.id, activeRules);
+    const ownTags = (rule: Rule) => findOwnedTags(rule.targetTag, existingTags, applied.get(rule.id));
+    // Stringified only for the tags that change
+    const traces = new Map<string, RuleTrace>();
+    const traceOf = (rule: Rule) => {
+        const trace = traces.get(rule.id);
+        return trace ? JSON.stringify(trace) : null;
+    };
+    const removeTag = (tag: string, reason: string, rule: Rule) => {
+        if (!tagsToRemove.some(t => t.tag === tag)) tagsToRemove.push({ tag, reason, ruleId: rule.id, ruleVersionId: rule.currentVersionId, trace: traceOf(rule) });
+    };
+
+    const matched: { rule: Rule; reason: string; tag: string }[] = [];
+    const evaluatedRuleIds = new Set<string>();
+
+    // Skip rules that have order-based conditions,
+    // because we don't evaluate them here, and importantly,
+    // we SHOULD NOT remove their tags if they don't match.
+    // Same for purchase-history rules when the caller didn't load the history.
+    const isEvaluatedHere = (rule: Rule) => {
         try {
-            const conditions = JSON.parse(rule.conditions);
-            if (conditions.some((c: any) => c.ruleCategory === "order")) {
-                continue;
-            }
+            const conditions = flattenConditions(parseConditionNodes(rule.conditions));
+            if (conditions.some(c => c.ruleCategory === "order")) return false;
+            return !!orderHistory || !conditions.some(c => c.ruleCategory === "history");
         } catch {
+            return false;
+        }
+    };
+    // Dynamic tag: render the current value (null when a placeholder has no value)
+    const renderTag = (rule: Rule) => isTagTemplate(rule.targetTag)
+        ? renderTagTemplate(rule.targetTag, getCustomerTemplateValues(customer))
+        : rule.targetTag;
+
+    // Excluded customers are left alone entirely: no tag added, none removed
+    const subject = toExclusionSubject(customer);
+    const rules: Rule[] = [];
+    for (const rule of activeRules) {
+        const exclusion = findRuleExclusion(rule, subject);
+        if (!exclusion) {
+            rules.push(rule);
             continue;
         }
+        if (!isEvaluatedHere(rule)) continue;
+        const { isMatch, reason, trace } = evaluateRule(customer, rule, orderHistory);
+        const tag = isMatch ? renderTag(rule) : null;
+        if (tag && !existingTags.some(t => t.toLowerCase() === tag.toLowerCase())) {
+            suppressed.push({ tag, reason: `${reason}, not applied: ${exclusion}`, ruleId: rule.id, ruleVersionId: rule.currentVersionId, trace: trace ? JSON.stringify(trace) : null });
+        }
+    }
 
-        const { isMatch, reason } = evaluateRule(customer, rule);
+    for (const rule of rules) {
+        if (!isEvaluatedHere(rule)) continue;
+        evaluatedRuleIds.add(rule.id);
 
-        if (isMatch) {
-            if (!existingTags.includes(rule.targetTag)) {
-                tagsToAdd.push({ tag: rule.targetTag, reason });
-            }
+        const { isMatch, reason, trace } = evaluateRule(customer, rule, orderHistory);
+        if (trace) traces.set(rule.id, trace);
+        const tag = isMatch ? renderTag(rule) : null;
+
+        if (tag) {
+            matched.push({ rule, reason, tag });
         } else {
             // If rule doesn't match, BUT they have the tag, we should theoretically remove it
-            if (existingTags.includes(rule.targetTag)) {
-                tagsToRemove.push({ tag: rule.targetTag, reason });
+            for (const existing of ownTags(rule)) removeTag(existing, reason, rule);
+        }
+    }
+
+    // Exclusive groups: group members this function doesn't evaluate (order / history rules)
+    // compete with the tags they already applied
+    const heldRules = rules.filter(r => getExclusiveGroupKey(r) && !evaluatedRuleIds.has(r.id) && ownTags(r).length > 0);
+    const winners = getExclusiveGroupWinners([...matched.map(m => m.rule), ...heldRules]);
+    const winnerOf = (rule: Rule) => winners.get(getExclusiveGroupKey(rule) || "");
+
+    for (const { rule, reason, tag } of matched) {
+        const winner = winnerOf(rule);
+        if (winner && winner.id !== rule.id) {
+            for (const existing of ownTags(rule)) removeTag(existing, describeExclusiveGroupLoss(winner), rule);
+            continue;
+        }
+
+        if (isTagTemplate(rule.targetTag)) {
+            const tagLower = tag.toLowerCase();
+            if (!existingTags.some(t => t.toLowerCase() === tagLower)) {
+                tagsToAdd.push({ tag, reason, ruleId: rule.id, ruleVersionId: rule.currentVersionId, trace: traceOf(rule) });
+            }
+            for (const existing of ownTags(rule)) {
+                if (existing.toLowerCase() !== tagLower) removeTag(existing, `${reason}, "${existing}" replaced by "${tag}"`, rule);
             }
+        } else if (!existingTags.includes(tag)) {
+            tagsToAdd.push({ tag, reason, ruleId: rule.id, ruleVersionId: rule.currentVersionId, trace: traceOf(rule) });
+        }
+    }
+
+    // Lower-priority group members that only hold a tag lose it to the winner
+    for (const rule of heldRules) {
+        const winner = winnerOf(rule);
+        if (winner && winner.id !== rule.id) {
+            for (const existing of ownTags(rule)) removeTag(existing, describeExclusiveGroupLoss(winner), rule);
         }
     }
 
     return {
         tagsToAdd,
-        tagsToRemove
+        tagsToRemove,
+        suppressed
     };
 }
@@ -0,0 +1,192 @@
+/**
+ * shopify-graphql.server.ts
+ *
+ * Cost-Aware Shopify GraphQL Client (Additive Module)
+ *
+ * Every Admin API call of the app goes through shopifyGraphql / shopifyMutation instead
+ * of calling admin.graphql directly:
+ *
+ *   - the cost bucket Shopify reports in extensions.cost.throttleStatus is tracked per
+ *     admin client; a call first waits while the bucket can't cover the query's cost
+ *     (the requestedQueryCost of its last run, DEFAULT_QUERY_COST before that)
+ *   - THROTTLED responses, HTTP 429 and 5xx errors are retried with exponential backoff
+ *     and jitter, up to MAX_ATTEMPTS calls in total
+ *   - any other GraphQL error, and a call out of retries, throws ShopifyGraphqlError;
+ *     other errors (e.g. an auth redirect) are rethrown unchanged
+ *   - a mutation's userErrors come back as a typed list (MutationResult) instead of being
+ *     left in the response for each caller to dig out
+ */
+
+export type ShopifyUserError = {
+    field: string[] | null;
+    message: string;
+    code?: string | null;
+};
+
+export type MutationResult<T> = {
+    // No userErrors
+    ok: boolean;
+    // The mutation's payload object, e.g. data.tagsAdd
+    payload: T | null;
+    userErrors: ShopifyUserError[];
+};
+
+export class ShopifyGraphqlError extends Error {
+    constructor(message: string, readonly errors: unknown[] = [], readonly status: number | null = null) {
+        super(message);
+        this.name = "ShopifyGraphqlError";
+    }
+}
+
+type ThrottleStatus = { maximumAvailable: number; currentlyAvailable: number; restoreRate: number };
+type QueryCost = { requestedQueryCost?: number; throttleStatus?: ThrottleStatus };
+type GraphqlError = { message?: string; extensions?: { code?: string } };
+type GraphqlBody = { data?: unknown; errors?: GraphqlError[]; extensions?: { cost?: QueryCost } };
+type RawUserError = { field?: string[] | null; message: string; code?: string | null };
+
+// The part of the app's admin clients (authenticate.admin, unauthenticated.admin) used here
+type AdminGraphqlClient = {
+    graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<Response>;
+};
+
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+const DEFAULT_QUERY_COST = 50;
+// Query texts whose cost is remembered; the least recently seen is forgotten first
+const MAX_QUERY_COSTS = 200;
+
+// Last known bucket per admin client (a request, or a whole job), stamped when it was read
+const buckets = new WeakMap<object, ThrottleStatus & { at: number }>();
+// requestedQueryCost per query text, so the next page of a paged query waits for what it needs
+const queryCosts = new Map<string, number>();
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+// Exponential backoff with jitter: between half and all of BASE_RETRY_MS × 2^(attempt-1)
+function backoffMs(attempt: number): number {
+    const delay = Math.min(BASE_RETRY_MS * 2 ** (attempt - 1), MAX_RETRY_MS);
+    return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+function availableNow(admin: object): number | null {
+    const bucket = buckets.get(admin);
+    if (!bucket) return null;
+    const restored = bucket.currentlyAvailable + bucket.restoreRate * ((Date.now() - bucket.at) / 1000);
+    return Math.min(restored, bucket.maximumAvailable);
+}
+
+// How long until the bucket holds `cost` points (0 when it does already or isn't known yet)
+function refillMs(admin: object, cost: number): number {
+    const bucket = buckets.get(admin);
+    const available = availableNow(admin);
+    if (!bucket || available === null || available >= cost || bucket.restoreRate <= 0) return 0;
+    return Math.ceil(((Math.min(cost, bucket.maximumAvailable) - available) / bucket.restoreRate) * 1000);
+}
+
+function recordCost(admin: object, query: string, extensions: GraphqlBody["extensions"]) {
+    const cost = extensions?.cost;
+    if (!cost) return;
+    if (typeof cost.requestedQueryCost === "number") {
+        queryCosts.delete(query);
+        queryCosts.set(query, cost.requestedQueryCost);
+        if (queryCosts.size > MAX_QUERY_COSTS) queryCosts.delete(queryCosts.keys().next().value!);
+    }
+    const status = cost.throttleStatus;
+    if (status && typeof status.currentlyAvailable === "number") {
+        buckets.set(admin, {
+            maximumAvailable: status.maximumAvailable,
+            currentlyAvailable: status.currentlyAvailable,
+            restoreRate: status.restoreRate,
+            at: Date.now()
+        });
+    }
+}
+
+const isThrottled = (errors: GraphqlError[]) => errors.some(e => e?.extensions?.code === "THROTTLED");
+
+/**
+ * What a failed call threw, as the Shopify API library reports it: GraphQL errors in
+ * `body.errors.graphQLErrors` (GraphqlQueryError), an HTTP status in `response.code`.
+ */
+function describeFailure(err: unknown): { errors: GraphqlError[]; status: number | null; extensions: GraphqlBody["extensions"] } {
+    const failure = err as { body?: { errors?: { graphQLErrors?: GraphqlError[] }; extensions?: GraphqlBody["extensions"] }; response?: { code?: number } } | null;
+    const graphQLErrors = failure?.body?.errors?.graphQLErrors;
+    return {
+        errors: Array.isArray(graphQLErrors) ? graphQLErrors : [],
+        status: typeof failure?.response?.code === "number" ? failure.response.code : null,
+        extensions: failure?.body?.extensions
+    };
+}
+
+const errorMessage = (errors: GraphqlError[]) => errors.map(e => e?.message).filter(Boolean).join("; ") || "GraphQL request failed";
+
+/**
+ * Run a query (or mutation) and return its `data`. Waits for the cost bucket, retries
+ * throttled and 5xx responses, throws ShopifyGraphqlError on GraphQL errors.
+ */
+export async function shopifyGraphql<T = any>(admin: AdminGraphqlClient, query: string, variables?: Record<string, unknown>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        const wait = refillMs(admin, queryCosts.get(query) ?? DEFAULT_QUERY_COST);
+        if (wait > 0) await sleep(wait);
+
+        let retryReason = "THROTTLED";
+        let failure: { errors: GraphqlError[]; status: number | null } = { errors: [], status: null };
+        try {
+            const response = await admin.graphql(query, variables ? { variables } : undefined);
+            const body: GraphqlBody = await response.json();
+            recordCost(admin, query, body.extensions);
+
+            const errors = Array.isArray(body.errors) ? body.errors : [];
+            if (errors.length === 0) return body.data as T;
+            if (!isThrottled(errors)) throw new ShopifyGraphqlError(errorMessage(errors), errors);
+            failure = { errors, status: null };
+        } catch (err) {
+            if (err instanceof ShopifyGraphqlError) throw err;
+            const { errors, status, extensions } = describeFailure(err);
+            recordCost(admin, query, extensions);
+
+            if (status !== null && status >= 500) retryReason = `HTTP ${status}`;
+            else if (!isThrottled(errors) && status !== 429) {
+                if (errors.length > 0) throw new ShopifyGraphqlError(errorMessage(errors), errors, status);
+                throw err;
+            }
+            failure = { errors, status };
+        }
+
+        if (attempt >= MAX_ATTEMPTS) {
+            throw new ShopifyGraphqlError(`${retryReason} after ${attempt} attempts`, failure.errors, failure.status);
+        }
+        const refill = retryReason === "THROTTLED" ? refillMs(admin, queryCosts.get(query) ?? DEFAULT_QUERY_COST) : 0;
+        const delay = Math.max(backoffMs(attempt), refill);
+        console.warn(`[SHOPIFY_GRAPHQL] ${retryReason}, retrying in ${delay} ms (attempt ${attempt}/${MAX_ATTEMPTS})`);
+        await sleep(delay);
+    }
+}
+
+/**
+ * Run a mutation and return the payload under `field` (e.g. "tagsAdd") with its
+ * userErrors. Request failures throw like shopifyGraphql.
+ */
+export async function shopifyMutation<T = any>(
+    admin: AdminGraphqlClient,
+    mutation: string,
+    variables: Record<string, unknown>,
+    field: string
+): Promise<MutationResult<T>> {
+    const data = await shopifyGraphql<Record<string, (T & { userErrors?: RawUserError[] }) | null>>(admin, mutation, variables);
+    const payload = data?.[field] ?? null;
+    const userErrors: ShopifyUserError[] = (payload?.userErrors || []).map(e => ({
+        field: e.field ?? null,
+        message: e.message,
+        code: e.code ?? null
+    }));
+    return { ok: userErrors.length === 0, payload, userErrors };
+}
+
+/**
+ * userErrors as one line for logs and messages, e.g. "tags: Tag is too long".
+ */
+export function formatUserErrors(userErrors: ShopifyUserError[]): string {
+    return userErrors.map(e => (e.field?.length ? `${e.field.join(".")}: ${e.message}` : e.message)).join("; ");
+}
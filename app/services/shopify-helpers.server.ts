@@ -4,19 +4,209 @@
  * Shared Shopify GraphQL helpers used by the dashboard sync,
  * rule-creation auto-sync, and any other place that needs
  * ALL customers from a store (not just the first page).
+ *
+ * Calls go through shopifyGraphql (shopify-graphql.server.ts), which paces them by the
+ * query cost bucket and retries throttled and 5xx responses. Full-store fetches of
+ * stores with more than BULK_FETCH_THRESHOLD records run as a bulk operation instead
+ * of paging (see bulk-operations.server.ts).
  */
 
+import type { ProductDetailsMap } from "./order-data.server";
+import { shopifyGraphql, ShopifyGraphqlError } from "./shopify-graphql.server";
+import { runBulkQuery, BulkOperationError } from "./bulk-operations.server";
+import type { BulkProgress } from "./bulk-operations.server";
+
+// Above this many customers / orders a full-store fetch runs as a bulk operation
+export const BULK_FETCH_THRESHOLD = 5000;
+
+const BULK_CUSTOMERS_QUERY = `
+    {
+        customers {
+            edges {
+                node {
+                    id
+                    email
+                    firstName
+                    lastName
+                    amountSpent { amount }
+                    numberOfOrders
+                    tags
+                    createdAt
+                    locale
+                    defaultAddress { countryCodeV2 provinceCode }
+                    emailMarketingConsent { marketingState }
+                }
+            }
+        }
+    }
+`;
+
+const BULK_ORDERS_QUERY = `
+    {
+        orders {
+            edges {
+                node {
+                    id
+                    name
+                    email
+                    tags
+                    createdAt
+                    currencyCode
+                    displayFinancialStatus
+                    subtotalPriceSet { shopMoney { amount } }
+                    totalPriceSet { shopMoney { amount } }
+                    totalDiscountsSet { shopMoney { amount } }
+                    discountCodes
+                    paymentGatewayNames
+                    sourceIdentifier
+                    channel { name }
+                    shippingAddress { city countryCode }
+                    customer {
+                        id
+                        email
+                        amountSpent { amount }
+                        numberOfOrders
+                        tags
+                    }
+                    lineItems {
+                        edges {
+                            node {
+                                id
+                                title
+                                quantity
+                                originalUnitPriceSet { shopMoney { amount } }
+                                sku
+                                vendor
+                                customAttributes { key value }
+                                product { id tags }
+                            }
+                        }
+                    }
+                }
+            }
+        }
+    }
+`;
+
+// Customers per nodes() call when reading first order dates after a bulk export
+const FIRST_ORDER_BATCH_SIZE = 100;
+
+// A failed bulk operation falls back to paging; anything else (e.g. a paused job) propagates
+const isBulkFailure = (err: unknown) => err instanceof BulkOperationError || err instanceof ShopifyGraphqlError;
+
+/**
+ * Number of the store's customers / orders (orders matching `search`), or 0 when the
+ * count can't be read, in which case the fetchers page as before.
+ */
+async function countRecords(admin: any, entity: "customers" | "orders", search?: string): Promise<number> {
+    try {
+        if (entity === "customers") {
+            const data = await shopifyGraphql(admin, `#graphql
+                query customersCount {
+                    customersCount { count }
+                }
+            `);
+            return data?.customersCount?.count ?? 0;
+        }
+        const data = await shopifyGraphql(admin, `#graphql
+            query ordersCount($query: String) {
+                ordersCount(query: $query) { count }
+            }
+        `, { query: search ?? null });
+        return data?.ordersCount?.count ?? 0;
+    } catch (err: any) {
+        console.error(`[SHOPIFY_HELPERS] Failed to count ${entity}:`, err.message);
+        return 0;
+    }
+}
+
+/**
+ * The shop's IANA timezone (e.g. "America/New_York"), used for rule schedules.
+ * Returns null when the request fails.
+ */
+export async function fetchShopTimezone(admin: any): Promise<string | null> {
+    try {
+        const data = await shopifyGraphql(admin, `#graphql
+            query shopTimezone {
+                shop { ianaTimezone }
+            }
+        `);
+        return data?.shop?.ianaTimezone || null;
+    } catch (err: any) {
+        console.error("[SHOPIFY_HELPERS] Failed to fetch shop timezone:", err.message);
+        return null;
+    }
+}
+
+/**
+ * Give the bulk-exported customers with orders the `orders(first: 1)` edge the paged
+ * query returns, unless `knownFirstOrders` (numeric IDs) says their first order date
+ * is stored already. A bulk query can't limit a nested connection, so it isn't exported.
+ */
+async function addFirstOrderDates(admin: any, edges: any[], knownFirstOrders?: Set<string>, onBulkProgress?: BulkProgress) {
+    const missing = edges.filter(edge =>
+        parseInt(edge.node.numberOfOrders || "0") > 0 && !knownFirstOrders?.has(edge.node.id.split("/").pop()));
+
+    for (let i = 0; i < missing.length; i += FIRST_ORDER_BATCH_SIZE) {
+        const batch = missing.slice(i, i + FIRST_ORDER_BATCH_SIZE);
+        const data: any = await shopifyGraphql(admin, `#graphql
+            query FetchFirstOrderDates($ids: [ID!]!) {
+                nodes(ids: $ids) {
+                    ... on Customer {
+                        id
+                        orders(first: 1, sortKey: CREATED_AT) {
+                            edges { node { createdAt } }
+                        }
+                    }
+                }
+            }
+        `, { ids: batch.map(edge => edge.node.id) });
+
+        const ordersById = new Map((data?.nodes || []).filter(Boolean).map((node: any) => [node.id, node.orders]));
+        for (const edge of batch) {
+            const orders = ordersById.get(edge.node.id);
+            if (orders) edge.node.orders = orders;
+        }
+        await onBulkProgress?.(edges.length);
+    }
+}
+
 /**
- * Fetch ALL customers from Shopify using cursor-based pagination.
+ * Fetch ALL customers from Shopify using cursor-based pagination, or a bulk operation
+ * for paid stores above BULK_FETCH_THRESHOLD customers.
  * Free plans are capped at 50 total; paid plans fetch everything.
+ * Throws when a page can't be fetched (ShopifyGraphqlError), so a sync job retries
+ * instead of running on a partial customer list.
  * 
- * @param admin   – Shopify admin API client
- * @param isFree  – whether the store is on the free plan (caps at 50)
- * @returns        array of customer edge objects ready for enqueueSyncJob
+ * @param admin       – Shopify admin API client
+ * @param isFree      – whether the store is on the free plan (caps at 50)
+ * @param onBulkProgress – objects exported so far, while a bulk operation runs
+ * @param knownFirstOrders – numeric IDs of customers whose first order date is stored,
+ *                           not read again after a bulk export
+ * @returns            array of customer edge objects ready for enqueueSyncJob
  */
-export async function fetchAllCustomers(admin: any, isFree: boolean) {
+export async function fetchAllCustomers(admin: any, isFree: boolean, onBulkProgress?: BulkProgress, knownFirstOrders?: Set<string>) {
+    if (!isFree && await countRecords(admin, "customers") > BULK_FETCH_THRESHOLD) {
+        const bulkEdges: any[] = [];
+        let exported = true;
+        try {
+            await runBulkQuery(admin, BULK_CUSTOMERS_QUERY, async node => {
+                bulkEdges.push({ node });
+            }, onBulkProgress);
+        } catch (err) {
+            if (!isBulkFailure(err)) throw err;
+            console.error("[SHOPIFY_HELPERS] Bulk customer export failed, paging instead:", (err as Error).message);
+            exported = false;
+        }
+        if (exported) {
+            await addFirstOrderDates(admin, bulkEdges, knownFirstOrders, onBulkProgress);
+            console.log(`[SHOPIFY_HELPERS] Fetched ${bulkEdges.length} customers (bulk operation)`);
+            return bulkEdges;
+        }
+    }
+
     const pageSize = 250;  // Shopify max per page
-    const hardCap = isFree ? 50 : 10000;  // Safety limit
+    const hardCap = isFree ? 50 : Infinity;
     const allEdges: any[] = [];
     let cursor: string | null = null;
     let hasNextPage = true;
@@ -25,56 +215,48 @@ export async function fetchAllCustomers(admin: any, isFree: boolean) {
         const remaining = hardCap - allEdges.length;
         const batchSize = Math.min(pageSize, remaining);
 
-        try {
-            const res = await admin.graphql(`#graphql
-                query fetchCustomers($first: Int!, $after: String) {
-                    customers(first: $first, after: $after) {
-                        edges {
-                            cursor
-                            node {
-                                id
-                                email
-                                firstName
-                                lastName
-                                amountSpent { amount }
-                                numberOfOrders
-                                tags
+        const data: any = await shopifyGraphql(admin, `#graphql
+            query fetchCustomers($first: Int!, $after: String) {
+                customers(first: $first, after: $after) {
+                    edges {
+                        cursor
+                        node {
+                            id
+                            email
+                            firstName
+                            lastName
+                            amountSpent { amount }
+                            numberOfOrders
+                            tags
+                            createdAt
+                            locale
+                            defaultAddress { countryCodeV2 provinceCode }
+                            emailMarketingConsent { marketingState }
+                            orders(first: 1, sortKey: CREATED_AT) {
+                                edges { node { createdAt } }
                             }
                         }
-                        pageInfo {
-                            hasNextPage
-                            endCursor
-                        }
+                    }
+                    pageInfo {
+                        hasNextPage
+                        endCursor
                     }
                 }
-            `, {
-                variables: {
-                    first: batchSize,
-                    after: cursor
-                }
-            });
-
-            const data: any = await res.json();
-            
-            if (data.errors) {
-                console.error("[SHOPIFY_HELPERS] GraphQL Error:", JSON.stringify(data.errors, null, 2));
-                break;
             }
+        `, {
+            first: batchSize,
+            after: cursor
+        });
 
-            const edges = data.data?.customers?.edges || [];
-            const pageInfo = data.data?.customers?.pageInfo;
+        const edges = data?.customers?.edges || [];
+        const pageInfo = data?.customers?.pageInfo;
 
-            allEdges.push(...edges);
+        allEdges.push(...edges);
 
-            hasNextPage = pageInfo?.hasNextPage ?? false;
-            cursor = pageInfo?.endCursor || null;
+        hasNextPage = pageInfo?.hasNextPage ?? false;
+        cursor = pageInfo?.endCursor || null;
 
-            if (edges.length === 0) hasNextPage = false;
-
-        } catch (err: any) {
-            console.error("[SHOPIFY_HELPERS] Network/Parse Error fetching customers:", err.message);
-            break;
-        }
+        if (edges.length === 0) hasNextPage = false;
     }
 
     console.log(`[SHOPIFY_HELPERS] Fetched ${allEdges.length} customers (isFree=${isFree})`);
@@ -87,88 +269,379 @@ export async function fetchAllCustomers(admin: any, isFree: boolean) {
  * including guest checkouts and orders from customers beyond the customer cap.
  *
  * @param admin       – Shopify admin API client
- * @param maxOrders   – Maximum number of orders to process (default 5000)
+ * Throws when not every order up to `maxOrders` could be fetched.
+ *
+ * @param maxOrders   – Maximum number of orders to process (default: all, see forEachOrderPage)
+ * @param onBulkProgress – objects exported so far, while a bulk operation runs
  */
-export async function fetchAllOrders(admin: any, maxOrders = 5000): Promise<any[]> {
-    const pageSize = 250; // Shopify max per page
+export async function fetchAllOrders(admin: any, maxOrders = Infinity, onBulkProgress?: BulkProgress): Promise<any[]> {
     const allEdges: any[] = [];
+    const { complete } = await forEachOrderPage(admin, async edges => { allEdges.push(...edges); }, maxOrders, onBulkProgress);
+    if (!complete && allEdges.length < maxOrders) {
+        throw new BulkOperationError(`Order export stopped after ${allEdges.length} orders`);
+    }
+    return allEdges;
+}
+
+/**
+ * forEachOrderPage for a bulk operation: the streamed orders are handed to `onPage` in
+ * pages of `pageSize`. Null when the operation failed before any page was handed over
+ * (the caller pages instead); `complete` is false when it failed later.
+ */
+async function forEachOrderPageInBulk(
+    admin: any,
+    onPage: (edges: any[]) => Promise<void>,
+    pageSize: number,
+    onBulkProgress?: BulkProgress
+): Promise<{ fetched: number; complete: boolean } | null> {
+    let fetched = 0;
+    let page: any[] = [];
+    try {
+        await runBulkQuery(admin, BULK_ORDERS_QUERY, async (node, lineItems) => {
+            page.push({ node: { ...node, lineItems: { edges: lineItems.map(item => ({ node: item })) } } });
+            if (page.length < pageSize) return;
+            fetched += page.length;
+            const full = page;
+            page = [];
+            await onPage(full);
+        }, onBulkProgress);
+        if (page.length > 0) {
+            fetched += page.length;
+            await onPage(page);
+        }
+    } catch (err) {
+        if (!isBulkFailure(err)) throw err;
+        console.error("[SHOPIFY_HELPERS] Bulk order export failed:", (err as Error).message);
+        if (fetched === 0) return null;
+        return { fetched, complete: false };
+    }
+
+    console.log(`[SHOPIFY_HELPERS] Fetched ${fetched} orders total (bulk operation)`);
+    return { fetched, complete: true };
+}
+
+/**
+ * Page through ALL orders of the store, handing each page of edges to `onPage`
+ * instead of collecting them — used by the one-time local order backfill, which
+ * may cover far more orders than fits comfortably in memory.
+ *
+ * Without a `maxOrders` cap, stores above BULK_FETCH_THRESHOLD orders are read with
+ * a bulk operation, handed over in the same pages.
+ *
+ * Errors thrown by `onPage` and pages that can't be fetched (ShopifyGraphqlError)
+ * propagate to the caller. `complete` is false at `maxOrders`, or when a bulk operation
+ * failed after handing over pages.
+ */
+export async function forEachOrderPage(
+    admin: any,
+    onPage: (edges: any[]) => Promise<void>,
+    maxOrders = Infinity,
+    onBulkProgress?: BulkProgress
+): Promise<{ fetched: number; complete: boolean }> {
+    const pageSize = 250; // Shopify max per page
+
+    if (maxOrders === Infinity && await countRecords(admin, "orders") > BULK_FETCH_THRESHOLD) {
+        const bulk = await forEachOrderPageInBulk(admin, onPage, pageSize, onBulkProgress);
+        if (bulk) return bulk;
+    }
+    let fetched = 0;
     let cursor: string | null = null;
     let hasNextPage = true;
 
-    while (hasNextPage && allEdges.length < maxOrders) {
-        const remaining = maxOrders - allEdges.length;
+    while (hasNextPage && fetched < maxOrders) {
+        const remaining = maxOrders - fetched;
         const batchSize = Math.min(pageSize, remaining);
 
-        try {
-            const res = await admin.graphql(`#graphql
-                query FetchAllOrders($first: Int!, $after: String) {
-                    orders(first: $first, after: $after) {
-                        edges {
-                            node {
+        const data: any = await shopifyGraphql(admin, `#graphql
+            query FetchAllOrders($first: Int!, $after: String) {
+                orders(first: $first, after: $after) {
+                    edges {
+                        node {
+                            id
+                            name
+                            email
+                            tags
+                            createdAt
+                            currencyCode
+                            displayFinancialStatus
+                            subtotalPriceSet { shopMoney { amount } }
+                            totalPriceSet { shopMoney { amount } }
+                            totalDiscountsSet { shopMoney { amount } }
+                            discountCodes
+                            paymentGatewayNames
+                            sourceIdentifier
+                            channel { name }
+                            shippingAddress { city countryCode }
+                            customer {
                                 id
+                                email
+                                amountSpent { amount }
+                                numberOfOrders
                                 tags
-                                createdAt
-                                subtotalPriceSet { shopMoney { amount } }
-                                totalDiscountsSet { shopMoney { amount } }
-                                discountCodes
-                                paymentGatewayNames
-                                sourceIdentifier
-                                channel { name }
-                                shippingAddress { city countryCode }
-                                customer {
-                                    id
-                                    email
-                                    amountSpent { amount }
-                                    numberOfOrders
-                                    tags
-                                }
-                                lineItems(first: 50) {
-                                    edges {
-                                        node {
-                                            quantity
-                                            customAttributes { key value }
-                                            product { tags }
-                                        }
+                            }
+                            lineItems(first: 50) {
+                                edges {
+                                    node {
+                                        title
+                                        quantity
+                                        originalUnitPriceSet { shopMoney { amount } }
+                                        sku
+                                        vendor
+                                        customAttributes { key value }
+                                        product { id tags }
                                     }
                                 }
                             }
                         }
-                        pageInfo {
-                            hasNextPage
-                            endCursor
-                        }
+                    }
+                    pageInfo {
+                        hasNextPage
+                        endCursor
                     }
                 }
-            `, {
-                variables: { first: batchSize, after: cursor }
+            }
+        `, { first: batchSize, after: cursor });
+
+        const edges: any[] = data?.orders?.edges || [];
+        const pageInfo = data?.orders?.pageInfo;
+
+        fetched += edges.length;
+        hasNextPage = pageInfo?.hasNextPage ?? false;
+        cursor = pageInfo?.endCursor || null;
+
+        if (edges.length === 0) hasNextPage = false;
+
+        if (edges.length > 0) await onPage(edges);
+    }
+
+    console.log(`[SHOPIFY_HELPERS] Fetched ${fetched} orders total`);
+    return { fetched, complete: !hasNextPage };
+}
+
+/**
+ * Every order carrying `tag`, as nodes with the given `fields` (no nested connections),
+ * for Tag Cleanup and the order CSV export. Paged up to BULK_FETCH_THRESHOLD matching
+ * orders, a bulk operation above. Throws when the orders can't be fetched.
+ *
+ * @param admin   – Shopify admin API client
+ * @param tag     – exact order tag
+ * @param fields  – GraphQL selection of each order node, e.g. "id name tags"
+ */
+export async function fetchOrdersByTag(admin: any, tag: string, fields: string): Promise<any[]> {
+    const search = `tag:'${tag}'`;
+    const nodes: any[] = [];
+
+    if (await countRecords(admin, "orders", search) > BULK_FETCH_THRESHOLD) {
+        try {
+            await runBulkQuery(admin, `{ orders(query: ${JSON.stringify(search)}) { edges { node { ${fields} } } } }`, async node => {
+                nodes.push(node);
             });
+            console.log(`[SHOPIFY_HELPERS] Fetched ${nodes.length} orders tagged "${tag}" (bulk operation)`);
+            return nodes;
+        } catch (err) {
+            if (!isBulkFailure(err)) throw err;
+            console.error("[SHOPIFY_HELPERS] Bulk order export failed, paging instead:", (err as Error).message);
+            nodes.length = 0;
+        }
+    }
 
-            const data: any = await res.json();
+    let cursor: string | null = null;
+    let hasNextPage = true;
+    while (hasNextPage) {
+        const data: any = await shopifyGraphql(admin, `
+            query FetchOrdersByTag($query: String!, $cursor: String) {
+                orders(first: 250, query: $query, after: $cursor) {
+                    pageInfo { hasNextPage endCursor }
+                    edges { node { ${fields} } }
+                }
+            }
+        `, { query: search, cursor });
+
+        const edges = data?.orders?.edges || [];
+        nodes.push(...edges.map((e: any) => e.node));
+        hasNextPage = (data?.orders?.pageInfo?.hasNextPage ?? false) && edges.length > 0;
+        cursor = data?.orders?.pageInfo?.endCursor || null;
+    }
 
-            if (data.errors) {
-                console.error("[SHOPIFY_HELPERS] GraphQL Error fetching orders:", JSON.stringify(data.errors, null, 2));
-                break;
+    return nodes;
+}
+
+/**
+ * Fetch one order by its name (e.g. "#1001"), for the tagging explainer when the store's
+ * orders aren't stored locally. Same node shape as fetchAllOrders (see mapGraphqlOrder).
+ *
+ * @param admin – Shopify admin API client
+ * @param name  – order name, with or without the leading "#"
+ * @returns the order node, or null when no order has that name
+ */
+export async function fetchOrderByName(admin: any, name: string): Promise<any | null> {
+    const orderName = name.startsWith("#") ? name : `#${name}`;
+    try {
+        const data: any = await shopifyGraphql(admin, `#graphql
+            query FetchOrderByName($query: String!) {
+                orders(first: 5, query: $query) {
+                    edges {
+                        node {
+                            id
+                            name
+                            email
+                            tags
+                            createdAt
+                            currencyCode
+                            displayFinancialStatus
+                            subtotalPriceSet { shopMoney { amount } }
+                            totalPriceSet { shopMoney { amount } }
+                            totalDiscountsSet { shopMoney { amount } }
+                            discountCodes
+                            paymentGatewayNames
+                            sourceIdentifier
+                            channel { name }
+                            shippingAddress { city countryCode }
+                            customer { id }
+                            lineItems(first: 50) {
+                                edges {
+                                    node {
+                                        title
+                                        quantity
+                                        originalUnitPriceSet { shopMoney { amount } }
+                                        sku
+                                        vendor
+                                        customAttributes { key value }
+                                        product { id tags }
+                                    }
+                                }
+                            }
+                        }
+                    }
+                }
             }
+        `, { query: `name:${orderName}` });
 
-            const edges = data.data?.orders?.edges || [];
-            const pageInfo = data.data?.orders?.pageInfo;
+        // The search is a prefix match ("#100" also finds "#1001"), so compare exactly
+        const edges: any[] = data?.orders?.edges || [];
+        return edges.find(edge => edge.node.name === orderName)?.node || null;
+    } catch (err: any) {
+        console.error("[SHOPIFY_HELPERS] Error fetching order by name:", err.message);
+        return null;
+    }
+}
 
-            allEdges.push(...edges);
-            hasNextPage = pageInfo?.hasNextPage ?? false;
-            cursor = pageInfo?.endCursor || null;
+/**
+ * Fetch one customer's orders (newest first) for purchase-history conditions.
+ * Same node shape as fetchAllOrders, so results can go through mapGraphqlOrder.
+ * Throws when a page can't be fetched rather than returning a partial history.
+ *
+ * @param admin       – Shopify admin API client
+ * @param customerId  – numeric customer ID
+ * @param maxOrders   – history depth (default 250 most recent orders)
+ */
+export async function fetchCustomerOrders(admin: any, customerId: string, maxOrders = 250): Promise<any[]> {
+    const pageSize = 25; // Small pages: each order carries a nested lineItems connection
+    const allEdges: any[] = [];
+    let cursor: string | null = null;
+    let hasNextPage = true;
 
-            if (edges.length === 0) hasNextPage = false;
+    while (hasNextPage && allEdges.length < maxOrders) {
+        const data: any = await shopifyGraphql(admin, `#graphql
+            query FetchCustomerOrders($first: Int!, $after: String, $query: String!) {
+                orders(first: $first, after: $after, query: $query, sortKey: CREATED_AT, reverse: true) {
+                    edges {
+                        node {
+                            id
+                            tags
+                            createdAt
+                            subtotalPriceSet { shopMoney { amount } }
+                            totalDiscountsSet { shopMoney { amount } }
+                            discountCodes
+                            paymentGatewayNames
+                            sourceIdentifier
+                            channel { name }
+                            shippingAddress { city countryCode }
+                            lineItems(first: 30) {
+                                edges {
+                                    node {
+                                        quantity
+                                        sku
+                                        vendor
+                                        customAttributes { key value }
+                                        product { id tags }
+                                    }
+                                }
+                            }
+                        }
+                    }
+                    pageInfo {
+                        hasNextPage
+                        endCursor
+                    }
+                }
+            }
+        `, { first: Math.min(pageSize, maxOrders - allEdges.length), after: cursor, query: `customer_id:${customerId}` });
 
-            // Respect Shopify rate limits
-            if (hasNextPage) await new Promise(r => setTimeout(r, 300));
+        const edges = data?.orders?.edges || [];
+        const pageInfo = data?.orders?.pageInfo;
 
-        } catch (err: any) {
-            console.error("[SHOPIFY_HELPERS] Network/Parse Error fetching orders:", err.message);
-            break;
-        }
+        allEdges.push(...edges);
+        hasNextPage = pageInfo?.hasNextPage ?? false;
+        cursor = pageInfo?.endCursor || null;
+
+        if (edges.length === 0) hasNextPage = false;
     }
 
-    console.log(`[SHOPIFY_HELPERS] Fetched ${allEdges.length} orders total`);
     return allEdges;
 }
 
+/**
+ * Fetch product type, vendor, tags and collections for the given product IDs.
+ * Used by product_type / product_tag / product_collection order conditions, which
+ * need data that isn't in the order payload. Throws when a batch can't be fetched.
+ *
+ * @param admin       – Shopify admin API client
+ * @param productIds  – numeric product IDs
+ * @param cache       – optional map reused across calls (e.g. a whole historical sync)
+ * @returns            map of numeric product ID → details
+ */
+export async function fetchProductDetails(
+    admin: any,
+    productIds: string[],
+    cache: ProductDetailsMap = new Map()
+): Promise<ProductDetailsMap> {
+    const missing = [...new Set(productIds)].filter(id => id && !cache.has(id));
+    const batchSize = 25; // Keeps the nested collections connection well under the query cost limit
+
+    for (let i = 0; i < missing.length; i += batchSize) {
+        const batch = missing.slice(i, i + batchSize);
+
+        const data: any = await shopifyGraphql(admin, `#graphql
+            query FetchProductDetails($ids: [ID!]!) {
+                nodes(ids: $ids) {
+                    ... on Product {
+                        id
+                        productType
+                        vendor
+                        tags
+                        collections(first: 25) {
+                            edges { node { id handle title } }
+                        }
+                    }
+                }
+            }
+        `, { ids: batch.map(id => `gid://shopify/Product/${id}`) });
+
+        for (const node of data?.nodes || []) {
+            if (!node?.id) continue;
+            const collections: string[] = [];
+            for (const edge of node.collections?.edges || []) {
+                collections.push(edge.node.id.split("/").pop(), edge.node.handle, edge.node.title);
+            }
+            cache.set(node.id.split("/").pop(), {
+                productType: node.productType || "",
+                vendor: node.vendor || "",
+                tags: node.tags || [],
+                collections: collections.filter(Boolean).map(c => String(c).toLowerCase())
+            });
+        }
+    }
+
+    return cache;
+}
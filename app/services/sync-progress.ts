@@ -0,0 +1,71 @@
+/**
+ * sync-progress.ts
+ *
+ * Sync Job Progress (shared by server services and route components — no server-only
+ * dependencies).
+ *
+ * processSyncJob (queue.server.ts) saves a SyncProgress with every checkpoint of its
+ * job (Job.progress), so the rules page and dashboard can show each phase on its own:
+ *
+ *   customers   customers evaluated in the current pass; a sync makes a bulk pass for
+ *               compiled rules and a per-customer pass for the rest (see rule-query.server.ts)
+ *   orders      orders scanned by the order rules
+ *
+ * Every evaluated item ends up in one count: tagged (tags changed), skipped (already up to
+ * date, or for orders already tagged), failed (an error) or limitBlocked (the monthly plan
+ * limit stopped the change). Customer counts add up over the passes.
+ */
+
+export type PhaseProgress = {
+    done: number;
+    total: number;
+    tagged: number;
+    skipped: number;
+    failed: number;
+    limitBlocked: number;
+};
+
+export type SyncProgress = {
+    phase: "customers" | "orders" | null;
+    customers: PhaseProgress & { pass: number; passes: number };
+    orders: PhaseProgress;
+};
+
+// What happened to one evaluated customer or order (errors count as failed)
+export type ItemOutcome = "tagged" | "skipped" | "failed" | "limitBlocked";
+
+// The latest sync job as the UI sees it (see getSyncJobSummary in queue.server.ts)
+export type SyncJobSummary = {
+    id: string;
+    status: "QUEUED" | "RUNNING" | "PAUSED" | "COMPLETED" | "FAILED" | "CANCELLED";
+    progress: SyncProgress | null;
+    error: string | null;
+    // Set while a failed attempt waits for its retry
+    runAfter: string | null;
+    finishedAt: string | null;
+    // A pause or cancel was asked for and the job stops at its next checkpoint
+    stopping: boolean;
+};
+
+const emptyPhase = (): PhaseProgress => ({ done: 0, total: 0, tagged: 0, skipped: 0, failed: 0, limitBlocked: 0 });
+
+export function emptySyncProgress(): SyncProgress {
+    return {
+        phase: null,
+        customers: { ...emptyPhase(), pass: 0, passes: 0 },
+        orders: emptyPhase()
+    };
+}
+
+export function countOutcome(phase: PhaseProgress, outcome: ItemOutcome): void {
+    phase[outcome]++;
+}
+
+export function getPhasePercent(phase: PhaseProgress): number {
+    if (phase.total <= 0) return 0;
+    return Math.min(Math.round((phase.done / phase.total) * 100), 100);
+}
+
+export function isSyncJobActive(summary: SyncJobSummary | null): boolean {
+    return summary?.status === "QUEUED" || summary?.status === "RUNNING";
+}
@@ -0,0 +1,211 @@
+/**
+ * tag-expiry.server.ts
+ *
+ * Tag expiry for order rules. Order rules only ever add tags, so a tag such as
+ * "Discount-Hunter" would otherwise stay forever. A rule with Rule.expireAfterDays
+ * removes its tag once the last qualifying order is that old:
+ *
+ *   - every time an expiring rule qualifies — its tag is applied, or the rule matches a
+ *     new order while the tag is still there — recordQualifyingEvents() upserts a
+ *     TagExpiry row: qualifiedAt = the order's date, expiresAt = qualifiedAt +
+ *     expireAfterDays. Older events never move it back.
+ *   - expireDueTags() (hourly cron) removes every tag whose expiresAt passed, logs
+ *     TAG_REMOVED with the expiry reason and deletes the row. A removal Shopify rejects
+ *     is refunded and retried with backoff (nextAttemptAt), up to EXPIRY_MAX_ATTEMPTS
+ *     times; rows of customers / orders that no longer exist are dropped right away.
+ *     Rows blocked by the removal limit wait a day without counting an attempt.
+ *
+ * evaluateOrderRules skips orders that are already older than the window, so a
+ * historical sync never adds a tag that would expire straight away.
+ */
+import type { Rule, TagExpiry } from "@prisma/client";
+import { unauthenticated } from "../shopify.server";
+import db from "../db.server";
+import { getRuleExpiryDays } from "./order-rules.server";
+import { manageCustomerTags, manageOrderTags } from "./tags.server";
+import { incrementUsage, refundUsage } from "./usage.server";
+import { shopifyGraphql, formatUserErrors, ShopifyGraphqlError } from "./shopify-graphql.server";
+import { splitList } from "./order-store.server";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Expired rows handled per cron tick; the rest are picked up by the next tick
+const EXPIRY_BATCH_SIZE = 500;
+// Failed removals are retried after 1h, 2h, 4h, … and dropped after the last attempt
+const EXPIRY_RETRY_BASE_MS = 60 * 60 * 1000;
+const EXPIRY_MAX_ATTEMPTS = 8;
+
+export type QualifyingEvent = {
+    ruleId: string;
+    tag: string;
+    targetEntity: string;
+    // Order the event came from: its tag for order rules, its date for qualifiedAt
+    orderId?: string;
+    qualifiedAt?: Date;
+};
+
+/**
+ * Start or extend the expiry of the tags behind `events`. Events of rules without an
+ * expiry are ignored, so callers can pass every evaluateOrderRules result.
+ */
+export async function recordQualifyingEvents(
+    storeId: string,
+    customerId: string,
+    events: QualifyingEvent[],
+    rules: Rule[]
+): Promise<void> {
+    for (const event of events) {
+        const rule = rules.find(r => r.id === event.ruleId);
+        const days = rule ? getRuleExpiryDays(rule) : null;
+        if (!days) continue;
+
+        const qualifiedAt = event.qualifiedAt ?? new Date();
+        const expiresAt = new Date(qualifiedAt.getTime() + days * DAY_MS);
+        const orderId = event.targetEntity === "order" ? event.orderId || "" : "";
+        const key = { ruleId: event.ruleId, customerId, orderId, tag: event.tag };
+
+        const existing = await db.tagExpiry.findUnique({ where: { ruleId_customerId_orderId_tag: key } });
+        if (existing && existing.qualifiedAt >= qualifiedAt) continue;
+
+        await db.tagExpiry.upsert({
+            where: { ruleId_customerId_orderId_tag: key },
+            create: { storeId, ...key, qualifiedAt, expiresAt },
+            update: { qualifiedAt, expiresAt, attempts: 0, nextAttemptAt: null }
+        });
+    }
+}
+
+/**
+ * Pending expiries of a customer's tags (customer and order tags), soonest first.
+ */
+export async function getCustomerTagExpiries(storeId: string, customerId: string) {
+    return db.tagExpiry.findMany({
+        where: { storeId, customerId },
+        include: { rule: { select: { name: true, expireAfterDays: true } } },
+        orderBy: { expiresAt: "asc" }
+    });
+}
+
+function describeExpiry(expiry: TagExpiry & { rule: Rule }): string {
+    return `Expired: last qualifying order on ${expiry.qualifiedAt.toISOString().slice(0, 10)} is more than ${expiry.rule.expireAfterDays} days old (rule "${expiry.rule.name}")`;
+}
+
+// Shopify's answer for a customer / order that was deleted: retrying can't help
+function isMissingEntityError(message: string): boolean {
+    return /not found|does not exist|doesn't exist|invalid id/i.test(message);
+}
+
+/**
+ * Count a failed removal of `ids` and schedule the next try, or drop the rows once
+ * they had EXPIRY_MAX_ATTEMPTS (or the entity is gone: `permanent`).
+ */
+async function deferExpiries(ids: string[], attempts: number, now: Date, permanent: boolean): Promise<void> {
+    if (permanent || attempts + 1 >= EXPIRY_MAX_ATTEMPTS) {
+        await db.tagExpiry.deleteMany({ where: { id: { in: ids } } });
+        return;
+    }
+    await db.tagExpiry.updateMany({
+        where: { id: { in: ids } },
+        data: { attempts: attempts + 1, nextAttemptAt: new Date(now.getTime() + EXPIRY_RETRY_BASE_MS * 2 ** attempts) }
+    });
+}
+
+/**
+ * Remove every tag whose expiry passed. Rows are retried with backoff when Shopify
+ * rejects the removal, and wait a day when the store's removal limit is reached.
+ */
+export async function expireDueTags(now: Date = new Date()): Promise<{ storesChecked: number; tagsExpired: number }> {
+    const due = await db.tagExpiry.findMany({
+        where: { expiresAt: { lte: now }, OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }] },
+        include: { rule: true, store: { select: { id: true, shop: true, isActive: true } } },
+        orderBy: { expiresAt: "asc" },
+        take: EXPIRY_BATCH_SIZE
+    });
+
+    // One removal call per store + customer / order
+    const batches = new Map<string, typeof due>();
+    for (const expiry of due) {
+        const key = `${expiry.storeId}|${expiry.customerId}|${expiry.orderId}`;
+        batches.set(key, [...(batches.get(key) || []), expiry]);
+    }
+
+    const admins = new Map<string, Awaited<ReturnType<typeof unauthenticated.admin>>["admin"]>();
+    const stores = new Set<string>();
+    let tagsExpired = 0;
+
+    for (const expiries of batches.values()) {
+        const { store, customerId, orderId } = expiries[0];
+        stores.add(store.id);
+        const ids = expiries.map(e => e.id);
+        const attempts = Math.max(...expiries.map(e => e.attempts));
+        const entity = `customer ${customerId}${orderId ? `, order ${orderId}` : ""}`;
+
+        try {
+            if (!store.isActive) {
+                await db.tagExpiry.deleteMany({ where: { id: { in: ids } } });
+                continue;
+            }
+
+            const getAdmin = async () => {
+                if (!admins.has(store.shop)) admins.set(store.shop, (await unauthenticated.admin(store.shop)).admin);
+                return admins.get(store.shop)!;
+            };
+
+            // Only remove tags that are still there — the merchant may have removed them already
+            let currentTags = orderId
+                ? (await db.order.findUnique({ where: { id_storeId: { id: orderId, storeId: store.id } }, select: { tags: true } }))?.tags
+                : (await db.customer.findUnique({ where: { id_storeId: { id: customerId, storeId: store.id } }, select: { tags: true } }))?.tags;
+            // Orders from before the local order backfill aren't stored: ask Shopify
+            if (orderId && currentTags === undefined) {
+                const data = await shopifyGraphql(await getAdmin(), `#graphql
+                    query expiringOrderTags($id: ID!) {
+                        order(id: $id) { tags }
+                    }
+                `, { id: `gid://shopify/Order/${orderId}` });
+                currentTags = (data?.order?.tags || []).join(",");
+            }
+            const stillTagged = expiries.filter(e => splitList(currentTags).includes(e.tag));
+
+            if (stillTagged.length > 0) {
+                const allowed = await incrementUsage(store.shop, "removal", stillTagged.length);
+                if (!allowed) {
+                    await db.tagExpiry.updateMany({ where: { id: { in: ids } }, data: { nextAttemptAt: new Date(now.getTime() + DAY_MS) } });
+                    continue;
+                }
+
+                const admin = await getAdmin();
+                const tags = stillTagged.map(e => e.tag);
+
+                // Usage was already counted above
+                const result = orderId
+                    ? await manageOrderTags(admin, store.id, orderId, customerId, [], tags, true)
+                    : await manageCustomerTags(admin, store.id, customerId, [], tags, true);
+                if (!result.success) {
+                    await refundUsage(store.shop, "removal", stillTagged.length);
+                    const message = formatUserErrors(result.userErrors);
+                    const permanent = isMissingEntityError(message);
+                    console.error(`[TAG_EXPIRY] Shopify rejected removing ${tags.join(", ")} for ${store.shop} (${entity}), ${permanent ? "dropping it" : `attempt ${attempts + 1}/${EXPIRY_MAX_ATTEMPTS}`}:`, message);
+                    await deferExpiries(ids, attempts, now, permanent);
+                    continue;
+                }
+
+                for (const expiry of stillTagged) {
+                    await db.activityLog.create({
+                        data: { storeId: store.id, customerId, action: "TAG_REMOVED", tagContext: expiry.tag, reason: describeExpiry(expiry), ruleId: expiry.ruleId, ruleVersionId: expiry.rule.currentVersionId }
+                    });
+                }
+                tagsExpired += stillTagged.length;
+            }
+
+            await db.tagExpiry.deleteMany({ where: { id: { in: ids } } });
+        } catch (err) {
+            console.error(`[TAG_EXPIRY] Failed to expire tags for ${store.shop} (${entity}), attempt ${attempts + 1}/${EXPIRY_MAX_ATTEMPTS}:`, err);
+            const permanent = err instanceof ShopifyGraphqlError && isMissingEntityError(err.message);
+            await deferExpiries(ids, attempts, now, permanent)
+                .catch(deferErr => console.error(`[TAG_EXPIRY] Failed to reschedule tags for ${store.shop} (${entity}):`, deferErr));
+        }
+    }
+
+    if (due.length > 0) console.log(`[TAG_EXPIRY] ${tagsExpired} tags expired across ${stores.size} stores`);
+    return { storesChecked: stores.size, tagsExpired };
+}
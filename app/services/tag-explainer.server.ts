@@ -0,0 +1,296 @@
+/**
+ * tag-explainer.server.ts
+ *
+ * "Why wasn't this tagged?" Explainer (Additive Module)
+ *
+ * explainTagging() answers for ONE order (by name, e.g. "#1001") or ONE customer (by
+ * email) what every active rule does with it, using the production evaluators —
+ * extractOrderData / evaluateOrderRules for order conditions, calculateCustomerTags
+ * for customer and purchase-history conditions — so the answer matches what the
+ * webhooks and the historical sync do. Per rule it reports:
+ *
+ *   would_tag         matches and the tag would be applied
+ *   would_remove      customer rule that no longer matches while the customer holds its tag
+ *   already_tagged    the customer / order already carries the tag
+ *   no_match          at least one condition fails (see the trace)
+ *   group_loss        matches, but a higher-priority rule of its exclusive group wins
+ *   outside_expiry    matches, but the order is older than the rule's expiry window
+ *   outside_schedule  the rule's schedule window is closed, so it doesn't run (see rule-schedule.ts)
+ *   excluded          the rule's exclusion lists cover the customer / order (see rule-exclusions.ts)
+ *   limit_blocked     would tag, but the plan's monthly limit is used up
+ *   not_evaluated     the rule can't be evaluated for this lookup (see detail)
+ *
+ * plus the normalized field values the conditions are compared against and the
+ * store's usage against its plan limits. Nothing is written.
+ */
+import type { Rule, Customer, Store } from "@prisma/client";
+import db from "../db.server";
+import { calculateCustomerTags, evaluateRule, getCustomerConditionValues } from "./rule.server";
+import type { RuleTagChange } from "./rule.server";
+import { evaluateOrderRules, traceOrderRule, isPastExpiryWindow } from "./order-rules.server";
+import type { OrderRuleResult } from "./order-rules.server";
+import { hasOrderConditions, formatTraceValue } from "./condition-tree";
+import type { RuleTrace } from "./condition-tree";
+import { extractOrderData, mapGraphqlOrder, getOrderProductIds, rulesNeedProductDetails } from "./order-data.server";
+import type { ProductDetailsMap } from "./order-data.server";
+import { rulesNeedOrderHistory, buildOrderHistory } from "./purchase-history.server";
+import type { OrderHistory } from "./purchase-history.server";
+import { hasLocalOrders, getLocalCustomerOrders, toOrderPayload, splitList } from "./order-store.server";
+import { fetchOrderByName, fetchCustomerOrders, fetchProductDetails } from "./shopify-helpers.server";
+import { findTemplateTags } from "./tag-template";
+import { isSameExclusiveGroup, compareGroupPriority, describeExclusiveGroupLoss } from "./exclusive-groups";
+import { PLAN_LIMITS, canPerformActions } from "./usage.server";
+import { filterScheduledRules, getScheduleState, describeSchedule } from "./rule-schedule";
+import { findRuleExclusion, toExclusionSubject } from "./rule-exclusions";
+import type { UsageType } from "./usage.server";
+
+export type RuleExplanationStatus =
+    | "would_tag" | "would_remove" | "already_tagged" | "no_match"
+    | "group_loss" | "outside_expiry" | "outside_schedule" | "excluded" | "limit_blocked" | "not_evaluated";
+
+export type RuleExplanation = {
+    ruleId: string;
+    ruleName: string;
+    targetTag: string;
+    targetEntity: string;
+    status: RuleExplanationStatus;
+    detail: string;
+    // Tags of this rule the customer / order carries today (every rendered value for templates)
+    heldTags: string[];
+    trace: RuleTrace | null;
+    // Order the conditions were evaluated against (rules with order conditions)
+    orderName: string | null;
+};
+
+export type UsageStatus = {
+    type: UsageType;
+    used: number;
+    limit: number;
+    blocked: boolean;
+};
+
+export type TagExplanation = {
+    kind: "order" | "customer";
+    label: string;
+    customerId: string | null;
+    orderId: string | null;
+    customerValues: Record<string, string | null> | null;
+    orderValues: Record<string, string | null> | null;
+    usage: UsageStatus[];
+    rules: RuleExplanation[];
+    notes: string[];
+};
+
+// Stand-in for guest checkouts, as in the historical sync
+const GUEST_CUSTOMER = { id: "guest", totalSpent: 0, orderCount: 0, tags: "" } as unknown as Customer;
+
+const USAGE_FIELDS: Record<UsageType, "monthlyCustomerTagCount" | "monthlyOrderTagCount" | "monthlyRemovalCount"> = {
+    customer_tag: "monthlyCustomerTagCount",
+    order_tag: "monthlyOrderTagCount",
+    removal: "monthlyRemovalCount"
+};
+
+async function getUsageStatus(shop: string): Promise<UsageStatus[]> {
+    const store = await db.store.findUnique({ where: { shop } });
+    if (!store) return [];
+    const limits = PLAN_LIMITS[store.planName] || PLAN_LIMITS["Free"];
+    return (Object.keys(USAGE_FIELDS) as UsageType[]).map(type => ({
+        type,
+        used: store[USAGE_FIELDS[type]],
+        limit: limits[type],
+        blocked: store[USAGE_FIELDS[type]] + 1 > limits[type]
+    }));
+}
+
+// Normalized order fields as the order conditions see them
+function describeOrderValues(order: any, productDetails?: ProductDetailsMap): Record<string, string | null> {
+    const { line_items: lineItems, ...fields } = extractOrderData(order, productDetails);
+    const values: Record<string, string | null> = {};
+    for (const [field, value] of Object.entries(fields)) values[field] = formatTraceValue(value);
+    for (const key of ["product_id", "product_sku", "product_vendor", "product_type", "product_tag", "product_collection"]) {
+        values[key] = formatTraceValue([...new Set(lineItems.flatMap((item: Record<string, string | string[]>) => item[key]).filter(Boolean))]);
+    }
+    return values;
+}
+
+/**
+ * Explain every active rule for the order or customer `query` refers to:
+ * an order name ("#1001" or "1001") or a customer email.
+ */
+export async function explainTagging(admin: any, store: Store, query: string): Promise<TagExplanation | { error: string }> {
+    const term = query.trim();
+    if (!term) return { error: "Enter an order name (e.g. #1001) or a customer email." };
+
+    const activeRules = await db.rule.findMany({ where: { storeId: store.id, isActive: true }, orderBy: { createdAt: "asc" } });
+    if (activeRules.length === 0) return { error: "There are no active rules to explain." };
+
+    const localOrders = await hasLocalOrders(store.id);
+    const notes: string[] = [];
+
+    // ── Resolve the order / customer ─────────────────────────────
+    let order: any = null;
+    let customer: Customer | null = null;
+
+    if (term.includes("@")) {
+        customer = await db.customer.findFirst({ where: { storeId: store.id, email: term.toLowerCase() } })
+            ?? await db.customer.findFirst({ where: { storeId: store.id, email: term } });
+        if (!customer) return { error: `No synced customer with the email "${term}". Rules only evaluate customers TagBot has synced — run a historical sync first.` };
+    } else {
+        const name = term.startsWith("#") ? term : `#${term}`;
+        if (localOrders) {
+            const stored = await db.order.findFirst({ where: { storeId: store.id, name }, include: { lineItems: true } });
+            order = stored ? toOrderPayload(stored) : null;
+        } else {
+            const node = await fetchOrderByName(admin, name);
+            order = node ? mapGraphqlOrder(node) : null;
+        }
+        if (!order) return { error: `No order named "${name}" was found.` };
+        customer = order.customer?.id
+            ? await db.customer.findUnique({ where: { id_storeId: { id: order.customer.id, storeId: store.id } } })
+            : null;
+        if (!customer) notes.push(order.customer?.id
+            ? "The order's customer isn't synced yet, so customer conditions are evaluated as a guest (no spend, no orders, no tags)."
+            : "Guest checkout: customer conditions are evaluated with no spend, no orders and no tags.");
+    }
+
+    const evalCustomer = customer || GUEST_CUSTOMER;
+    const customerTags = splitList(evalCustomer.tags);
+
+    // ── Orders, product details and purchase history ─────────────
+    const orderRules = activeRules.filter(r => hasOrderConditions(r.conditions));
+    const needsHistory = rulesNeedOrderHistory(activeRules) && !!customer;
+    const customerOrders = customer && (needsHistory || (!order && orderRules.length > 0))
+        ? localOrders
+            ? await getLocalCustomerOrders(store.id, customer.id)
+            : (await fetchCustomerOrders(admin, customer.id)).map(edge => mapGraphqlOrder(edge.node))
+        : [];
+    const evaluatedOrders: any[] = order ? [order] : customerOrders;
+    const productDetails = rulesNeedProductDetails(activeRules)
+        ? await fetchProductDetails(admin, [...evaluatedOrders, ...customerOrders].flatMap(getOrderProductIds))
+        : undefined;
+    const orderHistory: OrderHistory | undefined = needsHistory ? buildOrderHistory(customerOrders, productDetails) : undefined;
+
+    // ── Production evaluation ────────────────────────────────────
+    // Only rules whose schedule is open: now for customer rules, the order's time for order rules
+    const now = new Date();
+    const orderTime = (o: any) => new Date(o.created_at || now);
+    const customerResult = customer
+        ? await calculateCustomerTags(customer, filterScheduledRules(activeRules, store.timezone, now), orderHistory)
+        : { tagsToAdd: [] as RuleTagChange[], tagsToRemove: [] as RuleTagChange[], suppressed: [] as RuleTagChange[] };
+    const orderResults = new Map<any, OrderRuleResult[]>(evaluatedOrders.map(o =>
+        [o, evaluateOrderRules(o, evalCustomer, filterScheduledRules(activeRules, store.timezone, orderTime(o)), customerTags, productDetails, orderHistory)]
+    ));
+    // Why a rule's schedule is closed at `at`, or null when it is open
+    const describeClosedSchedule = (rule: Rule, at: Date, when: string): string | null => {
+        const state = getScheduleState(rule, store.timezone, at);
+        if (state === "always" || state === "active") return null;
+        const reason = state === "scheduled" ? "had not started" : state === "ended" ? "had ended" : "was outside its weekdays / hours";
+        return `The rule's schedule (${describeSchedule(rule)}) ${reason} ${when}.`;
+    };
+    const [shopUsage, canTagCustomer, canTagOrder] = await Promise.all([
+        getUsageStatus(store.shop),
+        canPerformActions(store.shop, "customer_tag", 1),
+        canPerformActions(store.shop, "order_tag", 1)
+    ]);
+
+    // Higher-priority rule of the same exclusive group that matched or already holds its tag
+    const matchedRuleIds = new Set([
+        ...customerResult.tagsToAdd.map(t => t.ruleId),
+        ...[...orderResults.values()].flat().map(r => r.ruleId)
+    ]);
+    const findGroupWinner = (rule: Rule, tags: string[]) => activeRules
+        .filter(r => r.id !== rule.id && isSameExclusiveGroup(r, rule) && compareGroupPriority(r, rule) < 0)
+        .filter(r => matchedRuleIds.has(r.id) || findTemplateTags(r.targetTag, tags).length > 0)
+        .sort(compareGroupPriority)[0];
+
+    const explain = (rule: Rule): RuleExplanation => {
+        const base = { ruleId: rule.id, ruleName: rule.name, targetTag: rule.targetTag, targetEntity: rule.targetEntity, orderName: null };
+        const canTag = rule.targetEntity === "order" ? canTagOrder : canTagCustomer;
+        const limitDetail = `The monthly ${rule.targetEntity} tag limit of the ${store.planName} plan is used up.`;
+
+        // Customer rules (metric and purchase-history conditions)
+        if (!hasOrderConditions(rule.conditions)) {
+            const heldTags = findTemplateTags(rule.targetTag, customerTags);
+            if (!customer) {
+                return { ...base, heldTags, trace: null, status: "not_evaluated", detail: "Customer rules need a synced customer." };
+            }
+            const { trace } = evaluateRule(customer, rule, orderHistory);
+            const closed = describeClosedSchedule(rule, now, "right now");
+            if (closed) return { ...base, heldTags, trace, status: "outside_schedule", detail: `${closed} The rule neither adds nor removes its tag until it runs again.` };
+            const exclusion = findRuleExclusion(rule, toExclusionSubject(customer));
+            if (exclusion) return { ...base, heldTags, trace, status: "excluded", detail: `Excluded: ${exclusion}. The rule neither adds nor removes its tag for this customer.` };
+            const added = customerResult.tagsToAdd.find(t => t.ruleId === rule.id);
+            const removed = customerResult.tagsToRemove.find(t => t.ruleId === rule.id);
+            if (added) {
+                return canTag
+                    ? { ...base, heldTags, trace, status: "would_tag", detail: `Would add "${added.tag}" on the next evaluation.` }
+                    : { ...base, heldTags, trace, status: "limit_blocked", detail: limitDetail };
+            }
+            if (removed) {
+                const winner = trace?.matched ? findGroupWinner(rule, customerTags) : undefined;
+                return winner
+                    ? { ...base, heldTags, trace, status: "group_loss", detail: describeExclusiveGroupLoss(winner) }
+                    : { ...base, heldTags, trace, status: "would_remove", detail: `Would remove "${removed.tag}": the rule no longer matches.` };
+            }
+            if (heldTags.length > 0) return { ...base, heldTags, trace, status: "already_tagged", detail: `Already tagged "${heldTags.join(", ")}".` };
+            if (!trace) return { ...base, heldTags, trace, status: "not_evaluated", detail: "The rule's conditions could not be read." };
+            if (!trace.matched) return { ...base, heldTags, trace, status: "no_match", detail: "Not all required conditions pass." };
+            const winner = findGroupWinner(rule, customerTags);
+            return winner
+                ? { ...base, heldTags, trace, status: "group_loss", detail: describeExclusiveGroupLoss(winner) }
+                : { ...base, heldTags, trace, status: "no_match", detail: "The rule matches but its tag template renders no value for this customer." };
+        }
+
+        // Rules with order conditions: order tags need the order itself
+        if (!order && rule.targetEntity === "order") {
+            return { ...base, heldTags: [], trace: null, status: "not_evaluated", detail: "Order tags are applied per order. Look up an order name to explain this rule." };
+        }
+        if (evaluatedOrders.length === 0) {
+            return { ...base, heldTags: findTemplateTags(rule.targetTag, customerTags), trace: null, status: "not_evaluated", detail: "The customer has no orders to evaluate." };
+        }
+
+        // A customer qualifies through any of their orders: explain the first one that applies
+        // the tag, else the first one that matches, else the most recent order
+        const candidates = evaluatedOrders.map(o => ({
+            order: o,
+            applied: orderResults.get(o)!.find(r => r.ruleId === rule.id),
+            trace: traceOrderRule(o, evalCustomer, rule, productDetails, orderHistory)
+        }));
+        const chosen = candidates.find(c => c.applied) || candidates.find(c => c.trace?.matched) || candidates[0];
+        const tags = rule.targetEntity === "order" ? splitList(chosen.order.tags) : customerTags;
+        const heldTags = findTemplateTags(rule.targetTag, tags);
+        const explained = { ...base, heldTags, trace: chosen.trace, orderName: chosen.order.name || `Order ${chosen.order.id}` };
+
+        if (chosen.applied) {
+            return canTag
+                ? { ...explained, status: "would_tag", detail: `Would add "${chosen.applied.tag}" when ${explained.orderName} is processed.` }
+                : { ...explained, status: "limit_blocked", detail: limitDetail };
+        }
+        if (heldTags.length > 0) return { ...explained, status: "already_tagged", detail: `Already tagged "${heldTags.join(", ")}".` };
+        if (!chosen.trace) return { ...explained, status: "not_evaluated", detail: "The rule's conditions could not be read." };
+        if (!chosen.trace.matched) return { ...explained, status: "no_match", detail: "Not all required conditions pass." };
+        const closed = describeClosedSchedule(rule, orderTime(chosen.order), `when ${explained.orderName} was placed`);
+        if (closed) return { ...explained, status: "outside_schedule", detail: closed };
+        const exclusion = findRuleExclusion(rule, toExclusionSubject(evalCustomer, [...customerTags, ...splitList(chosen.order.tags)]));
+        if (exclusion) return { ...explained, status: "excluded", detail: `Excluded: ${exclusion}.` };
+        if (isPastExpiryWindow(chosen.order, rule)) {
+            return { ...explained, status: "outside_expiry", detail: `The order is older than the rule's ${rule.expireAfterDays}-day expiry window, so the tag would expire straight away.` };
+        }
+        const winner = findGroupWinner(rule, tags);
+        return winner
+            ? { ...explained, status: "group_loss", detail: describeExclusiveGroupLoss(winner) }
+            : { ...explained, status: "no_match", detail: "The rule matches but its tag template renders no value for this order." };
+    };
+
+    return {
+        kind: order ? "order" : "customer",
+        label: order ? (order.name || `Order ${order.id}`) : (customer?.email || `Customer ${customer?.id}`),
+        customerId: customer?.id ?? null,
+        orderId: order?.id ?? null,
+        customerValues: customer ? getCustomerConditionValues(customer) : null,
+        orderValues: order ? describeOrderValues(order, productDetails) : null,
+        usage: shopUsage,
+        rules: activeRules.map(explain),
+        notes
+    };
+}
@@ -0,0 +1,182 @@
+/**
+ * tag-mutations.server.ts
+ *
+ * Applies tagsAdd / tagsRemove to many customers or orders with few Admin API calls:
+ *
+ *   - up to BATCH_SIZE entities per call, as one document of aliased mutations
+ *     (add0: tagsAdd(...), remove0: tagsRemove(...), add1: ...)
+ *   - from BULK_MUTATION_THRESHOLD entities, two bulk mutations instead (one for the
+ *     adds, one for the removes)
+ *
+ * Every entity gets its own result, so callers log and count usage only for what was
+ * applied. tagsAdd and tagsRemove are idempotent, so whatever a failed call left without
+ * a result is simply retried: a rejected document one entity at a time, a failed bulk
+ * mutation as aliased documents.
+ */
+import { shopifyGraphql, ShopifyGraphqlError } from "./shopify-graphql.server";
+import type { ShopifyUserError } from "./shopify-graphql.server";
+import { runBulkMutation, BulkOperationError } from "./bulk-operations.server";
+import type { BulkProgress } from "./bulk-operations.server";
+
+export const TAGS_ADD_MUTATION = `#graphql
+    mutation tagsAdd($id: ID!, $tags: [String!]!) {
+        tagsAdd(id: $id, tags: $tags) {
+            node { id }
+            userErrors { field message }
+        }
+    }
+`;
+
+export const TAGS_REMOVE_MUTATION = `#graphql
+    mutation tagsRemove($id: ID!, $tags: [String!]!) {
+        tagsRemove(id: $id, tags: $tags) {
+            node { id }
+            userErrors { field message }
+        }
+    }
+`;
+
+export type TagMutation = {
+    // Customer or order GID
+    id: string;
+    add: string[];
+    remove: string[];
+};
+
+export type TagMutationResult = {
+    id: string;
+    // Whether the adds / removes were applied (true when there were none)
+    added: boolean;
+    removed: boolean;
+    userErrors: ShopifyUserError[];
+};
+
+type Part = "add" | "remove";
+
+// Two mutations per entity, ~10 cost points each: well below the 1,000 points one call may cost
+const BATCH_SIZE = 25;
+// From here the aliased calls would cost more than a full bucket (~2,000 points) and get
+// throttled; the 250-entity batches of syncs, cleanup and renames are above it
+export const BULK_MUTATION_THRESHOLD = 100;
+
+type RawPayload = { userErrors?: { field?: string[] | null; message: string }[] } | null | undefined;
+
+const toUserErrors = (payload: RawPayload): ShopifyUserError[] =>
+    (payload?.userErrors || []).map(e => ({ field: e.field ?? null, message: e.message }));
+
+// Results being filled in, with which parts got an answer from Shopify (applied or rejected)
+class TagMutationRun {
+    readonly results: TagMutationResult[];
+    private readonly answered: Record<Part, boolean[]>;
+
+    constructor(readonly mutations: TagMutation[]) {
+        this.results = mutations.map(m => ({ id: m.id, added: m.add.length === 0, removed: m.remove.length === 0, userErrors: [] }));
+        this.answered = {
+            add: mutations.map(m => m.add.length === 0),
+            remove: mutations.map(m => m.remove.length === 0)
+        };
+    }
+
+    needs(index: number, part: Part): boolean {
+        return !this.answered[part][index];
+    }
+
+    pending(): number[] {
+        return this.mutations.map((_, i) => i).filter(i => this.needs(i, "add") || this.needs(i, "remove"));
+    }
+
+    answer(index: number, part: Part, userErrors: ShopifyUserError[]) {
+        this.answered[part][index] = true;
+        if (userErrors.length === 0) this.results[index][part === "add" ? "added" : "removed"] = true;
+        else this.results[index].userErrors.push(...userErrors);
+    }
+}
+
+// One aliased document for the parts the entities at `indexes` still need. Aliases and
+// variables are numbered by position in the batch, so the same shape repeats across batches
+async function applyBatch(admin: any, run: TagMutationRun, indexes: number[]): Promise<void> {
+    const declarations: string[] = [];
+    const fields: string[] = [];
+    const variables: Record<string, unknown> = {};
+    const parts: { alias: string; index: number; part: Part }[] = [];
+
+    for (const [b, i] of indexes.entries()) {
+        const mutation = run.mutations[i];
+        declarations.push(`$id${b}: ID!`);
+        variables[`id${b}`] = mutation.id;
+        for (const part of ["add", "remove"] as const) {
+            if (!run.needs(i, part)) continue;
+            declarations.push(`$${part}${b}: [String!]!`);
+            variables[`${part}${b}`] = mutation[part];
+            fields.push(`${part}${b}: ${part === "add" ? "tagsAdd" : "tagsRemove"}(id: $id${b}, tags: $${part}${b}) { userErrors { field message } }`);
+            parts.push({ alias: `${part}${b}`, index: i, part });
+        }
+    }
+    if (parts.length === 0) return;
+
+    let data: Record<string, RawPayload>;
+    try {
+        data = await shopifyGraphql(admin, `mutation batchTags(${declarations.join(", ")}) {\n${fields.join("\n")}\n}`, variables);
+    } catch (err) {
+        if (!(err instanceof ShopifyGraphqlError)) throw err;
+        // Rejected as a whole (e.g. one unknown id): find out which entity, one at a time
+        if (indexes.length > 1) {
+            for (const i of indexes) await applyBatch(admin, run, [i]);
+            return;
+        }
+        for (const { index, part } of parts) run.answer(index, part, [{ field: null, message: err.message }]);
+        return;
+    }
+
+    for (const { alias, index, part } of parts) run.answer(index, part, toUserErrors(data?.[alias]));
+}
+
+// One bulk mutation for every entity that still needs `part`
+async function applyInBulk(admin: any, run: TagMutationRun, part: Part, onProgress?: BulkProgress): Promise<void> {
+    const indexes = run.mutations.map((_, i) => i).filter(i => run.needs(i, part));
+    if (indexes.length === 0) return;
+
+    const field = part === "add" ? "tagsAdd" : "tagsRemove";
+    await runBulkMutation(
+        admin,
+        part === "add" ? TAGS_ADD_MUTATION : TAGS_REMOVE_MUTATION,
+        indexes.map(i => ({ id: run.mutations[i].id, tags: run.mutations[i][part] })),
+        async (line, lineNumber) => {
+            // A line with errors but no payload is left for the aliased retry
+            const payload = line.data?.[field];
+            if (payload && indexes[lineNumber] !== undefined) run.answer(indexes[lineNumber], part, toUserErrors(payload));
+        },
+        onProgress
+    );
+}
+
+/**
+ * Apply every entity's tag adds and removes. Results are in the order of `mutations`;
+ * an entity with `userErrors` had at least one of its parts rejected. Errors other than
+ * Shopify's rejections (e.g. an expired session) are thrown. `onBulkProgress` is called
+ * on every poll of a bulk mutation, e.g. to keep a job's heartbeat fresh.
+ */
+export async function applyTagMutations(admin: any, mutations: TagMutation[], onBulkProgress?: BulkProgress): Promise<TagMutationResult[]> {
+    const run = new TagMutationRun(mutations);
+
+    if (run.pending().length >= BULK_MUTATION_THRESHOLD) {
+        try {
+            await applyInBulk(admin, run, "add", onBulkProgress);
+            await applyInBulk(admin, run, "remove", onBulkProgress);
+        } catch (err) {
+            if (!(err instanceof BulkOperationError || err instanceof ShopifyGraphqlError)) throw err;
+            console.warn("[TAG_MUTATIONS] Bulk mutation failed, continuing with batched calls:", err.message);
+        }
+    }
+
+    const pending = run.pending();
+    for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+        await applyBatch(admin, run, pending.slice(i, i + BATCH_SIZE));
+    }
+
+    const rejected = run.results.filter(r => r.userErrors.length > 0).length;
+    if (mutations.length > 1) {
+        console.log(`[TAG_MUTATIONS] Applied tag changes to ${mutations.length - rejected} of ${mutations.length} entities`);
+    }
+    return run.results;
+}
@@ -0,0 +1,162 @@
+/**
+ * tag-template.ts
+ *
+ * Dynamic Tag Templates (shared by server services and the rule builder — no
+ * server-only dependencies).
+ *
+ * A Rule.targetTag containing `{{…}}` placeholders is a template. It is rendered
+ * per customer / order from the same data the conditions were evaluated on:
+ *
+ *   City-{{shipping_city}}                      → "City-paris"
+ *   Country-{{country|upper}}                   → "Country-FR"
+ *   Spend-{{totalSpent|bucket:100,500,1000}}    → "Spend-500-1000"
+ *   Cohort-{{firstOrderDate|month}}             → "Cohort-2026-03"
+ *
+ * Placeholders name a customer field (totalSpent, country, emailDomain, …) or, for
+ * rules evaluated against an order, an order field (shipping_city, payment_method, …).
+ *
+ * Filters (chained with `|`):
+ *   bucket:a,b,c  - numeric range: "0-a", "a-b", "b-c" or "c+"
+ *   lower / upper / capitalize
+ *   year / month  - dates as "2026" / "2026-03"
+ *   default:text  - used when the value is empty
+ *
+ * A template renders to null when a placeholder has no value (and no default), so
+ * no tag is added. A template needs literal text besides its placeholders
+ * (validateTagTemplate), otherwise its pattern would match any tag.
+ *
+ * When the data changes, the previously rendered values are removed — but only tags
+ * the rule is known to have applied (findOwnedTags): matching the template pattern
+ * alone doesn't make a merchant's hand-made "City-…" tag the rule's.
+ */
+
+const PLACEHOLDER = /\{\{\s*([^}]+?)\s*\}\}/g;
+
+export function isTagTemplate(targetTag: string): boolean {
+    return /\{\{[^}]+\}\}/.test(targetTag);
+}
+
+// Tags each template rule has applied, lowercased, by rule id (see loadAppliedTemplateTags in rule.server.ts)
+export type AppliedTemplateTags = Map<string, Set<string>>;
+
+/**
+ * Why `targetTag` can't be used as a rule's tag, or null when it can. A template made only
+ * of placeholders (e.g. "{{country}}") is rejected: its pattern matches every tag.
+ */
+export function validateTagTemplate(targetTag: string): string | null {
+    if (!isTagTemplate(targetTag)) return null;
+    if (!targetTag.replace(PLACEHOLDER, "").trim()) {
+        return "A tag template needs fixed text besides its placeholders, e.g. Country-{{country}}.";
+    }
+    return null;
+}
+
+/**
+ * Field names referenced by a template's placeholders, e.g. ["totalSpent"].
+ */
+export function getTemplateFields(template: string): string[] {
+    return [...template.matchAll(PLACEHOLDER)].map(m => m[1].split("|")[0].trim());
+}
+
+function toDate(value: unknown): Date | null {
+    if (value === null || value === undefined || value === "") return null;
+    const date = value instanceof Date ? value : new Date(String(value));
+    return isNaN(date.getTime()) ? null : date;
+}
+
+function formatBucket(value: unknown, args: string): string | null {
+    const n = Number(value);
+    if (value === "" || value === null || value === undefined || isNaN(n)) return null;
+
+    const bounds = args.split(",").map(b => Number(b.trim())).filter(b => !isNaN(b)).sort((a, b) => a - b);
+    if (bounds.length === 0) return null;
+
+    if (n < bounds[0]) return `0-${bounds[0]}`;
+    for (let i = 0; i < bounds.length - 1; i++) {
+        if (n < bounds[i + 1]) return `${bounds[i]}-${bounds[i + 1]}`;
+    }
+    return `${bounds[bounds.length - 1]}+`;
+}
+
+function applyFilter(value: unknown, filter: string): unknown {
+    const [name, ...rest] = filter.split(":");
+    const args = rest.join(":");
+
+    switch (name.trim()) {
+        case "bucket": return formatBucket(value, args);
+        case "lower": return value === null || value === undefined ? value : String(value).toLowerCase();
+        case "upper": return value === null || value === undefined ? value : String(value).toUpperCase();
+        case "capitalize": {
+            if (value === null || value === undefined) return value;
+            const str = String(value);
+            return str.charAt(0).toUpperCase() + str.slice(1);
+        }
+        case "year": return toDate(value)?.toISOString().slice(0, 4) ?? null;
+        case "month": return toDate(value)?.toISOString().slice(0, 7) ?? null;
+        case "default": return value === null || value === undefined || value === "" ? args : value;
+        default: return value;
+    }
+}
+
+function formatValue(value: unknown): string {
+    if (value instanceof Date) return value.toISOString().slice(0, 10);
+    if (typeof value === "number") return String(Math.round(value * 100) / 100);
+    return String(value);
+}
+
+/**
+ * Render a template against evaluated data. Returns null when any placeholder
+ * is empty. Commas are stripped from values because Shopify uses them to split tags.
+ */
+export function renderTagTemplate(template: string, values: Record<string, unknown>): string | null {
+    let missing = false;
+
+    const rendered = template.replace(PLACEHOLDER, (_match, expression: string) => {
+        const [field, ...filters] = expression.split("|").map(part => part.trim());
+        let value: unknown = values[field];
+        for (const filter of filters) value = applyFilter(value, filter);
+
+        const text = value === null || value === undefined ? "" : formatValue(value).replace(/,/g, " ").trim();
+        if (!text) missing = true;
+        return text;
+    });
+
+    return missing ? null : rendered.trim();
+}
+
+/**
+ * True when `tag` could have been rendered from `template`: the literal parts
+ * match (case-insensitive) and every placeholder stands for a non-empty value.
+ */
+export function tagMatchesTemplate(template: string, tag: string): boolean {
+    // Placeholders only (rules saved before validateTagTemplate): would match anything
+    if (validateTagTemplate(template)) return false;
+    const pattern = template
+        .split(PLACEHOLDER)
+        // split() with a capture group alternates literal text and placeholder expressions
+        .map((part, i) => (i % 2 === 0 ? part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&") : ".+"))
+        .join("");
+    return new RegExp(`^${pattern}$`, "i").test(tag.trim());
+}
+
+/**
+ * Existing tags that carry a rule's target tag — the exact tag for a plain tag, every
+ * tag matching the pattern for a template. For display and "already tagged" checks;
+ * tags a rule may remove come from findOwnedTags.
+ */
+export function findTemplateTags(targetTag: string, tags: string[]): string[] {
+    return isTagTemplate(targetTag)
+        ? tags.filter(tag => tagMatchesTemplate(targetTag, tag))
+        : tags.filter(tag => tag === targetTag);
+}
+
+/**
+ * Existing tags a rule may remove as its own: the exact tag for a plain tag; for a
+ * template, the tags matching the pattern that are also in `applied`, the values the
+ * rule has applied before. Without `applied` a template owns nothing.
+ */
+export function findOwnedTags(targetTag: string, tags: string[], applied?: Set<string>): string[] {
+    if (!isTagTemplate(targetTag)) return tags.filter(tag => tag === targetTag);
+    if (!applied || applied.size === 0) return [];
+    return findTemplateTags(targetTag, tags).filter(tag => applied.has(tag.trim().toLowerCase()));
+}
@@ -2,6 +2,73 @@ import db from "../db.server";
 import { syncTagsToKlaviyo } from "./klaviyo.server";
 import { syncTagsToMailchimp } from "./mailchimp.server";
 import { dispatchWorkflowActions } from "./workflows.server";
+import { mirrorOrderTags } from "./order-store.server";
+import { shopifyGraphql, shopifyMutation, formatUserErrors } from "./shopify-graphql.server";
+import type { ShopifyUserError } from "./shopify-graphql.server";
+import { applyTagMutations, TAGS_ADD_MUTATION, TAGS_REMOVE_MUTATION } from "./tag-mutations.server";
+import { refundUsage } from "./usage.server";
+import type { BulkProgress } from "./bulk-operations.server";
+
+// A stored comma-separated tag list with tags added and removed, deduplicated
+function mergeTagList(tags: string | null, tagsToAdd: string[], tagsToRemove: string[]): string {
+  let currentTags = tags ? tags.split(",").map(t => t.trim()).filter(Boolean) : [];
+  if (tagsToAdd.length > 0) currentTags = [...currentTags, ...tagsToAdd];
+  if (tagsToRemove.length > 0) currentTags = currentTags.filter(t => !tagsToRemove.includes(t));
+  return Array.from(new Set(currentTags)).join(", ");
+}
+
+// Record the applied tags in the customer's note (Store.syncTagsToNotes)
+async function appendTagsToNote(admin: any, customerId: string, tagsToAdd: string[]) {
+  const timestamp = new Date().toISOString().split('T')[0];
+  const noteAppend = `\n[TagBot AI - ${timestamp}] Applied tags: ${tagsToAdd.join(", ")} due to rule matches.`;
+
+  // Fetch existing note first
+  try {
+    const customerData = await shopifyGraphql(
+      admin,
+      `#graphql
+        query getCustomerNote($id: ID!) {
+          customer(id: $id) {
+            note
+          }
+        }
+      `,
+      { id: `gid://shopify/Customer/${customerId}` }
+    );
+    const existingNote = customerData?.customer?.note || "";
+
+    const newNote = existingNote + noteAppend;
+
+    const updated = await shopifyMutation(
+      admin,
+      `#graphql
+        mutation customerUpdate($input: CustomerInput!) {
+          customerUpdate(input: $input) {
+            customer {
+              id
+            }
+            userErrors {
+              field
+              message
+            }
+          }
+        }
+      `,
+      {
+        input: {
+          id: `gid://shopify/Customer/${customerId}`,
+          note: newNote,
+        }
+      },
+      "customerUpdate"
+    );
+    if (!updated.ok) {
+      console.error("Error updating customer note", formatUserErrors(updated.userErrors));
+    }
+  } catch (err) {
+    console.error("Failed to sync customer note", err);
+  }
+}
 
 export async function manageCustomerTags(
   admin: any,
@@ -21,6 +88,7 @@ export async function manageCustomerTags(
   let mailchimpServerPrefix: string | null = null;
   let mailchimpListId: string | null = null;
   let isElitePlan = false;
+  let counted = false;
 
   const store = await db.store.findUnique({ where: { id: storeId } });
 
@@ -50,124 +118,42 @@ export async function manageCustomerTags(
           where: { id: storeId },
           data: { monthlyCustomerTagCount: { increment: tagsToAdd.length } }
         });
+        counted = true;
       }
     }
   }
 
+  const userErrors: ShopifyUserError[] = [];
+  // What Shopify applied: the notes, local cache and workflows only see these
+  let tagsAdded: string[] = [];
+  let tagsRemoved: string[] = [];
+
   // 1. Add Tags
   if (tagsToAdd.length > 0 && allowedToTag) {
-    const addResponse = await admin.graphql(
-      `#graphql
-        mutation tagsAdd($id: ID!, $tags: [String!]!) {
-          tagsAdd(id: $id, tags: $tags) {
-            node {
-              id
-            }
-            userErrors {
-              field
-              message
-            }
-          }
-        }
-      `,
-      {
-        variables: {
-          id: `gid://shopify/Customer/${customerId}`,
-          tags: tagsToAdd,
-        },
-      }
-    );
-    const addData = await addResponse.json();
-    if (addData.data?.tagsAdd?.userErrors?.length > 0) {
-      console.error("[TAG_SERVICE] Error adding tags:", addData.data.tagsAdd.userErrors);
+    const added = await shopifyMutation(admin, TAGS_ADD_MUTATION, { id: `gid://shopify/Customer/${customerId}`, tags: tagsToAdd }, "tagsAdd");
+    if (!added.ok) {
+      console.error("[TAG_SERVICE] Error adding tags:", formatUserErrors(added.userErrors));
+      userErrors.push(...added.userErrors);
+      if (counted && store) await refundUsage(store.shop, "customer_tag", tagsToAdd.length);
+    } else {
+      tagsAdded = tagsToAdd;
     }
   }
 
   // 2. Remove Tags
   if (tagsToRemove.length > 0) {
-    const removeResponse = await admin.graphql(
-      `#graphql
-        mutation tagsRemove($id: ID!, $tags: [String!]!) {
-          tagsRemove(id: $id, tags: $tags) {
-            node {
-              id
-            }
-            userErrors {
-              field
-              message
-            }
-          }
-        }
-      `,
-      {
-        variables: {
-          id: `gid://shopify/Customer/${customerId}`,
-          tags: tagsToRemove,
-        },
-      }
-    );
-    const removeData = await removeResponse.json();
-    if (removeData.data?.tagsRemove?.userErrors?.length > 0) {
-      console.error("[TAG_SERVICE] Error removing tags:", removeData.data.tagsRemove.userErrors);
+    const removed = await shopifyMutation(admin, TAGS_REMOVE_MUTATION, { id: `gid://shopify/Customer/${customerId}`, tags: tagsToRemove }, "tagsRemove");
+    if (!removed.ok) {
+      console.error("[TAG_SERVICE] Error removing tags:", formatUserErrors(removed.userErrors));
+      userErrors.push(...removed.userErrors);
+    } else {
+      tagsRemoved = tagsToRemove;
     }
   }
 
   // 3. Update Customer Notes
-  if (syncTagsToNotes && tagsToAdd.length > 0 && allowedToTag) {
-    const timestamp = new Date().toISOString().split('T')[0];
-    const noteAppend = `\n[TagBot AI - ${timestamp}] Applied tags: ${tagsToAdd.join(", ")} due to rule matches.`;
-
-    // Fetch existing note first
-    try {
-      const customerQuery = await admin.graphql(
-        `#graphql
-          query getCustomerNote($id: ID!) {
-            customer(id: $id) {
-              note
-            }
-          }
-        `,
-        {
-          variables: {
-            id: `gid://shopify/Customer/${customerId}`
-          }
-        }
-      );
-      const customerData = await customerQuery.json();
-      const existingNote = customerData.data?.customer?.note || "";
-
-      const newNote = existingNote + noteAppend;
-
-      const updateResponse = await admin.graphql(
-        `#graphql
-          mutation customerUpdate($input: CustomerInput!) {
-            customerUpdate(input: $input) {
-              customer {
-                id
-              }
-              userErrors {
-                field
-                message
-              }
-            }
-          }
-        `,
-        {
-          variables: {
-            input: {
-              id: `gid://shopify/Customer/${customerId}`,
-              note: newNote,
-            }
-          }
-        }
-      );
-      const updateData = await updateResponse.json();
-      if (updateData.data?.customerUpdate?.userErrors?.length > 0) {
-        console.error("Error updating customer note", updateData.data.customerUpdate.userErrors);
-      }
-    } catch (err) {
-      console.error("Failed to sync customer note", err);
-    }
+  if (syncTagsToNotes && tagsAdded.length > 0) {
+    await appendTagsToNote(admin, customerId, tagsAdded);
   }
 
   /* 
@@ -180,23 +166,16 @@ export async function manageCustomerTags(
   */
 
   // 5. Update Local Database Cache
-  if (allowedToTag && (tagsToAdd.length > 0 || tagsToRemove.length > 0)) {
+  if (tagsAdded.length > 0 || tagsRemoved.length > 0) {
     try {
       const dbCustomer = await db.customer.findUnique({
         where: { id_storeId: { id: customerId, storeId } }
       });
 
       if (dbCustomer) {
-        let currentTags = dbCustomer.tags ? dbCustomer.tags.split(",").map(t => t.trim()).filter(Boolean) : [];
-        if (tagsToAdd.length > 0) currentTags = [...currentTags, ...tagsToAdd];
-        if (tagsToRemove.length > 0) currentTags = currentTags.filter(t => !tagsToRemove.includes(t));
-
-        // Deduplicate before saving
-        currentTags = Array.from(new Set(currentTags));
-
         await db.customer.update({
           where: { id_storeId: { id: customerId, storeId } },
-          data: { tags: currentTags.join(", ") }
+          data: { tags: mergeTagList(dbCustomer.tags, tagsAdded, tagsRemoved) }
         });
       }
     } catch (err) {
@@ -205,12 +184,12 @@ export async function manageCustomerTags(
   }
 
   // ── Workflow Actions (Additive, fire-and-forget, never blocks tagging) ──
-  if (tagsToAdd.length > 0 || tagsToRemove.length > 0) {
-    dispatchWorkflowActions(storeId, customerId, tagsToAdd, tagsToRemove)
+  if (tagsAdded.length > 0 || tagsRemoved.length > 0) {
+    dispatchWorkflowActions(storeId, customerId, tagsAdded, tagsRemoved)
       .catch(err => console.error('[WORKFLOW] dispatch error:', err));
   }
 
-  return { success: true, tagsAdded: tagsToAdd, tagsRemoved: tagsToRemove };
+  return { success: userErrors.length === 0, tagsAdded, tagsRemoved, userErrors };
 }
 
 export async function manageOrderTags(
@@ -223,6 +202,7 @@ export async function manageOrderTags(
   isHistoricalSync = false // Historical syncs don't count against the monthly limit
 ) {
   let allowedToTag = true;
+  let counted = false;
 
   const store = await db.store.findUnique({ where: { id: storeId } });
 
@@ -243,69 +223,147 @@ export async function manageOrderTags(
           where: { id: storeId },
           data: { monthlyOrderTagCount: { increment: tagsToAdd.length } }
         });
+        counted = true;
       }
     }
   }
 
+  const userErrors: ShopifyUserError[] = [];
+  let tagsAdded: string[] = [];
+  let tagsRemoved: string[] = [];
+
   // 1. Add Tags
   if (tagsToAdd.length > 0 && allowedToTag) {
-    const addResponse = await admin.graphql(
-      `#graphql
-        mutation tagsAdd($id: ID!, $tags: [String!]!) {
-          tagsAdd(id: $id, tags: $tags) {
-            node {
-              id
-            }
-            userErrors {
-              field
-              message
-            }
-          }
-        }
-      `,
-      {
-        variables: {
-          id: `gid://shopify/Order/${orderId}`,
-          tags: tagsToAdd,
-        },
-      }
-    );
-    const addData = await addResponse.json();
-    if (addData.data?.tagsAdd?.userErrors?.length > 0) {
-      console.error("[TAG_SERVICE] Error adding order tags:", addData.data.tagsAdd.userErrors);
+    const added = await shopifyMutation(admin, TAGS_ADD_MUTATION, { id: `gid://shopify/Order/${orderId}`, tags: tagsToAdd }, "tagsAdd");
+    if (!added.ok) {
+      console.error("[TAG_SERVICE] Error adding order tags:", formatUserErrors(added.userErrors));
+      userErrors.push(...added.userErrors);
+      if (counted && store) await refundUsage(store.shop, "order_tag", tagsToAdd.length);
+    } else {
+      tagsAdded = tagsToAdd;
     }
   }
 
   // 2. Remove Tags
   if (tagsToRemove.length > 0) {
-    const removeResponse = await admin.graphql(
-      `#graphql
-        mutation tagsRemove($id: ID!, $tags: [String!]!) {
-          tagsRemove(id: $id, tags: $tags) {
-            node {
-              id
-            }
-            userErrors {
-              field
-              message
-            }
-          }
-        }
-      `,
-      {
-        variables: {
-          id: `gid://shopify/Order/${orderId}`,
-          tags: tagsToRemove,
-        },
-      }
-    );
-    const removeData = await removeResponse.json();
-    if (removeData.data?.tagsRemove?.userErrors?.length > 0) {
-      console.error("[TAG_SERVICE] Error removing order tags:", removeData.data.tagsRemove.userErrors);
+    const removed = await shopifyMutation(admin, TAGS_REMOVE_MUTATION, { id: `gid://shopify/Order/${orderId}`, tags: tagsToRemove }, "tagsRemove");
+    if (!removed.ok) {
+      console.error("[TAG_SERVICE] Error removing order tags:", formatUserErrors(removed.userErrors));
+      userErrors.push(...removed.userErrors);
+    } else {
+      tagsRemoved = tagsToRemove;
     }
   }
 
-  return { success: true, tagsAdded: tagsToAdd, tagsRemoved: tagsToRemove };
+  // Keep the local Order copy in step (used by exports and the order sync's "already tagged" check)
+  await mirrorOrderTags(storeId, orderId, tagsAdded, tagsRemoved);
+
+  return { success: userErrors.length === 0, tagsAdded, tagsRemoved, userErrors };
+}
+
+export type CustomerTagChange = { customerId: string; tagsToAdd: string[]; tagsToRemove: string[] };
+export type OrderTagChange = { orderId: string; tagsToAdd: string[]; tagsToRemove: string[] };
+
+// What was applied to one entity of a batch; tagsAdded / tagsRemoved are empty when Shopify rejected them
+export type TagChangeResult = {
+  id: string;
+  success: boolean;
+  tagsAdded: string[];
+  tagsRemoved: string[];
+  userErrors: ShopifyUserError[];
+};
+
+/**
+ * manageCustomerTags for many customers at once: the Shopify mutations are batched (see
+ * tag-mutations.server.ts) and the local cache is written in one transaction. Usage is
+ * the caller's to count, as for historical syncs; results are in the order of `changes`,
+ * so the caller can log and count only what was applied. `onBulkProgress` is passed on
+ * to applyTagMutations.
+ */
+export async function manageCustomerTagsBatch(
+  admin: any,
+  storeId: string,
+  changes: CustomerTagChange[],
+  onBulkProgress?: BulkProgress
+): Promise<TagChangeResult[]> {
+  const store = await db.store.findUnique({ where: { id: storeId }, select: { syncTagsToNotes: true } });
+
+  const applied = await applyTagMutations(admin, changes.map(c => ({
+    id: `gid://shopify/Customer/${c.customerId}`,
+    add: c.tagsToAdd,
+    remove: c.tagsToRemove
+  })), onBulkProgress);
+  const results: TagChangeResult[] = changes.map((c, i) => ({
+    id: c.customerId,
+    success: applied[i].userErrors.length === 0,
+    tagsAdded: applied[i].added ? c.tagsToAdd : [],
+    tagsRemoved: applied[i].removed ? c.tagsToRemove : [],
+    userErrors: applied[i].userErrors
+  }));
+  const changed = results.filter(r => r.tagsAdded.length > 0 || r.tagsRemoved.length > 0);
+
+  for (const r of results) {
+    if (!r.success) console.error(`[TAG_SERVICE] Error tagging customer ${r.id}:`, formatUserErrors(r.userErrors));
+  }
+
+  if (store?.syncTagsToNotes) {
+    for (const r of changed) {
+      if (r.tagsAdded.length > 0) await appendTagsToNote(admin, r.id, r.tagsAdded);
+    }
+  }
+
+  // Local Database Cache
+  try {
+    const rows = await db.customer.findMany({
+      where: { storeId, id: { in: changed.map(r => r.id) } },
+      select: { id: true, tags: true }
+    });
+    const tagsById = new Map(rows.map(row => [row.id, row.tags]));
+    await db.$transaction(changed.filter(r => tagsById.has(r.id)).map(r => db.customer.update({
+      where: { id_storeId: { id: r.id, storeId } },
+      data: { tags: mergeTagList(tagsById.get(r.id) ?? null, r.tagsAdded, r.tagsRemoved) }
+    })));
+  } catch (err) {
+    console.error("[TAG_SERVICE] Failed to update local customer tags cache:", err);
+  }
+
+  for (const r of changed) {
+    dispatchWorkflowActions(storeId, r.id, r.tagsAdded, r.tagsRemoved)
+      .catch(err => console.error('[WORKFLOW] dispatch error:', err));
+  }
+
+  return results;
+}
+
+/**
+ * manageOrderTags for many orders at once, batched like manageCustomerTagsBatch. The local
+ * Order copies get only the applied changes.
+ */
+export async function manageOrderTagsBatch(
+  admin: any,
+  storeId: string,
+  changes: OrderTagChange[],
+  onBulkProgress?: BulkProgress
+): Promise<TagChangeResult[]> {
+  const applied = await applyTagMutations(admin, changes.map(c => ({
+    id: `gid://shopify/Order/${c.orderId}`,
+    add: c.tagsToAdd,
+    remove: c.tagsToRemove
+  })), onBulkProgress);
+  const results: TagChangeResult[] = changes.map((c, i) => ({
+    id: c.orderId,
+    success: applied[i].userErrors.length === 0,
+    tagsAdded: applied[i].added ? c.tagsToAdd : [],
+    tagsRemoved: applied[i].removed ? c.tagsToRemove : [],
+    userErrors: applied[i].userErrors
+  }));
+
+  for (const r of results) {
+    if (!r.success) console.error(`[TAG_SERVICE] Error tagging order ${r.id}:`, formatUserErrors(r.userErrors));
+    await mirrorOrderTags(storeId, r.id, r.tagsAdded, r.tagsRemoved);
+  }
+
+  return results;
 }
 
 export async function sendVipDiscount(admin: any, storeId: string, customerId: string, email: string) {
@@ -319,7 +377,8 @@ export async function sendVipDiscount(admin: any, storeId: string, customerId: s
     const discountCode = `VIP-${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
 
     // 1. Create the Discount Code (this automatically creates the underlying rule logic in modern API)
-    const discountResponse = await admin.graphql(
+    const discount = await shopifyMutation(
+      admin,
       `#graphql
         mutation discountCodeBasicCreate($basicCodeDiscount: DiscountCodeBasicInput!) {
           discountCodeBasicCreate(basicCodeDiscount: $basicCodeDiscount) {
@@ -344,34 +403,31 @@ export async function sendVipDiscount(admin: any, storeId: string, customerId: s
         }
       `,
       {
-        variables: {
-          basicCodeDiscount: {
-            title: discountCode,
-            code: discountCode,
-            startsAt: new Date().toISOString(),
-            customerSelection: {
-              customers: {
-                add: [`gid://shopify/Customer/${customerId}`]
-              }
-            },
-            customerGets: {
-              value: {
-                percentage: 0.2
-              },
-              items: {
-                all: true
-              }
+        basicCodeDiscount: {
+          title: discountCode,
+          code: discountCode,
+          startsAt: new Date().toISOString(),
+          customerSelection: {
+            customers: {
+              add: [`gid://shopify/Customer/${customerId}`]
+            }
+          },
+          customerGets: {
+            value: {
+              percentage: 0.2
             },
-            appliesOncePerCustomer: true
-          }
+            items: {
+              all: true
+            }
+          },
+          appliesOncePerCustomer: true
         }
-      }
+      },
+      "discountCodeBasicCreate"
     );
 
-    const discountData = await discountResponse.json();
-
-    if (discountData.data?.discountCodeBasicCreate?.userErrors?.length > 0) {
-      console.error("[TAG_SERVICE] Failed to create discount code:", discountData.data.discountCodeBasicCreate.userErrors);
+    if (!discount.ok) {
+      console.error("[TAG_SERVICE] Failed to create discount code:", formatUserErrors(discount.userErrors));
       return false;
     }
 
@@ -171,3 +171,68 @@ export async function canPerformActions(shop: string, type: UsageType, count: nu
         throw err;
     }
 }
+
+const USAGE_FIELDS: Record<UsageType, "monthlyCustomerTagCount" | "monthlyOrderTagCount" | "monthlyRemovalCount"> = {
+    customer_tag: "monthlyCustomerTagCount",
+    order_tag: "monthlyOrderTagCount",
+    removal: "monthlyRemovalCount"
+};
+
+/**
+ * Like incrementUsage for a batch of actions, but grants as many as the remaining quota
+ * allows instead of all or nothing. Returns the number granted (already counted).
+ */
+export async function reserveUsage(shop: string, type: UsageType, wanted: number): Promise<number> {
+    if (wanted <= 0) return 0;
+    try {
+        await resetUsageIfMonthPassed(shop);
+
+        const store = await db.store.findUnique({
+            where: { shop },
+            select: {
+                planName: true,
+                monthlyCustomerTagCount: true,
+                monthlyOrderTagCount: true,
+                monthlyRemovalCount: true
+            }
+        });
+        if (!store) return 0;
+
+        const limits = PLAN_LIMITS[store.planName] || PLAN_LIMITS["Free"];
+        const currentCount = store[USAGE_FIELDS[type]];
+        const granted = Math.max(0, Math.min(wanted, limits[type] - currentCount));
+        if (granted === 0) return 0;
+
+        await db.store.update({
+            where: { shop },
+            data: { [USAGE_FIELDS[type]]: { increment: granted } }
+        });
+        return granted;
+    } catch (err: any) {
+        if (err.message?.includes("no such column")) {
+            console.error("[USAGE_SAFE] Skipping reserveUsage due to missing columns. Allowing actions.");
+            return wanted;
+        }
+        throw err;
+    }
+}
+
+/**
+ * Gives back usage counted for actions that Shopify then rejected, so only applied
+ * tags count against the plan. Never takes a counter below zero.
+ */
+export async function refundUsage(shop: string, type: UsageType, amount: number): Promise<void> {
+    if (amount <= 0) return;
+    try {
+        await db.store.updateMany({
+            where: { shop, [USAGE_FIELDS[type]]: { gte: amount } },
+            data: { [USAGE_FIELDS[type]]: { decrement: amount } }
+        });
+    } catch (err: any) {
+        if (err.message?.includes("no such column")) {
+            console.error("[USAGE_SAFE] Skipping refundUsage due to missing columns.");
+            return;
+        }
+        throw err;
+    }
+}
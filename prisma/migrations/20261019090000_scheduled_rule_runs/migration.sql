@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "ScheduledRuleRun" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'RUNNING',
+    "rulesEvaluated" INTEGER NOT NULL DEFAULT 0,
+    "customersEvaluated" INTEGER NOT NULL DEFAULT 0,
+    "tagsAdded" INTEGER NOT NULL DEFAULT 0,
+    "tagsRemoved" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" DATETIME,
+    CONSTRAINT "ScheduledRuleRun_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ScheduledRuleRun_storeId_startedAt_idx" ON "ScheduledRuleRun"("storeId", "startedAt");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Customer" ADD COLUMN "emailDomain" TEXT;
+ALTER TABLE "Customer" ADD COLUMN "shopifyCreatedAt" DATETIME;
+ALTER TABLE "Customer" ADD COLUMN "firstOrderDate" DATETIME;
+ALTER TABLE "Customer" ADD COLUMN "averageOrderValue" REAL NOT NULL DEFAULT 0;
+ALTER TABLE "Customer" ADD COLUMN "country" TEXT;
+ALTER TABLE "Customer" ADD COLUMN "province" TEXT;
+ALTER TABLE "Customer" ADD COLUMN "acceptsMarketing" BOOLEAN;
+ALTER TABLE "Customer" ADD COLUMN "locale" TEXT;
@@ -0,0 +1,57 @@
+-- AlterTable
+ALTER TABLE "Store" ADD COLUMN "ordersBackfilledAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "Order" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "customerId" TEXT,
+    "name" TEXT,
+    "email" TEXT,
+    "processedAt" DATETIME NOT NULL,
+    "subtotalPrice" REAL NOT NULL DEFAULT 0,
+    "totalPrice" REAL NOT NULL DEFAULT 0,
+    "totalDiscounts" REAL NOT NULL DEFAULT 0,
+    "currency" TEXT,
+    "financialStatus" TEXT,
+    "discountCodes" TEXT,
+    "paymentGateways" TEXT,
+    "sourceName" TEXT,
+    "referringSite" TEXT,
+    "landingSite" TEXT,
+    "shippingCity" TEXT,
+    "shippingCountry" TEXT,
+    "tags" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Order_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "OrderLineItem" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderId" TEXT NOT NULL,
+    "productId" TEXT,
+    "title" TEXT,
+    "sku" TEXT,
+    "vendor" TEXT,
+    "quantity" INTEGER NOT NULL DEFAULT 0,
+    "price" REAL NOT NULL DEFAULT 0,
+    "properties" TEXT,
+    CONSTRAINT "OrderLineItem_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_id_storeId_key" ON "Order"("id", "storeId");
+
+-- CreateIndex
+CREATE INDEX "Order_storeId_customerId_idx" ON "Order"("storeId", "customerId");
+
+-- CreateIndex
+CREATE INDEX "Order_storeId_processedAt_idx" ON "Order"("storeId", "processedAt");
+
+-- CreateIndex
+CREATE INDEX "OrderLineItem_orderId_idx" ON "OrderLineItem"("orderId");
+
+-- CreateIndex
+CREATE INDEX "OrderLineItem_productId_idx" ON "OrderLineItem"("productId");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Rule" ADD COLUMN "exclusiveGroup" TEXT;
+ALTER TABLE "Rule" ADD COLUMN "groupPriority" INTEGER NOT NULL DEFAULT 0;
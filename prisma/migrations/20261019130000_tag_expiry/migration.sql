@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Rule" ADD COLUMN "expireAfterDays" INTEGER;
+
+-- CreateTable
+CREATE TABLE "TagExpiry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "storeId" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL DEFAULT '',
+    "tag" TEXT NOT NULL,
+    "qualifiedAt" DATETIME NOT NULL,
+    "expiresAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "TagExpiry_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TagExpiry_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "Rule" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TagExpiry_ruleId_customerId_orderId_tag_key" ON "TagExpiry"("ruleId", "customerId", "orderId", "tag");
+
+-- CreateIndex
+CREATE INDEX "TagExpiry_storeId_customerId_idx" ON "TagExpiry"("storeId", "customerId");
+
+-- CreateIndex
+CREATE INDEX "TagExpiry_expiresAt_idx" ON "TagExpiry"("expiresAt");
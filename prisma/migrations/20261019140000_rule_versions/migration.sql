@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Rule" ADD COLUMN "currentVersionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "RuleVersion" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "ruleId" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "conditions" TEXT NOT NULL,
+    "matchType" TEXT NOT NULL,
+    "targetTag" TEXT NOT NULL,
+    "targetEntity" TEXT NOT NULL,
+    "exclusiveGroup" TEXT,
+    "groupPriority" INTEGER NOT NULL DEFAULT 0,
+    "expireAfterDays" INTEGER,
+    "author" TEXT,
+    "note" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "RuleVersion_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "Rule" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RuleVersion_ruleId_version_key" ON "RuleVersion"("ruleId", "version");
+
+-- AlterTable
+ALTER TABLE "ActivityLog" ADD COLUMN "ruleVersionId" TEXT REFERENCES "RuleVersion" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
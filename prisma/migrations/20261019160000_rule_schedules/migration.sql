@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Store" ADD COLUMN "timezone" TEXT;
+
+-- AlterTable
+ALTER TABLE "Rule" ADD COLUMN "scheduleStartDate" TEXT;
+ALTER TABLE "Rule" ADD COLUMN "scheduleEndDate" TEXT;
+ALTER TABLE "Rule" ADD COLUMN "scheduleDays" TEXT;
+ALTER TABLE "Rule" ADD COLUMN "scheduleStartHour" INTEGER;
+ALTER TABLE "Rule" ADD COLUMN "scheduleEndHour" INTEGER;
+
+-- AlterTable
+ALTER TABLE "RuleVersion" ADD COLUMN "scheduleStartDate" TEXT;
+ALTER TABLE "RuleVersion" ADD COLUMN "scheduleEndDate" TEXT;
+ALTER TABLE "RuleVersion" ADD COLUMN "scheduleDays" TEXT;
+ALTER TABLE "RuleVersion" ADD COLUMN "scheduleStartHour" INTEGER;
+ALTER TABLE "RuleVersion" ADD COLUMN "scheduleEndHour" INTEGER;
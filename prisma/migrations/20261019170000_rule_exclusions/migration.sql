@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Rule" ADD COLUMN "excludeCustomerIds" TEXT;
+ALTER TABLE "Rule" ADD COLUMN "excludeEmailPatterns" TEXT;
+ALTER TABLE "Rule" ADD COLUMN "excludeTags" TEXT;
+
+-- AlterTable
+ALTER TABLE "RuleVersion" ADD COLUMN "excludeCustomerIds" TEXT;
+ALTER TABLE "RuleVersion" ADD COLUMN "excludeEmailPatterns" TEXT;
+ALTER TABLE "RuleVersion" ADD COLUMN "excludeTags" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN "progress" TEXT;
+ALTER TABLE "Job" ADD COLUMN "pauseRequested" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "TagExpiry" ADD COLUMN "attempts" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "TagExpiry" ADD COLUMN "nextAttemptAt" DATETIME;
@@ -0,0 +1,12 @@
+/**
+ * Local background job worker (see app/services/jobs.server.ts).
+ *
+ *   npm run worker
+ *
+ * Polls the Job table and runs queued syncs and marketing pushes until stopped with
+ * Ctrl+C. Needs the same environment as the app (database, SHOPIFY_* variables).
+ */
+import { runJobWorker } from "../app/services/jobs.server";
+
+console.log("[JOBS] Local worker started, waiting for jobs…");
+await runJobWorker({ untilIdle: false });